@@ -0,0 +1,314 @@
+/**
+ * Platform Sandbox Fixtures
+ * Deterministic accounts, media and metrics served by the sandbox server
+ */
+
+export const GOOGLE_AUTH_CODE = 'sandbox-google-code';
+export const FACEBOOK_AUTH_CODE = 'sandbox-facebook-code';
+
+export const googleToken = (grantType: string | null) => ({
+    access_token: 'sandbox-youtube-token',
+    // Google only returns a refresh token on the first exchange
+    ...(grantType === 'authorization_code' ? { refresh_token: 'sandbox-youtube-refresh-token' } : {}),
+    expires_in: 3600,
+    token_type: 'Bearer',
+    scope: 'https://www.googleapis.com/auth/youtube.upload',
+});
+
+export const facebookToken = {
+    access_token: 'sandbox-facebook-token',
+    token_type: 'bearer',
+    expires_in: 60 * 24 * 60 * 60,
+};
+
+// =============================================================================
+// YOUTUBE
+// =============================================================================
+
+const thumbnails = (id: string) => ({
+    default: { url: `https://i.ytimg.com/vi/${id}/default.jpg`, width: 120, height: 90 },
+    medium: { url: `https://i.ytimg.com/vi/${id}/mqdefault.jpg`, width: 320, height: 180 },
+    high: { url: `https://i.ytimg.com/vi/${id}/hqdefault.jpg`, width: 480, height: 360 },
+});
+
+export const channel = {
+    kind: 'youtube#channel',
+    id: 'UCsandbox0000000000000001',
+    snippet: {
+        title: 'Sandbox Channel',
+        description: 'Fixture channel served by the platform sandbox',
+        thumbnails: thumbnails('sandbox-channel'),
+    },
+    statistics: {
+        viewCount: '48210',
+        subscriberCount: '1280',
+        videoCount: '12',
+    },
+};
+
+export const videoCategories = [
+    { id: '10', snippet: { title: 'Music', assignable: true } },
+    { id: '20', snippet: { title: 'Gaming', assignable: true } },
+    { id: '22', snippet: { title: 'People & Blogs', assignable: true } },
+    { id: '24', snippet: { title: 'Entertainment', assignable: true } },
+    { id: '27', snippet: { title: 'Education', assignable: true } },
+    { id: '18', snippet: { title: 'Short Movies', assignable: false } },
+];
+
+export const playlists = [
+    { id: 'PLsandbox0000000001', snippet: { title: 'Sandbox Uploads' } },
+    { id: 'PLsandbox0000000002', snippet: { title: 'Sandbox Highlights' } },
+];
+
+const TRACKS = [
+    { title: 'Sandbox Artist - First Light (Official Video)', duration: 'PT3M32S', views: 1520340 },
+    { title: 'Sandbox Artist - Night Drive (Lyric Video)', duration: 'PT4M05S', views: 842113 },
+    { title: 'Fixture Band - Static Hearts (Official Audio)', duration: 'PT2M58S', views: 390221 },
+    { title: 'Fixture Band - Offline Mode (Live)', duration: 'PT5M12S', views: 120987 },
+    { title: 'Mock Orchestra - Deterministic Suite No. 1', duration: 'PT7M44S', views: 56012 },
+];
+
+const trackId = (index: number) => `sandboxvid${index.toString().padStart(2, '0')}`;
+
+const trackSnippet = (index: number) => ({
+    title: TRACKS[index].title,
+    channelTitle: TRACKS[index].title.split(' - ')[0],
+    description: 'Fixture track served by the platform sandbox',
+    publishedAt: new Date(Date.UTC(2024, 0, 1 + index * 7)).toISOString(),
+    thumbnails: thumbnails(trackId(index)),
+    tags: ['sandbox', 'music'],
+});
+
+export const searchResults = (maxResults: number) =>
+    TRACKS.slice(0, maxResults).map((_, index) => ({
+        kind: 'youtube#searchResult',
+        id: { kind: 'youtube#video', videoId: trackId(index) },
+        snippet: trackSnippet(index),
+    }));
+
+export const playlistItems = (maxResults: number) =>
+    TRACKS.slice(0, maxResults).map((_, index) => ({
+        id: `sandbox-playlist-item-${index}`,
+        snippet: { ...trackSnippet(index), resourceId: { kind: 'youtube#video', videoId: trackId(index) } },
+    }));
+
+/**
+ * videos.list for any ids; fixture tracks keep their data, other ids get stable made-up stats
+ */
+export const videos = (ids: string[]) =>
+    ids.map(id => {
+        const index = TRACKS.findIndex((_, i) => trackId(i) === id);
+        const track = TRACKS[index];
+
+        return {
+            kind: 'youtube#video',
+            id,
+            snippet: track ? trackSnippet(index) : { title: `Sandbox video ${id}`, thumbnails: thumbnails(id) },
+            contentDetails: { duration: track?.duration || 'PT1M' },
+            statistics: {
+                viewCount: String(track?.views ?? metricValue(id, 'views')),
+                likeCount: String(metricValue(id, 'likes')),
+                commentCount: String(metricValue(id, 'comments')),
+            },
+        };
+    });
+
+/**
+ * Analytics report columns: views, likes, dislikes, comments, shares, estimatedMinutesWatched, averageViewDuration
+ */
+export const analyticsReport = (videoId: string) => ({
+    kind: 'youtubeAnalytics#resultTable',
+    columnHeaders: ['video', 'views', 'likes', 'dislikes', 'comments', 'shares', 'estimatedMinutesWatched', 'averageViewDuration']
+        .map(name => ({ name, columnType: name === 'video' ? 'DIMENSION' : 'METRIC', dataType: name === 'video' ? 'STRING' : 'INTEGER' })),
+    rows: [[
+        videoId,
+        metricValue(videoId, 'views'),
+        metricValue(videoId, 'likes'),
+        metricValue(videoId, 'dislikes') % 20,
+        metricValue(videoId, 'comments'),
+        metricValue(videoId, 'shares'),
+        metricValue(videoId, 'minutes'),
+        metricValue(videoId, 'duration') % 180,
+    ]],
+});
+
+const COMMENTERS = ['Ana Ribeiro', 'Marcus Lee', 'Priya Shah', 'Tom Becker', 'Yuki Tanaka'];
+const COMMENT_TEXTS = [
+    'This is the best one yet!',
+    'What camera did you use for this?',
+    'Can you do a tutorial on the intro?',
+    'Been waiting all week for this',
+    'The audio is a bit quiet in the middle',
+];
+
+/**
+ * Two threads per fixture track; the first one on each video has a reply from the channel
+ */
+export const commentThreads = () =>
+    TRACKS.flatMap((_, index) => [0, 1].map(n => {
+        const videoId = trackId(index);
+        const commenter = (index + n) % COMMENTERS.length;
+        const id = `Ugsandbox${index}${n}AaABAg`;
+        const comment = (commentId: string, author: string, authorChannelId: string, text: string, hours: number) => ({
+            id: commentId,
+            snippet: {
+                videoId,
+                authorDisplayName: author,
+                authorProfileImageUrl: `https://yt3.ggpht.com/sandbox/${authorChannelId}.jpg`,
+                authorChannelId: { value: authorChannelId },
+                textOriginal: text,
+                likeCount: metricValue(commentId, 'likes') % 40,
+                publishedAt: new Date(Date.UTC(2024, 6, 1 + index, 12 - hours)).toISOString(),
+                ...(commentId !== id && { parentId: id }),
+            },
+        });
+
+        return {
+            id,
+            snippet: {
+                videoId,
+                topLevelComment: comment(id, COMMENTERS[commenter], `UCfan${commenter}`, COMMENT_TEXTS[commenter], 2),
+            },
+            ...(n === 0 && {
+                replies: {
+                    comments: [comment(`${id}.sandboxreply`, channel.snippet.title, channel.id, 'Thank you so much!', 1)],
+                },
+            }),
+        };
+    }));
+
+// =============================================================================
+// GRAPH (FACEBOOK / INSTAGRAM)
+// =============================================================================
+
+export const facebookUser = { id: '100000000000001', name: 'Sandbox User' };
+
+export const instagramAccount = {
+    id: '17841400000000001',
+    username: 'sandbox.creator',
+    name: 'Sandbox Creator',
+    profile_picture_url: 'https://scontent.cdninstagram.com/sandbox/profile.jpg',
+    followers_count: 2450,
+    media_count: 36,
+};
+
+export const pages = [
+    {
+        id: '200000000000001',
+        name: 'Sandbox Page',
+        access_token: 'sandbox-page-token',
+        category: 'Musician/Band',
+        picture: { data: { url: 'https://scontent.xx.fbcdn.net/sandbox/page.jpg' } },
+        instagram_business_account: instagramAccount,
+    },
+    {
+        id: '200000000000002',
+        name: 'Sandbox Page Without Instagram',
+        access_token: 'sandbox-page-token-2',
+        category: 'Community',
+        picture: { data: { url: 'https://scontent.xx.fbcdn.net/sandbox/page-2.jpg' } },
+    },
+];
+
+export const recentMedia = Array.from({ length: 10 }, (_, index) => {
+    const id = `179000000000000${index.toString().padStart(2, '0')}`;
+    return {
+        id,
+        media_type: index % 3 === 0 ? 'VIDEO' : 'IMAGE',
+        media_url: `https://scontent.cdninstagram.com/sandbox/${id}.jpg`,
+        permalink: `https://www.instagram.com/p/sandbox${index}/`,
+        caption: `Sandbox post ${index + 1}`,
+        timestamp: new Date(Date.UTC(2024, 5, 1 + index)).toISOString(),
+        like_count: metricValue(id, 'likes'),
+        comments_count: metricValue(id, 'comments') % 50,
+    };
+});
+
+export const recentPosts = recentMedia.map(media => ({
+    id: `${pages[0].id}_${media.id}`,
+    message: media.caption,
+    created_time: media.timestamp,
+}));
+
+export const publishedPosts = recentPosts.map((post, index) => ({
+    ...post,
+    permalink_url: `https://www.facebook.com/${post.id}`,
+    comments: { data: [], summary: { total_count: index < 3 ? 3 : 0 } },
+}));
+
+/**
+ * A page post's comments as filter=stream returns them: two from fans, then the page's reply to the first
+ */
+export const postComments = (postId: string) => {
+    const created = (minutes: number) => new Date(Date.UTC(2024, 6, 1, 12, minutes)).toISOString();
+    return [
+        { id: `${postId}_c2`, message: COMMENT_TEXTS[1], from: { id: '100000000000012', name: COMMENTERS[1] }, created_time: created(20), like_count: 0, user_likes: false, is_hidden: false },
+        { id: `${postId}_c1`, message: COMMENT_TEXTS[0], from: { id: '100000000000011', name: COMMENTERS[0] }, created_time: created(10), like_count: 4, user_likes: true, is_hidden: false },
+        { id: `${postId}_r1`, message: 'Glad you liked it!', from: { id: pages[0].id, name: pages[0].name }, created_time: created(15), like_count: 1, user_likes: false, is_hidden: false, parent: { id: `${postId}_c1` } },
+    ];
+};
+
+/**
+ * An Instagram post's comments with their replies nested, as the comments edge returns them
+ */
+export const mediaComments = (mediaId: string) => {
+    const timestamp = (minutes: number) => new Date(Date.UTC(2024, 6, 2, 9, minutes)).toISOString();
+    return [
+        { id: `${mediaId}1`, text: COMMENT_TEXTS[2], username: 'priya.makes', from: { id: '17841400000000012', username: 'priya.makes' }, timestamp: timestamp(30), like_count: 2, hidden: false },
+        {
+            id: `${mediaId}2`, text: COMMENT_TEXTS[3], username: 'tombecker', from: { id: '17841400000000013', username: 'tombecker' }, timestamp: timestamp(10), like_count: 5, hidden: false,
+            replies: {
+                data: [{ id: `${mediaId}3`, text: 'Thanks for waiting!', username: instagramAccount.username, from: { id: instagramAccount.id, username: instagramAccount.username }, timestamp: timestamp(20), like_count: 0, hidden: false }],
+            },
+        },
+    ];
+};
+
+/**
+ * Graph insights response for the requested metric names
+ */
+export const insights = (objectId: string, metrics: string[]) => ({
+    data: metrics.map(name => ({
+        name,
+        period: 'lifetime',
+        values: [{ value: metricValue(objectId, name) }],
+    })),
+});
+
+// =============================================================================
+// AI
+// =============================================================================
+
+/**
+ * Text for a prompt: a comma-separated tag list when tags are asked for, a numbered list otherwise
+ */
+export const completion = (prompt: string): string => {
+    const topic = prompt.match(/title:\s*(.+)/i)?.[1]?.trim().slice(0, 40) || 'your video';
+
+    if (/comma-separated/i.test(prompt)) {
+        return ['sandbox', 'testing', 'creator', 'music', 'behindthescenes', 'tutorial', 'vlog', 'shorts']
+            .join(', ');
+    }
+
+    return Array.from({ length: 10 }, (_, index) => `${index + 1}. Sandbox suggestion ${index + 1} for ${topic}`)
+        .join('\n');
+};
+
+// 1x1 transparent PNG
+export const IMAGE_PNG_BASE64 =
+    'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * A stable number for an object and metric, so repeated runs show the same figures
+ */
+export function metricValue(objectId: string, metric: string): number {
+    let hash = 0;
+    for (const char of `${objectId}:${metric}`) {
+        hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+    }
+    return 100 + (hash % 9900);
+}
@@ -0,0 +1,505 @@
+/**
+ * Platform Sandbox Server
+ * Dev-server middleware standing in for YouTube, the Graph API, OpenAI and Gemini
+ *
+ * Requests arrive as <base>/<host><path> (see src/lib/api/sandbox.ts) and are answered
+ * with deterministic fixtures. Failures are injected from the plugin options or at
+ * runtime through <base>/_failures:
+ *   GET    -> the active rules
+ *   POST   -> add a rule or an array of rules
+ *   DELETE -> remove all rules
+ */
+
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { Plugin } from 'vite';
+import { SANDBOX_HOSTS } from '../src/lib/api/sandbox';
+import * as fixtures from './fixtures';
+
+export type SandboxFailureKind = 'auth' | 'rateLimit' | 'quota' | 'policy' | 'server' | 'timeout';
+
+export interface SandboxFailure {
+    /** Substring of `<host><path>`, e.g. 'media_publish' or 'upload/youtube/v3/videos' */
+    match: string;
+    /** Only fail this method; any method when omitted */
+    method?: string;
+    kind: SandboxFailureKind;
+    /** Fail this many matching requests, then recover; every one when omitted */
+    times?: number;
+}
+
+export interface PlatformSandboxOptions {
+    /** Mount path on the dev server */
+    base?: string;
+    failures?: SandboxFailure[];
+    /** Milliseconds added to every response */
+    latency?: number;
+}
+
+interface SandboxRequest {
+    method: string;
+    host: string;
+    path: string;
+    query: URLSearchParams;
+    headers: IncomingMessage['headers'];
+    body: Buffer;
+    /** Absolute URL of the sandbox, for Location headers */
+    origin: string;
+}
+
+interface SandboxResponse {
+    status: number;
+    body?: unknown;
+    headers?: Record<string, string>;
+}
+
+type ErrorFamily = 'google' | 'graph' | 'openai';
+
+// Bytes Graph asks for per transfer phase
+const GRAPH_CHUNK_SIZE = 4 * 1024 * 1024;
+
+// A 'timeout' failure holds the request this long before giving up on the client
+const HANG_MS = 5 * 60 * 1000;
+
+const json = (body: unknown, status = 200, headers?: Record<string, string>): SandboxResponse =>
+    ({ status, body, headers });
+
+const redirect = (url: string): SandboxResponse => ({ status: 302, headers: { Location: url } });
+
+const getErrorFamily = (host: string): ErrorFamily => {
+    if (host.includes('facebook.com')) return 'graph';
+    if (host === 'api.openai.com') return 'openai';
+    return 'google';
+};
+
+/**
+ * The error each platform returns for a failure kind, in its own body format
+ */
+function toErrorResponse(kind: Exclude<SandboxFailureKind, 'timeout'>, request: SandboxRequest): SandboxResponse {
+    const family = getErrorFamily(request.host);
+
+    // Token endpoints report a dead grant the OAuth way
+    if (kind === 'auth' && (request.path.endsWith('/token') || request.path.endsWith('/oauth/access_token'))) {
+        return json({ error: 'invalid_grant', error_description: 'Token has been expired or revoked.' }, 400);
+    }
+
+    if (family === 'graph') {
+        const errors = {
+            auth: { code: 190, type: 'OAuthException', message: 'Error validating access token: Session has expired.' },
+            rateLimit: { code: 4, type: 'OAuthException', message: 'Application request limit reached' },
+            quota: { code: 32, type: 'OAuthException', message: 'Page request limit reached' },
+            policy: {
+                code: 368,
+                type: 'OAuthException',
+                message: 'The action attempted has been deemed abusive or is otherwise disallowed',
+                error_user_msg: 'This content goes against our Community Standards.',
+            },
+            server: { code: 2, type: 'OAuthException', message: 'An unexpected error has occurred.', is_transient: true },
+        };
+        return json({ error: errors[kind] }, kind === 'server' ? 500 : 400);
+    }
+
+    if (family === 'openai') {
+        const errors = {
+            auth: [401, 'invalid_api_key', 'Incorrect API key provided.'],
+            rateLimit: [429, 'rate_limit_exceeded', 'Rate limit reached for requests.'],
+            quota: [429, 'insufficient_quota', 'You exceeded your current quota.'],
+            policy: [400, 'content_policy_violation', 'Your request was rejected by the safety system.'],
+            server: [500, 'server_error', 'The server had an error while processing your request.'],
+        } as const;
+        const [status, code, message] = errors[kind];
+        return json({ error: { message, type: code, code } }, status, kind === 'rateLimit' ? { 'Retry-After': '2' } : undefined);
+    }
+
+    const errors = {
+        auth: [401, 'authError', 'UNAUTHENTICATED', 'Request had invalid authentication credentials.'],
+        rateLimit: [429, 'rateLimitExceeded', 'RESOURCE_EXHAUSTED', 'Too many requests.'],
+        quota: [403, 'quotaExceeded', 'PERMISSION_DENIED', 'The request cannot be completed because you have exceeded your quota.'],
+        policy: [403, 'forbidden', 'PERMISSION_DENIED', 'The request is not allowed by the platform policies.'],
+        server: [503, 'backendError', 'UNAVAILABLE', 'Backend Error'],
+    } as const;
+    const [status, reason, statusText, message] = errors[kind];
+    return json(
+        { error: { code: status, message, status: statusText, errors: [{ reason, message }] } },
+        status,
+        kind === 'rateLimit' ? { 'Retry-After': '2' } : undefined
+    );
+}
+
+/**
+ * Parse a multipart or urlencoded body the way a browser form post arrives
+ */
+const readForm = (request: SandboxRequest): Promise<FormData> =>
+    new Request(`${request.origin}/form`, {
+        method: 'POST',
+        headers: { 'Content-Type': String(request.headers['content-type'] || '') },
+        body: request.body,
+    }).formData();
+
+const readJson = (request: SandboxRequest): Record<string, unknown> => {
+    try {
+        return JSON.parse(request.body.toString('utf8'));
+    } catch {
+        return {};
+    }
+};
+
+const pickFields = (object: Record<string, unknown>, fields: string | null): Record<string, unknown> => {
+    if (!fields) return object;
+
+    // `instagram_business_account{id,username}` selects a whole nested object here
+    const names = fields.replace(/\{[^}]*\}/g, '').split(',').map(name => name.trim());
+    return Object.fromEntries(
+        Object.entries(object).filter(([name]) => name === 'id' || names.includes(name))
+    );
+};
+
+/**
+ * Sandbox state: upload sessions, created media and failure rules.
+ * Ids are sequential, so the same steps give the same ids on every run.
+ */
+function createSandbox(options: PlatformSandboxOptions) {
+    let failures: SandboxFailure[] = [...(options.failures || [])];
+    let sequence = 0;
+    const nextId = (prefix: string) => `${prefix}${++sequence}`;
+
+    const youtubeUploads = new Map<string, { size: number; received: number; metadata: Record<string, unknown> }>();
+    const graphUploads = new Map<string, { size: number; received: number; videoId: string }>();
+    const instagramContainers = new Map<string, string>(); // container id -> media_type
+    const instagramMedia = new Map<string, string>(); // media id -> media_product_type
+
+    const takeFailure = (request: SandboxRequest): SandboxFailure | undefined => {
+        const target = `${request.host}${request.path}`;
+        const failure = failures.find(rule =>
+            target.includes(rule.match) && (!rule.method || rule.method.toUpperCase() === request.method)
+        );
+
+        if (failure?.times !== undefined) {
+            failure.times -= 1;
+            failures = failures.filter(rule => rule.times === undefined || rule.times > 0);
+        }
+
+        return failure;
+    };
+
+    const youtubeVideo = (id: string, metadata: Record<string, unknown>) => ({
+        kind: 'youtube#video',
+        id,
+        ...metadata,
+    });
+
+    /**
+     * One resumable upload request: a chunk, or a status query (`bytes *\/size`)
+     */
+    const handleYouTubeChunk = (request: SandboxRequest): SandboxResponse => {
+        const uploadId = request.query.get('upload_id') || '';
+        const session = youtubeUploads.get(uploadId);
+        if (!session) return json({ error: { code: 404, message: 'Upload session not found' } }, 404);
+
+        const range = String(request.headers['content-range'] || '');
+        const chunk = range.match(/bytes (\d+)-(\d+)\/(\d+)/);
+        if (chunk && parseInt(chunk[1], 10) === session.received) {
+            session.received += request.body.length;
+        }
+
+        if (session.received >= session.size) {
+            return json(youtubeVideo(uploadId.replace('session-', ''), session.metadata), 200);
+        }
+
+        return {
+            status: 308,
+            headers: session.received > 0 ? { Range: `bytes=0-${session.received - 1}` } : {},
+        };
+    };
+
+    const handleGraphVideoPhase = async (request: SandboxRequest, pageId: string): Promise<SandboxResponse> => {
+        const form = await readForm(request);
+        const phase = form.get('upload_phase');
+
+        if (phase === 'start') {
+            const size = parseInt(String(form.get('file_size')), 10) || 0;
+            const sessionId = nextId('sandbox-fb-session-');
+            const videoId = nextId('3000000000000');
+            graphUploads.set(sessionId, { size, received: 0, videoId });
+            return json({
+                upload_session_id: sessionId,
+                video_id: videoId,
+                start_offset: '0',
+                end_offset: String(Math.min(GRAPH_CHUNK_SIZE, size)),
+            });
+        }
+
+        const session = graphUploads.get(String(form.get('upload_session_id')));
+        if (!session) {
+            return json({ error: { code: 100, message: `Invalid upload session for page ${pageId}` } }, 400);
+        }
+
+        if (phase === 'transfer') {
+            const chunk = form.get('video_file_chunk');
+            session.received = parseInt(String(form.get('start_offset')), 10) + (chunk instanceof Blob ? chunk.size : 0);
+            return json({
+                start_offset: String(session.received),
+                end_offset: String(Math.min(session.received + GRAPH_CHUNK_SIZE, session.size)),
+            });
+        }
+
+        return json({ success: session.received >= session.size });
+    };
+
+    const graphObject = (id: string): Record<string, unknown> => {
+        const page = fixtures.pages.find(p => p.id === id);
+        if (page) {
+            const { access_token: _token, ...rest } = page;
+            return rest;
+        }
+
+        if (id === fixtures.instagramAccount.id) return fixtures.instagramAccount;
+        if (id === 'me') return fixtures.facebookUser;
+        if (instagramContainers.has(id)) return { id, status_code: 'FINISHED' };
+
+        return {
+            id,
+            permalink: `https://www.instagram.com/p/${id}/`,
+            media_product_type: instagramMedia.get(id) || 'FEED',
+        };
+    };
+
+    const handleGraph = async (request: SandboxRequest): Promise<SandboxResponse> => {
+        // Strip the version: /v18.0/<id>/<edge>
+        const [id, edge] = request.path.split('/').slice(2);
+        const { method, query } = request;
+
+        if (id === 'oauth' && edge === 'access_token') return json(fixtures.facebookToken);
+        if (id === 'me' && edge === 'accounts') return json({ data: fixtures.pages });
+
+        if (method === 'POST' && edge === 'videos') return handleGraphVideoPhase(request, id);
+
+        if (method === 'POST' && edge === 'feed') return json({ id: `${id}_${nextId('4000000000000')}` });
+
+        if (method === 'POST' && edge === 'media') {
+            const form = await readForm(request);
+            const containerId = nextId('sandbox-container-');
+            instagramContainers.set(containerId, String(form.get('media_type') || 'IMAGE'));
+            return json({ id: containerId });
+        }
+
+        if (method === 'POST' && edge === 'media_publish') {
+            const form = await readForm(request);
+            const mediaType = instagramContainers.get(String(form.get('creation_id')));
+            if (!mediaType) return json({ error: { code: 100, message: 'Invalid creation_id' } }, 400);
+
+            const mediaId = nextId('1790000000000');
+            instagramMedia.set(mediaId, mediaType === 'REELS' ? 'REELS' : mediaType === 'STORIES' ? 'STORY' : 'FEED');
+            return json({ id: mediaId });
+        }
+
+        if (edge === 'insights' || edge === 'video_insights') {
+            return json(fixtures.insights(id, (query.get('metric') || '').split(',').filter(Boolean)));
+        }
+
+        if (edge === 'posts') return json({ data: fixtures.recentPosts });
+        if (edge === 'published_posts') return json({ data: fixtures.publishedPosts });
+
+        if (edge === 'comments' && method === 'GET') {
+            // Instagram media ids are numeric; page post ids are <page>_<post>
+            return json({ data: id.includes('_') ? fixtures.postComments(id) : fixtures.mediaComments(id) });
+        }
+
+        if ((edge === 'comments' || edge === 'replies') && method === 'POST') {
+            return json({ id: nextId(`${id}_sandboxreply`) });
+        }
+
+        // Likes, hiding (POST on the comment itself) and deleting all answer the same way
+        if (edge === 'likes' || (!edge && (method === 'POST' || method === 'DELETE'))) return json({ success: true });
+        if (edge === 'media') return json({ data: fixtures.recentMedia.slice(0, Number(query.get('limit')) || 25) });
+
+        if (method === 'GET' && !edge) return json(pickFields(graphObject(id), query.get('fields')));
+
+        return json({ error: { code: 100, message: `Unsupported sandbox Graph request: ${method} ${request.path}` } }, 400);
+    };
+
+    const handleYouTube = (request: SandboxRequest): SandboxResponse | Promise<SandboxResponse> => {
+        const { method, path, query } = request;
+        const maxResults = Number(query.get('maxResults')) || 25;
+
+        if (path === '/upload/youtube/v3/videos' && method === 'POST') {
+            const uploadId = `session-${nextId('sandboxup')}`;
+            youtubeUploads.set(uploadId, {
+                size: parseInt(String(request.headers['x-upload-content-length']), 10) || 0,
+                received: 0,
+                metadata: readJson(request),
+            });
+            return json({}, 200, {
+                Location: `${request.origin}/www.googleapis.com/upload/youtube/v3/videos?uploadType=resumable&upload_id=${uploadId}`,
+            });
+        }
+
+        if (path === '/upload/youtube/v3/videos' && method === 'PUT') return handleYouTubeChunk(request);
+
+        if (path === '/upload/youtube/v3/thumbnails/set') {
+            return json({ kind: 'youtube#thumbnailSetResponse', items: [fixtures.videos([query.get('videoId') || ''])[0].snippet.thumbnails] });
+        }
+
+        if (path === '/upload/youtube/v3/captions') return json({ kind: 'youtube#caption', id: nextId('sandbox-caption-') });
+
+        if (path === '/youtube/v3/channels') return json({ items: [fixtures.channel] });
+        if (path === '/youtube/v3/videoCategories') return json({ items: fixtures.videoCategories });
+        if (path === '/youtube/v3/playlists') return json({ items: fixtures.playlists });
+        if (path === '/youtube/v3/search') return json({ items: fixtures.searchResults(maxResults) });
+        if (path === '/youtube/v3/videos') return json({ items: fixtures.videos((query.get('id') || '').split(',')) });
+
+        if (path === '/youtube/v3/commentThreads') return json({ items: fixtures.commentThreads() });
+
+        if (path === '/youtube/v3/comments' && method === 'POST') {
+            const { snippet } = readJson(request) as { snippet?: { parentId?: string; textOriginal?: string } };
+            return json({
+                kind: 'youtube#comment',
+                id: nextId(`${snippet?.parentId}.sandboxreply`),
+                snippet: {
+                    ...snippet,
+                    authorDisplayName: fixtures.channel.snippet.title,
+                    authorChannelId: { value: fixtures.channel.id },
+                    likeCount: 0,
+                    publishedAt: new Date().toISOString(),
+                },
+            });
+        }
+
+        if (path === '/youtube/v3/comments/setModerationStatus') return { status: 204 };
+
+        if (path === '/youtube/v3/playlistItems') {
+            return method === 'POST'
+                ? json({ kind: 'youtube#playlistItem', id: nextId('sandbox-playlist-item-'), ...readJson(request) })
+                : json({ items: fixtures.playlistItems(maxResults) });
+        }
+
+        return json({ error: { code: 404, message: `Unsupported sandbox YouTube request: ${method} ${path}` } }, 404);
+    };
+
+    const route = async (request: SandboxRequest): Promise<SandboxResponse> => {
+        const { host, path, query } = request;
+
+        switch (host) {
+            case 'accounts.google.com':
+                // Consent is granted at once; the app's callback takes it from there
+                return redirect(`${query.get('redirect_uri')}?code=${fixtures.GOOGLE_AUTH_CODE}&state=${encodeURIComponent(query.get('state') || '')}`);
+            case 'www.facebook.com':
+                return redirect(`${query.get('redirect_uri')}?code=${fixtures.FACEBOOK_AUTH_CODE}&state=${encodeURIComponent(query.get('state') || '')}`);
+            case 'oauth2.googleapis.com':
+                return json(fixtures.googleToken(new URLSearchParams(request.body.toString('utf8')).get('grant_type')));
+            case 'youtubeanalytics.googleapis.com': {
+                const videoId = query.get('filters')?.replace('video==', '') || fixtures.channel.id;
+                return json(fixtures.analyticsReport(videoId));
+            }
+            case 'graph.facebook.com':
+            case 'graph-video.facebook.com':
+                return handleGraph(request);
+            case 'api.openai.com': {
+                const body = readJson(request) as { prompt?: string; messages?: { content: string }[] };
+                if (path.endsWith('/images/generations')) {
+                    return json({ created: 0, data: [{ b64_json: fixtures.IMAGE_PNG_BASE64, revised_prompt: body.prompt }] });
+                }
+                const prompt = body.messages?.[body.messages.length - 1]?.content || '';
+                return json({
+                    id: nextId('chatcmpl-sandbox-'),
+                    object: 'chat.completion',
+                    choices: [{ index: 0, message: { role: 'assistant', content: fixtures.completion(prompt) }, finish_reason: 'stop' }],
+                });
+            }
+            case 'generativelanguage.googleapis.com': {
+                const body = readJson(request) as { contents?: { parts?: { text?: string }[] }[] };
+                const prompt = body.contents?.[0]?.parts?.[0]?.text || '';
+                return json({
+                    candidates: [{ content: { role: 'model', parts: [{ text: fixtures.completion(prompt) }] }, finishReason: 'STOP' }],
+                });
+            }
+            default:
+                return handleYouTube(request);
+        }
+    };
+
+    const handleFailureRules = (method: string, body: Buffer): SandboxResponse => {
+        if (method === 'POST') {
+            const added = JSON.parse(body.toString('utf8') || '[]');
+            failures = [...failures, ...(Array.isArray(added) ? added : [added])];
+        } else if (method === 'DELETE') {
+            failures = [];
+        }
+
+        return json({ failures });
+    };
+
+    const send = (res: ServerResponse, response: SandboxResponse) => {
+        res.writeHead(response.status, {
+            'Access-Control-Allow-Origin': '*',
+            'Access-Control-Allow-Headers': '*',
+            'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+            'Access-Control-Expose-Headers': 'Location, Range, Retry-After',
+            ...(response.body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+            ...response.headers,
+        });
+        res.end(response.body !== undefined ? JSON.stringify(response.body) : undefined);
+    };
+
+    return async (req: IncomingMessage, res: ServerResponse) => {
+        const method = (req.method || 'GET').toUpperCase();
+        const url = new URL(req.url || '/', 'http://sandbox.local');
+        const [, host = '', ...rest] = url.pathname.split('/');
+
+        const chunks: Buffer[] = [];
+        for await (const chunk of req) chunks.push(chunk as Buffer);
+        const body = Buffer.concat(chunks);
+
+        if (method === 'OPTIONS') return send(res, { status: 204 });
+        if (host === '_failures') return send(res, handleFailureRules(method, body));
+
+        if (!SANDBOX_HOSTS.includes(host)) {
+            return send(res, json({ error: { message: `The sandbox does not emulate ${host}` } }, 404));
+        }
+
+        const request: SandboxRequest = {
+            method,
+            host,
+            path: `/${rest.join('/')}`,
+            query: url.searchParams,
+            headers: req.headers,
+            body,
+            origin: `http://${req.headers.host}${options.base || '/__sandbox'}`,
+        };
+
+        if (options.latency) {
+            await new Promise(resolve => setTimeout(resolve, options.latency));
+        }
+
+        const failure = takeFailure(request);
+        if (failure?.kind === 'timeout') {
+            // Never answer; the client's request timeout has to fire
+            setTimeout(() => send(res, json({ error: { message: 'Sandbox timeout' } }, 504)), HANG_MS).unref();
+            return;
+        }
+
+        try {
+            send(res, failure ? toErrorResponse(failure.kind, request) : await route(request));
+        } catch (error) {
+            send(res, json({ error: { message: `Sandbox error: ${(error as Error).message}` } }, 500));
+        }
+    };
+}
+
+/**
+ * Vite plugin serving the sandbox from the dev server
+ */
+export function platformSandbox(options: PlatformSandboxOptions = {}): Plugin {
+    const base = options.base || '/__sandbox';
+
+    return {
+        name: 'platform-sandbox',
+        apply: 'serve',
+        configureServer(server) {
+            const handle = createSandbox({ ...options, base });
+            server.middlewares.use(base, (req, res) => {
+                handle(req, res);
+            });
+            server.config.logger.info(`Platform sandbox serving fake YouTube, Graph and AI APIs at ${base}`);
+        },
+    };
+}
@@ -19,6 +19,7 @@ import ContentLibrary from "./pages/ContentLibrary";
 import SchedulerPage from "./pages/SchedulerPage";
 import AIStudioPage from "./pages/AIStudioPage";
 import PlatformConnections from "./pages/PlatformConnections";
+import InboxPage from "./pages/InboxPage";
 import EnhancedDashboard from "./pages/EnhancedDashboard";
 import OAuthCallback from "./components/OAuthCallback";
 import NotFound from "./pages/NotFound";
@@ -133,6 +134,14 @@ const App = () => (
                   </ProtectedRoute>
                 }
               />
+              <Route
+                path="/inbox"
+                element={
+                  <ProtectedRoute>
+                    <InboxPage />
+                  </ProtectedRoute>
+                }
+              />
               {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
               <Route path="*" element={<NotFound />} />
             </Routes>
@@ -4,7 +4,7 @@
  */
 
 import { useState, useRef } from 'react';
-import { Upload, X, Play, Settings, CheckCircle, AlertCircle, Loader2 } from 'lucide-react';
+import { Upload, X, Play, Settings, CheckCircle, AlertCircle, Loader2, SlidersHorizontal } from 'lucide-react';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -14,11 +14,18 @@ import { Checkbox } from '@/components/ui/checkbox';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
+import VideoSettingsForm from '@/components/VideoSettingsForm';
+import { useAuth } from '@/contexts/AuthContext';
 import { useBatchUpload, BatchUploadItem } from '@/hooks/useBatchUpload';
+import { usePlatformConnections, getTargetKey } from '@/hooks/usePlatformConnections';
+import { getPlatformAdapter, getPlatformAdapters } from '@/lib/platforms';
 
 const BatchUploader = () => {
     const fileInputRef = useRef<HTMLInputElement>(null);
     const [showSettings, setShowSettings] = useState(false);
+    // Items whose per-platform video settings are expanded
+    const [expandedItems, setExpandedItems] = useState<string[]>([]);
+    const { user } = useAuth();
 
     const {
         items,
@@ -34,8 +41,22 @@ const BatchUploader = () => {
         getOverallStats,
     } = useBatchUpload();
 
+    const { getPublishTargets } = usePlatformConnections();
+    const publishTargets = getPublishTargets();
+
     const stats = getOverallStats();
 
+    // Adapters with video settings that the item publishes to, with the first selected account of each
+    const getSettingsTargets = (item: BatchUploadItem) =>
+        getPlatformAdapters()
+            .filter(adapter => adapter.videoSettingsFields)
+            .map(adapter => ({ adapter, target: item.targets.find(t => t.platform === adapter.id) }))
+            .filter(({ target }) => target);
+
+    const toggleExpanded = (id: string) => {
+        setExpandedItems(prev => prev.includes(id) ? prev.filter(i => i !== id) : [...prev, id]);
+    };
+
     const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
         const files = Array.from(e.target.files || []);
         const videoFiles = files.filter(file => file.type.startsWith('video/'));
@@ -277,62 +298,93 @@ const BatchUploader = () => {
                                         className="mb-3 resize-none"
                                     />
 
-                                    {/* Platform Selection */}
-                                    <div className="flex items-center space-x-4">
-                                        <div className="flex items-center space-x-2">
-                                            <Checkbox
-                                                id={`youtube-${item.id}`}
-                                                checked={item.platforms.includes('youtube')}
-                                                onCheckedChange={(checked) => {
-                                                    const platforms = checked
-                                                        ? [...item.platforms, 'youtube']
-                                                        : item.platforms.filter(p => p !== 'youtube');
-                                                    updateItem(item.id, { platforms });
-                                                }}
-                                            />
-                                            <Label htmlFor={`youtube-${item.id}`} className="flex items-center space-x-1">
-                                                <span>📺</span>
-                                                <span>YouTube</span>
-                                            </Label>
-                                        </div>
-                                        <div className="flex items-center space-x-2">
-                                            <Checkbox
-                                                id={`facebook-${item.id}`}
-                                                checked={item.platforms.includes('facebook')}
-                                                onCheckedChange={(checked) => {
-                                                    const platforms = checked
-                                                        ? [...item.platforms, 'facebook']
-                                                        : item.platforms.filter(p => p !== 'facebook');
-                                                    updateItem(item.id, { platforms });
-                                                }}
-                                            />
-                                            <Label htmlFor={`facebook-${item.id}`} className="flex items-center space-x-1">
-                                                <span>📘</span>
-                                                <span>Facebook</span>
-                                            </Label>
-                                        </div>
-                                        <div className="flex items-center space-x-2">
-                                            <Checkbox
-                                                id={`instagram-${item.id}`}
-                                                checked={item.platforms.includes('instagram')}
-                                                onCheckedChange={(checked) => {
-                                                    const platforms = checked
-                                                        ? [...item.platforms, 'instagram']
-                                                        : item.platforms.filter(p => p !== 'instagram');
-                                                    updateItem(item.id, { platforms });
-                                                }}
-                                            />
-                                            <Label htmlFor={`instagram-${item.id}`} className="flex items-center space-x-1">
-                                                <span>📷</span>
-                                                <span>Instagram</span>
-                                            </Label>
-                                        </div>
+                                    {/* Account Selection */}
+                                    <div className="flex flex-wrap items-center gap-4">
+                                        {publishTargets.length === 0 && (
+                                            <span className="text-sm text-muted-foreground">
+                                                Connect a platform to publish after upload
+                                            </span>
+                                        )}
+                                        {publishTargets.map((target) => {
+                                            const key = getTargetKey(target);
+                                            const checked = item.targets.some(t => getTargetKey(t) === key);
+                                            return (
+                                                <div key={key} className="flex items-center space-x-2">
+                                                    <Checkbox
+                                                        id={`${key}-${item.id}`}
+                                                        checked={checked}
+                                                        onCheckedChange={(isChecked) => {
+                                                            const targets = isChecked
+                                                                ? [...item.targets, {
+                                                                    platform: target.platform,
+                                                                    connectionId: target.connectionId,
+                                                                    accountId: target.accountId,
+                                                                }]
+                                                                : item.targets.filter(t => getTargetKey(t) !== key);
+                                                            updateItem(item.id, { targets });
+                                                        }}
+                                                    />
+                                                    <Label htmlFor={`${key}-${item.id}`} className="flex items-center space-x-1">
+                                                        <span>{getPlatformAdapter(target.platform).icon}</span>
+                                                        <span>{target.name}</span>
+                                                    </Label>
+                                                </div>
+                                            );
+                                        })}
                                     </div>
 
+                                    {/* Video Settings */}
+                                    {getSettingsTargets(item).length > 0 && (
+                                        <div className="mt-3">
+                                            <Button
+                                                variant="ghost"
+                                                size="sm"
+                                                onClick={() => toggleExpanded(item.id)}
+                                                disabled={item.status !== 'pending' && item.status !== 'failed'}
+                                            >
+                                                <SlidersHorizontal className="w-4 h-4 mr-2" />
+                                                {expandedItems.includes(item.id) ? 'Hide' : 'Show'} video settings
+                                            </Button>
+                                            {expandedItems.includes(item.id) && getSettingsTargets(item).map(({ adapter, target }) => (
+                                                <div key={adapter.id} className="mt-2 rounded-lg border p-3 space-y-3">
+                                                    <h4 className="text-sm font-semibold">
+                                                        {adapter.icon} {adapter.name}
+                                                    </h4>
+                                                    <VideoSettingsForm
+                                                        adapter={adapter}
+                                                        userId={user?.id || ''}
+                                                        target={target}
+                                                        value={item.videoSettings[adapter.id] || {}}
+                                                        onChange={(settings) =>
+                                                            updateItem(item.id, {
+                                                                videoSettings: { ...item.videoSettings, [adapter.id]: settings },
+                                                            })
+                                                        }
+                                                        publishAt={adapter.supportsNativeScheduling ? item.publishTimes[adapter.id] : undefined}
+                                                        onPublishAtChange={adapter.supportsNativeScheduling
+                                                            ? (publishAt) => updateItem(item.id, {
+                                                                publishTimes: { ...item.publishTimes, [adapter.id]: publishAt },
+                                                            })
+                                                            : undefined}
+                                                    />
+                                                </div>
+                                            ))}
+                                        </div>
+                                    )}
+
                                     {/* Progress Bar */}
                                     {item.status === 'uploading' || item.status === 'processing' ? (
                                         <div className="mt-2">
                                             <Progress value={item.progress} />
+                                            {item.status === 'processing' && item.platformProgress && (
+                                                <div className="flex gap-3 mt-1 text-xs text-muted-foreground">
+                                                    {Object.entries(item.platformProgress).map(([platform, progress]) => (
+                                                        <span key={platform}>
+                                                            {platform}: {Math.round(progress)}%
+                                                        </span>
+                                                    ))}
+                                                </div>
+                                            )}
                                         </div>
                                     ) : null}
 
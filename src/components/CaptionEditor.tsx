@@ -0,0 +1,288 @@
+/**
+ * Caption Editor Component
+ * Timeline editor for per-language caption tracks with SRT/WebVTT import and export
+ */
+
+import { useId, useState } from 'react';
+import { Captions, Download, FileUp, Plus, Trash2, Crosshair } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { captionService, CaptionCue, CaptionFormat, CaptionTrack } from '@/lib/services/captionService';
+
+interface CaptionEditorProps {
+    tracks: CaptionTrack[];
+    onChange: (tracks: CaptionTrack[]) => void;
+    /** Playhead of the preview player, in seconds */
+    currentTime: number;
+    duration: number;
+    onSeek: (time: number) => void;
+}
+
+// New cues run this long unless the next one starts sooner
+const DEFAULT_CUE_LENGTH = 2;
+
+const formatTime = (time: number) => {
+    const minutes = Math.floor(time / 60);
+    const seconds = (time % 60).toFixed(1).padStart(4, '0');
+    return `${minutes}:${seconds}`;
+};
+
+const CaptionEditor = ({ tracks, onChange, currentTime, duration, onSeek }: CaptionEditorProps) => {
+    const { toast } = useToast();
+    const fileInputId = useId();
+    const [activeLanguage, setActiveLanguage] = useState(tracks[0]?.language || '');
+    const [newLanguage, setNewLanguage] = useState('');
+
+    const track = tracks.find(t => t.language === activeLanguage) || tracks[0];
+    const cues = track?.cues || [];
+    const timelineLength = Math.max(duration, cues[cues.length - 1]?.end || 0, 1);
+
+    const setCues = (nextCues: CaptionCue[]) => {
+        if (!track) return;
+        onChange(tracks.map(t => t.language === track.language ? { ...t, cues: nextCues } : t));
+    };
+
+    // Edits keep their row in place while typing; only new cues are sorted in
+    const updateCue = (index: number, changes: Partial<CaptionCue>) => {
+        setCues(cues.map((cue, i) => i === index ? { ...cue, ...changes } : cue));
+    };
+
+    const addTrack = (language: string, trackCues: CaptionCue[] = []) => {
+        const code = language.trim();
+        if (!code) return;
+
+        const existing = tracks.find(t => t.language === code);
+        onChange(existing
+            ? tracks.map(t => t.language === code ? { ...t, cues: trackCues.length > 0 ? trackCues : t.cues } : t)
+            : [...tracks, { language: code, name: code, cues: trackCues }]);
+        setActiveLanguage(code);
+        setNewLanguage('');
+    };
+
+    const addCueAtPlayhead = () => {
+        const nextCue = cues.find(cue => cue.start > currentTime);
+        const end = Math.min(currentTime + DEFAULT_CUE_LENGTH, nextCue?.start ?? Infinity, timelineLength);
+        setCues(
+            [...cues, { start: currentTime, end: Math.max(end, currentTime + 0.1), text: '' }]
+                .sort((a, b) => a.start - b.start)
+        );
+    };
+
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+
+        try {
+            const imported = captionService.parse(await file.text());
+            if (imported.length === 0) {
+                throw new Error('No captions found in the file');
+            }
+
+            addTrack(track?.language || 'en', imported);
+            toast({
+                title: 'Captions Imported',
+                description: `${imported.length} captions loaded from ${file.name}`,
+            });
+        } catch (error) {
+            toast({
+                title: 'Import Failed',
+                description: error instanceof Error ? error.message : 'Could not read the caption file.',
+                variant: 'destructive',
+            });
+        }
+    };
+
+    const handleExport = (format: CaptionFormat) => {
+        if (!track) return;
+
+        const blob = new Blob([captionService.format(track.cues, format)], {
+            type: format === 'vtt' ? 'text/vtt' : 'application/x-subrip',
+        });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `captions.${track.language}.${format}`;
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    return (
+        <Card className="glass-card p-6 space-y-4">
+            <div className="flex items-center justify-between">
+                <h3 className="text-lg font-bold flex items-center gap-2">
+                    <Captions className="w-5 h-5" />
+                    Captions
+                </h3>
+                <div className="flex gap-2">
+                    <input
+                        type="file"
+                        accept=".srt,.vtt,text/vtt"
+                        onChange={handleImport}
+                        className="hidden"
+                        id={fileInputId}
+                    />
+                    <label htmlFor={fileInputId}>
+                        <Button variant="outline" size="sm" className="btn-3d" asChild>
+                            <span>
+                                <FileUp className="w-4 h-4 mr-1" />
+                                Import
+                            </span>
+                        </Button>
+                    </label>
+                    <Button variant="outline" size="sm" className="btn-3d" disabled={cues.length === 0} onClick={() => handleExport('srt')}>
+                        <Download className="w-4 h-4 mr-1" />
+                        SRT
+                    </Button>
+                    <Button variant="outline" size="sm" className="btn-3d" disabled={cues.length === 0} onClick={() => handleExport('vtt')}>
+                        <Download className="w-4 h-4 mr-1" />
+                        VTT
+                    </Button>
+                </div>
+            </div>
+
+            {/* Languages */}
+            <div className="flex items-center gap-2">
+                {tracks.length > 0 && (
+                    <Select value={track?.language} onValueChange={setActiveLanguage}>
+                        <SelectTrigger className="h-8 w-28">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            {tracks.map(t => (
+                                <SelectItem key={t.language} value={t.language}>{t.language}</SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                )}
+                <Input
+                    placeholder="Language (e.g. en, es, pt-BR)"
+                    value={newLanguage}
+                    onChange={(e) => setNewLanguage(e.target.value)}
+                    className="h-8 flex-1"
+                />
+                <Button variant="outline" size="sm" onClick={() => addTrack(newLanguage)} disabled={!newLanguage.trim()}>
+                    <Plus className="w-4 h-4" />
+                </Button>
+                {track && (
+                    <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => {
+                            onChange(tracks.filter(t => t.language !== track.language));
+                            setActiveLanguage('');
+                        }}
+                    >
+                        <Trash2 className="w-4 h-4" />
+                    </Button>
+                )}
+            </div>
+
+            {track && (
+                <>
+                    {/* Timeline */}
+                    <div
+                        className="relative h-10 rounded bg-muted cursor-pointer overflow-hidden"
+                        onClick={(e) => {
+                            const rect = e.currentTarget.getBoundingClientRect();
+                            onSeek(((e.clientX - rect.left) / rect.width) * timelineLength);
+                        }}
+                    >
+                        {cues.map((cue, index) => (
+                            <div
+                                key={index}
+                                title={cue.text}
+                                className="absolute top-1 bottom-1 rounded bg-primary/60 hover:bg-primary"
+                                style={{
+                                    left: `${(cue.start / timelineLength) * 100}%`,
+                                    width: `${Math.max(((cue.end - cue.start) / timelineLength) * 100, 0.5)}%`,
+                                }}
+                            />
+                        ))}
+                        <div
+                            className="absolute top-0 bottom-0 w-0.5 bg-red-500 pointer-events-none"
+                            style={{ left: `${(currentTime / timelineLength) * 100}%` }}
+                        />
+                    </div>
+
+                    {/* Cues */}
+                    <div className="space-y-2 max-h-80 overflow-y-auto pr-1">
+                        {cues.map((cue, index) => {
+                            const isActive = currentTime >= cue.start && currentTime < cue.end;
+                            return (
+                                <div
+                                    key={index}
+                                    className={`rounded-lg border p-2 space-y-2 ${isActive ? 'border-primary bg-primary/5' : 'border-border'}`}
+                                >
+                                    <div className="flex items-center gap-2 text-xs">
+                                        <Button variant="ghost" size="sm" className="h-7 px-2" onClick={() => onSeek(cue.start)}>
+                                            {formatTime(cue.start)}
+                                        </Button>
+                                        <Input
+                                            type="number"
+                                            step={0.1}
+                                            min={0}
+                                            value={cue.start}
+                                            onChange={(e) => updateCue(index, { start: parseFloat(e.target.value) || 0 })}
+                                            className="h-7 w-20 text-xs"
+                                        />
+                                        <span>→</span>
+                                        <Input
+                                            type="number"
+                                            step={0.1}
+                                            min={0}
+                                            value={cue.end}
+                                            onChange={(e) => updateCue(index, { end: parseFloat(e.target.value) || 0 })}
+                                            className="h-7 w-20 text-xs"
+                                        />
+                                        <Button
+                                            variant="ghost"
+                                            size="sm"
+                                            className="h-7 px-2"
+                                            title="End at playhead"
+                                            onClick={() => updateCue(index, { end: Math.max(currentTime, cue.start + 0.1) })}
+                                        >
+                                            <Crosshair className="w-3 h-3" />
+                                        </Button>
+                                        <Button
+                                            variant="ghost"
+                                            size="sm"
+                                            className="h-7 px-2 ml-auto"
+                                            onClick={() => setCues(cues.filter((_, i) => i !== index))}
+                                        >
+                                            <Trash2 className="w-3 h-3" />
+                                        </Button>
+                                    </div>
+                                    <Textarea
+                                        value={cue.text}
+                                        onChange={(e) => updateCue(index, { text: e.target.value })}
+                                        rows={2}
+                                        className="resize-none text-sm"
+                                    />
+                                </div>
+                            );
+                        })}
+                    </div>
+
+                    <Button variant="outline" className="w-full btn-3d" onClick={addCueAtPlayhead}>
+                        <Plus className="w-4 h-4 mr-2" />
+                        Add Caption at {formatTime(currentTime)}
+                    </Button>
+                </>
+            )}
+
+            {!track && (
+                <p className="text-sm text-muted-foreground">
+                    Import an SRT or WebVTT file, or add a language to start writing captions.
+                    Captions are uploaded to YouTube and used as the transcript for AI descriptions.
+                </p>
+            )}
+        </Card>
+    );
+};
+
+export default CaptionEditor;
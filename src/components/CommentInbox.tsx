@@ -0,0 +1,475 @@
+/**
+ * Comment Inbox Component
+ * Comments from every connected account in one list, with filters, replies,
+ * moderation, sentiment and assignment to teammates
+ */
+
+import { useMemo, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import {
+    MessageSquare,
+    RefreshCw,
+    Reply,
+    ThumbsUp,
+    EyeOff,
+    Eye,
+    Trash2,
+    Users,
+    Flag,
+    Check,
+    ExternalLink,
+    Youtube,
+    Facebook,
+    Instagram,
+} from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import CommentRules from '@/components/CommentRules';
+import { useToast } from '@/hooks/use-toast';
+import { useCommentInbox } from '@/hooks/useCommentInbox';
+import { commentService } from '@/lib/services/commentService';
+import type { CommentThread, StoredComment } from '@/lib/services/commentService';
+import { getPlatformAdapter } from '@/lib/platforms';
+import type { CommentModeration } from '@/lib/platforms';
+import type { CommentSentiment } from '@/lib/services/moderationService';
+
+const PLATFORM_ICONS: Record<string, typeof Youtube> = {
+    youtube: Youtube,
+    facebook: Facebook,
+    instagram: Instagram,
+};
+
+// Select values can't be empty strings
+const ALL = 'all';
+const UNASSIGNED = 'unassigned';
+
+type StatusFilter = 'all' | 'unanswered' | 'flagged' | 'hidden';
+
+const SENTIMENT_BADGES: Record<CommentSentiment, { label: string; className: string }> = {
+    positive: { label: 'Positive', className: 'border-green-500/40 text-green-500' },
+    neutral: { label: 'Neutral', className: 'text-muted-foreground' },
+    negative: { label: 'Negative', className: 'border-red-500/40 text-red-500' },
+    question: { label: 'Question', className: 'border-blue-500/40 text-blue-400' },
+};
+
+const matchesStatus = ({ comment, replies, unanswered }: CommentThread, status: StatusFilter) => {
+    switch (status) {
+        case 'unanswered':
+            return unanswered && !comment.hidden;
+        case 'flagged':
+            return comment.flagged || replies.some(reply => reply.flagged);
+        case 'hidden':
+            return comment.hidden;
+        default:
+            return true;
+    }
+};
+
+const CommentInbox = () => {
+    const { toast } = useToast();
+    const inbox = useCommentInbox();
+    const [status, setStatus] = useState<StatusFilter>('unanswered');
+    const [platform, setPlatform] = useState(ALL);
+    const [postKey, setPostKey] = useState(ALL);
+    const [assignee, setAssignee] = useState(ALL);
+    const [isSyncing, setIsSyncing] = useState(false);
+    const [replyingTo, setReplyingTo] = useState<string | null>(null);
+    const [replyText, setReplyText] = useState('');
+    const [busyId, setBusyId] = useState<string | null>(null);
+    const [newMemberName, setNewMemberName] = useState('');
+    const [newMemberEmail, setNewMemberEmail] = useState('');
+
+    const platforms = commentService.getCommentPlatforms();
+    const postOf = (comment: StoredComment) => `${comment.platform}:${comment.post_id}`;
+
+    // Every post with comments, for the post filter
+    const posts = useMemo(() => {
+        const byKey = new Map<string, StoredComment>();
+        inbox.threads.forEach(({ comment }) => {
+            if (!byKey.has(postOf(comment))) byKey.set(postOf(comment), comment);
+        });
+        return Array.from(byKey.entries())
+            .filter(([, comment]) => platform === ALL || comment.platform === platform);
+    }, [inbox.threads, platform]);
+
+    const visibleThreads = inbox.threads.filter((thread: CommentThread) => {
+        const { comment } = thread;
+        return matchesStatus(thread, status) &&
+            (platform === ALL || comment.platform === platform) &&
+            (postKey === ALL || postOf(comment) === postKey) &&
+            (assignee === ALL || (comment.assigned_to ?? UNASSIGNED) === assignee);
+    });
+
+    const runAction = async (id: string, action: () => Promise<unknown>, failureTitle: string) => {
+        setBusyId(id);
+        try {
+            await action();
+        } catch (error) {
+            toast({
+                title: failureTitle,
+                description: error instanceof Error ? error.message : 'Please try again.',
+                variant: 'destructive',
+            });
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const handleSync = async () => {
+        setIsSyncing(true);
+        try {
+            const result = await inbox.sync();
+            toast({
+                title: result.failed.length > 0 ? 'Partially Synced' : 'Comments Synced',
+                description: result.failed.length > 0
+                    ? `Couldn't read comments from ${result.failed.join(', ')}. Check their connections.`
+                    : `${result.synced} comments checked`,
+                variant: result.failed.length > 0 ? 'destructive' : 'default',
+            });
+        } catch (error) {
+            toast({
+                title: 'Sync Failed',
+                description: error instanceof Error ? error.message : 'Could not read new comments. Please try again.',
+                variant: 'destructive',
+            });
+        } finally {
+            setIsSyncing(false);
+        }
+    };
+
+    const handleReply = (comment: StoredComment) => {
+        const text = replyText.trim();
+        if (!text) return;
+
+        runAction(comment.id, async () => {
+            await inbox.reply(comment, text);
+            setReplyingTo(null);
+            setReplyText('');
+        }, 'Reply Failed');
+    };
+
+    const handleModerate = (comment: StoredComment, action: CommentModeration) => {
+        if (action === 'delete' && !window.confirm('Delete this comment on the platform? This can\'t be undone.')) {
+            return;
+        }
+
+        runAction(comment.id, () => inbox.moderate(comment, action), 'Action Failed');
+    };
+
+    const handleAddMember = () => {
+        const name = newMemberName.trim();
+        if (!name) return;
+
+        runAction('team', async () => {
+            await inbox.addTeamMember(name, newMemberEmail.trim() || undefined);
+            setNewMemberName('');
+            setNewMemberEmail('');
+        }, 'Could Not Add Teammate');
+    };
+
+    const renderComment = (comment: StoredComment, isReply = false) => {
+        const actions = commentService.getCommentActions(comment.platform);
+        const busy = busyId === comment.id;
+
+        return (
+            <div key={comment.id} className={`flex gap-3 ${isReply ? 'ml-12 mt-3' : ''}`}>
+                <Avatar className="w-9 h-9">
+                    {comment.author_avatar_url && <AvatarImage src={comment.author_avatar_url} alt={comment.author_name} />}
+                    <AvatarFallback>{comment.author_name.charAt(0).toUpperCase() || '?'}</AvatarFallback>
+                </Avatar>
+
+                <div className="flex-1 min-w-0 space-y-1">
+                    <div className="flex flex-wrap items-center gap-2 text-sm">
+                        <span className="font-semibold">{comment.author_name || 'Unknown'}</span>
+                        {comment.is_own && <Badge variant="secondary">You</Badge>}
+                        {comment.hidden && <Badge variant="outline">Hidden</Badge>}
+                        {comment.flagged && (
+                            <Badge variant="destructive">
+                                <Flag className="w-3 h-3 mr-1" />
+                                Flagged
+                            </Badge>
+                        )}
+                        {comment.sentiment && !comment.is_own && (
+                            <Badge variant="outline" className={SENTIMENT_BADGES[comment.sentiment].className}>
+                                {SENTIMENT_BADGES[comment.sentiment].label}
+                            </Badge>
+                        )}
+                        <span className="text-muted-foreground">
+                            {formatDistanceToNow(new Date(comment.published_at), { addSuffix: true })}
+                        </span>
+                    </div>
+
+                    <p className={`text-sm whitespace-pre-wrap break-words ${comment.hidden ? 'text-muted-foreground' : ''}`}>
+                        {comment.text}
+                    </p>
+
+                    <div className="flex flex-wrap items-center gap-1">
+                        {actions.includes('reply') && (
+                            <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => {
+                                    setReplyingTo(replyingTo === comment.id ? null : comment.id);
+                                    setReplyText('');
+                                }}
+                            >
+                                <Reply className="w-4 h-4 mr-1" />
+                                Reply
+                            </Button>
+                        )}
+                        {actions.includes('like') && (
+                            <Button
+                                variant="ghost"
+                                size="sm"
+                                disabled={busy}
+                                onClick={() => handleModerate(comment, comment.liked ? 'unlike' : 'like')}
+                            >
+                                <ThumbsUp className={`w-4 h-4 mr-1 ${comment.liked ? 'fill-current' : ''}`} />
+                                {comment.like_count > 0 ? comment.like_count : ''} {comment.liked ? 'Liked' : 'Like'}
+                            </Button>
+                        )}
+                        {actions.includes('hide') && !comment.is_own && (
+                            <Button
+                                variant="ghost"
+                                size="sm"
+                                disabled={busy}
+                                onClick={() => handleModerate(comment, comment.hidden ? 'unhide' : 'hide')}
+                            >
+                                {comment.hidden ? <Eye className="w-4 h-4 mr-1" /> : <EyeOff className="w-4 h-4 mr-1" />}
+                                {comment.hidden ? 'Unhide' : 'Hide'}
+                            </Button>
+                        )}
+                        {comment.flagged && (
+                            <Button
+                                variant="ghost"
+                                size="sm"
+                                disabled={busy}
+                                onClick={() => runAction(comment.id, () => inbox.setFlagged(comment, false), 'Action Failed')}
+                            >
+                                <Check className="w-4 h-4 mr-1" />
+                                Reviewed
+                            </Button>
+                        )}
+                        {actions.includes('delete') && (
+                            <Button
+                                variant="ghost"
+                                size="sm"
+                                disabled={busy}
+                                className="text-destructive"
+                                onClick={() => handleModerate(comment, 'delete')}
+                            >
+                                <Trash2 className="w-4 h-4 mr-1" />
+                                Delete
+                            </Button>
+                        )}
+                    </div>
+
+                    {replyingTo === comment.id && (
+                        <div className="space-y-2 pt-1">
+                            <Textarea
+                                value={replyText}
+                                onChange={(e) => setReplyText(e.target.value)}
+                                placeholder={`Reply as your ${getPlatformAdapter(comment.platform).name} account...`}
+                                rows={2}
+                                autoFocus
+                            />
+                            <div className="flex gap-2">
+                                <Button size="sm" disabled={busy || !replyText.trim()} onClick={() => handleReply(comment)}>
+                                    {busy ? 'Sending...' : 'Send Reply'}
+                                </Button>
+                                <Button size="sm" variant="ghost" onClick={() => setReplyingTo(null)}>
+                                    Cancel
+                                </Button>
+                            </div>
+                        </div>
+                    )}
+                </div>
+            </div>
+        );
+    };
+
+    return (
+        <div className="space-y-6">
+            <Card className="p-4 space-y-4">
+                <div className="flex flex-wrap items-center justify-between gap-3">
+                    <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                        <MessageSquare className="w-4 h-4" />
+                        {visibleThreads.length} of {inbox.threads.length} comments
+                        {inbox.lastSyncedAt && ` · synced ${formatDistanceToNow(inbox.lastSyncedAt, { addSuffix: true })}`}
+                    </div>
+
+                    <div className="flex gap-2">
+                        <CommentRules />
+
+                        <Dialog>
+                            <DialogTrigger asChild>
+                                <Button variant="outline" size="sm">
+                                    <Users className="w-4 h-4 mr-2" />
+                                    Team
+                                </Button>
+                            </DialogTrigger>
+                            <DialogContent>
+                                <DialogHeader>
+                                    <DialogTitle>Teammates</DialogTitle>
+                                </DialogHeader>
+                                <div className="space-y-3">
+                                    {inbox.teamMembers.length === 0 && (
+                                        <p className="text-sm text-muted-foreground">
+                                            Add the people who answer comments so you can assign threads to them.
+                                        </p>
+                                    )}
+                                    {inbox.teamMembers.map(member => (
+                                        <div key={member.id} className="flex items-center justify-between text-sm">
+                                            <span>
+                                                {member.name}
+                                                {member.email && <span className="text-muted-foreground"> · {member.email}</span>}
+                                            </span>
+                                            <Button
+                                                variant="ghost"
+                                                size="sm"
+                                                onClick={() => runAction('team', () => inbox.removeTeamMember(member.id), 'Could Not Remove Teammate')}
+                                            >
+                                                <Trash2 className="w-4 h-4" />
+                                            </Button>
+                                        </div>
+                                    ))}
+                                    <div className="flex gap-2">
+                                        <Input
+                                            value={newMemberName}
+                                            onChange={(e) => setNewMemberName(e.target.value)}
+                                            placeholder="Name"
+                                        />
+                                        <Input
+                                            value={newMemberEmail}
+                                            onChange={(e) => setNewMemberEmail(e.target.value)}
+                                            placeholder="Email (optional)"
+                                            type="email"
+                                        />
+                                        <Button disabled={!newMemberName.trim() || busyId === 'team'} onClick={handleAddMember}>
+                                            Add
+                                        </Button>
+                                    </div>
+                                </div>
+                            </DialogContent>
+                        </Dialog>
+
+                        <Button size="sm" onClick={handleSync} disabled={isSyncing}>
+                            <RefreshCw className={`w-4 h-4 mr-2 ${isSyncing ? 'animate-spin' : ''}`} />
+                            {isSyncing ? 'Syncing...' : 'Sync Now'}
+                        </Button>
+                    </div>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+                    <Select value={status} onValueChange={(value) => setStatus(value as StatusFilter)}>
+                        <SelectTrigger><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value="unanswered">Unanswered</SelectItem>
+                            <SelectItem value="flagged">Flagged</SelectItem>
+                            <SelectItem value="all">All comments</SelectItem>
+                            <SelectItem value="hidden">Hidden</SelectItem>
+                        </SelectContent>
+                    </Select>
+
+                    <Select
+                        value={platform}
+                        onValueChange={(value) => {
+                            setPlatform(value);
+                            setPostKey(ALL);
+                        }}
+                    >
+                        <SelectTrigger><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value={ALL}>All platforms</SelectItem>
+                            {platforms.map(id => (
+                                <SelectItem key={id} value={id}>{getPlatformAdapter(id).name}</SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+
+                    <Select value={postKey} onValueChange={setPostKey}>
+                        <SelectTrigger><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value={ALL}>All posts</SelectItem>
+                            {posts.map(([key, comment]) => (
+                                <SelectItem key={key} value={key}>
+                                    {comment.post_title || `Post ${comment.post_id}`}
+                                </SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+
+                    <Select value={assignee} onValueChange={setAssignee}>
+                        <SelectTrigger><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value={ALL}>Anyone</SelectItem>
+                            <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                            {inbox.teamMembers.map(member => (
+                                <SelectItem key={member.id} value={member.id}>{member.name}</SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                </div>
+            </Card>
+
+            {inbox.isLoading ? (
+                <Card className="p-8 text-center text-muted-foreground">Loading comments...</Card>
+            ) : visibleThreads.length === 0 ? (
+                <Card className="p-8 text-center text-muted-foreground">
+                    {inbox.threads.length === 0
+                        ? 'No comments yet. Connect YouTube, Facebook or Instagram and sync to pull them in.'
+                        : 'No comments match these filters.'}
+                </Card>
+            ) : (
+                visibleThreads.map(({ comment, replies, unanswered }) => {
+                    const PlatformIcon = PLATFORM_ICONS[comment.platform] || MessageSquare;
+
+                    return (
+                        <Card key={comment.id} className="p-4 space-y-3">
+                            <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+                                <div className="flex items-center gap-2 min-w-0">
+                                    <PlatformIcon className="w-4 h-4 shrink-0" />
+                                    <span className="truncate text-muted-foreground">
+                                        {comment.post_title || `Post ${comment.post_id}`}
+                                    </span>
+                                    {comment.post_url && (
+                                        <a href={comment.post_url} target="_blank" rel="noopener noreferrer" className="text-muted-foreground hover:text-primary">
+                                            <ExternalLink className="w-3 h-3" />
+                                        </a>
+                                    )}
+                                    {unanswered && <Badge>Unanswered</Badge>}
+                                </div>
+
+                                <Select
+                                    value={comment.assigned_to ?? UNASSIGNED}
+                                    onValueChange={(value) =>
+                                        runAction(comment.id, () => inbox.assign(comment, value === UNASSIGNED ? null : value), 'Could Not Assign')
+                                    }
+                                >
+                                    <SelectTrigger className="w-44 h-8"><SelectValue /></SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                                        {inbox.teamMembers.map(member => (
+                                            <SelectItem key={member.id} value={member.id}>{member.name}</SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+
+                            {renderComment(comment)}
+                            {replies.map(reply => renderComment(reply, true))}
+                        </Card>
+                    );
+                })
+            )}
+        </div>
+    );
+};
+
+export default CommentInbox;
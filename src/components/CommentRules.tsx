@@ -0,0 +1,271 @@
+/**
+ * Comment Rules Component
+ * Dialog for the moderation rules the inbox runs on new comments, and the
+ * saved replies those rules can send
+ */
+
+import { useState } from 'react';
+import { Shield, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useToast } from '@/hooks/use-toast';
+import { useCommentRules } from '@/hooks/useCommentRules';
+import type { CommentRuleAction, CommentRuleMatch } from '@/lib/services/moderationService';
+
+const MATCH_TYPES: Record<CommentRuleMatch, { label: string; patterns: string | null }> = {
+    keyword: { label: 'Contains a keyword', patterns: 'One keyword or phrase per line' },
+    regex: { label: 'Matches a regular expression', patterns: 'One expression per line, e.g. free\\s+followers' },
+    link: { label: 'Contains a link', patterns: 'Domains that may be linked, one per line (optional)' },
+    emoji_spam: { label: 'Repeated emoji spam', patterns: null },
+    blocked_user: { label: 'Written by a blocked user', patterns: 'One username or account ID per line' },
+};
+
+const ACTIONS: Record<CommentRuleAction, string> = {
+    hide: 'Hide it',
+    delete: 'Delete it',
+    flag: 'Flag for review',
+    reply: 'Reply with a saved reply',
+};
+
+const CommentRules = () => {
+    const { toast } = useToast();
+    const commentRules = useCommentRules();
+    const [isSaving, setIsSaving] = useState(false);
+    const [ruleName, setRuleName] = useState('');
+    const [matchType, setMatchType] = useState<CommentRuleMatch>('keyword');
+    const [patterns, setPatterns] = useState('');
+    const [action, setAction] = useState<CommentRuleAction>('hide');
+    const [templateId, setTemplateId] = useState('');
+    const [templateName, setTemplateName] = useState('');
+    const [templateBody, setTemplateBody] = useState('');
+
+    const runAction = async (action: () => Promise<unknown>, failureTitle: string) => {
+        setIsSaving(true);
+        try {
+            await action();
+            return true;
+        } catch (error) {
+            toast({
+                title: failureTitle,
+                description: error instanceof Error ? error.message : 'Please try again.',
+                variant: 'destructive',
+            });
+            return false;
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const patternList = patterns.split('\n').map(pattern => pattern.trim()).filter(Boolean);
+    const needsPatterns = matchType === 'keyword' || matchType === 'regex' || matchType === 'blocked_user';
+    const canAddRule = ruleName.trim() &&
+        (!needsPatterns || patternList.length > 0) &&
+        (action !== 'reply' || templateId);
+
+    const handleAddRule = async () => {
+        const added = await runAction(() => commentRules.createRule({
+            name: ruleName.trim(),
+            match_type: matchType,
+            patterns: MATCH_TYPES[matchType].patterns ? patternList : [],
+            action,
+            reply_template_id: action === 'reply' ? templateId : null,
+            enabled: true,
+        }), 'Could Not Add Rule');
+
+        if (added) {
+            setRuleName('');
+            setPatterns('');
+        }
+    };
+
+    const handleAddTemplate = async () => {
+        const added = await runAction(
+            () => commentRules.createTemplate(templateName.trim(), templateBody.trim()),
+            'Could Not Save Reply'
+        );
+
+        if (added) {
+            setTemplateName('');
+            setTemplateBody('');
+        }
+    };
+
+    return (
+        <Dialog>
+            <DialogTrigger asChild>
+                <Button variant="outline" size="sm">
+                    <Shield className="w-4 h-4 mr-2" />
+                    Rules
+                </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>Moderation Rules</DialogTitle>
+                    <DialogDescription>
+                        Rules run on comments that arrive after they're added, in order; the first match wins.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <Tabs defaultValue="rules">
+                    <TabsList className="grid w-full grid-cols-2">
+                        <TabsTrigger value="rules">Rules</TabsTrigger>
+                        <TabsTrigger value="templates">Saved Replies</TabsTrigger>
+                    </TabsList>
+
+                    <TabsContent value="rules" className="space-y-4">
+                        {commentRules.rules.length === 0 && (
+                            <p className="text-sm text-muted-foreground">No rules yet.</p>
+                        )}
+                        {commentRules.rules.map(rule => (
+                            <div key={rule.id} className="flex items-start justify-between gap-3 rounded-lg border p-3">
+                                <div className="min-w-0 space-y-1 text-sm">
+                                    <div className="font-medium">{rule.name}</div>
+                                    <div className="text-muted-foreground">
+                                        {MATCH_TYPES[rule.match_type].label} → {ACTIONS[rule.action]}
+                                        {rule.action === 'reply' && !rule.reply_template_id && ' (saved reply deleted, flags instead)'}
+                                    </div>
+                                    {rule.patterns.length > 0 && (
+                                        <div className="flex flex-wrap gap-1">
+                                            {rule.patterns.map(pattern => (
+                                                <Badge key={pattern} variant="secondary" className="font-mono">{pattern}</Badge>
+                                            ))}
+                                        </div>
+                                    )}
+                                </div>
+                                <div className="flex items-center gap-2">
+                                    <Switch
+                                        checked={rule.enabled}
+                                        disabled={isSaving}
+                                        onCheckedChange={(enabled) =>
+                                            runAction(() => commentRules.setRuleEnabled(rule, enabled), 'Could Not Update Rule')
+                                        }
+                                    />
+                                    <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        disabled={isSaving}
+                                        onClick={() => runAction(() => commentRules.deleteRule(rule.id), 'Could Not Delete Rule')}
+                                    >
+                                        <Trash2 className="w-4 h-4" />
+                                    </Button>
+                                </div>
+                            </div>
+                        ))}
+
+                        <div className="space-y-3 rounded-lg border p-3">
+                            <div className="space-y-1">
+                                <Label htmlFor="rule-name">New rule</Label>
+                                <Input
+                                    id="rule-name"
+                                    value={ruleName}
+                                    onChange={(e) => setRuleName(e.target.value)}
+                                    placeholder="e.g. Hide crypto spam"
+                                />
+                            </div>
+
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                                <Select value={matchType} onValueChange={(value) => setMatchType(value as CommentRuleMatch)}>
+                                    <SelectTrigger><SelectValue /></SelectTrigger>
+                                    <SelectContent>
+                                        {Object.entries(MATCH_TYPES).map(([value, { label }]) => (
+                                            <SelectItem key={value} value={value}>{label}</SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+
+                                <Select value={action} onValueChange={(value) => setAction(value as CommentRuleAction)}>
+                                    <SelectTrigger><SelectValue /></SelectTrigger>
+                                    <SelectContent>
+                                        {Object.entries(ACTIONS).map(([value, label]) => (
+                                            <SelectItem key={value} value={value}>{label}</SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+
+                            {MATCH_TYPES[matchType].patterns && (
+                                <Textarea
+                                    value={patterns}
+                                    onChange={(e) => setPatterns(e.target.value)}
+                                    placeholder={MATCH_TYPES[matchType].patterns!}
+                                    rows={3}
+                                />
+                            )}
+
+                            {action === 'reply' && (
+                                commentRules.templates.length === 0 ? (
+                                    <p className="text-sm text-muted-foreground">Save a reply first to use it in a rule.</p>
+                                ) : (
+                                    <Select value={templateId} onValueChange={setTemplateId}>
+                                        <SelectTrigger><SelectValue placeholder="Saved reply" /></SelectTrigger>
+                                        <SelectContent>
+                                            {commentRules.templates.map(template => (
+                                                <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>
+                                            ))}
+                                        </SelectContent>
+                                    </Select>
+                                )
+                            )}
+
+                            <Button disabled={!canAddRule || isSaving} onClick={handleAddRule}>
+                                Add Rule
+                            </Button>
+                        </div>
+                    </TabsContent>
+
+                    <TabsContent value="templates" className="space-y-4">
+                        {commentRules.templates.length === 0 && (
+                            <p className="text-sm text-muted-foreground">No saved replies yet.</p>
+                        )}
+                        {commentRules.templates.map(template => (
+                            <div key={template.id} className="flex items-start justify-between gap-3 rounded-lg border p-3 text-sm">
+                                <div className="min-w-0">
+                                    <div className="font-medium">{template.name}</div>
+                                    <p className="text-muted-foreground whitespace-pre-wrap break-words">{template.body}</p>
+                                </div>
+                                <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    disabled={isSaving}
+                                    onClick={() => runAction(() => commentRules.deleteTemplate(template.id), 'Could Not Delete Reply')}
+                                >
+                                    <Trash2 className="w-4 h-4" />
+                                </Button>
+                            </div>
+                        ))}
+
+                        <div className="space-y-3 rounded-lg border p-3">
+                            <Input
+                                value={templateName}
+                                onChange={(e) => setTemplateName(e.target.value)}
+                                placeholder="Name, e.g. Thanks"
+                            />
+                            <Textarea
+                                value={templateBody}
+                                onChange={(e) => setTemplateBody(e.target.value)}
+                                placeholder="Thanks for watching, {name}!"
+                                rows={3}
+                            />
+                            <p className="text-xs text-muted-foreground">{'{name}'} is replaced with the commenter's name.</p>
+                            <Button
+                                disabled={!templateName.trim() || !templateBody.trim() || isSaving}
+                                onClick={handleAddTemplate}
+                            >
+                                Save Reply
+                            </Button>
+                        </div>
+                    </TabsContent>
+                </Tabs>
+            </DialogContent>
+        </Dialog>
+    );
+};
+
+export default CommentRules;
@@ -1,51 +1,53 @@
-import { useState, useCallback } from 'react';
+/**
+ * Content Calendar Component
+ * Scheduled posts by day, with each target's publish status; posts that are
+ * still scheduled can be dragged to another day. Recurring series are
+ * expanded for the month on show, and a single occurrence can be moved or
+ * skipped without touching the rest of the series.
+ */
+
+import { useState, useCallback, useMemo } from 'react';
+import { Link } from 'react-router-dom';
 import {
-    Calendar as CalendarIcon,
     Clock,
     Plus,
-    Edit,
     Trash2,
-    Copy,
-    PlayCircle,
     Youtube,
     Facebook,
     Instagram,
-    MoreVertical
+    Linkedin,
+    Music2,
+    Cloud,
+    AtSign,
+    MoreVertical,
+    Repeat,
+    CalendarClock,
+    SkipForward
 } from 'lucide-react';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Input } from '@/components/ui/input';
-import { Textarea } from '@/components/ui/textarea';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
-import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
-
-interface ScheduledPost {
-    id: string;
-    title: string;
-    content: string;
-    platforms: string[];
-    scheduledTime: Date;
-    status: 'draft' | 'scheduled' | 'published' | 'failed';
-    mediaUrls?: string[];
-    tags?: string[];
-    createdAt: Date;
-    updatedAt: Date;
-}
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import PlatformPostBadges from '@/components/PlatformPostBadges';
+import ScheduleTime from '@/components/ScheduleTime';
+import { useToast } from '@/hooks/use-toast';
+import { useScheduleCalendar } from '@/hooks/useScheduleCalendar';
+import { differenceInCalendarDays } from 'date-fns';
+import { formatInTimeZone, fromZonedInputValues, getZonedParts, toZonedInputValues, zonedTimeToUtc } from '@/lib/timeZone';
+import type { CalendarPost, ScheduledPostStatus } from '@/lib/services/scheduledPostService';
 
 const PLATFORM_ICONS = {
     youtube: Youtube,
     facebook: Facebook,
-    instagram: Instagram
-};
-
-const PLATFORM_COLORS = {
-    youtube: 'bg-red-500',
-    facebook: 'bg-blue-500',
-    instagram: 'bg-pink-500'
+    instagram: Instagram,
+    // lucide has no TikTok logo
+    tiktok: Music2,
+    linkedin: Linkedin,
+    bluesky: Cloud,
+    mastodon: AtSign
 };
 
 const SUGGESTED_TIMES = [
@@ -56,35 +58,54 @@ const SUGGESTED_TIMES = [
     { time: '21:00', label: 'Prime Time (9 PM)', engagement: 'Very High' }
 ];
 
+// How far ahead the upcoming list expands recurring series
+const UPCOMING_DAYS = 30;
+
+const getStatusColor = (status: ScheduledPostStatus) => {
+    switch (status) {
+        case 'published': return 'bg-green-500';
+        case 'partially_published': return 'bg-orange-500';
+        case 'scheduled': return 'bg-blue-500';
+        case 'publishing': return 'bg-yellow-500';
+        case 'retrying': return 'bg-purple-500';
+        case 'failed': return 'bg-red-500';
+        default: return 'bg-gray-500';
+    }
+};
+
 export const ContentCalendar = () => {
-    const [posts, setPosts] = useState<ScheduledPost[]>([
-        {
-            id: '1',
-            title: 'New Tutorial Video',
-            content: 'Learn advanced React hooks with practical examples',
-            platforms: ['youtube', 'facebook'],
-            scheduledTime: new Date(2024, 11, 29, 18, 0), // Dec 29, 2024, 6:00 PM
-            status: 'scheduled',
-            tags: ['#react', '#tutorial', '#programming'],
-            createdAt: new Date(),
-            updatedAt: new Date()
-        },
-        {
-            id: '2',
-            title: 'Behind the Scenes',
-            content: 'Take a look at our creative process',
-            platforms: ['instagram'],
-            scheduledTime: new Date(2024, 11, 30, 15, 0), // Dec 30, 2024, 3:00 PM
-            status: 'draft',
-            createdAt: new Date(),
-            updatedAt: new Date()
-        }
-    ]);
+    const { toast } = useToast();
+    const {
+        posts,
+        getOccurrences,
+        reschedule,
+        cancel,
+        moveOccurrence,
+        skipOccurrence,
+        cancelSeries,
+        getTargetZones,
+    } = useScheduleCalendar();
 
     const [selectedDate, setSelectedDate] = useState<Date>(new Date());
-    const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
-    const [draggedPost, setDraggedPost] = useState<ScheduledPost | null>(null);
+    const [draggedPost, setDraggedPost] = useState<CalendarPost | null>(null);
     const [viewMode, setViewMode] = useState<'month' | 'week' | 'day'>('month');
+    const [editingPost, setEditingPost] = useState<CalendarPost | null>(null);
+    const [editDate, setEditDate] = useState('');
+    const [editTime, setEditTime] = useState('');
+
+    const shownYear = selectedDate.getFullYear();
+    const shownMonth = selectedDate.getMonth();
+
+    // Series occurrences for the six weeks on show, expanded as the user pages through months
+    const monthOccurrences = useMemo(() => {
+        const firstDay = new Date(shownYear, shownMonth, 1);
+        const from = new Date(shownYear, shownMonth, 1 - firstDay.getDay());
+        const to = new Date(from);
+        to.setDate(to.getDate() + 42);
+        return getOccurrences(from, to);
+    }, [getOccurrences, shownYear, shownMonth]);
+
+    const calendarPosts = useMemo(() => [...posts, ...monthOccurrences], [posts, monthOccurrences]);
 
     // Get calendar days for the current month
     const getCalendarDays = () => {
@@ -92,7 +113,6 @@ export const ContentCalendar = () => {
         const month = selectedDate.getMonth();
 
         const firstDay = new Date(year, month, 1);
-        const lastDay = new Date(year, month + 1, 0);
         const startDate = new Date(firstDay);
         startDate.setDate(startDate.getDate() - firstDay.getDay());
 
@@ -108,12 +128,12 @@ export const ContentCalendar = () => {
     };
 
     const getPostsForDate = (date: Date) => {
-        return posts.filter(post =>
-            post.scheduledTime.toDateString() === date.toDateString()
+        return calendarPosts.filter(post =>
+            post.scheduled_date.toDateString() === date.toDateString()
         );
     };
 
-    const handleDragStart = (post: ScheduledPost) => {
+    const handleDragStart = (post: CalendarPost) => {
         setDraggedPost(post);
     };
 
@@ -121,62 +141,129 @@ export const ContentCalendar = () => {
         e.preventDefault();
     }, []);
 
-    const handleDrop = useCallback((e: React.DragEvent, targetDate: Date) => {
-        e.preventDefault();
-        if (draggedPost) {
-            const updatedPosts = posts.map(post =>
-                post.id === draggedPost.id
-                    ? { ...post, scheduledTime: new Date(targetDate) }
-                    : post
-            );
-            setPosts(updatedPosts);
-            setDraggedPost(null);
+    /**
+     * Move a post, or just this occurrence of a series
+     */
+    const movePost = useCallback(async (post: CalendarPost, scheduledDate: Date) => {
+        if (scheduledDate <= new Date()) {
+            toast({
+                title: 'Could Not Move Post',
+                description: 'Posts can only be moved to a time in the future.',
+                variant: 'destructive',
+            });
+            return false;
+        }
+
+        try {
+            if (post.virtual && post.series_id && post.occurrence_date) {
+                await moveOccurrence(post.series_id, post.occurrence_date, scheduledDate);
+            } else {
+                await reschedule(post.id, scheduledDate);
+            }
+            return true;
+        } catch (error) {
+            toast({
+                title: 'Could Not Move Post',
+                description: error instanceof Error ? error.message : 'Please try again.',
+                variant: 'destructive',
+            });
+            return false;
         }
-    }, [draggedPost, posts]);
-
-    const createNewPost = (postData: Partial<ScheduledPost>) => {
-        const newPost: ScheduledPost = {
-            id: Date.now().toString(),
-            title: postData.title || 'Untitled Post',
-            content: postData.content || '',
-            platforms: postData.platforms || [],
-            scheduledTime: postData.scheduledTime || new Date(),
-            status: 'draft',
-            tags: postData.tags || [],
-            createdAt: new Date(),
-            updatedAt: new Date()
-        };
-
-        setPosts(prev => [...prev, newPost]);
-        setIsCreateModalOpen(false);
+    }, [moveOccurrence, reschedule, toast]);
+
+    const handleDrop = useCallback(async (e: React.DragEvent, targetDate: Date) => {
+        e.preventDefault();
+        if (!draggedPost) return;
+
+        // As many days later as the calendar shows, at the same time on the
+        // clock of the post's zone
+        const days = differenceInCalendarDays(targetDate, draggedPost.scheduled_date);
+        const parts = getZonedParts(draggedPost.scheduled_date, draggedPost.timezone);
+        const day = new Date(Date.UTC(parts.year, parts.month - 1, parts.day + days));
+        const scheduledDate = zonedTimeToUtc({
+            year: day.getUTCFullYear(),
+            month: day.getUTCMonth() + 1,
+            day: day.getUTCDate(),
+            hour: parts.hour,
+            minute: parts.minute,
+        }, draggedPost.timezone);
+        setDraggedPost(null);
+
+        await movePost(draggedPost, scheduledDate);
+    }, [draggedPost, movePost]);
+
+    const openTimeEditor = (post: CalendarPost) => {
+        const { date, time } = toZonedInputValues(post.scheduled_date, post.timezone);
+        setEditingPost(post);
+        setEditDate(date);
+        setEditTime(time);
     };
 
-    const duplicatePost = (post: ScheduledPost) => {
-        const duplicatedPost: ScheduledPost = {
-            ...post,
-            id: Date.now().toString(),
-            title: `${post.title} (Copy)`,
-            status: 'draft',
-            createdAt: new Date(),
-            updatedAt: new Date()
-        };
-
-        setPosts(prev => [...prev, duplicatedPost]);
+    const handleSaveTime = async () => {
+        if (!editingPost || !editDate || !editTime) return;
+
+        if (await movePost(editingPost, fromZonedInputValues(editDate, editTime, editingPost.timezone))) {
+            setEditingPost(null);
+        }
     };
 
-    const deletePost = (postId: string) => {
-        setPosts(prev => prev.filter(post => post.id !== postId));
+    const runSeriesAction = async (action: () => Promise<void>, successTitle: string, failureTitle: string) => {
+        try {
+            await action();
+            toast({ title: successTitle });
+        } catch (error) {
+            toast({
+                title: failureTitle,
+                description: error instanceof Error ? error.message : 'Please try again.',
+                variant: 'destructive',
+            });
+        }
     };
 
-    const getStatusColor = (status: ScheduledPost['status']) => {
-        switch (status) {
-            case 'published': return 'bg-green-500';
-            case 'scheduled': return 'bg-blue-500';
-            case 'failed': return 'bg-red-500';
-            default: return 'bg-gray-500';
+    const skipPost = (post: CalendarPost) => runSeriesAction(
+        () => (post.virtual && post.series_id && post.occurrence_date
+            ? skipOccurrence(post.series_id, post.occurrence_date)
+            : cancel(post.id)),
+        'Occurrence Skipped',
+        'Could Not Skip Occurrence'
+    );
+
+    const cancelPost = async (postId: string) => {
+        try {
+            await cancel(postId);
+            toast({
+                title: 'Post Cancelled',
+                description: 'Scheduled post has been cancelled.',
+            });
+        } catch (error) {
+            toast({
+                title: 'Cancellation Failed',
+                description: error instanceof Error ? error.message : 'Please try again.',
+                variant: 'destructive',
+            });
         }
     };
 
+    const upcomingPosts = useMemo(() => {
+        const now = new Date();
+        const horizon = new Date(now.getTime() + UPCOMING_DAYS * 24 * 60 * 60 * 1000);
+
+        return [
+            ...posts.filter(post => post.scheduled_date > now && post.status === 'scheduled'),
+            ...getOccurrences(now, horizon),
+        ].sort((a, b) => a.scheduled_date.getTime() - b.scheduled_date.getTime());
+    }, [posts, getOccurrences]);
+
+    const renderPlatforms = (post: CalendarPost, iconClassName: string) =>
+        post.results.length > 0 ? (
+            <PlatformPostBadges posts={post.results} compact />
+        ) : (
+            post.platforms.map(platform => {
+                const Icon = PLATFORM_ICONS[platform as keyof typeof PLATFORM_ICONS];
+                return Icon ? <Icon key={platform} className={iconClassName} /> : null;
+            })
+        );
+
     const getEngagementColor = (engagement: string) => {
         switch (engagement) {
             case 'Very High': return 'text-green-500';
@@ -222,15 +309,12 @@ export const ContentCalendar = () => {
                         </Button>
                     </div>
 
-                    <Dialog open={isCreateModalOpen} onOpenChange={setIsCreateModalOpen}>
-                        <DialogTrigger asChild>
-                            <Button className="btn-3d gradient-funky">
-                                <Plus className="w-4 h-4 mr-2" />
-                                Create Post
-                            </Button>
-                        </DialogTrigger>
-                        <CreatePostDialog onSave={createNewPost} />
-                    </Dialog>
+                    <Link to="/upload">
+                        <Button className="btn-3d gradient-funky">
+                            <Plus className="w-4 h-4 mr-2" />
+                            Create Post
+                        </Button>
+                    </Link>
                 </div>
             </div>
 
@@ -313,16 +397,18 @@ export const ContentCalendar = () => {
                                     {dayPosts.slice(0, 3).map(post => (
                                         <div
                                             key={post.id}
-                                            draggable
+                                            draggable={post.status === 'scheduled'}
                                             onDragStart={() => handleDragStart(post)}
+                                            title={`Scheduled for ${formatInTimeZone(post.scheduled_date, post.timezone)}`}
                                             className={`
-                        p-2 rounded text-xs cursor-move hover:opacity-80 transition-opacity
+                        p-2 rounded text-xs hover:opacity-80 transition-opacity
+                        ${post.status === 'scheduled' ? 'cursor-move' : ''}
                         ${getStatusColor(post.status)}
                       `}
                                         >
                                             <div className="flex items-center gap-1 mb-1">
-                                                <Clock className="w-3 h-3" />
-                                                <span>{post.scheduledTime.toLocaleTimeString('en-US', {
+                                                {post.series_id ? <Repeat className="w-3 h-3" /> : <Clock className="w-3 h-3" />}
+                                                <span>{post.scheduled_date.toLocaleTimeString('en-US', {
                                                     hour: 'numeric',
                                                     minute: '2-digit'
                                                 })}</span>
@@ -331,10 +417,7 @@ export const ContentCalendar = () => {
                                             <div className="font-medium truncate">{post.title}</div>
 
                                             <div className="flex gap-1 mt-1">
-                                                {post.platforms.map(platform => {
-                                                    const Icon = PLATFORM_ICONS[platform as keyof typeof PLATFORM_ICONS];
-                                                    return Icon ? <Icon key={platform} className="w-3 h-3" /> : null;
-                                                })}
+                                                {renderPlatforms(post, 'w-3 h-3')}
                                             </div>
                                         </div>
                                     ))}
@@ -379,9 +462,10 @@ export const ContentCalendar = () => {
             <Card className="glass-card p-6">
                 <h3 className="text-lg font-semibold mb-4">Upcoming Posts</h3>
                 <div className="space-y-3">
-                    {posts
-                        .filter(post => post.scheduledTime > new Date() && post.status !== 'published')
-                        .sort((a, b) => a.scheduledTime.getTime() - b.scheduledTime.getTime())
+                    {upcomingPosts.length === 0 && (
+                        <p className="text-sm text-muted-foreground">Nothing scheduled yet.</p>
+                    )}
+                    {upcomingPosts
                         .slice(0, 5)
                         .map(post => (
                             <div key={post.id} className="flex items-center justify-between p-4 bg-white/5 rounded-lg border border-white/10">
@@ -389,23 +473,18 @@ export const ContentCalendar = () => {
                                     <div className={`w-3 h-3 rounded-full ${getStatusColor(post.status)}`} />
 
                                     <div>
-                                        <h4 className="font-medium">{post.title}</h4>
+                                        <h4 className="font-medium flex items-center gap-2">
+                                            {post.title}
+                                            {post.series_id && <Repeat className="w-3 h-3 text-muted-foreground" />}
+                                        </h4>
+                                        <ScheduleTime
+                                            date={post.scheduled_date}
+                                            timeZone={post.timezone}
+                                            accountZones={getTargetZones(post)}
+                                            className="mt-1"
+                                        />
                                         <div className="flex items-center gap-2 mt-1">
-                                            <Clock className="w-3 h-3 text-muted-foreground" />
-                                            <span className="text-sm text-muted-foreground">
-                                                {post.scheduledTime.toLocaleDateString()} at {post.scheduledTime.toLocaleTimeString('en-US', {
-                                                    hour: 'numeric',
-                                                    minute: '2-digit'
-                                                })}
-                                            </span>
-                                        </div>
-                                        <div className="flex items-center gap-2 mt-1">
-                                            {post.platforms.map(platform => {
-                                                const Icon = PLATFORM_ICONS[platform as keyof typeof PLATFORM_ICONS];
-                                                return Icon ? (
-                                                    <Icon key={platform} className="w-4 h-4" />
-                                                ) : null;
-                                            })}
+                                            {renderPlatforms(post, 'w-4 h-4')}
                                         </div>
                                     </div>
                                 </div>
@@ -417,129 +496,88 @@ export const ContentCalendar = () => {
                                         </Button>
                                     </DropdownMenuTrigger>
                                     <DropdownMenuContent align="end">
-                                        <DropdownMenuItem onClick={() => duplicatePost(post)}>
-                                            <Copy className="w-4 h-4 mr-2" />
-                                            Duplicate
-                                        </DropdownMenuItem>
-                                        <DropdownMenuItem>
-                                            <Edit className="w-4 h-4 mr-2" />
-                                            Edit
-                                        </DropdownMenuItem>
-                                        <DropdownMenuItem
-                                            className="text-red-500"
-                                            onClick={() => deletePost(post.id)}
-                                        >
-                                            <Trash2 className="w-4 h-4 mr-2" />
-                                            Delete
+                                        <DropdownMenuItem onClick={() => openTimeEditor(post)}>
+                                            <CalendarClock className="w-4 h-4 mr-2" />
+                                            {post.series_id ? 'Move This Occurrence' : 'Change Time'}
                                         </DropdownMenuItem>
+                                        {post.series_id ? (
+                                            <>
+                                                <DropdownMenuItem onClick={() => skipPost(post)}>
+                                                    <SkipForward className="w-4 h-4 mr-2" />
+                                                    Skip This Occurrence
+                                                </DropdownMenuItem>
+                                                <DropdownMenuSeparator />
+                                                <DropdownMenuItem
+                                                    className="text-red-500"
+                                                    onClick={() => runSeriesAction(
+                                                        () => cancelSeries(post.series_id!),
+                                                        'Series Cancelled',
+                                                        'Cancellation Failed'
+                                                    )}
+                                                >
+                                                    <Trash2 className="w-4 h-4 mr-2" />
+                                                    Cancel Series
+                                                </DropdownMenuItem>
+                                            </>
+                                        ) : (
+                                            <DropdownMenuItem
+                                                className="text-red-500"
+                                                onClick={() => cancelPost(post.id)}
+                                            >
+                                                <Trash2 className="w-4 h-4 mr-2" />
+                                                Cancel Post
+                                            </DropdownMenuItem>
+                                        )}
                                     </DropdownMenuContent>
                                 </DropdownMenu>
                             </div>
                         ))}
                 </div>
             </Card>
-        </div>
-    );
-};
-
-// Create Post Dialog Component
-interface CreatePostDialogProps {
-    onSave: (post: Partial<ScheduledPost>) => void;
-}
-
-const CreatePostDialog = ({ onSave }: CreatePostDialogProps) => {
-    const [title, setTitle] = useState('');
-    const [content, setContent] = useState('');
-    const [platforms, setPlatforms] = useState<string[]>([]);
-    const [scheduledTime, setScheduledTime] = useState<Date>(new Date());
-    const [tags, setTags] = useState('');
-
-    const handleSave = () => {
-        onSave({
-            title,
-            content,
-            platforms,
-            scheduledTime,
-            tags: tags.split(',').map(tag => tag.trim()).filter(Boolean)
-        });
-    };
-
-    return (
-        <DialogContent className="max-w-2xl">
-            <DialogHeader>
-                <DialogTitle>Create New Post</DialogTitle>
-            </DialogHeader>
-
-            <div className="space-y-4">
-                <div>
-                    <Label>Title</Label>
-                    <Input
-                        value={title}
-                        onChange={(e) => setTitle(e.target.value)}
-                        placeholder="Enter post title..."
-                    />
-                </div>
 
-                <div>
-                    <Label>Content</Label>
-                    <Textarea
-                        value={content}
-                        onChange={(e) => setContent(e.target.value)}
-                        placeholder="Enter post content..."
-                        rows={4}
-                    />
-                </div>
-
-                <div>
-                    <Label>Platforms</Label>
-                    <div className="flex gap-2 mt-2">
-                        {Object.entries(PLATFORM_ICONS).map(([platform, Icon]) => (
-                            <Button
-                                key={platform}
-                                variant={platforms.includes(platform) ? 'default' : 'outline'}
-                                size="sm"
-                                onClick={() => {
-                                    setPlatforms(prev =>
-                                        prev.includes(platform)
-                                            ? prev.filter(p => p !== platform)
-                                            : [...prev, platform]
-                                    );
-                                }}
-                            >
-                                <Icon className="w-4 h-4 mr-2" />
-                                {platform.charAt(0).toUpperCase() + platform.slice(1)}
-                            </Button>
-                        ))}
-                    </div>
-                </div>
-
-                <div className="grid grid-cols-2 gap-4">
-                    <div>
-                        <Label>Date & Time</Label>
-                        <Input
-                            type="datetime-local"
-                            value={scheduledTime.toISOString().slice(0, 16)}
-                            onChange={(e) => setScheduledTime(new Date(e.target.value))}
-                        />
-                    </div>
-
-                    <div>
-                        <Label>Tags (comma-separated)</Label>
-                        <Input
-                            value={tags}
-                            onChange={(e) => setTags(e.target.value)}
-                            placeholder="#react, #tutorial"
-                        />
+            <Dialog open={!!editingPost} onOpenChange={(open) => !open && setEditingPost(null)}>
+                <DialogContent className="sm:max-w-[400px]">
+                    <DialogHeader>
+                        <DialogTitle>{editingPost?.series_id ? 'Move This Occurrence' : 'Change Time'}</DialogTitle>
+                        <DialogDescription>
+                            {editingPost?.series_id
+                                ? 'Only this occurrence moves; the rest of the series stays as it is.'
+                                : 'Pick when the post should go out.'}
+                            {editingPost && ` Times are in ${editingPost.timezone.replace(/_/g, ' ')}.`}
+                        </DialogDescription>
+                    </DialogHeader>
+
+                    <div className="grid grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                            <Label htmlFor="edit-post-date">Date</Label>
+                            <Input
+                                id="edit-post-date"
+                                type="date"
+                                value={editDate}
+                                onChange={(e) => setEditDate(e.target.value)}
+                            />
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="edit-post-time">Time</Label>
+                            <Input
+                                id="edit-post-time"
+                                type="time"
+                                value={editTime}
+                                onChange={(e) => setEditTime(e.target.value)}
+                            />
+                        </div>
                     </div>
-                </div>
 
-                <div className="flex justify-end gap-3">
-                    <Button variant="outline">Save as Draft</Button>
-                    <Button onClick={handleSave} className="gradient-funky">
-                        Schedule Post
-                    </Button>
-                </div>
-            </div>
-        </DialogContent>
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setEditingPost(null)}>
+                            Cancel
+                        </Button>
+                        <Button disabled={!editDate || !editTime} onClick={handleSaveTime}>
+                            Save
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+        </div>
     );
-};
\ No newline at end of file
+};
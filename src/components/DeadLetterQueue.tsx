@@ -0,0 +1,242 @@
+/**
+ * Dead Letter Queue Component
+ * Scheduled posts the worker stopped retrying, with what went wrong on each
+ * platform; after reconnecting an account or editing the caption the post
+ * can be requeued
+ */
+
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { AlertTriangle, Edit, RotateCcw, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import PlatformPostBadges from '@/components/PlatformPostBadges';
+import ScheduleTime from '@/components/ScheduleTime';
+import { useToast } from '@/hooks/use-toast';
+import { useScheduleCalendar } from '@/hooks/useScheduleCalendar';
+import { getPlatformAdapter } from '@/lib/platforms';
+import type { CalendarPost, PlatformPost } from '@/lib/services/scheduledPostService';
+
+const platformName = (platform: string) => {
+    try {
+        return getPlatformAdapter(platform).name;
+    } catch {
+        return platform;
+    }
+};
+
+/**
+ * What the user can do about a target the worker gave up on
+ */
+const getHint = (target: PlatformPost) => {
+    switch (target.error_type) {
+        case 'credentials':
+            return `Reconnect ${platformName(target.platform)}, then requeue.`;
+        case 'rejected':
+            return `${platformName(target.platform)} rejected the post. Edit it, then requeue.`;
+        default:
+            return `${platformName(target.platform)} kept failing after ${target.attempts} attempts. Requeue to try again.`;
+    }
+};
+
+const DeadLetterQueue = () => {
+    const { toast } = useToast();
+    const { posts, requeue, cancel, updateContent, getTargetZones } = useScheduleCalendar();
+    const [busyId, setBusyId] = useState<string | null>(null);
+    const [editing, setEditing] = useState<CalendarPost | null>(null);
+    const [title, setTitle] = useState('');
+    const [description, setDescription] = useState('');
+
+    const deadLetters = posts
+        .filter(post => post.status === 'failed' || post.status === 'partially_published')
+        .sort((a, b) => b.scheduled_date.getTime() - a.scheduled_date.getTime());
+
+    const runAction = async (postId: string, action: () => Promise<unknown>, failureTitle: string) => {
+        setBusyId(postId);
+        try {
+            await action();
+            return true;
+        } catch (error: any) {
+            toast({
+                title: failureTitle,
+                description: error.message,
+                variant: 'destructive',
+            });
+            return false;
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const handleRequeue = async (post: CalendarPost) => {
+        const requeued = await runAction(post.id, () => requeue(post.id), 'Could Not Requeue Post');
+        if (requeued) {
+            toast({
+                title: 'Post Requeued',
+                description: 'It goes out on the next worker run; platforms that already published it are left alone.',
+            });
+        }
+    };
+
+    const openEditor = (post: CalendarPost) => {
+        setEditing(post);
+        setTitle(post.title);
+        setDescription(post.description);
+    };
+
+    const handleSave = async () => {
+        if (!editing) return;
+
+        const saved = await runAction(
+            editing.id,
+            () => updateContent(editing.id, { title: title.trim(), description }),
+            'Could Not Save Post'
+        );
+        if (saved) {
+            setEditing(null);
+        }
+    };
+
+    return (
+        <Card className="glass-card p-6">
+            <div className="flex items-center gap-2 mb-1">
+                <AlertTriangle className="w-5 h-5 text-red-500" />
+                <h3 className="text-lg font-semibold">Dead Letter Queue</h3>
+            </div>
+            <p className="text-sm text-muted-foreground mb-4">
+                Posts that stopped retrying. Fix what went wrong, then requeue them.
+            </p>
+
+            <div className="space-y-3">
+                {deadLetters.length === 0 && (
+                    <p className="text-sm text-muted-foreground">Nothing here; every scheduled post went out or is still retrying.</p>
+                )}
+                {deadLetters.map(post => {
+                    const failedTargets = post.results.filter(result => result.status === 'failed');
+                    const needsReconnect = failedTargets.some(result => result.error_type === 'credentials');
+
+                    return (
+                        <div key={post.id} className="p-4 bg-white/5 rounded-lg border border-white/10 space-y-3">
+                            <div className="flex items-start justify-between gap-4">
+                                <div className="min-w-0">
+                                    <h4 className="font-medium truncate">{post.title}</h4>
+                                    <ScheduleTime
+                                        date={post.scheduled_date}
+                                        timeZone={post.timezone}
+                                        accountZones={getTargetZones(post)}
+                                        className="mt-1"
+                                    />
+                                </div>
+                                <Badge className={post.status === 'failed' ? 'bg-red-500/20 text-red-500' : 'bg-orange-500/20 text-orange-500'}>
+                                    {post.status === 'failed' ? 'Failed' : 'Partially published'}
+                                </Badge>
+                            </div>
+
+                            <PlatformPostBadges posts={post.results} />
+
+                            <ul className="space-y-1 text-sm">
+                                {failedTargets.map(target => (
+                                    <li key={target.id}>
+                                        <span className="text-red-500">{target.last_error || 'Failed'}</span>
+                                        <span className="text-muted-foreground"> · {getHint(target)}</span>
+                                    </li>
+                                ))}
+                                {failedTargets.length === 0 && post.error_message && (
+                                    <li className="text-red-500">{post.error_message}</li>
+                                )}
+                            </ul>
+
+                            <div className="flex flex-wrap gap-2">
+                                {needsReconnect && (
+                                    <Link to="/platforms">
+                                        <Button variant="outline" size="sm" className="btn-3d">
+                                            Reconnect Accounts
+                                        </Button>
+                                    </Link>
+                                )}
+                                <Button
+                                    variant="outline"
+                                    size="sm"
+                                    className="btn-3d"
+                                    disabled={busyId === post.id}
+                                    onClick={() => openEditor(post)}
+                                >
+                                    <Edit className="w-3 h-3 mr-1" />
+                                    Edit
+                                </Button>
+                                <Button
+                                    size="sm"
+                                    className="btn-3d"
+                                    disabled={busyId === post.id}
+                                    onClick={() => handleRequeue(post)}
+                                >
+                                    <RotateCcw className={`w-3 h-3 mr-1 ${busyId === post.id ? 'animate-spin' : ''}`} />
+                                    Requeue
+                                </Button>
+                                {post.status === 'failed' && (
+                                    <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        className="text-red-500"
+                                        disabled={busyId === post.id}
+                                        onClick={() => runAction(post.id, () => cancel(post.id), 'Could Not Discard Post')}
+                                    >
+                                        <Trash2 className="w-3 h-3 mr-1" />
+                                        Discard
+                                    </Button>
+                                )}
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+
+            <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+                <DialogContent>
+                    <DialogHeader>
+                        <DialogTitle>Edit Post</DialogTitle>
+                        <DialogDescription>
+                            The title and description belong to the library video, so its other posts change too.
+                        </DialogDescription>
+                    </DialogHeader>
+
+                    <div className="space-y-4">
+                        <div className="space-y-2">
+                            <Label htmlFor="dead-letter-title">Title</Label>
+                            <Input
+                                id="dead-letter-title"
+                                value={title}
+                                onChange={(e) => setTitle(e.target.value)}
+                            />
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="dead-letter-description">Description</Label>
+                            <Textarea
+                                id="dead-letter-description"
+                                value={description}
+                                onChange={(e) => setDescription(e.target.value)}
+                                rows={6}
+                            />
+                        </div>
+                    </div>
+
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setEditing(null)}>
+                            Cancel
+                        </Button>
+                        <Button disabled={!title.trim() || busyId === editing?.id} onClick={handleSave}>
+                            Save
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+        </Card>
+    );
+};
+
+export default DeadLetterQueue;
@@ -1,17 +1,27 @@
 /**
  * Debug Panel Component
- * Helps identify authentication and database connection issues
+ * Helps identify authentication and database connection issues, and shows YouTube quota left
  */
 
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { youtubeQuotaService, YouTubeQuotaUsage } from '@/lib/services/youtubeQuotaService';
 
 export const DebugPanel = () => {
     const { user, loading, session } = useAuth();
     const [dbStatus, setDbStatus] = useState<string>('Not tested');
     const [tableExists, setTableExists] = useState<string>('Not tested');
+    const [quota, setQuota] = useState<YouTubeQuotaUsage | null>(null);
+
+    useEffect(() => {
+        youtubeQuotaService.getUsage().then(setQuota).catch(error => {
+            console.error('Failed to load YouTube quota usage:', error);
+        });
+        return youtubeQuotaService.subscribe(setQuota);
+    }, []);
 
     const testDatabaseConnection = async () => {
         try {
@@ -59,6 +69,25 @@ export const DebugPanel = () => {
                 <p><strong>Session:</strong> {session ? 'Active' : 'None'}</p>
                 <p><strong>DB Status:</strong> {dbStatus}</p>
                 <p><strong>Table Exists:</strong> {tableExists}</p>
+                {quota && (
+                    <div className="pt-1">
+                        <p>
+                            <strong>YouTube Quota:</strong> {quota.remaining.toLocaleString()} / {quota.limit.toLocaleString()} left
+                        </p>
+                        <Progress value={(quota.used / quota.limit) * 100} className="h-1.5 my-1 bg-white/30" />
+                        <p className="text-xs">
+                            {quota.remaining <= quota.reserved
+                                ? 'Reserved for publishing; music search and stats use cached data. '
+                                : ''}
+                            Resets {quota.resetsAt.toLocaleTimeString()}
+                        </p>
+                        {Object.entries(quota.byEndpoint).map(([endpoint, units]) => (
+                            <p key={endpoint} className="text-xs">
+                                {endpoint}: {units}
+                            </p>
+                        ))}
+                    </div>
+                )}
             </div>
             <div className="mt-2 space-x-2">
                 <Button
@@ -11,6 +11,8 @@ import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
 import { Progress } from '@/components/ui/progress';
 import { createAIContentGenerator, ContentGenerationOptions, GeneratedContent } from '@/lib/api/ai-content';
+import { captionService } from '@/lib/services/captionService';
+import { useContentLibrary } from '@/hooks/useContentLibrary';
 
 interface BatchJob {
     id: string;
@@ -77,6 +79,27 @@ export const EnhancedAIStudio = () => {
     const [enableABTesting, setEnableABTesting] = useState(false);
     const [enablePredictions, setEnablePredictions] = useState(true);
     const [selectedStyle, setSelectedStyle] = useState<keyof typeof ENHANCED_PROMPTS>('viral');
+    const [sourceVideoId, setSourceVideoId] = useState('');
+
+    const { items: libraryItems } = useContentLibrary();
+    const libraryVideos = libraryItems.filter(item => item.mediaType === 'video');
+
+    /**
+     * Start from a library video: its title, and its stored captions as the transcript
+     */
+    const handleSelectVideo = async (videoId: string) => {
+        const video = libraryVideos.find(item => item.id === videoId);
+        setSourceVideoId(videoId);
+        setContentOptions(prev => ({ ...prev, videoTitle: video?.title || prev.videoTitle }));
+
+        try {
+            const tracks = await captionService.getTracks(videoId);
+            const track = tracks.find(t => t.cues.length > 0);
+            setContentOptions(prev => ({ ...prev, videoTranscript: track ? captionService.toTranscript(track.cues) : '' }));
+        } catch (error) {
+            console.error('Failed to load captions:', error);
+        }
+    };
 
     const handleGenerateContent = async () => {
         setIsGenerating(true);
@@ -208,6 +231,8 @@ export const EnhancedAIStudio = () => {
                                 <SelectItem value="youtube">YouTube</SelectItem>
                                 <SelectItem value="facebook">Facebook</SelectItem>
                                 <SelectItem value="instagram">Instagram</SelectItem>
+                                <SelectItem value="tiktok">TikTok</SelectItem>
+                                <SelectItem value="linkedin">LinkedIn</SelectItem>
                             </SelectContent>
                         </Select>
                     </div>
@@ -289,6 +314,24 @@ export const EnhancedAIStudio = () => {
                     <h3 className="text-lg font-semibold mb-4">Content Input</h3>
 
                     <div className="space-y-4">
+                        {libraryVideos.length > 0 && (
+                            <div>
+                                <Label>Library Video (Optional)</Label>
+                                <Select value={sourceVideoId} onValueChange={handleSelectVideo}>
+                                    <SelectTrigger>
+                                        <SelectValue placeholder="Use a video's title and captions..." />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        {libraryVideos.map(video => (
+                                            <SelectItem key={video.id} value={video.id}>
+                                                {video.title}
+                                            </SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                        )}
+
                         <div>
                             <Label>Video Title</Label>
                             <Input
@@ -311,7 +354,7 @@ export const EnhancedAIStudio = () => {
                         <div>
                             <Label>Transcript (Optional)</Label>
                             <Textarea
-                                placeholder="Paste key parts of your transcript for better context..."
+                                placeholder="Paste key parts of your transcript, or pick a library video with captions..."
                                 value={contentOptions.videoTranscript}
                                 onChange={(e) => setContentOptions(prev => ({ ...prev, videoTranscript: e.target.value }))}
                                 rows={4}
@@ -1,4 +1,4 @@
-import { Upload, Video, Link as LinkIcon, Menu, Sparkles, LogIn, Calendar as CalendarIcon, Orbit, Music } from "lucide-react";
+import { Upload, Video, Link as LinkIcon, Menu, Sparkles, LogIn, Calendar as CalendarIcon, Orbit, Music, MessageSquare } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Link, useNavigate } from "react-router-dom";
 import { useAuth } from "@/contexts/AuthContext";
@@ -66,6 +66,12 @@ const Header = () => {
               Scheduler
             </Button>
           </Link>
+          <Link to="/inbox">
+            <Button variant="ghost" className="btn-3d text-foreground hover:text-primary">
+              <MessageSquare className="w-4 h-4 mr-2" />
+              Inbox
+            </Button>
+          </Link>
           <Link to="/ai-studio">
             <Button variant="ghost" className="btn-3d text-foreground hover:text-primary">
               <Sparkles className="w-4 h-4 mr-2" />
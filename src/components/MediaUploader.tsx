@@ -0,0 +1,176 @@
+/**
+ * Media Uploader Component
+ * Uploads the photos and videos of an image or multi-asset post, in order
+ */
+
+import { useState, useCallback } from 'react';
+import { ImagePlus, Video, X, Loader2, ChevronLeft, ChevronRight } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import { useVideoUpload, UploadedMedia } from '@/hooks/useVideoUpload';
+
+export interface PostMediaItem extends UploadedMedia {
+    altText?: string;
+}
+
+interface MediaUploaderProps {
+    media: PostMediaItem[];
+    onChange: (media: PostMediaItem[]) => void;
+    userId: string;
+    maxItems?: number;
+}
+
+const MediaUploader = ({ media, onChange, userId, maxItems = 10 }: MediaUploaderProps) => {
+    const [isDragging, setIsDragging] = useState(false);
+    const { uploading, progress, uploadMedia } = useVideoUpload();
+
+    const handleFiles = useCallback(async (files: File[]) => {
+        const accepted = files
+            .filter(file => file.type.startsWith('image/') || file.type.startsWith('video/'))
+            .slice(0, maxItems - media.length);
+
+        // Upload one at a time so the progress bar means something
+        let uploaded = media;
+        for (const file of accepted) {
+            try {
+                const item = await uploadMedia(file, userId);
+                uploaded = [...uploaded, item];
+                onChange(uploaded);
+            } catch (error) {
+                // The hook already told the user; carry on with the rest
+                console.error('Upload error:', error);
+            }
+        }
+    }, [media, maxItems, onChange, uploadMedia, userId]);
+
+    const handleDrop = (e: React.DragEvent) => {
+        e.preventDefault();
+        setIsDragging(false);
+        handleFiles(Array.from(e.dataTransfer.files));
+    };
+
+    const handleFileInput = (e: React.ChangeEvent<HTMLInputElement>) => {
+        handleFiles(Array.from(e.target.files || []));
+        e.target.value = '';
+    };
+
+    const moveItem = (index: number, offset: number) => {
+        const next = [...media];
+        const [item] = next.splice(index, 1);
+        next.splice(index + offset, 0, item);
+        onChange(next);
+    };
+
+    const updateAltText = (index: number, altText: string) => {
+        onChange(media.map((item, i) => i === index ? { ...item, altText } : item));
+    };
+
+    return (
+        <Card className="glass-card p-6 space-y-4">
+            <div className="flex items-center justify-between">
+                <h3 className="text-lg font-bold">Photos & Carousel</h3>
+                <span className="text-sm text-muted-foreground">{media.length}/{maxItems}</span>
+            </div>
+
+            {media.length > 0 && (
+                <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+                    {media.map((item, index) => (
+                        <div key={item.path} className="space-y-1">
+                            <div className="relative rounded-lg overflow-hidden bg-black aspect-square">
+                                {item.type === 'image' ? (
+                                    <img src={item.url} alt={item.altText || ''} className="w-full h-full object-cover" />
+                                ) : (
+                                    <video src={item.url} className="w-full h-full object-cover" muted />
+                                )}
+                                <span className="absolute top-1 left-1 bg-black/70 text-white text-xs px-1.5 rounded">
+                                    {index + 1}
+                                </span>
+                                {item.type === 'video' && (
+                                    <Video className="absolute bottom-1 left-1 w-4 h-4 text-white" />
+                                )}
+                                <Button
+                                    variant="destructive"
+                                    size="sm"
+                                    className="absolute top-1 right-1 h-6 w-6 p-0"
+                                    onClick={() => onChange(media.filter((_, i) => i !== index))}
+                                >
+                                    <X className="w-3 h-3" />
+                                </Button>
+                                <div className="absolute bottom-1 right-1 flex gap-1">
+                                    <Button
+                                        variant="secondary"
+                                        size="sm"
+                                        className="h-6 w-6 p-0"
+                                        disabled={index === 0}
+                                        onClick={() => moveItem(index, -1)}
+                                    >
+                                        <ChevronLeft className="w-3 h-3" />
+                                    </Button>
+                                    <Button
+                                        variant="secondary"
+                                        size="sm"
+                                        className="h-6 w-6 p-0"
+                                        disabled={index === media.length - 1}
+                                        onClick={() => moveItem(index, 1)}
+                                    >
+                                        <ChevronRight className="w-3 h-3" />
+                                    </Button>
+                                </div>
+                            </div>
+                            <Input
+                                placeholder="Alt text"
+                                value={item.altText || ''}
+                                onChange={(e) => updateAltText(index, e.target.value)}
+                                className="h-8 text-xs"
+                            />
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {uploading ? (
+                <div className="space-y-2">
+                    <Progress value={progress.percentage} />
+                    <p className="text-xs text-center text-muted-foreground flex items-center justify-center gap-2">
+                        <Loader2 className="w-3 h-3 animate-spin" />
+                        Uploading... {progress.percentage.toFixed(0)}%
+                    </p>
+                </div>
+            ) : media.length < maxItems && (
+                <div
+                    onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+                    onDragLeave={(e) => { e.preventDefault(); setIsDragging(false); }}
+                    onDrop={handleDrop}
+                    className={`border-2 border-dashed rounded-lg p-6 text-center transition-colors ${isDragging
+                            ? 'border-primary bg-primary/10'
+                            : 'border-muted-foreground/25 hover:border-primary/50'
+                        }`}
+                >
+                    <input
+                        type="file"
+                        accept="image/jpeg,image/png,image/webp,video/*"
+                        multiple
+                        onChange={handleFileInput}
+                        className="hidden"
+                        id="media-upload"
+                    />
+                    <label htmlFor="media-upload">
+                        <Button variant="outline" className="btn-3d" asChild>
+                            <span>
+                                <ImagePlus className="w-4 h-4 mr-2" />
+                                Add Photos or Videos
+                            </span>
+                        </Button>
+                    </label>
+                    <p className="text-xs text-muted-foreground mt-3">
+                        For image posts, carousels and Stories. JPEG recommended for Instagram (max 8MB per image)
+                    </p>
+                </div>
+            )}
+        </Card>
+    );
+};
+
+export default MediaUploader;
@@ -5,10 +5,10 @@
 
 import { useEffect, useState } from 'react';
 import { useNavigate, useSearchParams } from 'react-router-dom';
-import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { Card } from '@/components/ui/card';
 import { Loader2 } from 'lucide-react';
+import { completeAuthorization, getPlatformAdapter } from '@/lib/platforms';
 
 const OAuthCallback = () => {
     const [searchParams] = useSearchParams();
@@ -23,27 +23,24 @@ const OAuthCallback = () => {
     const handleCallback = async () => {
         try {
             const code = searchParams.get('code');
+            const state = searchParams.get('state');
             const error = searchParams.get('error');
-            const connectingPlatform = localStorage.getItem('connectingPlatform');
 
             if (error) {
                 throw new Error(`OAuth error: ${error}`);
             }
 
-            if (!code || !connectingPlatform) {
-                throw new Error('Missing authorization code or platform information');
+            if (!code || !state) {
+                throw new Error('Missing authorization code or state');
             }
 
-            // Store the tokens in Supabase or local storage based on the platform
-            await handlePlatformAuth(connectingPlatform, code);
-
-            // Clean up
-            localStorage.removeItem('connectingPlatform');
+            // The edge function verifies the state, exchanges the code and stores the tokens
+            const { platform } = await completeAuthorization(code, state);
 
             setStatus('success');
             toast({
                 title: 'Success!',
-                description: `Successfully connected to ${connectingPlatform}`,
+                description: `Successfully connected to ${getPlatformAdapter(platform).name}`,
             });
 
             // Redirect to platform connections after a delay
@@ -67,104 +64,6 @@ const OAuthCallback = () => {
         }
     };
 
-    const handlePlatformAuth = async (platform: string, code: string) => {
-        switch (platform) {
-            case 'youtube':
-                await handleYouTubeAuth(code);
-                break;
-            case 'facebook':
-                await handleFacebookAuth(code);
-                break;
-            case 'instagram':
-                await handleInstagramAuth(code);
-                break;
-            default:
-                throw new Error(`Unsupported platform: ${platform}`);
-        }
-    };
-
-    const handleYouTubeAuth = async (code: string) => {
-        const config = {
-            clientId: import.meta.env.VITE_YOUTUBE_CLIENT_ID,
-            clientSecret: import.meta.env.VITE_YOUTUBE_CLIENT_SECRET,
-            apiKey: import.meta.env.VITE_YOUTUBE_API_KEY,
-            redirectUri: `${window.location.origin}/dashboard`
-        };
-
-        const { createYouTubeAPI } = await import('@/lib/api/youtube');
-        const youtubeAPI = createYouTubeAPI(config);
-
-        const tokens = await youtubeAPI.exchangeCodeForTokens(code);
-
-        // Store tokens securely (in a real app, encrypt these)
-        const { data: { user } } = await supabase.auth.getUser();
-        if (user) {
-            await supabase.from('platform_connections').upsert({
-                user_id: user.id,
-                platform: 'youtube',
-                access_token: tokens.access_token,
-                refresh_token: tokens.refresh_token,
-                expires_at: new Date(Date.now() + tokens.expires_in * 1000).toISOString(),
-                updated_at: new Date().toISOString()
-            });
-        }
-    };
-
-    const handleFacebookAuth = async (code: string) => {
-        const config = {
-            appId: import.meta.env.VITE_FACEBOOK_APP_ID,
-            appSecret: import.meta.env.VITE_FACEBOOK_APP_SECRET,
-            redirectUri: `${window.location.origin}/dashboard`
-        };
-
-        const { createFacebookAPI } = await import('@/lib/api/facebook');
-        const facebookAPI = createFacebookAPI(config);
-
-        const tokens = await facebookAPI.exchangeCodeForToken(code);
-
-        // Get long-lived token
-        const longLivedTokens = await facebookAPI.getLongLivedToken(tokens.access_token);
-
-        const { data: { user } } = await supabase.auth.getUser();
-        if (user) {
-            await supabase.from('platform_connections').upsert({
-                user_id: user.id,
-                platform: 'facebook',
-                access_token: longLivedTokens.access_token,
-                expires_at: new Date(Date.now() + longLivedTokens.expires_in * 1000).toISOString(),
-                updated_at: new Date().toISOString()
-            });
-        }
-    };
-
-    const handleInstagramAuth = async (code: string) => {
-        // Instagram uses Facebook's OAuth, so we can reuse the Facebook API
-        const config = {
-            appId: import.meta.env.VITE_FACEBOOK_APP_ID,
-            appSecret: import.meta.env.VITE_FACEBOOK_APP_SECRET,
-            redirectUri: `${window.location.origin}/dashboard`
-        };
-
-        const { createFacebookAPI } = await import('@/lib/api/facebook');
-        const facebookAPI = createFacebookAPI(config);
-
-        const tokens = await facebookAPI.exchangeCodeForToken(code);
-
-        // Get long-lived token
-        const longLivedTokens = await facebookAPI.getLongLivedToken(tokens.access_token);
-
-        const { data: { user } } = await supabase.auth.getUser();
-        if (user) {
-            await supabase.from('platform_connections').upsert({
-                user_id: user.id,
-                platform: 'instagram',
-                access_token: longLivedTokens.access_token,
-                expires_at: new Date(Date.now() + longLivedTokens.expires_in * 1000).toISOString(),
-                updated_at: new Date().toISOString()
-            });
-        }
-    };
-
     const getStatusMessage = () => {
         switch (status) {
             case 'processing':
@@ -0,0 +1,108 @@
+/**
+ * Platform Post Badges Component
+ * One badge per publish target: a link to the live post once published, the
+ * error and a retry button when it failed
+ */
+
+import { ExternalLink, Loader2, RotateCcw } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { getPlatformAdapter } from '@/lib/platforms';
+import type { PlatformPost, PlatformPostStatus } from '@/lib/services/scheduledPostService';
+
+const STATUS_STYLES: Record<PlatformPostStatus, string> = {
+    pending: 'bg-gray-500/20 text-gray-400',
+    publishing: 'bg-yellow-500/20 text-yellow-500',
+    published: 'bg-green-500/20 text-green-500',
+    failed: 'bg-red-500/20 text-red-500',
+};
+
+const STATUS_LABELS: Record<PlatformPostStatus, string> = {
+    pending: 'Waiting to publish',
+    publishing: 'Publishing',
+    published: 'Published',
+    failed: 'Failed',
+};
+
+interface PlatformPostBadgesProps {
+    posts: PlatformPost[];
+    /** Offered on failed targets when given */
+    onRetry?: (post: PlatformPost) => void;
+    /** Target being retried, to disable its button */
+    retryingId?: string | null;
+    /** Icons only, for tight spaces like calendar cells */
+    compact?: boolean;
+}
+
+const platformInfo = (platform: string) => {
+    try {
+        const { name, icon } = getPlatformAdapter(platform);
+        return { name, icon };
+    } catch {
+        return { name: platform, icon: '📱' };
+    }
+};
+
+const PlatformPostBadges = ({ posts, onRetry, retryingId, compact = false }: PlatformPostBadgesProps) => {
+    if (posts.length === 0) return null;
+
+    return (
+        <div className="flex flex-wrap items-center gap-1">
+            {posts.map(post => {
+                const { name, icon } = platformInfo(post.platform);
+                const attempts = `${post.attempts} ${post.attempts === 1 ? 'attempt' : 'attempts'}`;
+                const description = post.status === 'failed'
+                    ? `${name}: ${post.last_error || 'Failed'} (${attempts})`
+                    : post.status === 'pending' && post.last_error
+                        ? `${name}: Retrying${post.next_attempt_at ? ` at ${new Date(post.next_attempt_at).toLocaleTimeString()}` : ''} after ${attempts}: ${post.last_error}`
+                        : `${name}: ${STATUS_LABELS[post.status]}`;
+
+                const badge = (
+                    <Badge variant="outline" className={`gap-1 border-0 ${STATUS_STYLES[post.status]} ${compact ? 'px-1' : ''}`}>
+                        {post.status === 'publishing' ? <Loader2 className="w-3 h-3 animate-spin" /> : <span>{icon}</span>}
+                        {!compact && name}
+                        {!compact && post.status === 'published' && post.url && <ExternalLink className="w-3 h-3" />}
+                    </Badge>
+                );
+
+                return (
+                    <div key={post.id} className="flex items-center">
+                        <Tooltip>
+                            <TooltipTrigger asChild>
+                                {post.status === 'published' && post.url ? (
+                                    <a
+                                        href={post.url}
+                                        target="_blank"
+                                        rel="noopener noreferrer"
+                                        onClick={(e) => e.stopPropagation()}
+                                    >
+                                        {badge}
+                                    </a>
+                                ) : (
+                                    <span>{badge}</span>
+                                )}
+                            </TooltipTrigger>
+                            <TooltipContent className="max-w-xs">{description}</TooltipContent>
+                        </Tooltip>
+
+                        {!compact && onRetry && post.status === 'failed' && post.scheduled_post_id && (
+                            <Button
+                                variant="ghost"
+                                size="sm"
+                                className="h-6 px-1"
+                                disabled={retryingId === post.id}
+                                onClick={() => onRetry(post)}
+                                title={`Retry ${name}`}
+                            >
+                                <RotateCcw className={`w-3 h-3 ${retryingId === post.id ? 'animate-spin' : ''}`} />
+                            </Button>
+                        )}
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
+
+export default PlatformPostBadges;
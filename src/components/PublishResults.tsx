@@ -0,0 +1,98 @@
+/**
+ * Publish Results Component
+ * Scheduled posts the worker has run, newest first, with each platform's
+ * outcome; failed platforms can be retried on their own
+ */
+
+import { useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import PlatformPostBadges from '@/components/PlatformPostBadges';
+import ScheduleTime from '@/components/ScheduleTime';
+import { useToast } from '@/hooks/use-toast';
+import { useScheduleCalendar } from '@/hooks/useScheduleCalendar';
+import type { PlatformPost, ScheduledPostStatus } from '@/lib/services/scheduledPostService';
+
+const RECENT_RESULTS = 10;
+
+const STATUS_BADGES: Partial<Record<ScheduledPostStatus, { label: string; className: string }>> = {
+    publishing: { label: 'Publishing', className: 'bg-yellow-500/20 text-yellow-500' },
+    retrying: { label: 'Retrying', className: 'bg-purple-500/20 text-purple-500' },
+    published: { label: 'Published', className: 'bg-green-500/20 text-green-500' },
+    partially_published: { label: 'Partially published', className: 'bg-orange-500/20 text-orange-500' },
+    failed: { label: 'Failed', className: 'bg-red-500/20 text-red-500' },
+};
+
+const PublishResults = () => {
+    const { toast } = useToast();
+    const { posts, retryTarget, getTargetZones } = useScheduleCalendar();
+    const [retryingId, setRetryingId] = useState<string | null>(null);
+
+    const recentPosts = posts
+        .filter(post => STATUS_BADGES[post.status] || (post.status === 'scheduled' && post.results.length > 0))
+        .sort((a, b) => b.scheduled_date.getTime() - a.scheduled_date.getTime())
+        .slice(0, RECENT_RESULTS);
+
+    const handleRetry = async (target: PlatformPost) => {
+        setRetryingId(target.id);
+        try {
+            await retryTarget(target.id);
+            toast({
+                title: 'Retrying',
+                description: 'Only the failed platform will be published again, on the next worker run.',
+            });
+        } catch (error: any) {
+            toast({
+                title: 'Retry Failed',
+                description: error.message,
+                variant: 'destructive',
+            });
+        } finally {
+            setRetryingId(null);
+        }
+    };
+
+    return (
+        <Card className="glass-card p-6">
+            <h3 className="text-lg font-semibold mb-4">Recent Results</h3>
+            <div className="space-y-3">
+                {recentPosts.length === 0 && (
+                    <p className="text-sm text-muted-foreground">Scheduled posts show up here once they've been published.</p>
+                )}
+                {recentPosts.map(post => {
+                    // Requeued posts are waiting for the worker again
+                    const status = STATUS_BADGES[post.status] ?? { label: 'Requeued', className: 'bg-blue-500/20 text-blue-500' };
+
+                    return (
+                        <div key={post.id} className="p-4 bg-white/5 rounded-lg border border-white/10 space-y-2">
+                            <div className="flex items-center justify-between gap-4">
+                                <div className="min-w-0">
+                                    <h4 className="font-medium truncate">{post.title}</h4>
+                                    <ScheduleTime
+                                        date={post.scheduled_date}
+                                        timeZone={post.timezone}
+                                        accountZones={getTargetZones(post)}
+                                        className="mt-1"
+                                    />
+                                </div>
+                                <Badge className={status.className}>{status.label}</Badge>
+                            </div>
+
+                            <PlatformPostBadges posts={post.results} onRetry={handleRetry} retryingId={retryingId} />
+
+                            {post.results.length === 0 && post.error_message && (
+                                <p className="text-sm text-red-500">{post.error_message}</p>
+                            )}
+
+                            {post.status === 'retrying' && post.retry_at && (
+                                <p className="text-sm text-muted-foreground">Next attempt at {post.retry_at.toLocaleTimeString()}</p>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+        </Card>
+    );
+};
+
+export default PublishResults;
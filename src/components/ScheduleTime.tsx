@@ -0,0 +1,48 @@
+/**
+ * Schedule Time Component
+ * A scheduled post's time in the viewer's zone, and underneath it in the zone
+ * it was scheduled in and its accounts' audience zones where those differ
+ */
+
+import { Clock } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { formatInTimeZone, getLocalTimeZone } from '@/lib/timeZone';
+import type { AccountTimeZone } from '@/lib/services/socialMediaService';
+
+interface ScheduleTimeProps {
+    date: Date;
+    /** Zone the time was picked in */
+    timeZone: string;
+    /** Audience zones of the accounts the post goes to */
+    accountZones?: AccountTimeZone[];
+    className?: string;
+}
+
+const ScheduleTime = ({ date, timeZone, accountZones = [], className }: ScheduleTimeProps) => {
+    const localTimeZone = getLocalTimeZone();
+
+    // One line per zone, naming everything that shares it
+    const labelsByZone = new Map<string, string[]>();
+    const addZone = (zone: string, label: string) => {
+        if (zone === localTimeZone) return;
+        labelsByZone.set(zone, [...(labelsByZone.get(zone) || []), label]);
+    };
+    addZone(timeZone, 'Scheduled in');
+    accountZones.forEach(account => addZone(account.timeZone, account.name));
+
+    return (
+        <div className={cn('text-sm text-muted-foreground', className)}>
+            <div className="flex items-center gap-2">
+                <Clock className="w-3 h-3" />
+                <span>{formatInTimeZone(date, localTimeZone)}</span>
+            </div>
+            {[...labelsByZone].map(([zone, labels]) => (
+                <p key={zone} className="ml-5 text-xs">
+                    {labels.join(', ')}: {formatInTimeZone(date, zone)}
+                </p>
+            ))}
+        </div>
+    );
+};
+
+export default ScheduleTime;
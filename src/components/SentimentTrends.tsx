@@ -0,0 +1,109 @@
+/**
+ * Sentiment Trends Component
+ * How the mood of each video's comments changes day by day
+ */
+
+import { useState } from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { Card } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useSentimentTrends } from '@/hooks/useSentimentTrends';
+import { getPlatformAdapter } from '@/lib/platforms';
+import type { CommentSentiment } from '@/lib/services/moderationService';
+
+const SENTIMENTS: { key: CommentSentiment; name: string; color: string }[] = [
+    { key: 'positive', name: 'Positive', color: '#22C55E' },
+    { key: 'neutral', name: 'Neutral', color: '#888888' },
+    { key: 'question', name: 'Question', color: '#3B82F6' },
+    { key: 'negative', name: 'Negative', color: '#EF4444' },
+];
+
+const SentimentTrends = () => {
+    const { trends, isLoading } = useSentimentTrends();
+    const [selectedKey, setSelectedKey] = useState<string | null>(null);
+
+    const keyOf = (trend: { platform: string; postId: string }) => `${trend.platform}:${trend.postId}`;
+    // Busiest video until one is picked
+    const selected = trends.find(trend => keyOf(trend) === selectedKey) || trends[0];
+
+    if (isLoading) {
+        return <Card className="glass-card p-6 text-center text-muted-foreground">Loading comment sentiment...</Card>;
+    }
+
+    if (!selected) {
+        return (
+            <Card className="glass-card p-6">
+                <h3 className="text-lg font-bold mb-2">Comment Sentiment</h3>
+                <p className="text-sm text-muted-foreground">
+                    No labelled comments from the last 30 days yet. Sync the comment inbox to see how viewers feel about each video.
+                </p>
+            </Card>
+        );
+    }
+
+    const totals = SENTIMENTS.map(sentiment => ({
+        ...sentiment,
+        count: selected.points.reduce((sum, point) => sum + point[sentiment.key], 0),
+    }));
+
+    return (
+        <Card className="glass-card p-6 space-y-6">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+                <h3 className="text-lg font-bold">Comment Sentiment</h3>
+                <Select value={keyOf(selected)} onValueChange={setSelectedKey}>
+                    <SelectTrigger className="w-72"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                        {trends.map(trend => (
+                            <SelectItem key={keyOf(trend)} value={keyOf(trend)}>
+                                {trend.postTitle} ({getPlatformAdapter(trend.platform).name})
+                            </SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                {totals.map(({ key, name, color, count }) => (
+                    <div key={key} className="p-3 rounded-lg bg-muted/30">
+                        <p className="text-sm text-muted-foreground">{name}</p>
+                        <p className="text-2xl font-bold" style={{ color }}>
+                            {Math.round((count / selected.total) * 100)}%
+                        </p>
+                        <p className="text-xs text-muted-foreground">{count} comments</p>
+                    </div>
+                ))}
+            </div>
+
+            <div className="h-[300px]">
+                <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={selected.points}>
+                        <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.1)" />
+                        <XAxis
+                            dataKey="date"
+                            stroke="#888888"
+                            fontSize={12}
+                            tickLine={false}
+                            axisLine={false}
+                            tickFormatter={(value) => new Date(value).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}
+                        />
+                        <YAxis
+                            stroke="#888888"
+                            fontSize={12}
+                            tickLine={false}
+                            axisLine={false}
+                            allowDecimals={false}
+                        />
+                        <Tooltip
+                            contentStyle={{ backgroundColor: '#1a1a1a', border: '1px solid rgba(255,255,255,0.1)' }}
+                        />
+                        {SENTIMENTS.map(({ key, name, color }) => (
+                            <Bar key={key} dataKey={key} fill={color} stackId="sentiment" name={name} />
+                        ))}
+                    </BarChart>
+                </ResponsiveContainer>
+            </div>
+        </Card>
+    );
+};
+
+export default SentimentTrends;
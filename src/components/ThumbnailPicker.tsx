@@ -0,0 +1,181 @@
+/**
+ * Thumbnail Picker Component
+ * Chooses a custom thumbnail: AI-generated, a frame of the video, or an uploaded image
+ */
+
+import { useId, useState } from 'react';
+import { Sparkles, Film, Upload, X, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useToast } from '@/hooks/use-toast';
+import { thumbnailService, ThumbnailSource } from '@/lib/services/thumbnailService';
+
+interface ThumbnailPickerProps {
+    videoUrl: string;
+    userId: string;
+    title: string;
+    description: string;
+    /** Public URL of the stored thumbnail, if one is chosen */
+    value?: string;
+    onChange: (thumbnailUrl: string | undefined) => void;
+}
+
+const formatTime = (time: number) => {
+    const minutes = Math.floor(time / 60);
+    const seconds = Math.floor(time % 60);
+    return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+const ThumbnailPicker = ({ videoUrl, userId, title, description, value, onChange }: ThumbnailPickerProps) => {
+    const { toast } = useToast();
+    const [isWorking, setIsWorking] = useState(false);
+    const [frameTime, setFrameTime] = useState(0);
+    const [videoDuration, setVideoDuration] = useState(0);
+    // The page and the schedule dialog can both show a picker
+    const inputId = useId();
+
+    const store = async (source: ThumbnailSource, produce: () => Promise<Blob>) => {
+        setIsWorking(true);
+        try {
+            const image = await produce();
+            onChange(await thumbnailService.save(userId, image, source));
+        } catch (error) {
+            toast({
+                title: 'Thumbnail Failed',
+                description: error instanceof Error ? error.message : 'Could not create the thumbnail. Please try again.',
+                variant: 'destructive',
+            });
+        } finally {
+            setIsWorking(false);
+        }
+    };
+
+    const handleFileInput = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (file) {
+            store('upload', async () => file);
+        }
+        e.target.value = '';
+    };
+
+    return (
+        <div className="space-y-3">
+            <Label>Thumbnail</Label>
+
+            {value && (
+                <div className="relative rounded-lg overflow-hidden">
+                    <img src={value} alt="Selected thumbnail" className="w-full aspect-video object-cover" />
+                    <Button
+                        variant="destructive"
+                        size="sm"
+                        className="absolute top-2 right-2"
+                        onClick={() => onChange(undefined)}
+                        disabled={isWorking}
+                    >
+                        <X className="w-4 h-4" />
+                    </Button>
+                </div>
+            )}
+
+            <Tabs defaultValue="frame">
+                <TabsList className="grid w-full grid-cols-3">
+                    <TabsTrigger value="generate" className="flex items-center gap-1 text-xs">
+                        <Sparkles className="w-3 h-3" />
+                        Generate
+                    </TabsTrigger>
+                    <TabsTrigger value="frame" className="flex items-center gap-1 text-xs">
+                        <Film className="w-3 h-3" />
+                        From Video
+                    </TabsTrigger>
+                    <TabsTrigger value="upload" className="flex items-center gap-1 text-xs">
+                        <Upload className="w-3 h-3" />
+                        Upload
+                    </TabsTrigger>
+                </TabsList>
+
+                <TabsContent value="generate" className="space-y-2">
+                    <Button
+                        variant="outline"
+                        className="w-full btn-3d"
+                        disabled={isWorking || !title || !thumbnailService.canGenerate()}
+                        onClick={() => store('generated', () => thumbnailService.generate(title, description))}
+                    >
+                        <Sparkles className="w-4 h-4 mr-2" />
+                        Generate from Title
+                    </Button>
+                    <p className="text-xs text-muted-foreground">
+                        {thumbnailService.canGenerate()
+                            ? 'Creates an image with DALL·E from the title and description.'
+                            : 'Set VITE_OPENAI_API_KEY to generate thumbnails.'}
+                    </p>
+                </TabsContent>
+
+                <TabsContent value="frame" className="space-y-3">
+                    <video
+                        src={`${videoUrl}#t=${frameTime}`}
+                        crossOrigin="anonymous"
+                        preload="metadata"
+                        muted
+                        onLoadedMetadata={(e) => setVideoDuration(e.currentTarget.duration)}
+                        className="w-full aspect-video rounded-lg bg-black object-contain"
+                    />
+                    <div className="flex items-center gap-3">
+                        <Slider
+                            value={[frameTime]}
+                            min={0}
+                            max={videoDuration || 0}
+                            step={0.1}
+                            onValueChange={([time]) => setFrameTime(time)}
+                            className="flex-1"
+                        />
+                        <span className="text-xs text-muted-foreground w-10 text-right">{formatTime(frameTime)}</span>
+                    </div>
+                    <Button
+                        variant="outline"
+                        className="w-full btn-3d"
+                        disabled={isWorking}
+                        onClick={() => store('frame', () => thumbnailService.captureFrame(videoUrl, frameTime))}
+                    >
+                        <Film className="w-4 h-4 mr-2" />
+                        Use This Frame
+                    </Button>
+                </TabsContent>
+
+                <TabsContent value="upload" className="space-y-2">
+                    <input
+                        type="file"
+                        accept="image/jpeg,image/png"
+                        onChange={handleFileInput}
+                        className="hidden"
+                        id={inputId}
+                    />
+                    <label htmlFor={inputId}>
+                        <Button variant="outline" className="w-full btn-3d" disabled={isWorking} asChild>
+                            <span>
+                                <Upload className="w-4 h-4 mr-2" />
+                                Choose Image
+                            </span>
+                        </Button>
+                    </label>
+                    <p className="text-xs text-muted-foreground">
+                        Resized to 1280x720. Best at 16:9.
+                    </p>
+                </TabsContent>
+            </Tabs>
+
+            {isWorking && (
+                <p className="text-xs text-muted-foreground flex items-center gap-2">
+                    <Loader2 className="w-3 h-3 animate-spin" />
+                    Saving thumbnail...
+                </p>
+            )}
+            <p className="text-xs text-muted-foreground">
+                Used as the YouTube thumbnail and the Instagram Reel cover.
+            </p>
+        </div>
+    );
+};
+
+export default ThumbnailPicker;
@@ -0,0 +1,61 @@
+/**
+ * Time Zone Select Component
+ * Picks an IANA time zone, with the zones that matter here listed first
+ */
+
+import { useMemo } from 'react';
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectSeparator, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { getTimeZones } from '@/lib/timeZone';
+
+// Radix Select has no empty value
+const NO_TIME_ZONE = 'none';
+
+interface TimeZoneSelectProps {
+    value: string | null;
+    onChange: (timeZone: string | null) => void;
+    /** Listed first, e.g. the viewer's zone and the selected accounts' */
+    suggested?: string[];
+    /** Offer clearing the zone, labelled with this */
+    noneLabel?: string;
+    className?: string;
+}
+
+const TimeZoneSelect = ({ value, onChange, suggested = [], noneLabel, className }: TimeZoneSelectProps) => {
+    const zones = useMemo(() => getTimeZones(), []);
+    const suggestedZones = [...new Set(suggested.filter(Boolean))];
+
+    return (
+        <Select
+            value={value ?? NO_TIME_ZONE}
+            onValueChange={(zone) => onChange(zone === NO_TIME_ZONE ? null : zone)}
+        >
+            <SelectTrigger className={className}>
+                <SelectValue placeholder={noneLabel} />
+            </SelectTrigger>
+            <SelectContent className="max-h-72">
+                {noneLabel && <SelectItem value={NO_TIME_ZONE}>{noneLabel}</SelectItem>}
+                {suggestedZones.length > 0 && (
+                    <>
+                        <SelectGroup>
+                            <SelectLabel>Suggested</SelectLabel>
+                            {suggestedZones.map((zone) => (
+                                <SelectItem key={zone} value={zone}>{zone.replace(/_/g, ' ')}</SelectItem>
+                            ))}
+                        </SelectGroup>
+                        <SelectSeparator />
+                    </>
+                )}
+                <SelectGroup>
+                    <SelectLabel>All time zones</SelectLabel>
+                    {zones
+                        .filter((zone) => !suggestedZones.includes(zone))
+                        .map((zone) => (
+                            <SelectItem key={zone} value={zone}>{zone.replace(/_/g, ' ')}</SelectItem>
+                        ))}
+                </SelectGroup>
+            </SelectContent>
+        </Select>
+    );
+};
+
+export default TimeZoneSelect;
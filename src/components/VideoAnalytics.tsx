@@ -1,23 +1,74 @@
 /**
  * Video Analytics Component
- * Displays detailed performance metrics for a video
+ * Displays detailed performance metrics for every published video, or one of them
  */
 
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
 import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, LineChart, Line } from 'recharts';
-import { ArrowUpRight, ArrowDownRight, Eye, ThumbsUp, MessageCircle, Share2 } from 'lucide-react';
+import { ArrowUpRight, ArrowDownRight, Eye, ThumbsUp, MessageCircle, Share2, RefreshCw } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
 import { useVideoAnalytics } from '@/hooks/useVideoAnalytics';
+import type { PlatformMetrics, VideoMetrics } from '@/hooks/useVideoAnalytics';
+import { videoAnalyticsService } from '@/lib/services/videoAnalyticsService';
 
 interface VideoAnalyticsProps {
+    /** Show only this library video, without the picker */
     videoId?: string;
 }
 
+// Select values can't be empty strings
+const ALL_VIDEOS = 'all';
+
 const VideoAnalytics = ({ videoId }: VideoAnalyticsProps) => {
-    const { metrics, history, loading } = useVideoAnalytics(videoId);
+    const { user } = useAuth();
+    const { toast } = useToast();
+    const [selectedVideo, setSelectedVideo] = useState(ALL_VIDEOS);
+    const [isSyncing, setIsSyncing] = useState(false);
+    const activeVideoId = videoId ?? (selectedVideo === ALL_VIDEOS ? undefined : selectedVideo);
+    const { metrics, history, engagementHistory, trends, loading, error } = useVideoAnalytics(activeVideoId);
+
+    const publishedVideos = useQuery({
+        queryKey: ['published-videos', user?.id],
+        queryFn: () => videoAnalyticsService.getPublishedVideos(user!.id),
+        enabled: !!user && !videoId,
+    });
+
+    const handleSync = async () => {
+        if (!user) return;
 
-    if (loading || !metrics) {
-        return <div className="p-8 text-center text-muted-foreground">Loading analytics...</div>;
+        setIsSyncing(true);
+        try {
+            const result = await videoAnalyticsService.syncVideoAnalytics(user.id);
+            toast({
+                title: result.failed.length > 0 ? 'Partially Synced' : 'Analytics Synced',
+                description: result.failed.length > 0
+                    ? `Couldn't read some posts on ${result.failed.join(', ')}. Check their connections.`
+                    : `${result.synced} posts updated`,
+                variant: result.failed.length > 0 ? 'destructive' : 'default',
+            });
+        } catch (syncError: any) {
+            toast({
+                title: 'Sync Failed',
+                description: syncError.message,
+                variant: 'destructive',
+            });
+        } finally {
+            setIsSyncing(false);
+        }
+    };
+
+    if (!metrics) {
+        return (
+            <div className="p-8 text-center text-muted-foreground">
+                {loading ? 'Loading analytics...' : `Couldn't load analytics${error ? `: ${error}` : ''}`}
+            </div>
+        );
     }
 
     const StatCard = ({ title, value, icon: Icon, trend }: any) => (
@@ -31,10 +82,10 @@ const VideoAnalytics = ({ videoId }: VideoAnalyticsProps) => {
                     <Icon className="w-5 h-5" />
                 </div>
             </div>
-            {trend && (
+            {trend !== null && trend !== undefined && (
                 <div className={`flex items-center mt-2 text-xs ${trend > 0 ? 'text-green-500' : 'text-red-500'}`}>
                     {trend > 0 ? <ArrowUpRight className="w-3 h-3 mr-1" /> : <ArrowDownRight className="w-3 h-3 mr-1" />}
-                    {Math.abs(trend)}% vs last period
+                    {Math.abs(trend)}% over 30 days
                 </div>
             )}
         </Card>
@@ -42,31 +93,55 @@ const VideoAnalytics = ({ videoId }: VideoAnalyticsProps) => {
 
     return (
         <div className="space-y-6">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+                {!videoId ? (
+                    <Select value={selectedVideo} onValueChange={setSelectedVideo}>
+                        <SelectTrigger className="w-72"><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value={ALL_VIDEOS}>All videos</SelectItem>
+                            {(publishedVideos.data || []).map(video => (
+                                <SelectItem key={video.id} value={video.id}>{video.title}</SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                ) : <div />}
+                <Button variant="outline" size="sm" onClick={handleSync} disabled={isSyncing}>
+                    <RefreshCw className={`w-4 h-4 mr-2 ${isSyncing ? 'animate-spin' : ''}`} />
+                    {isSyncing ? 'Syncing...' : 'Sync Now'}
+                </Button>
+            </div>
+
+            {history.length === 0 && !loading && (
+                <Card className="glass-card p-6 text-center text-muted-foreground">
+                    No post metrics yet. Videos published from the app are tracked here and refreshed a few times a day.
+                </Card>
+            )}
+
             {/* Overview Stats */}
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
                 <StatCard
                     title="Total Views"
                     value={metrics.total.views}
                     icon={Eye}
-                    trend={12.5}
+                    trend={trends.views}
                 />
                 <StatCard
                     title="Total Likes"
                     value={metrics.total.likes}
                     icon={ThumbsUp}
-                    trend={8.2}
+                    trend={trends.likes}
                 />
                 <StatCard
                     title="Comments"
                     value={metrics.total.comments}
                     icon={MessageCircle}
-                    trend={-2.4}
+                    trend={trends.comments}
                 />
                 <StatCard
                     title="Shares"
                     value={metrics.total.shares}
                     icon={Share2}
-                    trend={15.3}
+                    trend={trends.shares}
                 />
             </div>
 
@@ -126,13 +201,29 @@ const VideoAnalytics = ({ videoId }: VideoAnalyticsProps) => {
                                     dot={false}
                                     name="Instagram"
                                 />
+                                <Line
+                                    type="monotone"
+                                    dataKey="tiktok"
+                                    stroke="#25F4EE"
+                                    strokeWidth={2}
+                                    dot={false}
+                                    name="TikTok"
+                                />
+                                <Line
+                                    type="monotone"
+                                    dataKey="linkedin"
+                                    stroke="#0A66C2"
+                                    strokeWidth={2}
+                                    dot={false}
+                                    name="LinkedIn"
+                                />
                             </LineChart>
                         </ResponsiveContainer>
                     </TabsContent>
 
                     <TabsContent value="engagement" className="h-[300px]">
                         <ResponsiveContainer width="100%" height="100%">
-                            <BarChart data={history}>
+                            <BarChart data={engagementHistory}>
                                 <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.1)" />
                                 <XAxis
                                     dataKey="date"
@@ -154,6 +245,8 @@ const VideoAnalytics = ({ videoId }: VideoAnalyticsProps) => {
                                 <Bar dataKey="youtube" fill="#FF0000" stackId="a" name="YouTube" />
                                 <Bar dataKey="facebook" fill="#1877F2" stackId="a" name="Facebook" />
                                 <Bar dataKey="instagram" fill="#E1306C" stackId="a" name="Instagram" />
+                                <Bar dataKey="tiktok" fill="#25F4EE" stackId="a" name="TikTok" />
+                                <Bar dataKey="linkedin" fill="#0A66C2" stackId="a" name="LinkedIn" />
                             </BarChart>
                         </ResponsiveContainer>
                     </TabsContent>
@@ -161,13 +254,15 @@ const VideoAnalytics = ({ videoId }: VideoAnalyticsProps) => {
             </Card>
 
             {/* Platform Breakdown */}
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-                {['youtube', 'facebook', 'instagram'].map((platform) => {
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                {['youtube', 'facebook', 'instagram', 'tiktok', 'linkedin'].map((platform) => {
                     const pMetrics = metrics[platform as keyof PlatformMetrics] as VideoMetrics;
                     const colors = {
                         youtube: 'text-red-500 bg-red-500/10',
                         facebook: 'text-blue-500 bg-blue-500/10',
                         instagram: 'text-pink-500 bg-pink-500/10',
+                        tiktok: 'text-cyan-400 bg-cyan-400/10',
+                        linkedin: 'text-sky-600 bg-sky-600/10',
                     };
                     const colorClass = colors[platform as keyof typeof colors];
 
@@ -0,0 +1,315 @@
+/**
+ * Video Settings Form Component
+ * Platform video metadata: privacy, category, playlists, audience, license, languages and publish time
+ */
+
+import { useEffect, useId, useState } from 'react';
+import { format } from 'date-fns';
+import { Languages, Loader2, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { publishingService } from '@/lib/services/publishingService';
+import type { PlatformAdapter, PublishOptions, PublishTarget, VideoLocalization, VideoSettings } from '@/lib/platforms';
+
+interface VideoSettingsFormProps {
+    adapter: PlatformAdapter;
+    userId: string;
+    /** Account whose categories and playlists are offered */
+    target?: PublishTarget;
+    value: VideoSettings;
+    onChange: (settings: VideoSettings) => void;
+    /** Shown for adapters with native scheduling: upload now, go public at this time */
+    publishAt?: Date;
+    onPublishAtChange?: (publishAt: Date | undefined) => void;
+}
+
+// Select items can't have an empty value
+const UNSET = 'unset';
+
+const VideoSettingsForm = ({
+    adapter,
+    userId,
+    target,
+    value,
+    onChange,
+    publishAt,
+    onPublishAtChange,
+}: VideoSettingsFormProps) => {
+    const fieldId = useId();
+    const [options, setOptions] = useState<PublishOptions>({});
+    const [isLoadingOptions, setIsLoadingOptions] = useState(false);
+    const [newLanguage, setNewLanguage] = useState('');
+
+    const fields = adapter.videoSettingsFields || [];
+    const has = (field: keyof VideoSettings) => fields.includes(field);
+    const update = (changes: Partial<VideoSettings>) => onChange({ ...value, ...changes });
+
+    const connectionId = target?.connectionId;
+    const accountId = target?.accountId;
+
+    useEffect(() => {
+        if (!userId || !connectionId || !accountId || !adapter.getPublishOptions) {
+            setOptions({});
+            return;
+        }
+
+        let cancelled = false;
+        setIsLoadingOptions(true);
+
+        publishingService.getPublishOptions(userId, { platform: adapter.id, connectionId, accountId })
+            .then(result => {
+                if (!cancelled) setOptions(result);
+            })
+            .catch(error => {
+                console.error(`Failed to load ${adapter.name} publish options:`, error);
+            })
+            .finally(() => {
+                if (!cancelled) setIsLoadingOptions(false);
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [adapter, userId, connectionId, accountId]);
+
+    const localizations = value.localizations || {};
+
+    const updateLocalization = (language: string, changes: Partial<VideoLocalization>) => {
+        update({
+            localizations: {
+                ...localizations,
+                [language]: { ...localizations[language], ...changes },
+            },
+        });
+    };
+
+    const addLocalization = () => {
+        const language = newLanguage.trim();
+        if (!language || localizations[language]) return;
+
+        update({ localizations: { ...localizations, [language]: { title: '', description: '' } } });
+        setNewLanguage('');
+    };
+
+    const removeLocalization = (language: string) => {
+        const rest = { ...localizations };
+        delete rest[language];
+        update({ localizations: Object.keys(rest).length > 0 ? rest : undefined });
+    };
+
+    const togglePlaylist = (playlistId: string, checked: boolean) => {
+        const playlistIds = value.playlistIds || [];
+        update({
+            playlistIds: checked ? [...playlistIds, playlistId] : playlistIds.filter(id => id !== playlistId),
+        });
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                {has('privacy') && (
+                    <div className="space-y-2">
+                        <Label>Visibility</Label>
+                        <Select
+                            value={publishAt ? 'private' : value.privacy || 'public'}
+                            onValueChange={(privacy) => update({ privacy: privacy as VideoSettings['privacy'] })}
+                            disabled={!!publishAt}
+                        >
+                            <SelectTrigger>
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value="public">Public</SelectItem>
+                                <SelectItem value="unlisted">Unlisted</SelectItem>
+                                <SelectItem value="private">Private</SelectItem>
+                            </SelectContent>
+                        </Select>
+                    </div>
+                )}
+
+                {has('categoryId') && (
+                    <div className="space-y-2">
+                        <Label className="flex items-center gap-2">
+                            Category
+                            {isLoadingOptions && <Loader2 className="w-3 h-3 animate-spin" />}
+                        </Label>
+                        <Select
+                            value={value.categoryId || UNSET}
+                            onValueChange={(categoryId) => update({ categoryId: categoryId === UNSET ? undefined : categoryId })}
+                        >
+                            <SelectTrigger>
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value={UNSET}>Default</SelectItem>
+                                {(options.categories || []).map(category => (
+                                    <SelectItem key={category.id} value={category.id}>{category.title}</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                )}
+
+                {has('madeForKids') && (
+                    <div className="space-y-2">
+                        <Label>Audience</Label>
+                        <Select
+                            value={value.madeForKids === undefined ? UNSET : value.madeForKids ? 'yes' : 'no'}
+                            onValueChange={(audience) =>
+                                update({ madeForKids: audience === UNSET ? undefined : audience === 'yes' })
+                            }
+                        >
+                            <SelectTrigger>
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value={UNSET}>Decide later in {adapter.name}</SelectItem>
+                                <SelectItem value="yes">Made for kids</SelectItem>
+                                <SelectItem value="no">Not made for kids</SelectItem>
+                            </SelectContent>
+                        </Select>
+                    </div>
+                )}
+
+                {has('license') && (
+                    <div className="space-y-2">
+                        <Label>License</Label>
+                        <Select
+                            value={value.license || 'standard'}
+                            onValueChange={(license) => update({ license: license as VideoSettings['license'] })}
+                        >
+                            <SelectTrigger>
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value="standard">Standard License</SelectItem>
+                                <SelectItem value="creativeCommon">Creative Commons - Attribution</SelectItem>
+                            </SelectContent>
+                        </Select>
+                    </div>
+                )}
+
+                {has('defaultLanguage') && (
+                    <div className="space-y-2">
+                        <Label htmlFor={`${fieldId}-language`}>Video Language</Label>
+                        <Input
+                            id={`${fieldId}-language`}
+                            placeholder="e.g. en, es, pt-BR"
+                            value={value.defaultLanguage || ''}
+                            onChange={(e) => update({ defaultLanguage: e.target.value.trim() || undefined })}
+                        />
+                    </div>
+                )}
+
+                {onPublishAtChange && (
+                    <div className="space-y-2">
+                        <Label htmlFor={`${fieldId}-publish-at`}>Publish At</Label>
+                        <Input
+                            id={`${fieldId}-publish-at`}
+                            type="datetime-local"
+                            min={format(new Date(), "yyyy-MM-dd'T'HH:mm")}
+                            value={publishAt ? format(publishAt, "yyyy-MM-dd'T'HH:mm") : ''}
+                            onChange={(e) => onPublishAtChange(e.target.value ? new Date(e.target.value) : undefined)}
+                        />
+                        {publishAt && (
+                            <p className="text-xs text-muted-foreground">
+                                Uploaded as private; {adapter.name} makes it public at this time.
+                            </p>
+                        )}
+                    </div>
+                )}
+            </div>
+
+            {has('embeddable') && (
+                <div className="flex items-center space-x-2">
+                    <Checkbox
+                        id={`${fieldId}-embeddable`}
+                        checked={value.embeddable !== false}
+                        onCheckedChange={(checked) => update({ embeddable: !!checked })}
+                    />
+                    <Label htmlFor={`${fieldId}-embeddable`} className="cursor-pointer">
+                        Allow embedding on other sites
+                    </Label>
+                </div>
+            )}
+
+            {has('playlistIds') && (
+                <div className="space-y-2">
+                    <Label>Playlists</Label>
+                    {!isLoadingOptions && (options.playlists || []).length === 0 && (
+                        <p className="text-sm text-muted-foreground">
+                            {target ? 'No playlists on this channel.' : `Select a ${adapter.name} account to choose playlists.`}
+                        </p>
+                    )}
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 max-h-40 overflow-y-auto">
+                        {(options.playlists || []).map(playlist => (
+                            <div key={playlist.id} className="flex items-center space-x-2">
+                                <Checkbox
+                                    id={`${fieldId}-playlist-${playlist.id}`}
+                                    checked={(value.playlistIds || []).includes(playlist.id)}
+                                    onCheckedChange={(checked) => togglePlaylist(playlist.id, !!checked)}
+                                />
+                                <Label htmlFor={`${fieldId}-playlist-${playlist.id}`} className="cursor-pointer truncate">
+                                    {playlist.title}
+                                </Label>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            {has('localizations') && (
+                <div className="space-y-2">
+                    <Label className="flex items-center gap-2">
+                        <Languages className="w-4 h-4" />
+                        Translations
+                    </Label>
+                    {Object.entries(localizations).map(([language, localization]) => (
+                        <div key={language} className="rounded-lg border p-3 space-y-2">
+                            <div className="flex items-center justify-between">
+                                <span className="text-sm font-medium">{language}</span>
+                                <Button variant="ghost" size="sm" className="h-7 px-2" onClick={() => removeLocalization(language)}>
+                                    <Trash2 className="w-3 h-3" />
+                                </Button>
+                            </div>
+                            <Input
+                                placeholder="Translated title"
+                                value={localization.title}
+                                onChange={(e) => updateLocalization(language, { title: e.target.value })}
+                            />
+                            <Textarea
+                                placeholder="Translated description"
+                                value={localization.description}
+                                onChange={(e) => updateLocalization(language, { description: e.target.value })}
+                                rows={3}
+                                className="resize-none"
+                            />
+                        </div>
+                    ))}
+                    <div className="flex gap-2">
+                        <Input
+                            placeholder="Language (e.g. es, fr, pt-BR)"
+                            value={newLanguage}
+                            onChange={(e) => setNewLanguage(e.target.value)}
+                            className="h-8"
+                        />
+                        <Button variant="outline" size="sm" onClick={addLocalization} disabled={!newLanguage.trim()}>
+                            <Plus className="w-4 h-4" />
+                        </Button>
+                    </div>
+                    {Object.keys(localizations).length > 0 && !value.defaultLanguage && has('defaultLanguage') && (
+                        <p className="text-xs text-muted-foreground">
+                            Set the video language so {adapter.name} knows which language the original title is in.
+                        </p>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default VideoSettingsForm;
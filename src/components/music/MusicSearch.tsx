@@ -5,7 +5,7 @@
 
 import React, { useState, useEffect, useCallback } from 'react';
 import { useAudioPlayer } from '@/contexts/AudioPlayerContext';
-import { createYouTubeMusicService } from '@/lib/services/youtubeMusicService';
+import { musicService } from '@/lib/services';
 import { MusicTrack, MusicSearchFilters, MusicSearchResults } from '@/types/music';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -59,12 +59,6 @@ export const MusicSearch: React.FC<MusicSearchProps> = ({
     const [favorites, setFavorites] = useState<Set<string>>(new Set());
     const [recentSearches, setRecentSearches] = useState<string[]>([]);
 
-    // Initialize YouTube Music Service
-    const youtubeMusicService = createYouTubeMusicService({
-        apiKey: import.meta.env.VITE_YOUTUBE_API_KEY || '',
-        maxResults: 25,
-    });
-
     // Load recent searches from localStorage
     useEffect(() => {
         const saved = localStorage.getItem('recentSearches');
@@ -94,11 +88,11 @@ export const MusicSearch: React.FC<MusicSearchProps> = ({
         try {
             saveRecentSearch(query);
 
-            const results = await youtubeMusicService.searchWithFilters(
-                query,
-                searchFilters || filters,
-                25
-            );
+            // Goes through the shared cache, which also covers for an exhausted YouTube quota
+            const results = await musicService.searchMusic(query, {
+                filters: searchFilters || filters,
+                limit: 25,
+            });
 
             setSearchResults(results);
         } catch (error) {
@@ -107,7 +101,7 @@ export const MusicSearch: React.FC<MusicSearchProps> = ({
         } finally {
             setIsLoading(false);
         }
-    }, [youtubeMusicService, filters, saveRecentSearch]);
+    }, [filters, saveRecentSearch]);
 
     // Handle search submission
     const handleSearch = (e: React.FormEvent) => {
@@ -0,0 +1,111 @@
+/**
+ * Connect Platform Dialog Component
+ * Collects an adapter's connect fields (instance URL, app password) before connecting
+ */
+
+import { useState, useEffect } from 'react';
+import { Link as LinkIcon } from 'lucide-react';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import type { PlatformAdapter } from '@/lib/platforms';
+
+interface ConnectPlatformDialogProps {
+    adapter: PlatformAdapter | null;
+    onOpenChange: (open: boolean) => void;
+    onConnect: (values: Record<string, string>) => void;
+    isLoading?: boolean;
+}
+
+const ConnectPlatformDialog = ({
+    adapter,
+    onOpenChange,
+    onConnect,
+    isLoading = false,
+}: ConnectPlatformDialogProps) => {
+    const [values, setValues] = useState<Record<string, string>>({});
+
+    // Never keep a typed password around between dialogs
+    useEffect(() => {
+        setValues({});
+    }, [adapter]);
+
+    const fields = adapter?.connectFields || [];
+    const missingRequired = fields.some(field => field.required && !values[field.name]?.trim());
+
+    const handleSubmit = (event: React.FormEvent) => {
+        event.preventDefault();
+        if (missingRequired) return;
+
+        // Optional fields left empty are not sent
+        onConnect(Object.fromEntries(
+            Object.entries(values)
+                .map(([name, value]) => [name, value.trim()])
+                .filter(([, value]) => value)
+        ));
+    };
+
+    return (
+        <Dialog open={!!adapter} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-[425px]">
+                <form onSubmit={handleSubmit}>
+                    <DialogHeader>
+                        <DialogTitle className="flex items-center gap-2">
+                            <span className="text-2xl">{adapter?.icon}</span>
+                            Connect {adapter?.name}
+                        </DialogTitle>
+                        <DialogDescription>{adapter?.setupInstructions}</DialogDescription>
+                    </DialogHeader>
+
+                    <div className="space-y-4 py-4">
+                        {fields.map(field => (
+                            <div key={field.name} className="space-y-2">
+                                <Label htmlFor={`connect-${field.name}`}>
+                                    {field.label}
+                                    {!field.required && <span className="text-muted-foreground"> (optional)</span>}
+                                </Label>
+                                <Input
+                                    id={`connect-${field.name}`}
+                                    type={field.type === 'password' ? 'password' : 'text'}
+                                    inputMode={field.type === 'url' ? 'url' : undefined}
+                                    autoComplete={field.type === 'password' ? 'off' : undefined}
+                                    placeholder={field.placeholder}
+                                    value={values[field.name] || ''}
+                                    onChange={(e) => setValues(prev => ({ ...prev, [field.name]: e.target.value }))}
+                                />
+                                {field.helpText && (
+                                    <p className="text-xs text-muted-foreground">{field.helpText}</p>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+
+                    <DialogFooter>
+                        <Button
+                            type="button"
+                            variant="outline"
+                            onClick={() => onOpenChange(false)}
+                            disabled={isLoading}
+                        >
+                            Cancel
+                        </Button>
+                        <Button type="submit" disabled={isLoading || missingRequired}>
+                            <LinkIcon className="w-4 h-4 mr-2" />
+                            {isLoading ? 'Connecting...' : 'Connect'}
+                        </Button>
+                    </DialogFooter>
+                </form>
+            </DialogContent>
+        </Dialog>
+    );
+};
+
+export default ConnectPlatformDialog;
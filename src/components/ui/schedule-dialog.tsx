@@ -1,10 +1,11 @@
 /**
  * Schedule Dialog Component
- * Modal for scheduling video posts
+ * Modal for scheduling video posts, once or as a recurring series, at a time
+ * in a chosen time zone
  */
 
-import { useState, useEffect } from 'react';
-import { Calendar, Clock, Send } from 'lucide-react';
+import { useState, useEffect, useRef } from 'react';
+import { Calendar, Clock, Globe, Repeat, Send } from 'lucide-react';
 import {
     Dialog,
     DialogContent,
@@ -20,23 +21,66 @@ import { Textarea } from '@/components/ui/textarea';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Calendar as CalendarComponent } from '@/components/ui/calendar';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
-import { format } from 'date-fns';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { format, startOfDay } from 'date-fns';
 import { cn } from '@/lib/utils';
+import { getPlatformAdapters } from '@/lib/platforms';
+import { describeRRule, formatRRule, getOccurrences, WEEKDAYS } from '@/lib/recurrence';
+import type { RecurrenceFrequency, RecurrenceRule, Weekday } from '@/lib/recurrence';
+import { formatInTimeZone, getLocalTimeZone, getZonedParts, toZonedInputValues, zonedTimeToUtc } from '@/lib/timeZone';
+import type { PublishTarget } from '@/lib/platforms';
+import { getTargetKey, PlatformAccountData } from '@/hooks/usePlatformConnections';
+import { useAuth } from '@/contexts/AuthContext';
+import ThumbnailPicker from '@/components/ThumbnailPicker';
+import TimeZoneSelect from '@/components/TimeZoneSelect';
 
 interface ScheduleDialogProps {
     open: boolean;
     onOpenChange: (open: boolean) => void;
     onSchedule: (data: ScheduleData) => void;
     isLoading?: boolean;
+    /** Accounts that can be scheduled to */
+    accounts: PlatformAccountData[];
+    /** Target keys to pre-select when the dialog opens */
+    defaultSelected?: string[];
+    /** Video being scheduled; lets the user choose its thumbnail here */
+    video?: {
+        url: string;
+        title: string;
+        description: string;
+        thumbnailUrl?: string;
+    };
 }
 
 export interface ScheduleData {
     platforms: string[];
+    targets: PublishTarget[];
     scheduledDate: Date;
     scheduledTime: string;
     notes?: string;
+    /** Selected platforms that should schedule the post themselves instead of our worker */
+    nativeSchedulePlatforms?: string[];
+    /** Stored custom thumbnail to set when the video is published */
+    thumbnailUrl?: string;
+    /** RRULE the post repeats by from scheduledDate, e.g. FREQ=WEEKLY;BYDAY=TU */
+    recurrenceRule?: string;
+    /** IANA zone the time was picked in; occurrences keep their time of day on its clock */
+    timeZone: string;
 }
 
+type RepeatFrequency = 'none' | RecurrenceFrequency;
+type RepeatEnd = 'never' | 'until' | 'count';
+
+const REPEAT_UNITS: Record<RecurrenceFrequency, string> = {
+    DAILY: 'days',
+    WEEKLY: 'weeks',
+    MONTHLY: 'months',
+};
+
+// Occurrences previewed under the repeat settings
+const PREVIEW_OCCURRENCES = 3;
+
 interface PlatformSchedule {
     [key: string]: boolean;
 }
@@ -46,70 +90,150 @@ const ScheduleDialog = ({
     onOpenChange,
     onSchedule,
     isLoading = false,
+    accounts,
+    defaultSelected = [],
+    video,
 }: ScheduleDialogProps) => {
+    const { user } = useAuth();
     const [selectedDate, setSelectedDate] = useState<Date>();
     const [selectedTime, setSelectedTime] = useState('09:00');
-    const [platforms, setPlatforms] = useState<PlatformSchedule>({
-        youtube: false,
-        facebook: false,
-        instagram: false,
-    });
+    const [selectedTargets, setSelectedTargets] = useState<string[]>([]);
     const [notes, setNotes] = useState('');
+    const [nativeScheduling, setNativeScheduling] = useState<PlatformSchedule>({});
+    const [thumbnailUrl, setThumbnailUrl] = useState<string>();
+    const [repeat, setRepeat] = useState<RepeatFrequency>('none');
+    const [repeatInterval, setRepeatInterval] = useState(1);
+    const [weekdays, setWeekdays] = useState<Weekday[]>([]);
+    const [repeatEnd, setRepeatEnd] = useState<RepeatEnd>('never');
+    const [untilDate, setUntilDate] = useState('');
+    const [occurrenceCount, setOccurrenceCount] = useState(10);
+    const [timeZone, setTimeZone] = useState(getLocalTimeZone);
+
+    const selectedAccounts = accounts.filter((account) => selectedTargets.includes(getTargetKey(account)));
 
-    // Auto-select next hour if scheduling for today
+    // Set up once per opening rather than on every render while open
+    const initialisedRef = useRef(false);
+
+    // Start from the accounts and thumbnail already picked on the page, in the
+    // accounts' audience zone when they share one, and from the next hour on
+    // that zone's clock unless a day is already picked
     useEffect(() => {
-        if (!selectedDate && !open) {
-            const now = new Date();
-            const nextHour = new Date(now.getTime() + 60 * 60 * 1000);
-            setSelectedDate(nextHour);
-            setSelectedTime(
-                `${nextHour.getHours().toString().padStart(2, '0')}:${nextHour
-                    .getMinutes()
-                    .toString()
-                    .padStart(2, '0')}`
-            );
+        if (!open) {
+            initialisedRef.current = false;
+            return;
+        }
+        if (initialisedRef.current) {
+            return;
+        }
+        initialisedRef.current = true;
+
+        const defaultZones = new Set(
+            accounts
+                .filter((account) => defaultSelected.includes(getTargetKey(account)))
+                .map((account) => account.timeZone)
+        );
+        const [sharedZone] = defaultZones;
+        const zone = defaultZones.size === 1 && sharedZone ? sharedZone : getLocalTimeZone();
+
+        setSelectedTargets(defaultSelected);
+        setThumbnailUrl(video?.thumbnailUrl);
+        setTimeZone(zone);
+
+        if (!selectedDate) {
+            const nextHour = new Date(Date.now() + 60 * 60 * 1000);
+            const { year, month, day } = getZonedParts(nextHour, zone);
+            setSelectedDate(new Date(year, month - 1, day));
+            setSelectedTime(toZonedInputValues(nextHour, zone).time);
         }
-    }, [open]);
+    }, [open, accounts, defaultSelected, video?.thumbnailUrl, selectedDate]);
+
+    // The picked day and time on the chosen zone's clock
+    const getScheduledDateTime = (date: Date) => {
+        const [hour, minute] = selectedTime.split(':').map(Number);
+        return zonedTimeToUtc(
+            { year: date.getFullYear(), month: date.getMonth() + 1, day: date.getDate(), hour, minute },
+            timeZone
+        );
+    };
+
+    const getRecurrenceRule = (): RecurrenceRule | null => {
+        if (repeat === 'none' || !selectedDate) {
+            return null;
+        }
+
+        const [year, month, day] = untilDate.split('-').map(Number);
+
+        return {
+            freq: repeat,
+            interval: Math.max(1, repeatInterval),
+            // Weekly on the start date's weekday unless others are picked
+            byDay: repeat === 'WEEKLY'
+                ? (weekdays.length > 0 ? weekdays : [WEEKDAYS[(selectedDate.getDay() + 6) % 7]])
+                : [],
+            byMonthDay: repeat === 'MONTHLY' ? [selectedDate.getDate()] : [],
+            // Through the end of the chosen day in the chosen zone
+            until: repeatEnd === 'until' && untilDate
+                ? new Date(zonedTimeToUtc({ year, month, day, hour: 23, minute: 59 }, timeZone).getTime() + 59 * 1000)
+                : null,
+            count: repeatEnd === 'count' ? Math.max(1, occurrenceCount) : null,
+        };
+    };
+
+    const recurrenceRule = getRecurrenceRule();
+    const previewOccurrences = recurrenceRule && selectedDate
+        ? getOccurrences(recurrenceRule, getScheduledDateTime(selectedDate), timeZone, { limit: PREVIEW_OCCURRENCES })
+        : [];
 
     const handleSchedule = () => {
         if (!selectedDate) {
             return;
         }
 
-        const scheduledDateTime = new Date(selectedDate);
-        const [hours, minutes] = selectedTime.split(':').map(Number);
-        scheduledDateTime.setHours(hours, minutes, 0, 0);
+        const scheduledDateTime = getScheduledDateTime(selectedDate);
 
-        const selectedPlatforms = Object.entries(platforms)
-            .filter(([_, selected]) => selected)
-            .map(([platform]) => platform);
+        const targets: PublishTarget[] = selectedAccounts
+            .map(({ platform, connectionId, accountId }) => ({ platform, connectionId, accountId }));
+        const selectedPlatforms = [...new Set(targets.map((target) => target.platform))];
 
-        if (selectedPlatforms.length === 0) {
+        if (targets.length === 0) {
             return;
         }
 
         onSchedule({
             platforms: selectedPlatforms,
+            targets,
             scheduledDate: scheduledDateTime,
             scheduledTime: selectedTime,
             notes: notes.trim() || undefined,
+            // Platforms only schedule single posts
+            nativeSchedulePlatforms: recurrenceRule
+                ? []
+                : selectedPlatforms.filter((platform) => nativeScheduling[platform]),
+            thumbnailUrl,
+            recurrenceRule: recurrenceRule ? formatRRule(recurrenceRule) : undefined,
+            timeZone,
         });
     };
 
-    const isDateInPast = (date: Date) => {
-        const now = new Date();
-        const selectedDateTime = new Date(date);
-        selectedDateTime.setHours(
-            ...selectedTime.split(':').map(Number),
-            0,
-            0
-        );
-        return selectedDateTime <= now;
-    };
+    const platformSelected = (platform: string) =>
+        accounts.some((account) => account.platform === platform && selectedTargets.includes(getTargetKey(account)));
+
+    const isDateInPast = (date: Date) => getScheduledDateTime(date) <= new Date();
+
+    // The chosen time as the viewer and each selected account's audience see it
+    const localTimeZone = getLocalTimeZone();
+    const zonedTimes = selectedDate
+        ? [
+            { label: 'Your time', zone: localTimeZone },
+            ...selectedAccounts
+                .filter((account) => account.timeZone)
+                .map((account) => ({ label: account.name, zone: account.timeZone as string })),
+        ].filter(({ zone }) => zone !== timeZone)
+        : [];
 
     return (
         <Dialog open={open} onOpenChange={onOpenChange}>
-            <DialogContent className="sm:max-w-[500px]">
+            <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
                 <DialogHeader>
                     <DialogTitle className="flex items-center gap-2">
                         <Calendar className="w-5 h-5" />
@@ -122,69 +246,71 @@ const ScheduleDialog = ({
                 </DialogHeader>
 
                 <div className="space-y-6 py-4">
-                    {/* Platform Selection */}
+                    {/* Account Selection */}
                     <div className="space-y-3">
-                        <Label>Select Platforms</Label>
+                        <Label>Select Accounts</Label>
                         <div className="space-y-2">
-                            <div className="flex items-center space-x-2">
-                                <Checkbox
-                                    id="schedule-youtube"
-                                    checked={platforms.youtube}
-                                    onCheckedChange={(checked) =>
-                                        setPlatforms({
-                                            ...platforms,
-                                            youtube: !!checked,
-                                        })
-                                    }
-                                />
-                                <Label
-                                    htmlFor="schedule-youtube"
-                                    className="flex items-center gap-2 cursor-pointer"
-                                >
-                                    <span className="text-xl">📺</span>
-                                    <span>YouTube</span>
-                                </Label>
-                            </div>
-
-                            <div className="flex items-center space-x-2">
-                                <Checkbox
-                                    id="schedule-facebook"
-                                    checked={platforms.facebook}
-                                    onCheckedChange={(checked) =>
-                                        setPlatforms({
-                                            ...platforms,
-                                            facebook: !!checked,
-                                        })
-                                    }
-                                />
-                                <Label
-                                    htmlFor="schedule-facebook"
-                                    className="flex items-center gap-2 cursor-pointer"
-                                >
-                                    <span className="text-xl">📘</span>
-                                    <span>Facebook</span>
-                                </Label>
-                            </div>
+                            {accounts.length === 0 && (
+                                <p className="text-sm text-muted-foreground">
+                                    No connected accounts. Connect a platform first.
+                                </p>
+                            )}
+                            {getPlatformAdapters().map((adapter) => {
+                                const platformAccounts = accounts.filter((account) => account.platform === adapter.id);
+                                if (platformAccounts.length === 0) {
+                                    return null;
+                                }
 
-                            <div className="flex items-center space-x-2">
-                                <Checkbox
-                                    id="schedule-instagram"
-                                    checked={platforms.instagram}
-                                    onCheckedChange={(checked) =>
-                                        setPlatforms({
-                                            ...platforms,
-                                            instagram: !!checked,
-                                        })
-                                    }
-                                />
-                                <Label
-                                    htmlFor="schedule-instagram"
-                                    className="flex items-center gap-2 cursor-pointer"
-                                >
-                                    <span className="text-xl">📷</span>
-                                    <span>Instagram</span>
-                                </Label>
-                            </div>
+                                return (
+                                    <div key={adapter.id} className="space-y-1">
+                                        <div className="flex items-center justify-between">
+                                            <span className="flex items-center gap-2 text-sm font-medium">
+                                                <span className="text-xl">{adapter.icon}</span>
+                                                <span>{adapter.name}</span>
+                                            </span>
+                                            {adapter.supportsNativeScheduling && platformSelected(adapter.id) && repeat === 'none' && (
+                                                <div className="flex items-center space-x-2">
+                                                    <Checkbox
+                                                        id={`native-schedule-${adapter.id}`}
+                                                        checked={!!nativeScheduling[adapter.id]}
+                                                        onCheckedChange={(checked) =>
+                                                            setNativeScheduling({
+                                                                ...nativeScheduling,
+                                                                [adapter.id]: !!checked,
+                                                            })
+                                                        }
+                                                    />
+                                                    <Label
+                                                        htmlFor={`native-schedule-${adapter.id}`}
+                                                        className="text-xs text-muted-foreground cursor-pointer"
+                                                    >
+                                                        Schedule on {adapter.name}
+                                                    </Label>
+                                                </div>
+                                            )}
+                                        </div>
+                                        {platformAccounts.map((account) => {
+                                            const key = getTargetKey(account);
+                                            return (
+                                                <div key={key} className="flex items-center space-x-2 ml-8">
+                                                    <Checkbox
+                                                        id={`schedule-${key}`}
+                                                        checked={selectedTargets.includes(key)}
+                                                        onCheckedChange={(checked) =>
+                                                            setSelectedTargets((prev) =>
+                                                                checked ? [...prev, key] : prev.filter((k) => k !== key)
+                                                            )
+                                                        }
+                                                    />
+                                                    <Label htmlFor={`schedule-${key}`} className="cursor-pointer">
+                                                        {account.name}
+                                                    </Label>
+                                                </div>
+                                            );
+                                        })}
+                                    </div>
+                                );
+                            })}
                         </div>
                     </div>
 
@@ -213,7 +339,7 @@ const ScheduleDialog = ({
                                     mode="single"
                                     selected={selectedDate}
                                     onSelect={setSelectedDate}
-                                    disabled={(date) => date < new Date()}
+                                    disabled={(date) => date < startOfDay(new Date())}
                                     initialFocus
                                 />
                             </PopoverContent>
@@ -235,6 +361,134 @@ const ScheduleDialog = ({
                         </div>
                     </div>
 
+                    {/* Time Zone */}
+                    <div className="space-y-2">
+                        <Label className="flex items-center gap-2">
+                            <Globe className="w-4 h-4" />
+                            Time Zone
+                        </Label>
+                        <TimeZoneSelect
+                            value={timeZone}
+                            onChange={(zone) => setTimeZone(zone ?? localTimeZone)}
+                            suggested={[localTimeZone, ...selectedAccounts.map((account) => account.timeZone ?? '')]}
+                        />
+                        {selectedDate && zonedTimes.length > 0 && (
+                            <div className="text-xs text-muted-foreground space-y-1">
+                                {zonedTimes.map(({ label, zone }) => (
+                                    <p key={`${label}-${zone}`}>
+                                        {label}: {formatInTimeZone(getScheduledDateTime(selectedDate), zone)}
+                                    </p>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+
+                    {/* Repeat */}
+                    <div className="space-y-3">
+                        <Label className="flex items-center gap-2">
+                            <Repeat className="w-4 h-4" />
+                            Repeat
+                        </Label>
+                        <div className="flex items-center gap-2">
+                            <Select value={repeat} onValueChange={(value) => setRepeat(value as RepeatFrequency)}>
+                                <SelectTrigger className="flex-1">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value="none">Does not repeat</SelectItem>
+                                    <SelectItem value="DAILY">Daily</SelectItem>
+                                    <SelectItem value="WEEKLY">Weekly</SelectItem>
+                                    <SelectItem value="MONTHLY">Monthly</SelectItem>
+                                </SelectContent>
+                            </Select>
+                            {repeat !== 'none' && (
+                                <>
+                                    <span className="text-sm text-muted-foreground">every</span>
+                                    <Input
+                                        type="number"
+                                        min={1}
+                                        value={repeatInterval}
+                                        onChange={(e) => setRepeatInterval(parseInt(e.target.value, 10) || 1)}
+                                        className="w-16"
+                                    />
+                                    <span className="text-sm text-muted-foreground">{REPEAT_UNITS[repeat]}</span>
+                                </>
+                            )}
+                        </div>
+
+                        {repeat === 'WEEKLY' && (
+                            <ToggleGroup
+                                type="multiple"
+                                value={recurrenceRule?.byDay ?? []}
+                                onValueChange={(value) => setWeekdays(value as Weekday[])}
+                                className="justify-start"
+                            >
+                                {WEEKDAYS.map((day) => (
+                                    <ToggleGroupItem key={day} value={day} size="sm" className="w-9">
+                                        {day.charAt(0) + day.charAt(1).toLowerCase()}
+                                    </ToggleGroupItem>
+                                ))}
+                            </ToggleGroup>
+                        )}
+
+                        {repeat !== 'none' && (
+                            <div className="flex items-center gap-2">
+                                <Select value={repeatEnd} onValueChange={(value) => setRepeatEnd(value as RepeatEnd)}>
+                                    <SelectTrigger className="w-40">
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value="never">Never ends</SelectItem>
+                                        <SelectItem value="until">Ends on</SelectItem>
+                                        <SelectItem value="count">Ends after</SelectItem>
+                                    </SelectContent>
+                                </Select>
+                                {repeatEnd === 'until' && (
+                                    <Input
+                                        type="date"
+                                        value={untilDate}
+                                        onChange={(e) => setUntilDate(e.target.value)}
+                                        className="flex-1"
+                                    />
+                                )}
+                                {repeatEnd === 'count' && (
+                                    <>
+                                        <Input
+                                            type="number"
+                                            min={1}
+                                            value={occurrenceCount}
+                                            onChange={(e) => setOccurrenceCount(parseInt(e.target.value, 10) || 1)}
+                                            className="w-20"
+                                        />
+                                        <span className="text-sm text-muted-foreground">posts</span>
+                                    </>
+                                )}
+                            </div>
+                        )}
+
+                        {recurrenceRule && (
+                            <div className="text-xs text-muted-foreground space-y-1">
+                                <p>{describeRRule(recurrenceRule)}</p>
+                                {previewOccurrences.length > 0 ? (
+                                    <p>Next: {previewOccurrences.map((date) => formatInTimeZone(date, timeZone)).join(' · ')}</p>
+                                ) : (
+                                    <p className="text-destructive">This never repeats on or after the chosen date.</p>
+                                )}
+                            </div>
+                        )}
+                    </div>
+
+                    {video && user && (
+                        <ThumbnailPicker
+                            videoUrl={video.url}
+                            userId={user.id}
+                            title={video.title}
+                            description={video.description}
+                            value={thumbnailUrl}
+                            onChange={setThumbnailUrl}
+                        />
+                    )}
+
                     {/* Notes */}
                     <div className="space-y-2">
                         <Label htmlFor="notes">Notes (Optional)</Label>
@@ -247,6 +501,13 @@ const ScheduleDialog = ({
                         />
                     </div>
 
+                    {Object.keys(nativeScheduling).some((platform) => platformSelected(platform) && nativeScheduling[platform]) && (
+                        <p className="text-xs text-muted-foreground">
+                            Natively scheduled videos are uploaded now and published by the
+                            platform at the chosen time (10 minutes to 6 months ahead).
+                        </p>
+                    )}
+
                     {/* Validation */}
                     {selectedDate && isDateInPast(selectedDate) && (
                         <div className="text-sm text-destructive">
@@ -270,7 +531,9 @@ const ScheduleDialog = ({
                             isLoading ||
                             !selectedDate ||
                             isDateInPast(selectedDate) ||
-                            Object.values(platforms).every((selected) => !selected)
+                            selectedTargets.length === 0 ||
+                            (repeat !== 'none' && previewOccurrences.length === 0) ||
+                            (repeatEnd === 'until' && repeat !== 'none' && !untilDate)
                         }
                     >
                         {isLoading ? (
@@ -278,7 +541,7 @@ const ScheduleDialog = ({
                         ) : (
                             <>
                                 <Send className="w-4 h-4 mr-2" />
-                                Schedule Post
+                                {repeat === 'none' ? 'Schedule Post' : 'Schedule Series'}
                             </>
                         )}
                     </Button>
@@ -2,6 +2,8 @@ import { createContext, useContext, useEffect, useState, ReactNode } from 'react
 import { User, Session, AuthError } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { commentService } from '@/lib/services/commentService';
+import { videoAnalyticsService } from '@/lib/services/videoAnalyticsService';
 
 interface AuthContextType {
     user: User | null;
@@ -54,6 +56,19 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
         return () => subscription.unsubscribe();
     }, []);
 
+    // New comments come in on a schedule for as long as someone is signed in
+    const userId = user?.id;
+    useEffect(() => {
+        if (!userId) return;
+        return commentService.startScheduledSync(userId);
+    }, [userId]);
+
+    // ...and so do the daily snapshots of every published post's metrics
+    useEffect(() => {
+        if (!userId) return;
+        return videoAnalyticsService.startScheduledSync(userId);
+    }, [userId]);
+
     const signUp = async (email: string, password: string, fullName?: string) => {
         try {
             const { data, error } = await supabase.auth.signUp({
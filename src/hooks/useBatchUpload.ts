@@ -7,15 +7,22 @@ import { useState, useCallback } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
 import { useVideoUpload } from '@/hooks/useVideoUpload';
+import { publishingService } from '@/lib/services/publishingService';
+import type { PublishTarget, VideoSettings } from '@/lib/platforms';
 
 export interface BatchUploadItem {
     id: string;
     file: File;
     title: string;
     description: string;
-    platforms: string[];
+    targets: PublishTarget[];
+    /** Category, playlists etc. per platform, for adapters with video settings */
+    videoSettings: { [platform: string]: VideoSettings };
+    /** Per platform: the time the platform makes the video public, for native scheduling */
+    publishTimes: { [platform: string]: Date | undefined };
     status: 'pending' | 'uploading' | 'processing' | 'completed' | 'failed';
     progress: number;
+    platformProgress?: { [platform: string]: number };
     error?: string;
     result?: {
         videoId: string;
@@ -49,7 +56,9 @@ export const useBatchUpload = () => {
             file,
             title: file.name.replace(/\.[^/.]+$/, ''), // Remove file extension
             description: '',
-            platforms: [],
+            targets: [],
+            videoSettings: {},
+            publishTimes: {},
             status: 'pending',
             progress: 0,
         }));
@@ -104,15 +113,52 @@ export const useBatchUpload = () => {
             };
 
             // Auto-publish if configured
-            if (config.autoPublish && item.platforms.length > 0) {
+            if (config.autoPublish && item.targets.length > 0) {
                 updateItem(item.id, { status: 'processing' });
 
-                // This would publish to platforms - similar to the UploadPage logic
-                // For now, we'll just simulate the process
-                for (const platform of item.platforms) {
-                    // Simulate platform-specific publishing
-                    await new Promise(resolve => setTimeout(resolve, 1000));
-                    result.urls[platform] = `https://${platform}.com/video/${video.id}`;
+                // Publishing fills the last 30% of the item's progress, averaged across accounts
+                const targetLabel = (target: PublishTarget) => `${target.platform}:${target.accountId}`;
+                const platformProgress: { [target: string]: number } = {};
+                const reportProgress = (target: PublishTarget, progress: number) => {
+                    platformProgress[targetLabel(target)] = progress;
+                    const average = item.targets
+                        .reduce((sum, t) => sum + (platformProgress[targetLabel(t)] || 0), 0) / item.targets.length;
+                    updateItem(item.id, {
+                        progress: 70 + average * 0.3,
+                        platformProgress: { ...platformProgress },
+                    });
+                };
+
+                const publishResults = await Promise.allSettled(
+                    item.targets.map(async (target) => {
+                        const published = await publishingService.publishVideo(
+                            user.id,
+                            target,
+                            {
+                                title: item.title,
+                                description: item.description,
+                                videoUrl: uploadResult.url,
+                                videoFile: item.file,
+                                videoSettings: item.videoSettings[target.platform],
+                                scheduledPublishTime: item.publishTimes[target.platform],
+                            },
+                            (progress) => reportProgress(target, progress),
+                            video.id
+                        );
+                        result.urls[targetLabel(target)] = published.url;
+                    })
+                );
+
+                const failures = publishResults
+                    .filter((outcome): outcome is PromiseRejectedResult => outcome.status === 'rejected')
+                    .map(outcome => outcome.reason?.message || 'Publish failed');
+
+                if (failures.length === item.targets.length) {
+                    throw new Error(failures.join('; '));
+                }
+
+                if (failures.length > 0) {
+                    updateItem(item.id, { error: failures.join('; ') });
                 }
             }
 
@@ -0,0 +1,90 @@
+/**
+ * useCommentInbox Hook
+ * Comment threads and teammates for the inbox, reloaded after every sync and action
+ */
+
+import { useCallback, useEffect } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import { commentService } from '@/lib/services/commentService';
+import type { CommentThread, StoredComment, TeamMember } from '@/lib/services/commentService';
+import type { CommentModeration } from '@/lib/platforms';
+
+export const useCommentInbox = () => {
+    const { user } = useAuth();
+    const queryClient = useQueryClient();
+    const userId = user?.id;
+
+    const threads = useQuery({
+        queryKey: ['comment-threads', userId],
+        queryFn: (): Promise<CommentThread[]> => commentService.getThreads(userId!),
+        enabled: !!userId,
+    });
+
+    const teamMembers = useQuery({
+        queryKey: ['team-members', userId],
+        queryFn: (): Promise<TeamMember[]> => commentService.getTeamMembers(userId!),
+        enabled: !!userId,
+    });
+
+    const reloadThreads = useCallback(
+        () => queryClient.invalidateQueries({ queryKey: ['comment-threads', userId] }),
+        [queryClient, userId]
+    );
+
+    const reloadTeam = useCallback(
+        () => queryClient.invalidateQueries({ queryKey: ['team-members', userId] }),
+        [queryClient, userId]
+    );
+
+    // Scheduled syncs run in the background; show what they bring in
+    useEffect(() => commentService.onSynced(() => {
+        reloadThreads();
+    }), [reloadThreads]);
+
+    const requireUser = () => {
+        if (!userId) {
+            throw new Error('User not authenticated');
+        }
+        return userId;
+    };
+
+    return {
+        threads: threads.data || [],
+        teamMembers: teamMembers.data || [],
+        isLoading: threads.isLoading,
+        lastSyncedAt: commentService.lastSyncedAt,
+
+        sync: () => commentService.syncComments(requireUser()),
+
+        reply: async (comment: StoredComment, text: string) => {
+            await commentService.reply(requireUser(), comment, text);
+            await reloadThreads();
+        },
+
+        moderate: async (comment: StoredComment, action: CommentModeration) => {
+            await commentService.moderate(requireUser(), comment, action);
+            await reloadThreads();
+        },
+
+        setFlagged: async (comment: StoredComment, flagged: boolean) => {
+            await commentService.setFlagged(requireUser(), comment.id, flagged);
+            await reloadThreads();
+        },
+
+        assign: async (comment: StoredComment, teamMemberId: string | null) => {
+            await commentService.assign(requireUser(), comment.id, teamMemberId);
+            await reloadThreads();
+        },
+
+        addTeamMember: async (name: string, email?: string) => {
+            await commentService.addTeamMember(requireUser(), name, email);
+            await reloadTeam();
+        },
+
+        removeTeamMember: async (teamMemberId: string) => {
+            await commentService.removeTeamMember(requireUser(), teamMemberId);
+            await Promise.all([reloadTeam(), reloadThreads()]);
+        },
+    };
+};
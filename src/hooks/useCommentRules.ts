@@ -0,0 +1,77 @@
+/**
+ * useCommentRules Hook
+ * Moderation rules and saved replies for the inbox
+ */
+
+import { useCallback } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import { moderationService } from '@/lib/services/moderationService';
+import type { CommentRule, CommentRuleInput, ReplyTemplate } from '@/lib/services/moderationService';
+
+export const useCommentRules = () => {
+    const { user } = useAuth();
+    const queryClient = useQueryClient();
+    const userId = user?.id;
+
+    const rules = useQuery({
+        queryKey: ['comment-rules', userId],
+        queryFn: (): Promise<CommentRule[]> => moderationService.getRules(userId!),
+        enabled: !!userId,
+    });
+
+    const templates = useQuery({
+        queryKey: ['reply-templates', userId],
+        queryFn: (): Promise<ReplyTemplate[]> => moderationService.getTemplates(userId!),
+        enabled: !!userId,
+    });
+
+    const reloadRules = useCallback(
+        () => queryClient.invalidateQueries({ queryKey: ['comment-rules', userId] }),
+        [queryClient, userId]
+    );
+
+    const reloadTemplates = useCallback(
+        () => queryClient.invalidateQueries({ queryKey: ['reply-templates', userId] }),
+        [queryClient, userId]
+    );
+
+    const requireUser = () => {
+        if (!userId) {
+            throw new Error('User not authenticated');
+        }
+        return userId;
+    };
+
+    return {
+        rules: rules.data || [],
+        templates: templates.data || [],
+        isLoading: rules.isLoading || templates.isLoading,
+
+        createRule: async (rule: CommentRuleInput) => {
+            await moderationService.createRule(requireUser(), rule);
+            await reloadRules();
+        },
+
+        setRuleEnabled: async (rule: CommentRule, enabled: boolean) => {
+            await moderationService.updateRule(requireUser(), rule.id, { enabled });
+            await reloadRules();
+        },
+
+        deleteRule: async (ruleId: string) => {
+            await moderationService.deleteRule(requireUser(), ruleId);
+            await reloadRules();
+        },
+
+        createTemplate: async (name: string, body: string) => {
+            await moderationService.createTemplate(requireUser(), name, body);
+            await reloadTemplates();
+        },
+
+        deleteTemplate: async (templateId: string) => {
+            await moderationService.deleteTemplate(requireUser(), templateId);
+            // Rules that sent it lose their template
+            await Promise.all([reloadTemplates(), reloadRules()]);
+        },
+    };
+};
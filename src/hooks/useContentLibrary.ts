@@ -0,0 +1,110 @@
+/**
+ * useContentLibrary Hook
+ * Library videos and posts, each with where it has been published
+ */
+
+import { useQuery } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { scheduledPostService } from '@/lib/services/scheduledPostService';
+import { videoAnalyticsService } from '@/lib/services/videoAnalyticsService';
+import type { PlatformPost } from '@/lib/services/scheduledPostService';
+
+export interface LibraryItem {
+    id: string;
+    title: string;
+    thumbnailUrl: string | null;
+    /** Seconds; 0 for images */
+    duration: number;
+    mediaType: 'video' | 'image' | 'carousel';
+    assetCount: number;
+    uploadedAt: string;
+    status: 'draft' | 'processing' | 'published' | 'failed';
+    /** Every target it was published or scheduled to */
+    posts: PlatformPost[];
+    views: number;
+}
+
+interface VideoRow {
+    id: string;
+    title: string | null;
+    thumbnail_url: string | null;
+    file_url: string | null;
+    mime_type: string | null;
+    duration: number | null;
+    metadata: { media?: unknown[] } | null;
+    created_at: string;
+}
+
+// Window of analytics snapshots the view counts are read from
+const VIEWS_DAYS = 30;
+
+/**
+ * Published once anything is live; otherwise whether the worker is on it or gave up
+ */
+const getStatus = (posts: PlatformPost[]): LibraryItem['status'] => {
+    if (posts.some(post => post.status === 'published')) return 'published';
+    if (posts.some(post => post.status === 'pending' || post.status === 'publishing')) return 'processing';
+    return posts.length > 0 ? 'failed' : 'draft';
+};
+
+const loadLibrary = async (userId: string): Promise<LibraryItem[]> => {
+    const { data: videos, error } = await (supabase as any)
+        .from('videos')
+        .select('id, title, thumbnail_url, file_url, mime_type, duration, metadata, created_at')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    const rows = (videos || []) as VideoRow[];
+    if (rows.length === 0) return [];
+
+    const [posts, snapshots] = await Promise.all([
+        scheduledPostService.getVideoPosts(userId, rows.map(video => video.id)),
+        videoAnalyticsService.getSnapshots(userId, VIEWS_DAYS),
+    ]);
+
+    // Snapshots are cumulative, so each post's latest one has its views
+    const viewsByPost = new Map<string, number>();
+    for (const snapshot of snapshots) {
+        viewsByPost.set(snapshot.platform_post_id, snapshot.views || 0);
+    }
+
+    return rows.map((video): LibraryItem => {
+        const videoPosts = posts.filter(post => post.video_id === video.id);
+        const isVideo = !!video.mime_type?.startsWith('video/');
+        const extraMedia = video.metadata?.media?.length || 0;
+        // A video's extra media come after it; an image post's media include the first image
+        const assetCount = isVideo ? 1 + extraMedia : Math.max(1, extraMedia);
+
+        return {
+            id: video.id,
+            title: video.title || 'Untitled',
+            thumbnailUrl: video.thumbnail_url || (isVideo ? null : video.file_url),
+            duration: video.duration || 0,
+            mediaType: assetCount > 1 ? 'carousel' : isVideo ? 'video' : 'image',
+            assetCount,
+            uploadedAt: video.created_at,
+            status: getStatus(videoPosts),
+            posts: videoPosts,
+            views: videoPosts.reduce((total, post) => total + (viewsByPost.get(post.id) || 0), 0),
+        };
+    });
+};
+
+export const useContentLibrary = () => {
+    const { user } = useAuth();
+    const userId = user?.id;
+
+    const library = useQuery({
+        queryKey: ['content-library', userId],
+        queryFn: () => loadLibrary(userId!),
+        enabled: !!userId,
+    });
+
+    return {
+        items: library.data || [],
+        isLoading: library.isLoading,
+        error: library.error,
+    };
+};
@@ -1,52 +1,92 @@
 /**
  * Platform Connections Hook
- * Manages social media platform connections and their status
+ * Manages social media platform connections, the accounts they reach, and their status
  */
 
 import { useState, useEffect } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
-import { supabase } from '@/integrations/supabase/client';
+import { db } from '@/lib/database';
 import { socialMediaService } from '@/lib/services/socialMediaService';
+import { getPlatformAdapters } from '@/lib/platforms';
+import type { PlatformConnection, PublishTarget } from '@/lib/platforms';
+
+/**
+ * A selectable publish target: a channel, page or business account under a connection
+ */
+export interface PlatformAccountData extends PublishTarget {
+    name: string;
+    username?: string;
+    avatarUrl?: string;
+    needsReauth: boolean;
+    /** IANA zone the account's audience is in, when set */
+    timeZone?: string;
+    followerCount?: number;
+    engagementRate?: number;
+    totalViews?: number;
+}
 
 export interface PlatformConnectionData {
     platform: string;
     name: string;
     icon: string;
     connected: boolean;
+    needsReauth: boolean;
     accountName: string;
     accountUsername?: string;
     lastSync: string | null;
     followerCount?: number;
+    /** Every grant for this platform (e.g. one per YouTube channel or Facebook login) */
+    connectionIds: string[];
+    accounts: PlatformAccountData[];
+}
+
+type ConnectionRow = PlatformConnection & { updated_at: string };
+
+interface AccountRow {
+    connection_id: string;
+    platform: string;
+    account_id: string;
+    name: string;
+    username?: string;
+    avatar_url?: string;
+    timezone?: string | null;
+}
+
+interface AnalyticsRow {
+    platform: string;
+    account_id: string;
+    followers: number;
+    total_views: number;
+    average_engagement_rate: number;
+    date_recorded: string;
 }
 
+/**
+ * Stable key for a publish target, for selection state in the UI
+ */
+export const getTargetKey = (target: PublishTarget) => `${target.connectionId}:${target.accountId}`;
+
+const emptyConnection = (connection: PlatformConnectionData): PlatformConnectionData => ({
+    ...connection,
+    connected: false,
+    needsReauth: false,
+    accountName: '',
+    accountUsername: undefined,
+    lastSync: null,
+    followerCount: undefined,
+    connectionIds: [],
+    accounts: [],
+});
+
 export const usePlatformConnections = () => {
     const { user } = useAuth();
-    const [connections, setConnections] = useState<PlatformConnectionData[]>([
-        {
-            platform: 'youtube',
-            name: 'YouTube',
-            icon: '📺',
-            connected: false,
-            accountName: '',
-            lastSync: null,
-        },
-        {
-            platform: 'facebook',
-            name: 'Facebook',
-            icon: '📘',
-            connected: false,
-            accountName: '',
-            lastSync: null,
-        },
-        {
-            platform: 'instagram',
-            name: 'Instagram',
-            icon: '📷',
-            connected: false,
-            accountName: '',
-            lastSync: null,
-        },
-    ]);
+    const [connections, setConnections] = useState<PlatformConnectionData[]>(() =>
+        getPlatformAdapters().map(adapter => emptyConnection({
+            platform: adapter.id,
+            name: adapter.name,
+            icon: adapter.icon,
+        } as PlatformConnectionData))
+    );
     const [loading, setLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
 
@@ -70,7 +110,7 @@ export const usePlatformConnections = () => {
             }
 
             console.log('Querying platform_connections table...');
-            const { data, error } = await supabase
+            const { data, error } = await db
                 .from('platform_connections')
                 .select('*')
                 .eq('user_id', user.id);
@@ -82,32 +122,99 @@ export const usePlatformConnections = () => {
 
             console.log('Platform connections data:', data);
 
+            const connectionRows = (data || []) as ConnectionRow[];
+
+            const { data: accountData } = await db
+                .from('platform_accounts')
+                .select('*')
+                .eq('user_id', user.id);
+            let accountRows = (accountData || []) as AccountRow[];
+
+            // Connections made since the last sync have no cached accounts yet
+            const unsynced = connectionRows.filter(row =>
+                row.status !== 'needs_reauth' && !accountRows.some(account => account.connection_id === row.id)
+            );
+            for (const row of unsynced) {
+                try {
+                    const accounts = await socialMediaService.syncPlatformAccounts(user.id, row);
+                    accountRows = accountRows.concat(accounts.map(account => ({
+                        connection_id: row.id,
+                        platform: row.platform,
+                        account_id: account.id,
+                        name: account.name,
+                        username: account.username,
+                        avatar_url: account.avatarUrl,
+                    })));
+                } catch (syncError) {
+                    console.error(`Error syncing ${row.platform} accounts:`, syncError);
+                }
+            }
+
+            // Latest stored metrics per account
+            const { data: analyticsData } = await db
+                .from('account_analytics')
+                .select('platform, account_id, followers, total_views, average_engagement_rate, date_recorded')
+                .eq('user_id', user.id)
+                .order('date_recorded', { ascending: false });
+            const analyticsRows = (analyticsData || []) as AnalyticsRow[];
+
             // Update connections with actual data
             setConnections(prevConnections =>
                 prevConnections.map(connection => {
-                    const platformData = data?.find(d => d.platform === connection.platform);
-                    if (platformData) {
-                        return {
-                            ...connection,
-                            connected: true,
-                            accountName: platformData.account_name || 'Connected Account',
-                            accountUsername: platformData.account_username,
-                            lastSync: platformData.updated_at,
-                        };
-                    } else {
-                        return {
-                            ...connection,
-                            connected: false,
-                            accountName: '',
-                            accountUsername: undefined,
-                            lastSync: null,
-                        };
+                    const platformRows = connectionRows.filter(row => row.platform === connection.platform);
+                    if (platformRows.length === 0) {
+                        return emptyConnection(connection);
                     }
+
+                    const accounts: PlatformAccountData[] = accountRows
+                        .filter(account => platformRows.some(row => row.id === account.connection_id))
+                        .map(account => {
+                            const latest = analyticsRows.find(row =>
+                                row.platform === account.platform && row.account_id === account.account_id
+                            );
+                            return {
+                                platform: account.platform,
+                                connectionId: account.connection_id,
+                                accountId: account.account_id,
+                                name: account.name,
+                                username: account.username,
+                                avatarUrl: account.avatar_url,
+                                timeZone: account.timezone || undefined,
+                                needsReauth: platformRows.find(row => row.id === account.connection_id)?.status === 'needs_reauth',
+                                followerCount: latest?.followers,
+                                totalViews: latest?.total_views,
+                                engagementRate: latest?.average_engagement_rate,
+                            };
+                        });
+
+                    const primary = platformRows[0];
+                    const followerCounts = accounts
+                        .map(account => account.followerCount)
+                        .filter((count): count is number => count !== undefined);
+
+                    return {
+                        ...connection,
+                        connected: true,
+                        needsReauth: platformRows.some(row => row.status === 'needs_reauth'),
+                        accountName: accounts.length > 1
+                            ? `${accounts.length} accounts`
+                            : accounts[0]?.name || primary.account_name || 'Connected Account',
+                        accountUsername: accounts.length === 1 ? accounts[0].username : primary.account_username,
+                        lastSync: platformRows
+                            .map(row => row.updated_at)
+                            .sort()
+                            .reverse()[0],
+                        followerCount: followerCounts.length > 0
+                            ? followerCounts.reduce((sum, count) => sum + count, 0)
+                            : undefined,
+                        connectionIds: platformRows.map(row => row.id),
+                        accounts,
+                    };
                 })
             );
-        } catch (err: any) {
+        } catch (err) {
             console.error('Error fetching platform connections:', err);
-            setError(err.message);
+            setError(err instanceof Error ? err.message : 'Failed to load platform connections');
         } finally {
             setLoading(false);
         }
@@ -131,57 +238,87 @@ export const usePlatformConnections = () => {
                 // Update local state
                 setConnections(prevConnections =>
                     prevConnections.map(connection =>
-                        connection.platform === platform
-                            ? {
-                                ...connection,
-                                connected: false,
-                                accountName: '',
-                                accountUsername: undefined,
-                                lastSync: null,
-                            }
-                            : connection
+                        connection.platform === platform ? emptyConnection(connection) : connection
                     )
                 );
             } else {
                 throw new Error('Failed to disconnect platform');
             }
-        } catch (err: any) {
+        } catch (err) {
             console.error(`Error disconnecting ${platform}:`, err);
-            setError(err.message);
+            setError(err instanceof Error ? err.message : `Failed to disconnect ${platform}`);
             throw err;
         }
     };
 
+    /**
+     * Remove a single grant (e.g. one of two YouTube channels), keeping the others
+     */
+    const disconnectConnection = async (connectionId: string) => {
+        if (!user) {
+            throw new Error('User not authenticated');
+        }
+
+        const success = await socialMediaService.disconnectConnection(user.id, connectionId);
+        if (!success) {
+            throw new Error('Failed to disconnect account');
+        }
+
+        await fetchConnections();
+    };
+
     const refreshConnection = async (platform: string) => {
         try {
             if (!user) {
                 throw new Error('User not authenticated');
             }
 
-            // Fetch fresh analytics data for the platform
-            const analytics = await socialMediaService.getAllPlatformAnalytics(user.id);
+            // Pick up pages / accounts added or removed since the last sync
+            const { data: platformRows } = await db
+                .from('platform_connections')
+                .select('*')
+                .eq('user_id', user.id)
+                .eq('platform', platform);
+
+            for (const row of (platformRows || []) as PlatformConnection[]) {
+                await socialMediaService.syncPlatformAccounts(user.id, row);
+            }
+
+            // Fetch fresh analytics data for every account on the platform
+            const accountAnalytics = await socialMediaService.getPlatformAnalytics(user.id, platform);
 
             // Store the fresh data
-            const platformAnalytics = analytics[platform as keyof typeof analytics];
-            if (platformAnalytics) {
-                await socialMediaService.storeAnalytics(user.id, platformAnalytics);
+            for (const analytics of accountAnalytics) {
+                await socialMediaService.storeAnalytics(user.id, analytics);
             }
 
-            // Update the last sync time
-            setConnections(prevConnections =>
-                prevConnections.map(connection =>
-                    connection.platform === platform
-                        ? { ...connection, lastSync: new Date().toISOString() }
-                        : connection
-                )
-            );
-        } catch (err: any) {
+            await fetchConnections();
+        } catch (err) {
             console.error(`Error refreshing ${platform}:`, err);
-            setError(err.message);
+            setError(err instanceof Error ? err.message : `Failed to refresh ${platform}`);
             throw err;
         }
     };
 
+    const setAccountTimeZone = async (account: PublishTarget, timeZone: string | null) => {
+        if (!user) {
+            throw new Error('User not authenticated');
+        }
+
+        await socialMediaService.setAccountTimeZone(user.id, account.connectionId, account.accountId, timeZone);
+
+        setConnections(prevConnections =>
+            prevConnections.map(connection => ({
+                ...connection,
+                accounts: connection.accounts.map(existing =>
+                    getTargetKey(existing) === getTargetKey(account)
+                        ? { ...existing, timeZone: timeZone || undefined }
+                        : existing
+                ),
+            }))
+        );
+    };
+
     const getConnectedPlatforms = (): string[] => {
         return connections
             .filter(connection => connection.connected)
@@ -192,15 +329,27 @@ export const usePlatformConnections = () => {
         return connections.find(c => c.platform === platform)?.connected || false;
     };
 
+    /**
+     * Accounts that can be published to right now
+     */
+    const getPublishTargets = (): PlatformAccountData[] => {
+        return connections
+            .flatMap(connection => connection.accounts)
+            .filter(account => !account.needsReauth);
+    };
+
     return {
         connections,
         loading,
         error,
         connectPlatform,
         disconnectPlatform,
+        disconnectConnection,
         refreshConnection,
+        setAccountTimeZone,
         getConnectedPlatforms,
         isPlatformConnected,
+        getPublishTargets,
         refetch: fetchConnections,
     };
-};
\ No newline at end of file
+};
@@ -0,0 +1,136 @@
+/**
+ * useScheduleCalendar Hook
+ * Scheduled posts with their per-platform results, for the scheduler and
+ * calendar, the recurring series whose occurrences the calendar expands, and
+ * the time zones of the accounts posts go to
+ */
+
+import { useCallback } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import { scheduledPostService } from '@/lib/services/scheduledPostService';
+import type { CalendarPost, RecurringSeries } from '@/lib/services/scheduledPostService';
+import { socialMediaService } from '@/lib/services/socialMediaService';
+import type { AccountTimeZone } from '@/lib/services/socialMediaService';
+
+// Follow a post while the worker is on it
+const PUBLISHING_POLL_INTERVAL = 5000;
+
+// Targets waiting on a backed-off retry aren't followed; they may wait an hour
+const isInProgress = (post: CalendarPost) =>
+    post.status === 'publishing' || post.results.some(result =>
+        result.status === 'publishing' || (result.status === 'pending' && !result.next_attempt_at)
+    );
+
+export const useScheduleCalendar = () => {
+    const { user } = useAuth();
+    const queryClient = useQueryClient();
+    const userId = user?.id;
+
+    const posts = useQuery({
+        queryKey: ['scheduled-posts', userId],
+        queryFn: (): Promise<CalendarPost[]> => scheduledPostService.getPosts(userId!),
+        enabled: !!userId,
+        refetchInterval: (query) =>
+            query.state.data?.some(isInProgress) ? PUBLISHING_POLL_INTERVAL : false,
+    });
+
+    const series = useQuery({
+        queryKey: ['scheduled-series', userId],
+        queryFn: (): Promise<RecurringSeries[]> => scheduledPostService.getSeries(userId!),
+        enabled: !!userId,
+    });
+
+    const accountTimeZones = useQuery({
+        queryKey: ['account-time-zones', userId],
+        queryFn: (): Promise<AccountTimeZone[]> => socialMediaService.getAccountTimeZones(userId!),
+        enabled: !!userId,
+    });
+
+    const reload = useCallback(
+        () => Promise.all([
+            queryClient.invalidateQueries({ queryKey: ['scheduled-posts', userId] }),
+            queryClient.invalidateQueries({ queryKey: ['scheduled-series', userId] }),
+        ]),
+        [queryClient, userId]
+    );
+
+    /**
+     * Occurrences of every series between two dates that don't have a post yet
+     */
+    const getOccurrences = useCallback(
+        (from: Date, to: Date) => (series.data || []).flatMap(item => scheduledPostService.expandSeries(item, from, to)),
+        [series.data]
+    );
+
+    /**
+     * The post's targets that have their audience's time zone set
+     */
+    const getTargetZones = useCallback(
+        (post: CalendarPost) => (accountTimeZones.data || []).filter(account =>
+            post.targets.some(target =>
+                target.connectionId === account.connectionId && target.accountId === account.accountId
+            )
+        ),
+        [accountTimeZones.data]
+    );
+
+    const requireUser = () => {
+        if (!userId) {
+            throw new Error('User not authenticated');
+        }
+        return userId;
+    };
+
+    return {
+        posts: posts.data || [],
+        series: series.data || [],
+        getOccurrences,
+        getTargetZones,
+        isLoading: posts.isLoading || series.isLoading,
+        error: posts.error || series.error,
+
+        reschedule: async (postId: string, scheduledDate: Date) => {
+            await scheduledPostService.reschedule(requireUser(), postId, scheduledDate);
+            await reload();
+        },
+
+        cancel: async (postId: string) => {
+            await scheduledPostService.cancel(requireUser(), postId);
+            await reload();
+        },
+
+        moveOccurrence: async (seriesId: string, occurrenceDate: Date, scheduledDate: Date) => {
+            await scheduledPostService.moveOccurrence(requireUser(), seriesId, occurrenceDate, scheduledDate);
+            await reload();
+        },
+
+        skipOccurrence: async (seriesId: string, occurrenceDate: Date) => {
+            await scheduledPostService.skipOccurrence(requireUser(), seriesId, occurrenceDate);
+            await reload();
+        },
+
+        cancelSeries: async (seriesId: string) => {
+            await scheduledPostService.cancelSeries(requireUser(), seriesId);
+            await reload();
+        },
+
+        retryTarget: async (platformPostId: string) => {
+            await scheduledPostService.retryTarget(requireUser(), platformPostId);
+            await reload();
+        },
+
+        requeue: async (postId: string) => {
+            await scheduledPostService.requeue(requireUser(), postId);
+            await reload();
+        },
+
+        updateContent: async (postId: string, content: { title: string; description: string }) => {
+            await scheduledPostService.updateContent(requireUser(), postId, content);
+            await Promise.all([
+                reload(),
+                queryClient.invalidateQueries({ queryKey: ['content-library', userId] }),
+            ]);
+        },
+    };
+};
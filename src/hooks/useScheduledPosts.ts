@@ -6,24 +6,53 @@
 import { useState, useCallback } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
+import type { PublishTarget, VideoSettings } from '@/lib/platforms';
+import type { ScheduledPostStatus } from '@/lib/services/scheduledPostService';
+import { describeRRule, getOccurrences, parseRRule } from '@/lib/recurrence';
+import { formatInTimeZone, getLocalTimeZone } from '@/lib/timeZone';
 
 export interface ScheduledPost {
     id: string;
     user_id: string;
     video_id: string;
     platforms: string[];
+    targets: PublishTarget[];
     scheduled_date: Date;
-    status: 'scheduled' | 'published' | 'failed' | 'cancelled';
+    status: ScheduledPostStatus;
     notes?: string;
+    thumbnail_url?: string | null;
+    publish_options: Record<string, ScheduledPublishOptions>;
+    error_message?: string | null;
+    published_at?: string | null;
+    /** Set on a recurring series */
+    recurrence_rule?: string | null;
+    timezone?: string | null;
     created_at: Date;
     updated_at: Date;
 }
 
+/** Choices made for one platform when scheduling, for the worker to publish with */
+export interface ScheduledPublishOptions {
+    postType?: string;
+    videoSettings?: VideoSettings;
+}
+
 export interface ScheduleData {
     platforms: string[];
+    targets: PublishTarget[];
     scheduledDate: Date;
     scheduledTime: string;
     notes?: string;
+    /** Selected platforms that should schedule the post themselves instead of our worker */
+    nativeSchedulePlatforms?: string[];
+    /** Stored custom thumbnail to set when the video is published */
+    thumbnailUrl?: string;
+    /** Per platform post type and video settings */
+    publishOptions?: Record<string, ScheduledPublishOptions>;
+    /** RRULE the post repeats by from scheduledDate, e.g. FREQ=WEEKLY;BYDAY=TU */
+    recurrenceRule?: string;
+    /** IANA zone the time was picked in, the viewer's when missing; occurrences keep their time of day on its clock */
+    timeZone?: string;
 }
 
 export const useScheduledPosts = () => {
@@ -43,6 +72,17 @@ export const useScheduledPosts = () => {
             try {
                 const { supabase } = await import('@/integrations/supabase/client');
 
+                const timeZone = scheduleData.timeZone || getLocalTimeZone();
+                const rule = scheduleData.recurrenceRule ? parseRRule(scheduleData.recurrenceRule) : null;
+                // A series starts at its first occurrence, which the start date may not be
+                const firstOccurrence = rule
+                    ? getOccurrences(rule, scheduleData.scheduledDate, timeZone, { limit: 1 })[0]
+                    : null;
+
+                if (rule && !firstOccurrence) {
+                    throw new Error('The repeat settings never put the post on or after its start date');
+                }
+
                 // Create scheduled post record
                 const { data, error } = await (supabase as any)
                     .from('scheduled_posts')
@@ -50,9 +90,15 @@ export const useScheduledPosts = () => {
                         user_id: user.id,
                         video_id: videoId,
                         platforms: scheduleData.platforms,
+                        targets: scheduleData.targets,
                         scheduled_date: scheduleData.scheduledDate.toISOString(),
                         status: 'scheduled',
                         notes: scheduleData.notes,
+                        thumbnail_url: scheduleData.thumbnailUrl || null,
+                        publish_options: scheduleData.publishOptions || {},
+                        recurrence_rule: scheduleData.recurrenceRule || null,
+                        timezone: timeZone,
+                        next_occurrence_at: firstOccurrence?.toISOString() ?? null,
                     })
                     .select()
                     .single();
@@ -71,8 +117,10 @@ export const useScheduledPosts = () => {
                 setScheduledPosts((prev) => [...prev, newScheduledPost]);
 
                 toast({
-                    title: 'Post Scheduled',
-                    description: `Scheduled for ${scheduleData.scheduledDate.toLocaleString()}`,
+                    title: rule ? 'Series Scheduled' : 'Post Scheduled',
+                    description: rule
+                        ? `${describeRRule(rule)}, starting ${formatInTimeZone(firstOccurrence!, timeZone)}`
+                        : `Scheduled for ${formatInTimeZone(scheduleData.scheduledDate, timeZone)}`,
                 });
 
                 return newScheduledPost;
@@ -0,0 +1,32 @@
+/**
+ * useSentimentTrends Hook
+ * Daily comment sentiment per video, refreshed after every comment sync
+ */
+
+import { useEffect } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import { commentService } from '@/lib/services/commentService';
+import { moderationService } from '@/lib/services/moderationService';
+import type { VideoSentimentTrend } from '@/lib/services/moderationService';
+
+export const useSentimentTrends = () => {
+    const { user } = useAuth();
+    const queryClient = useQueryClient();
+    const userId = user?.id;
+
+    const trends = useQuery({
+        queryKey: ['sentiment-trends', userId],
+        queryFn: (): Promise<VideoSentimentTrend[]> => moderationService.getSentimentTrends(userId!),
+        enabled: !!userId,
+    });
+
+    useEffect(() => commentService.onSynced(() => {
+        queryClient.invalidateQueries({ queryKey: ['sentiment-trends', userId] });
+    }), [queryClient, userId]);
+
+    return {
+        trends: trends.data || [],
+        isLoading: trends.isLoading,
+    };
+};
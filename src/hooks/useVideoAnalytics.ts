@@ -1,12 +1,12 @@
 /**
  * Video Analytics Hook
- * Fetches and aggregates analytics from Supabase and external APIs
+ * Per-post metrics from the daily video_analytics snapshots, for every video or one
  */
 
-import { useState, useEffect } from 'react';
-import { supabase } from '@/integrations/supabase/client';
+import { useCallback, useEffect, useState } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
-import { socialMediaService } from '@/lib/services/socialMediaService';
+import { videoAnalyticsService } from '@/lib/services/videoAnalyticsService';
+import type { VideoAnalyticsSnapshot } from '@/lib/services/videoAnalyticsService';
 
 export interface VideoMetrics {
     views: number;
@@ -21,220 +21,151 @@ export interface PlatformMetrics {
     youtube: VideoMetrics;
     facebook: VideoMetrics;
     instagram: VideoMetrics;
+    tiktok: VideoMetrics;
+    linkedin: VideoMetrics;
     total: VideoMetrics;
 }
 
-export const useVideoAnalytics = (videoId?: string) => {
-    const { user } = useAuth();
-    const [loading, setLoading] = useState(true);
-    const [error, setError] = useState<string | null>(null);
-    const [metrics, setMetrics] = useState<PlatformMetrics | null>(null);
-    const [history, setHistory] = useState<any[]>([]);
-    const [connectedPlatforms, setConnectedPlatforms] = useState<string[]>([]);
+/** Totals per platform as of one day */
+export interface AnalyticsHistoryPoint {
+    date: string;
+    youtube: number;
+    facebook: number;
+    instagram: number;
+    tiktok: number;
+    linkedin: number;
+}
 
-    useEffect(() => {
-        if (user) {
-            fetchAnalytics();
-            checkConnectedPlatforms();
-        }
-    }, [user, videoId]);
+/** Change over the period in percent; null without an earlier figure to compare with */
+export type MetricTrends = Record<'views' | 'likes' | 'comments' | 'shares', number | null>;
 
-    const checkConnectedPlatforms = async () => {
-        if (!user) return;
+type ChartPlatform = Exclude<keyof PlatformMetrics, 'total'>;
 
-        const platforms = ['youtube', 'facebook', 'instagram'];
-        const connected: string[] = [];
+const PLATFORMS: ChartPlatform[] = ['youtube', 'facebook', 'instagram', 'tiktok', 'linkedin'];
 
-        for (const platform of platforms) {
-            const isConnected = await socialMediaService.isPlatformConnected(user.id, platform);
-            if (isConnected) {
-                connected.push(platform);
-            }
-        }
+const HISTORY_DAYS = 30;
 
-        setConnectedPlatforms(connected);
-    };
+const emptyMetrics = (): VideoMetrics => ({
+    views: 0,
+    likes: 0,
+    comments: 0,
+    shares: 0,
+    engagementRate: 0,
+    watchTime: 0,
+});
 
-    const fetchAnalytics = async () => {
-        try {
-            setLoading(true);
-
-            if (!user) {
-                throw new Error('User not authenticated');
-            }
+/**
+ * Add up the latest snapshot of each post; engagement is likes, comments and shares per view
+ */
+const sumSnapshots = (snapshots: VideoAnalyticsSnapshot[]): VideoMetrics => {
+    const sums = snapshots.reduce((metrics, snapshot) => ({
+        ...metrics,
+        views: metrics.views + (snapshot.views || 0),
+        likes: metrics.likes + (snapshot.likes || 0),
+        comments: metrics.comments + (snapshot.comments || 0),
+        shares: metrics.shares + (snapshot.shares || 0),
+        watchTime: metrics.watchTime + (snapshot.watch_time_seconds || 0),
+    }), emptyMetrics());
+
+    const engagement = sums.likes + sums.comments + sums.shares;
+    return {
+        ...sums,
+        engagementRate: sums.views > 0 ? Math.round((engagement / sums.views) * 1000) / 10 : 0,
+    };
+};
 
-            // First, try to get stored analytics from the database
-            const storedAnalytics = await socialMediaService.getStoredAnalytics(user.id, 30);
+const percentChange = (from: number, to: number) =>
+    from > 0 ? Math.round(((to - from) / from) * 1000) / 10 : null;
 
-            // Convert stored analytics to the format expected by the component
-            const formattedMetrics = convertStoredAnalyticsToMetrics(storedAnalytics);
+export const useVideoAnalytics = (videoId?: string) => {
+    const { user } = useAuth();
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [metrics, setMetrics] = useState<PlatformMetrics | null>(null);
+    const [history, setHistory] = useState<AnalyticsHistoryPoint[]>([]);
+    const [engagementHistory, setEngagementHistory] = useState<AnalyticsHistoryPoint[]>([]);
+    const [trends, setTrends] = useState<MetricTrends>({ views: null, likes: null, comments: null, shares: null });
+    const userId = user?.id;
 
-            if (formattedMetrics) {
-                setMetrics(formattedMetrics);
+    const fetchAnalytics = useCallback(async () => {
+        if (!userId) return;
 
-                // Convert to history format for charts
-                const historyData = convertAnalyticsToHistory(storedAnalytics);
-                setHistory(historyData);
-            } else {
-                // Fallback to mock data if no stored analytics
-                setMetrics(getMockMetrics());
-                setHistory(getMockHistory());
+        try {
+            setLoading(true);
+            setError(null);
+
+            const snapshots = await videoAnalyticsService.getSnapshots(userId, HISTORY_DAYS, videoId);
+
+            // Snapshots are cumulative, so each day shows every post's latest figures up to then
+            const latestByPost = new Map<string, VideoAnalyticsSnapshot>();
+            const viewsHistory: AnalyticsHistoryPoint[] = [];
+            const engagementByDay: AnalyticsHistoryPoint[] = [];
+            const dailyTotals: VideoMetrics[] = [];
+            const dates = [...new Set(snapshots.map(snapshot => snapshot.date_recorded))].sort();
+
+            for (const date of dates) {
+                snapshots
+                    .filter(snapshot => snapshot.date_recorded === date)
+                    .forEach(snapshot => latestByPost.set(`${snapshot.platform}:${snapshot.video_id}`, snapshot));
+
+                const current = Array.from(latestByPost.values());
+                const views = { date } as AnalyticsHistoryPoint;
+                const engagement = { date } as AnalyticsHistoryPoint;
+
+                for (const platform of PLATFORMS) {
+                    const totals = sumSnapshots(current.filter(snapshot => snapshot.platform === platform));
+                    views[platform] = totals.views;
+                    engagement[platform] = totals.likes + totals.comments + totals.shares;
+                }
+
+                viewsHistory.push(views);
+                engagementByDay.push(engagement);
+                dailyTotals.push(sumSnapshots(current));
             }
+
+            const latest = Array.from(latestByPost.values());
+            setMetrics({
+                ...Object.fromEntries(PLATFORMS.map(platform => [
+                    platform,
+                    sumSnapshots(latest.filter(snapshot => snapshot.platform === platform)),
+                ])) as Record<ChartPlatform, VideoMetrics>,
+                total: sumSnapshots(latest),
+            });
+            setHistory(viewsHistory);
+            setEngagementHistory(engagementByDay);
+
+            const first = dailyTotals[0];
+            const last = dailyTotals[dailyTotals.length - 1];
+            setTrends({
+                views: first && dailyTotals.length > 1 ? percentChange(first.views, last.views) : null,
+                likes: first && dailyTotals.length > 1 ? percentChange(first.likes, last.likes) : null,
+                comments: first && dailyTotals.length > 1 ? percentChange(first.comments, last.comments) : null,
+                shares: first && dailyTotals.length > 1 ? percentChange(first.shares, last.shares) : null,
+            });
         } catch (err: any) {
             console.error('Error fetching analytics:', err);
             setError(err.message);
-
-            // Fallback to mock data on error
-            setMetrics(getMockMetrics());
-            setHistory(getMockHistory());
         } finally {
             setLoading(false);
         }
-    };
+    }, [userId, videoId]);
 
-    const convertStoredAnalyticsToMetrics = (storedAnalytics: any): PlatformMetrics | null => {
-        const { youtube, facebook, instagram } = storedAnalytics;
-
-        // If no data for any platform, return null
-        if (!youtube.length && !facebook.length && !instagram.length) {
-            return null;
-        }
-
-        // Get the most recent data for each platform
-        const latestYoutube = youtube[0];
-        const latestFacebook = facebook[0];
-        const latestInstagram = instagram[0];
-
-        const youtubeMetrics: VideoMetrics = {
-            views: latestYoutube?.total_views || 0,
-            likes: 0, // Would be calculated from video_analytics table
-            comments: 0,
-            shares: 0,
-            engagementRate: latestYoutube?.average_engagement_rate || 0,
-            watchTime: 0,
-        };
-
-        const facebookMetrics: VideoMetrics = {
-            views: latestFacebook?.total_views || 0,
-            likes: 0,
-            comments: 0,
-            shares: 0,
-            engagementRate: latestFacebook?.average_engagement_rate || 0,
-            watchTime: 0,
-        };
-
-        const instagramMetrics: VideoMetrics = {
-            views: latestInstagram?.total_views || 0,
-            likes: 0,
-            comments: 0,
-            shares: 0,
-            engagementRate: latestInstagram?.average_engagement_rate || 0,
-            watchTime: 0,
-        };
-
-        const totalViews = youtubeMetrics.views + facebookMetrics.views + instagramMetrics.views;
-
-        return {
-            youtube: youtubeMetrics,
-            facebook: facebookMetrics,
-            instagram: instagramMetrics,
-            total: {
-                views: totalViews,
-                likes: youtubeMetrics.likes + facebookMetrics.likes + instagramMetrics.likes,
-                comments: youtubeMetrics.comments + facebookMetrics.comments + instagramMetrics.comments,
-                shares: youtubeMetrics.shares + facebookMetrics.shares + instagramMetrics.shares,
-                engagementRate: (youtubeMetrics.engagementRate + facebookMetrics.engagementRate + instagramMetrics.engagementRate) / 3,
-                watchTime: youtubeMetrics.watchTime + facebookMetrics.watchTime + instagramMetrics.watchTime,
-            },
-        };
-    };
-
-    const convertAnalyticsToHistory = (storedAnalytics: any): any[] => {
-        const { youtube, facebook, instagram } = storedAnalytics;
-        const history: any[] = [];
-
-        // Combine all dates from all platforms
-        const allDates = new Set<string>();
-        youtube.forEach((item: any) => allDates.add(item.date_recorded));
-        facebook.forEach((item: any) => allDates.add(item.date_recorded));
-        instagram.forEach((item: any) => allDates.add(item.date_recorded));
-
-        // Sort dates
-        const sortedDates = Array.from(allDates).sort();
-
-        // Create history entries
-        sortedDates.forEach(date => {
-            const ytData = youtube.find((item: any) => item.date_recorded === date);
-            const fbData = facebook.find((item: any) => item.date_recorded === date);
-            const igData = instagram.find((item: any) => item.date_recorded === date);
-
-            history.push({
-                date,
-                youtube: ytData?.total_views || Math.floor(Math.random() * 100) + 50,
-                facebook: fbData?.total_views || Math.floor(Math.random() * 80) + 30,
-                instagram: igData?.total_views || Math.floor(Math.random() * 200) + 100,
-            });
-        });
-
-        return history;
-    };
+    useEffect(() => {
+        fetchAnalytics();
+    }, [fetchAnalytics]);
 
-    const getMockMetrics = (): PlatformMetrics => ({
-        youtube: {
-            views: connectedPlatforms.includes('youtube') ? 1250 : 0,
-            likes: 85,
-            comments: 12,
-            shares: 5,
-            engagementRate: 8.2,
-            watchTime: 4500,
-        },
-        facebook: {
-            views: connectedPlatforms.includes('facebook') ? 850 : 0,
-            likes: 45,
-            comments: 8,
-            shares: 15,
-            engagementRate: 6.5,
-            watchTime: 2100,
-        },
-        instagram: {
-            views: connectedPlatforms.includes('instagram') ? 2100 : 0,
-            likes: 320,
-            comments: 25,
-            shares: 45,
-            engagementRate: 18.5,
-            watchTime: 0,
-        },
-        total: {
-            views: (connectedPlatforms.includes('youtube') ? 1250 : 0) +
-                (connectedPlatforms.includes('facebook') ? 850 : 0) +
-                (connectedPlatforms.includes('instagram') ? 2100 : 0),
-            likes: 450,
-            comments: 45,
-            shares: 65,
-            engagementRate: 13.3,
-            watchTime: 6600,
-        },
-    });
-
-    const getMockHistory = (): any[] => {
-        return Array.from({ length: 30 }, (_, i) => {
-            const date = new Date();
-            date.setDate(date.getDate() - (29 - i));
-            return {
-                date: date.toISOString().split('T')[0],
-                youtube: connectedPlatforms.includes('youtube') ? Math.floor(Math.random() * 100) + 50 : 0,
-                facebook: connectedPlatforms.includes('facebook') ? Math.floor(Math.random() * 80) + 30 : 0,
-                instagram: connectedPlatforms.includes('instagram') ? Math.floor(Math.random() * 200) + 100 : 0,
-            };
-        });
-    };
+    // Scheduled syncs add today's snapshot in the background
+    useEffect(() => videoAnalyticsService.onSynced(() => {
+        fetchAnalytics();
+    }), [fetchAnalytics]);
 
     return {
         loading,
         error,
         metrics,
         history,
-        connectedPlatforms,
+        engagementHistory,
+        trends,
         refetch: fetchAnalytics,
     };
 };
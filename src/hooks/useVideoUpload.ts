@@ -1,5 +1,5 @@
 /**
- * Custom hook for video upload to Supabase Storage
+ * Custom hook for video and image upload to Supabase Storage
  * Handles file validation, upload progress, and metadata extraction
  */
 
@@ -15,6 +15,16 @@ export interface VideoMetadata {
     type: string;
 }
 
+export type MediaType = 'image' | 'video';
+
+/** A stored file of a multi-asset post */
+export interface UploadedMedia {
+    type: MediaType;
+    url: string;
+    path: string;
+    metadata: VideoMetadata; // duration is 0 for images
+}
+
 export interface UploadProgress {
     loaded: number;
     total: number;
@@ -53,6 +63,51 @@ export const useVideoUpload = () => {
         });
     };
 
+    /**
+     * Extract image dimensions
+     */
+    const extractImageMetadata = (file: File): Promise<VideoMetadata> => {
+        return new Promise((resolve, reject) => {
+            const image = new Image();
+
+            image.onload = () => {
+                window.URL.revokeObjectURL(image.src);
+                resolve({
+                    duration: 0,
+                    width: image.naturalWidth,
+                    height: image.naturalHeight,
+                    size: file.size,
+                    type: file.type,
+                });
+            };
+
+            image.onerror = () => {
+                reject(new Error('Failed to load image'));
+            };
+
+            image.src = URL.createObjectURL(file);
+        });
+    };
+
+    /**
+     * Validate image file
+     */
+    const validateImage = (file: File): { valid: boolean; error?: string } => {
+        // Instagram only accepts JPEG; the other networks also take PNG and WebP
+        const validTypes = ['image/jpeg', 'image/png', 'image/webp'];
+        if (!validTypes.includes(file.type)) {
+            return { valid: false, error: 'Invalid file type. Please upload JPEG, PNG, or WebP.' };
+        }
+
+        // Check file size (max 8MB, Instagram's limit)
+        const maxSize = 8 * 1024 * 1024; // 8MB
+        if (file.size > maxSize) {
+            return { valid: false, error: 'Image too large. Maximum size is 8MB.' };
+        }
+
+        return { valid: true };
+    };
+
     /**
      * Validate video file
      */
@@ -73,24 +128,25 @@ export const useVideoUpload = () => {
     };
 
     /**
-     * Upload video to Supabase Storage
+     * Upload a video or image to Supabase Storage
      */
-    const uploadVideo = async (
+    const uploadFile = async (
         file: File,
-        userId: string
-    ): Promise<{ url: string; path: string; metadata: VideoMetadata }> => {
+        userId: string,
+        type: MediaType
+    ): Promise<UploadedMedia> => {
         setUploading(true);
         setProgress({ loaded: 0, total: file.size, percentage: 0 });
 
         try {
             // Validate file
-            const validation = validateVideo(file);
+            const validation = type === 'image' ? validateImage(file) : validateVideo(file);
             if (!validation.valid) {
                 throw new Error(validation.error);
             }
 
             // Extract metadata
-            const metadata = await extractMetadata(file);
+            const metadata = type === 'image' ? await extractImageMetadata(file) : await extractMetadata(file);
 
             // Generate unique filename
             const timestamp = Date.now();
@@ -132,10 +188,11 @@ export const useVideoUpload = () => {
 
             toast({
                 title: 'Upload Complete',
-                description: 'Your video has been uploaded successfully.',
+                description: `Your ${type} has been uploaded successfully.`,
             });
 
             return {
+                type,
                 url: urlData.publicUrl,
                 path: data.path,
                 metadata,
@@ -144,7 +201,7 @@ export const useVideoUpload = () => {
             console.error('Upload error:', error);
             toast({
                 title: 'Upload Failed',
-                description: error.message || 'Failed to upload video. Please try again.',
+                description: error.message || `Failed to upload ${type}. Please try again.`,
                 variant: 'destructive',
             });
             throw error;
@@ -154,7 +211,24 @@ export const useVideoUpload = () => {
     };
 
     /**
-     * Save video to database
+     * Upload video to Supabase Storage
+     */
+    const uploadVideo = async (
+        file: File,
+        userId: string
+    ): Promise<{ url: string; path: string; metadata: VideoMetadata }> => {
+        const { url, path, metadata } = await uploadFile(file, userId, 'video');
+        return { url, path, metadata };
+    };
+
+    /**
+     * Upload an image or video for a multi-asset post
+     */
+    const uploadMedia = (file: File, userId: string): Promise<UploadedMedia> =>
+        uploadFile(file, userId, file.type.startsWith('image/') ? 'image' : 'video');
+
+    /**
+     * Save video to database; image and multi-asset posts keep every asset in `metadata.media`
      */
     const saveVideoToDatabase = async (
         userId: string,
@@ -162,9 +236,10 @@ export const useVideoUpload = () => {
         description: string,
         fileUrl: string,
         filePath: string,
-        metadata: VideoMetadata
+        metadata: VideoMetadata,
+        media?: UploadedMedia[]
     ) => {
-        const { data, error } = await supabase
+        const { data, error } = await (supabase as any)
             .from('videos')
             .insert({
                 user_id: userId,
@@ -178,6 +253,9 @@ export const useVideoUpload = () => {
                 metadata: {
                     width: metadata.width,
                     height: metadata.height,
+                    ...(media && media.length > 0 && {
+                        media: media.map(({ type, url, path }) => ({ type, url, path })),
+                    }),
                 },
             })
             .select()
@@ -191,8 +269,10 @@ export const useVideoUpload = () => {
         uploading,
         progress,
         uploadVideo,
+        uploadMedia,
         saveVideoToDatabase,
         extractMetadata,
         validateVideo,
+        validateImage,
     };
 };
@@ -3,20 +3,36 @@
  * Supports both OpenAI and Google Gemini for content generation
  */
 
+import { parseGoogleError } from './errors';
+import { requestJson } from './httpClient';
+
 export interface AIConfig {
     provider: 'openai' | 'gemini';
     apiKey: string;
 }
 
+// Generating text has no side effects, so failed calls can safely be repeated
+const GENERATION_RETRIES = 2;
+
+// DALL-E HD images regularly take longer than the default request timeout
+const IMAGE_GENERATION_TIMEOUT = 2 * 60 * 1000;
+
+export type TargetPlatform = 'youtube' | 'facebook' | 'instagram' | 'tiktok' | 'linkedin';
+export type ContentTone = 'professional' | 'casual' | 'energetic' | 'educational';
+
 export interface ContentGenerationOptions {
     videoTitle?: string;
     videoDescription?: string;
     videoTranscript?: string;
-    targetPlatform?: 'youtube' | 'facebook' | 'instagram';
-    tone?: 'professional' | 'casual' | 'energetic' | 'educational';
+    targetPlatform?: TargetPlatform;
+    tone?: ContentTone;
     language?: string;
 }
 
+export type CommentSentiment = 'positive' | 'neutral' | 'negative' | 'question';
+
+const COMMENT_SENTIMENTS: CommentSentiment[] = ['positive', 'neutral', 'negative', 'question'];
+
 export interface GeneratedContent {
     titles: string[];
     descriptions: string[];
@@ -24,6 +40,51 @@ export interface GeneratedContent {
     thumbnailPrompts: string[];
 }
 
+/**
+ * Copy conventions per platform, used to shape the prompts
+ */
+interface PlatformProfile {
+    titleCount: number;
+    titleLength: string; // characters
+    descriptionLength: string; // words
+    descriptionStyle: string;
+    defaultTone?: ContentTone;
+}
+
+const PLATFORM_PROFILES: Record<TargetPlatform, PlatformProfile> = {
+    youtube: {
+        titleCount: 5,
+        titleLength: '60-70',
+        descriptionLength: '300-500',
+        descriptionStyle: 'Add social media links section',
+    },
+    facebook: {
+        titleCount: 3,
+        titleLength: '40-50',
+        descriptionLength: '150-250',
+        descriptionStyle: 'Keep it concise',
+    },
+    instagram: {
+        titleCount: 3,
+        titleLength: '40-50',
+        descriptionLength: '150-250',
+        descriptionStyle: 'Keep it concise',
+    },
+    tiktok: {
+        titleCount: 3,
+        titleLength: '20-40',
+        descriptionLength: '20-50',
+        descriptionStyle: 'Keep it concise',
+    },
+    linkedin: {
+        titleCount: 3,
+        titleLength: '50-70',
+        descriptionLength: '150-300',
+        descriptionStyle: 'Open with a business insight, use short paragraphs, end with a question that invites discussion, and limit hashtags to 3-5',
+        defaultTone: 'professional',
+    },
+};
+
 class AIContentGenerator {
     private config: AIConfig;
 
@@ -121,26 +182,50 @@ class AIContentGenerator {
         };
     }
 
+    /**
+     * Label each comment's sentiment, in order; null where the model's answer couldn't be read
+     */
+    async classifySentiment(comments: string[]): Promise<(CommentSentiment | null)[]> {
+        if (comments.length === 0) return [];
+
+        const prompt = this.buildSentimentPrompt(comments);
+        const response = this.config.provider === 'openai'
+            ? await this.callOpenAI(prompt)
+            : await this.callGemini(prompt);
+
+        // Answers are matched by their number, so a skipped line doesn't shift the rest
+        const labels = new Map<number, CommentSentiment>();
+        for (const line of response.split('\n')) {
+            const match = line.trim().toLowerCase().match(/^(\d+)[.):]\s*([a-z]+)/);
+            if (match && COMMENT_SENTIMENTS.includes(match[2] as CommentSentiment)) {
+                labels.set(Number(match[1]), match[2] as CommentSentiment);
+            }
+        }
+
+        return comments.map((_, index) => labels.get(index + 1) ?? null);
+    }
+
     /**
      * Build prompt for title generation
      */
     private buildTitlePrompt(options: ContentGenerationOptions): string {
         const platform = options.targetPlatform || 'youtube';
-        const tone = options.tone || 'engaging';
+        const profile = PLATFORM_PROFILES[platform];
+        const tone = options.tone || profile.defaultTone || 'engaging';
 
-        return `Generate ${platform === 'youtube' ? '5' : '3'} catchy, SEO-optimized video titles for a video about "${options.videoTitle || 'this topic'}".
+        return `Generate ${profile.titleCount} catchy, SEO-optimized video titles for a video about "${options.videoTitle || 'this topic'}".
 
 Requirements:
 - Platform: ${platform.toUpperCase()}
 - Tone: ${tone}
-- Length: ${platform === 'youtube' ? '60-70' : '40-50'} characters
+- Length: ${profile.titleLength} characters
 - Include relevant keywords
 - Make them click-worthy but not clickbait
 - Each title should be unique and compelling
 
 ${options.videoDescription ? `Video context: ${options.videoDescription}` : ''}
 
-Return only the titles, one per line, numbered 1-5.`;
+Return only the titles, one per line, numbered 1-${profile.titleCount}.`;
     }
 
     /**
@@ -148,6 +233,7 @@ Return only the titles, one per line, numbered 1-5.`;
      */
     private buildDescriptionPrompt(options: ContentGenerationOptions): string {
         const platform = options.targetPlatform || 'youtube';
+        const profile = PLATFORM_PROFILES[platform];
 
         return `Generate a compelling video description for ${platform.toUpperCase()}.
 
@@ -160,8 +246,9 @@ Requirements:
 - Include relevant keywords naturally
 - Add timestamps if applicable
 - Include call-to-action
-- ${platform === 'youtube' ? 'Add social media links section' : 'Keep it concise'}
-- Length: ${platform === 'youtube' ? '300-500' : '150-250'} words
+- ${profile.descriptionStyle}
+- Length: ${profile.descriptionLength} words${profile.defaultTone ? `
+- Tone: ${options.tone || profile.defaultTone}` : ''}
 
 Generate 3 variations with different approaches.`;
     }
@@ -205,6 +292,28 @@ Requirements:
 Return 3 detailed image generation prompts, one per line.`;
     }
 
+    /**
+     * Build prompt for comment sentiment labels
+     */
+    private buildSentimentPrompt(comments: string[]): string {
+        const numbered = comments
+            .map((comment, index) => `${index + 1}. ${comment.replace(/\s+/g, ' ').substring(0, 300)}`)
+            .join('\n');
+
+        return `Classify the sentiment of each of these ${comments.length} social media comments.
+
+Labels:
+- positive: praise, thanks, excitement
+- negative: complaints, criticism, insults
+- question: asks the creator something
+- neutral: anything else
+
+Comments:
+${numbered}
+
+Return only the labels, one per line, numbered 1-${comments.length} to match the comments.`;
+    }
+
     /**
      * Generate multiple variations with OpenAI
      */
@@ -231,7 +340,10 @@ Return 3 detailed image generation prompts, one per line.`;
      * Call OpenAI API
      */
     private async callOpenAI(prompt: string): Promise<string> {
-        const response = await fetch('https://api.openai.com/v1/chat/completions', {
+        const data = await requestJson('https://api.openai.com/v1/chat/completions', {
+            service: 'OpenAI',
+            errorMessage: 'Failed to generate content with OpenAI',
+            retries: GENERATION_RETRIES,
             method: 'POST',
             headers: {
                 'Content-Type': 'application/json',
@@ -253,12 +365,6 @@ Return 3 detailed image generation prompts, one per line.`;
                 max_tokens: 1000,
             }),
         });
-
-        if (!response.ok) {
-            throw new Error('Failed to generate content with OpenAI');
-        }
-
-        const data = await response.json();
         return data.choices[0].message.content.trim();
     }
 
@@ -266,9 +372,13 @@ Return 3 detailed image generation prompts, one per line.`;
      * Call Google Gemini API
      */
     private async callGemini(prompt: string): Promise<string> {
-        const response = await fetch(
+        const data = await requestJson(
             `https://generativelanguage.googleapis.com/v1beta/models/gemini-pro:generateContent?key=${this.config.apiKey}`,
             {
+                service: 'Gemini',
+                parseError: parseGoogleError,
+                errorMessage: 'Failed to generate content with Gemini',
+                retries: GENERATION_RETRIES,
                 method: 'POST',
                 headers: {
                     'Content-Type': 'application/json',
@@ -290,12 +400,6 @@ Return 3 detailed image generation prompts, one per line.`;
                 }),
             }
         );
-
-        if (!response.ok) {
-            throw new Error('Failed to generate content with Gemini');
-        }
-
-        const data = await response.json();
         return data.candidates[0].content.parts[0].text.trim();
     }
 
@@ -320,12 +424,16 @@ Return 3 detailed image generation prompts, one per line.`;
 
 /**
  * Generate thumbnail image using DALL-E or similar
+ * Returns the PNG itself rather than DALL-E's URL, which expires after an hour
  */
 export async function generateThumbnailImage(
     apiKey: string,
     prompt: string
-): Promise<string> {
-    const response = await fetch('https://api.openai.com/v1/images/generations', {
+): Promise<Blob> {
+    const data = await requestJson('https://api.openai.com/v1/images/generations', {
+        service: 'OpenAI',
+        errorMessage: 'Failed to generate thumbnail image',
+        timeout: IMAGE_GENERATION_TIMEOUT,
         method: 'POST',
         headers: {
             'Content-Type': 'application/json',
@@ -337,15 +445,11 @@ export async function generateThumbnailImage(
             n: 1,
             size: '1792x1024', // YouTube thumbnail aspect ratio
             quality: 'hd',
+            response_format: 'b64_json',
         }),
     });
-
-    if (!response.ok) {
-        throw new Error('Failed to generate thumbnail image');
-    }
-
-    const data = await response.json();
-    return data.data[0].url; // Returns temporary URL
+    const bytes = Uint8Array.from(atob(data.data[0].b64_json), char => char.charCodeAt(0));
+    return new Blob([bytes], { type: 'image/png' });
 }
 
 export const createAIContentGenerator = (config: AIConfig) => new AIContentGenerator(config);
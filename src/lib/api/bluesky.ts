@@ -0,0 +1,242 @@
+/**
+ * Bluesky AT Protocol Integration
+ * Handles blob uploads, posts and engagement counts (sessions are created in the oauth-exchange edge function)
+ */
+
+import { sendChunk } from './resumableUpload';
+
+export interface BlueskyConfig {
+    /** PDS used when a connection doesn't name its own */
+    serviceUrl: string;
+}
+
+/** Where and as whom to make calls: the account's PDS, access JWT and DID */
+export interface BlueskySession {
+    serviceUrl: string;
+    accessToken: string;
+    did: string;
+}
+
+export interface BlueskyBlob {
+    $type: 'blob';
+    ref: { $link: string };
+    mimeType: string;
+    size: number;
+}
+
+export interface BlueskyPostInput {
+    text: string;
+    images?: Array<{ blob: BlueskyBlob; alt: string }>;
+    video?: { blob: BlueskyBlob; alt: string };
+}
+
+export interface BlueskyProfile {
+    did: string;
+    handle: string;
+    displayName: string;
+    avatar?: string;
+    followersCount: number;
+    postsCount: number;
+}
+
+export interface BlueskyPostCounts {
+    uri: string;
+    likes: number;
+    replies: number;
+    reposts: number;
+    quotes: number;
+}
+
+interface RawPostView {
+    uri: string;
+    likeCount?: number;
+    replyCount?: number;
+    repostCount?: number;
+    quoteCount?: number;
+}
+
+// Posts are limited to 300 graphemes
+const MAX_POST_LENGTH = 300;
+
+/**
+ * Rich text facets for links and hashtags. Offsets are UTF-8 byte positions.
+ */
+const buildFacets = (text: string) => {
+    const encoder = new TextEncoder();
+    const byteOffset = (index: number) => encoder.encode(text.slice(0, index)).length;
+    const facets: Array<{ index: { byteStart: number; byteEnd: number }; features: Array<Record<string, string>> }> = [];
+
+    for (const match of text.matchAll(/https?:\/\/[^\s)]+/g)) {
+        facets.push({
+            index: { byteStart: byteOffset(match.index!), byteEnd: byteOffset(match.index! + match[0].length) },
+            features: [{ $type: 'app.bsky.richtext.facet#link', uri: match[0] }],
+        });
+    }
+
+    for (const match of text.matchAll(/(^|\s)#([^\s#.,!?;:]+)/gu)) {
+        const start = match.index! + match[1].length;
+        facets.push({
+            index: { byteStart: byteOffset(start), byteEnd: byteOffset(start + 1 + match[2].length) },
+            features: [{ $type: 'app.bsky.richtext.facet#tag', tag: match[2] }],
+        });
+    }
+
+    return facets;
+};
+
+class BlueskyAPI {
+    private config: BlueskyConfig;
+
+    constructor(config: BlueskyConfig) {
+        this.config = config;
+    }
+
+    /**
+     * Truncate text to the post limit (graphemes, approximated by code points)
+     */
+    fitPostText(text: string): string {
+        const characters = Array.from(text);
+        return characters.length > MAX_POST_LENGTH
+            ? characters.slice(0, MAX_POST_LENGTH - 1).join('') + '…'
+            : text;
+    }
+
+    /**
+     * Upload an image or video to the account's PDS, to be embedded in a post
+     */
+    async uploadBlob(
+        session: BlueskySession,
+        blob: Blob,
+        onProgress?: (progress: number) => void
+    ): Promise<BlueskyBlob> {
+        const response = await sendChunk(this.getUrl(session, 'com.atproto.repo.uploadBlob'), {
+            method: 'POST',
+            headers: {
+                Authorization: `Bearer ${session.accessToken}`,
+                'Content-Type': blob.type || 'application/octet-stream',
+            },
+            body: blob,
+            onUploadProgress: (loaded) => onProgress?.(blob.size > 0 ? (loaded / blob.size) * 100 : 100),
+        });
+
+        const body = JSON.parse(response.body || '{}');
+        if (response.status < 200 || response.status >= 300) {
+            throw new Error(body.message || 'Failed to upload to Bluesky');
+        }
+
+        return body.blob;
+    }
+
+    /**
+     * Create an app.bsky.feed.post record with optional image or video embed
+     */
+    async createPost(session: BlueskySession, post: BlueskyPostInput): Promise<{ uri: string; cid: string }> {
+        const text = this.fitPostText(post.text);
+        const facets = buildFacets(text);
+
+        let embed: Record<string, unknown> | undefined;
+        if (post.video) {
+            embed = { $type: 'app.bsky.embed.video', video: post.video.blob, alt: post.video.alt };
+        } else if (post.images && post.images.length > 0) {
+            embed = {
+                $type: 'app.bsky.embed.images',
+                images: post.images.map(image => ({ image: image.blob, alt: image.alt })),
+            };
+        }
+
+        return this.request(session, 'com.atproto.repo.createRecord', {
+            repo: session.did,
+            collection: 'app.bsky.feed.post',
+            record: {
+                $type: 'app.bsky.feed.post',
+                text,
+                createdAt: new Date().toISOString(),
+                ...(facets.length > 0 && { facets }),
+                ...(embed && { embed }),
+            },
+        });
+    }
+
+    async getProfile(session: BlueskySession): Promise<BlueskyProfile> {
+        const data = await this.request<{
+            did: string;
+            handle: string;
+            displayName?: string;
+            avatar?: string;
+            followersCount?: number;
+            postsCount?: number;
+        }>(session, `app.bsky.actor.getProfile?actor=${encodeURIComponent(session.did)}`);
+
+        return {
+            did: data.did,
+            handle: data.handle,
+            displayName: data.displayName || data.handle,
+            avatar: data.avatar,
+            followersCount: data.followersCount || 0,
+            postsCount: data.postsCount || 0,
+        };
+    }
+
+    /**
+     * Engagement counts for the account's most recent posts
+     */
+    async getRecentPosts(session: BlueskySession, limit = 30): Promise<BlueskyPostCounts[]> {
+        const data = await this.request<{ feed?: Array<{ post: RawPostView }> }>(
+            session,
+            `app.bsky.feed.getAuthorFeed?actor=${encodeURIComponent(session.did)}&limit=${limit}&filter=posts_no_replies`
+        );
+
+        return (data.feed || []).map(item => this.toCounts(item.post));
+    }
+
+    /**
+     * Engagement counts for specific posts by at:// URI
+     */
+    async getPosts(session: BlueskySession, uris: string[]): Promise<BlueskyPostCounts[]> {
+        const query = uris.map(uri => `uris=${encodeURIComponent(uri)}`).join('&');
+        const data = await this.request<{ posts?: RawPostView[] }>(session, `app.bsky.feed.getPosts?${query}`);
+
+        return (data.posts || []).map(post => this.toCounts(post));
+    }
+
+    /**
+     * Web link for a post: at://did/app.bsky.feed.post/rkey -> bsky.app/profile/handle/post/rkey
+     */
+    getPostUrl(handle: string, uri: string): string {
+        return `https://bsky.app/profile/${handle}/post/${uri.split('/').pop()}`;
+    }
+
+    private getUrl(session: BlueskySession, method: string): string {
+        return `${session.serviceUrl || this.config.serviceUrl}/xrpc/${method}`;
+    }
+
+    private async request<T>(session: BlueskySession, method: string, body?: unknown): Promise<T> {
+        const response = await fetch(this.getUrl(session, method), {
+            method: body === undefined ? 'GET' : 'POST',
+            headers: {
+                Authorization: `Bearer ${session.accessToken}`,
+                ...(body !== undefined && { 'Content-Type': 'application/json' }),
+            },
+            body: body === undefined ? undefined : JSON.stringify(body),
+        });
+
+        if (!response.ok) {
+            const error = await response.json().catch(() => ({}));
+            throw new Error(error.message || error.error || `Bluesky request failed (HTTP ${response.status})`);
+        }
+
+        return response.json();
+    }
+
+    private toCounts(post: RawPostView): BlueskyPostCounts {
+        return {
+            uri: post.uri,
+            likes: post.likeCount || 0,
+            replies: post.replyCount || 0,
+            reposts: post.repostCount || 0,
+            quotes: post.quoteCount || 0,
+        };
+    }
+}
+
+export const createBlueskyAPI = (config: BlueskyConfig) => new BlueskyAPI(config);
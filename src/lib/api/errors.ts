@@ -0,0 +1,239 @@
+/**
+ * API Error Types
+ * Errors raised by the platform API clients
+ */
+
+/**
+ * Failure from an OAuth token endpoint (code exchange, refresh, long-lived exchange)
+ */
+export class OAuthTokenError extends Error {
+    status: number;
+
+    constructor(message: string, status: number) {
+        super(message);
+        this.name = 'OAuthTokenError';
+        this.status = status;
+    }
+
+    /**
+     * Client errors mean the grant itself is bad (revoked, expired, invalid);
+     * retrying will not help until the user authorizes again
+     */
+    get isPermanent(): boolean {
+        return this.status >= 400 && this.status < 500 && this.status !== 429;
+    }
+}
+
+/**
+ * Build an OAuthTokenError from a failed token endpoint response
+ */
+export async function toOAuthTokenError(response: Response, fallbackMessage: string): Promise<OAuthTokenError> {
+    const body = await response.json().catch(() => ({}));
+    const message =
+        body.error_description ||
+        body.error?.message ||
+        (typeof body.error === 'string' ? body.error : null) ||
+        fallbackMessage;
+
+    return new OAuthTokenError(message, response.status);
+}
+
+/**
+ * A call that doesn't fit the remaining daily API quota, refused before it was made
+ * or reported by the API as over quota
+ */
+export class QuotaExceededError extends Error {
+    /** When the quota refills */
+    resetsAt: Date;
+
+    constructor(message: string, resetsAt: Date) {
+        super(message);
+        this.name = 'QuotaExceededError';
+        this.resetsAt = resetsAt;
+    }
+}
+
+interface PlatformApiErrorOptions {
+    /** Service name shown to the user, e.g. 'YouTube' */
+    service: string;
+    /** HTTP status; 0 when no response arrived (network error, timeout) */
+    status: number;
+    /** Graph error code or Google error reason */
+    code?: string | number;
+    /** Milliseconds the server asked us to wait, from Retry-After */
+    retryAfter?: number;
+    /** Overrides the status-based guess at whether trying again can help */
+    transient?: boolean;
+}
+
+/**
+ * A failed platform API call, with the details the error body carried
+ */
+export class PlatformApiError extends Error {
+    service: string;
+    status: number;
+    code?: string | number;
+    retryAfter?: number;
+    /** Worth retrying as is: network errors, timeouts, 429 and 5xx */
+    isTransient: boolean;
+
+    constructor(message: string, options: PlatformApiErrorOptions) {
+        super(message);
+        this.name = 'PlatformApiError';
+        this.service = options.service;
+        this.status = options.status;
+        this.code = options.code;
+        this.retryAfter = options.retryAfter;
+        this.isTransient = options.transient ??
+            (options.status === 0 || options.status === 408 || options.status === 429 || options.status >= 500);
+    }
+}
+
+/**
+ * The access token was revoked or expired (Graph code 190, Google 401); only reconnecting helps
+ */
+export class AuthExpiredError extends PlatformApiError {
+    constructor(options: PlatformApiErrorOptions) {
+        super(`Your ${options.service} connection has expired. Please reconnect ${options.service}.`, {
+            ...options,
+            transient: false,
+        });
+        this.name = 'AuthExpiredError';
+    }
+}
+
+/**
+ * Too many calls for the app, user or page (Graph codes 4/17/32/613, Google rateLimitExceeded)
+ */
+export class RateLimitError extends PlatformApiError {
+    constructor(options: PlatformApiErrorOptions) {
+        super(`${options.service} is limiting requests right now. Please try again in a few minutes.`, options);
+        this.name = 'RateLimitError';
+    }
+}
+
+/**
+ * The platform refused the content or action on policy grounds (Graph code 368)
+ */
+export class PolicyViolationError extends PlatformApiError {
+    constructor(detail: string, options: PlatformApiErrorOptions) {
+        super(`${options.service} blocked this as a policy violation: ${detail}`, { ...options, transient: false });
+        this.name = 'PolicyViolationError';
+    }
+}
+
+/**
+ * No response within the request timeout
+ */
+export class RequestTimeoutError extends PlatformApiError {
+    constructor(service: string, timeout: number) {
+        super(`${service} did not respond within ${Math.round(timeout / 1000)} seconds`, { service, status: 0 });
+        this.name = 'RequestTimeoutError';
+    }
+}
+
+/**
+ * Turns an error response into a typed error; `errorMessage` is used when the body has no message
+ */
+export type ErrorParser = (
+    response: Response,
+    body: unknown,
+    context: { service: string; errorMessage: string }
+) => Error;
+
+/**
+ * Retry-After is either seconds or an HTTP date
+ */
+const parseRetryAfter = (response: Response): number | undefined => {
+    const header = response.headers.get('Retry-After');
+    if (!header) return undefined;
+
+    const seconds = Number(header);
+    if (!Number.isNaN(seconds)) return seconds * 1000;
+
+    const date = Date.parse(header);
+    return Number.isNaN(date) ? undefined : Math.max(date - Date.now(), 0);
+};
+
+const getErrorOptions = (response: Response, service: string, code?: string | number): PlatformApiErrorOptions => ({
+    service,
+    status: response.status,
+    code,
+    retryAfter: parseRetryAfter(response),
+});
+
+/**
+ * Errors from APIs without a richer error format: 401 means re-auth, 429 rate limiting
+ */
+export const parseHttpError: ErrorParser = (response, body, { service, errorMessage }) => {
+    const { error, message } = (body || {}) as { error?: { message?: string } | string; message?: string };
+    const options = getErrorOptions(response, service);
+
+    if (response.status === 401) return new AuthExpiredError(options);
+    if (response.status === 429) return new RateLimitError(options);
+
+    const detail = (typeof error === 'string' ? error : error?.message) || message || errorMessage;
+    return new PlatformApiError(detail, options);
+};
+
+interface GraphErrorBody {
+    error?: {
+        message?: string;
+        code?: number;
+        error_subcode?: number;
+        error_user_msg?: string;
+        is_transient?: boolean;
+    };
+}
+
+// https://developers.facebook.com/docs/graph-api/guides/error-handling
+const GRAPH_RATE_LIMIT_CODES = [4, 17, 32, 613];
+
+/**
+ * Facebook/Instagram Graph API errors, classified by `error.code`
+ */
+export const parseGraphError: ErrorParser = (response, body, { service, errorMessage }) => {
+    const error = (body as GraphErrorBody | null)?.error;
+    const options = getErrorOptions(response, service, error?.code);
+    const detail = error?.error_user_msg || error?.message || errorMessage;
+
+    if (error?.code === 190) return new AuthExpiredError(options);
+    // Graph throttles last up to an hour, so retrying soon only burns more calls
+    if (error?.code && GRAPH_RATE_LIMIT_CODES.includes(error.code)) {
+        return new RateLimitError({ ...options, transient: false });
+    }
+    if (error?.code === 368) return new PolicyViolationError(detail, options);
+
+    return new PlatformApiError(detail, { ...options, transient: error?.is_transient || undefined });
+};
+
+interface GoogleErrorBody {
+    error?: {
+        code?: number;
+        message?: string;
+        status?: string;
+        errors?: { reason?: string; message?: string }[];
+    };
+}
+
+/**
+ * Google API errors (YouTube, Gemini), classified by `error.errors[].reason`
+ */
+export const parseGoogleError: ErrorParser = (response, body, { service, errorMessage }) => {
+    const error = (body as GoogleErrorBody | null)?.error;
+    const reason = error?.errors?.[0]?.reason || error?.status;
+    const options = getErrorOptions(response, service, reason);
+    const detail = error?.message || errorMessage;
+
+    if (response.status === 401 || reason === 'authError') return new AuthExpiredError(options);
+    // Per-user and per-second limits clear quickly; back off and try again
+    if (reason === 'rateLimitExceeded' || reason === 'userRateLimitExceeded' || reason === 'RESOURCE_EXHAUSTED') {
+        return new RateLimitError({ ...options, transient: true });
+    }
+    // The daily quota only refills at midnight Pacific time
+    if (reason === 'quotaExceeded' || reason === 'dailyLimitExceeded') {
+        return new PlatformApiError(`${service} API quota is exhausted for today`, { ...options, transient: false });
+    }
+
+    return new PlatformApiError(detail, options);
+};
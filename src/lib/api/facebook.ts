@@ -1,11 +1,14 @@
 /**
  * Facebook Graph API Integration
- * Handles OAuth, video uploads, and page insights
+ * Handles video uploads, page insights and comments (OAuth runs in the oauth-exchange edge function)
  */
 
+import { parseGraphError } from './errors';
+import { requestJson } from './httpClient';
+import { delay, sendChunk, UploadInterruptedError } from './resumableUpload';
+
 export interface FacebookConfig {
     appId: string;
-    appSecret: string;
     redirectUri: string;
 }
 
@@ -25,89 +28,75 @@ export interface FacebookInsights {
     engagement: number;
 }
 
-const GRAPH_API_VERSION = 'v18.0';
-const GRAPH_API_BASE = `https://graph.facebook.com/${GRAPH_API_VERSION}`;
-
-class FacebookAPI {
-    private config: FacebookConfig;
+export interface FacebookPost {
+    id: string;
+    message?: string;
+    permalinkUrl?: string;
+    createdTime: string;
+    commentCount: number;
+}
 
-    constructor(config: FacebookConfig) {
-        this.config = config;
-    }
+export interface FacebookComment {
+    id: string;
+    message: string;
+    /** Missing when the commenter's profile isn't visible to the page */
+    from?: { id: string; name: string };
+    createdTime: string;
+    likeCount: number;
+    /** Whether the page has liked it */
+    userLikes: boolean;
+    isHidden: boolean;
+    /** Top-level comment, for replies */
+    parentId?: string;
+}
 
-    /**
-     * Initiate OAuth flow
-     */
-    initiateOAuth(): string {
-        const scope = [
-            'pages_show_list',
-            'pages_read_engagement',
-            'pages_manage_posts',
-            'pages_manage_engagement',
-            'instagram_basic',
-            'instagram_content_publish',
-        ].join(',');
+// Graph post and comment objects, as far as they're read here
+interface GraphPost {
+    id: string;
+    message?: string;
+    permalink_url?: string;
+    created_time: string;
+    comments?: { summary?: { total_count: number } };
+}
 
-        const params = new URLSearchParams({
-            client_id: this.config.appId,
-            redirect_uri: this.config.redirectUri,
-            scope,
-            response_type: 'code',
-        });
+interface GraphComment {
+    id: string;
+    message?: string;
+    from?: { id: string; name: string };
+    created_time: string;
+    like_count?: number;
+    user_likes?: boolean;
+    is_hidden?: boolean;
+    parent?: { id: string };
+}
 
-        return `https://www.facebook.com/${GRAPH_API_VERSION}/dialog/oauth?${params.toString()}`;
-    }
+interface GraphUploadResponse {
+    upload_session_id?: string;
+    video_id?: string;
+    start_offset?: string;
+    end_offset?: string;
+    success?: boolean;
+    error?: { message: string; is_transient?: boolean };
+}
 
-    /**
-     * Exchange code for access token
-     */
-    async exchangeCodeForToken(code: string): Promise<{
-        access_token: string;
-        token_type: string;
-        expires_in: number;
-    }> {
-        const params = new URLSearchParams({
-            client_id: this.config.appId,
-            client_secret: this.config.appSecret,
-            redirect_uri: this.config.redirectUri,
-            code,
-        });
+const GRAPH_API_VERSION = 'v18.0';
+const GRAPH_API_BASE = `https://graph.facebook.com/${GRAPH_API_VERSION}`;
+// Video uploads go to the dedicated video host
+const GRAPH_VIDEO_API_BASE = `https://graph-video.facebook.com/${GRAPH_API_VERSION}`;
 
-        const response = await fetch(
-            `${GRAPH_API_BASE}/oauth/access_token?${params.toString()}`
-        );
+const FACEBOOK = { service: 'Facebook', parseError: parseGraphError };
 
-        if (!response.ok) {
-            throw new Error('Failed to exchange code for token');
-        }
+const COMMENT_FIELDS = 'id,message,from,created_time,like_count,user_likes,is_hidden,parent{id}';
 
-        return response.json();
-    }
+const MAX_CHUNK_RETRIES = 5;
+const MIN_SCHEDULE_LEAD_SECONDS = 10 * 60;
+const MAX_SCHEDULE_LEAD_SECONDS = 6 * 30 * 24 * 60 * 60;
 
-    /**
-     * Get long-lived access token
-     */
-    async getLongLivedToken(shortLivedToken: string): Promise<{
-        access_token: string;
-        token_type: string;
-        expires_in: number;
-    }> {
-        const params = new URLSearchParams({
-            grant_type: 'fb_exchange_token',
-            client_id: this.config.appId,
-            client_secret: this.config.appSecret,
-            fb_exchange_token: shortLivedToken,
-        });
-
-        const response = await fetch(
-            `${GRAPH_API_BASE}/oauth/access_token?${params.toString()}`
-        );
-
-        if (!response.ok) {
-            throw new Error('Failed to get long-lived token');
-        }
+class FacebookAPI {
+    private config: FacebookConfig;
 
-        return response.json();
+    constructor(config: FacebookConfig) {
+        this.config = config;
     }
 
     /**
@@ -118,20 +107,17 @@ class FacebookAPI {
         name: string;
         access_token: string;
     }>> {
-        const response = await fetch(
-            `${GRAPH_API_BASE}/me/accounts?access_token=${accessToken}`
+        const data = await requestJson(
+            `${GRAPH_API_BASE}/me/accounts?access_token=${accessToken}`,
+            { ...FACEBOOK, errorMessage: 'Failed to fetch user pages' }
         );
-
-        if (!response.ok) {
-            throw new Error('Failed to fetch user pages');
-        }
-
-        const data = await response.json();
         return data.data || [];
     }
 
     /**
-     * Upload video to Facebook page
+     * Upload video to a page using Graph's resumable upload protocol
+     * (upload_phase=start/transfer/finish). Each chunk is retried on its own,
+     * so a dropped connection only costs the chunk in flight.
      */
     async uploadVideo(
         pageAccessToken: string,
@@ -140,34 +126,165 @@ class FacebookAPI {
         metadata: FacebookVideo,
         onProgress?: (progress: number) => void
     ): Promise<{ id: string; url: string }> {
-        const formData = new FormData();
-        formData.append('source', videoFile);
-        formData.append('title', metadata.title);
-        formData.append('description', metadata.description);
+        const fileSize = videoFile.size;
+        const reportProgress = (uploadedBytes: number) => {
+            if (onProgress) onProgress(fileSize > 0 ? (Math.min(uploadedBytes, fileSize) / fileSize) * 100 : 100);
+        };
+
+        if (metadata.scheduledPublishTime) {
+            this.validateScheduledPublishTime(metadata.scheduledPublishTime);
+        }
+
+        const uploadUrl = `${GRAPH_VIDEO_API_BASE}/${pageId}/videos`;
+
+        // Phase 1: start a session; Graph answers with the first byte range it wants
+        const session = await this.sendUploadPhase(uploadUrl, {
+            access_token: pageAccessToken,
+            upload_phase: 'start',
+            file_size: fileSize.toString(),
+        });
+
+        const uploadSessionId: string = session.upload_session_id;
+        const videoId: string = session.video_id;
+        let startOffset = parseInt(session.start_offset, 10);
+        let endOffset = parseInt(session.end_offset, 10);
+
+        reportProgress(startOffset);
+
+        // Phase 2: transfer the ranges Graph asks for until it stops asking
+        while (startOffset < endOffset) {
+            const chunk = videoFile.slice(startOffset, endOffset);
+            const chunkStart = startOffset;
+
+            const next = await this.sendUploadPhase(uploadUrl, {
+                access_token: pageAccessToken,
+                upload_phase: 'transfer',
+                upload_session_id: uploadSessionId,
+                start_offset: startOffset.toString(),
+                video_file_chunk: chunk,
+            }, (loaded) => reportProgress(chunkStart + Math.min(loaded, chunk.size)));
+
+            startOffset = parseInt(next.start_offset, 10);
+            endOffset = parseInt(next.end_offset, 10);
+            reportProgress(startOffset);
+        }
+
+        // Phase 3: finish and attach the post metadata
+        const finishFields: Record<string, string> = {
+            access_token: pageAccessToken,
+            upload_phase: 'finish',
+            upload_session_id: uploadSessionId,
+            title: metadata.title,
+            description: metadata.description,
+        };
 
         if (metadata.published !== undefined) {
-            formData.append('published', metadata.published.toString());
+            finishFields.published = metadata.published.toString();
         }
 
         if (metadata.scheduledPublishTime) {
-            formData.append('scheduled_publish_time', metadata.scheduledPublishTime.toString());
-            formData.append('published', 'false');
+            finishFields.scheduled_publish_time = metadata.scheduledPublishTime.toString();
+            finishFields.published = 'false';
         }
 
-        const response = await fetch(
-            `${GRAPH_API_BASE}/${pageId}/videos?access_token=${pageAccessToken}`,
-            {
-                method: 'POST',
-                body: formData,
-            }
-        );
+        const finished = await this.sendUploadPhase(uploadUrl, finishFields);
+        if (!finished.success) {
+            throw new Error('Facebook did not accept the uploaded video');
+        }
 
-        if (!response.ok) {
-            const error = await response.json();
-            throw new Error(error.error?.message || 'Failed to upload video');
+        reportProgress(fileSize);
+
+        return {
+            id: videoId,
+            url: `https://www.facebook.com/${videoId}`,
+        };
+    }
+
+    /**
+     * Facebook only accepts scheduled videos between 10 minutes and 6 months ahead
+     */
+    validateScheduledPublishTime(scheduledPublishTime: number): void {
+        const secondsAhead = scheduledPublishTime - Math.floor(Date.now() / 1000);
+
+        if (secondsAhead < MIN_SCHEDULE_LEAD_SECONDS || secondsAhead > MAX_SCHEDULE_LEAD_SECONDS) {
+            throw new Error('Facebook can only schedule videos between 10 minutes and 6 months ahead');
         }
+    }
+
+    /**
+     * POST one upload phase, retrying network failures and transient Graph errors
+     */
+    private async sendUploadPhase(
+        url: string,
+        fields: Record<string, string | Blob>,
+        onUploadProgress?: (loadedBytes: number) => void
+    ): Promise<GraphUploadResponse> {
+        for (let attempt = 0; ; attempt++) {
+            const formData = new FormData();
+            Object.entries(fields).forEach(([name, value]) => formData.append(name, value));
+
+            try {
+                const response = await sendChunk(url, {
+                    method: 'POST',
+                    body: formData,
+                    onUploadProgress,
+                });
+
+                let body: GraphUploadResponse = {};
+                try {
+                    body = JSON.parse(response.body);
+                } catch {
+                    // Proxies and gateways can answer with HTML; treat as an empty body
+                }
+
+                if (response.status >= 200 && response.status < 300) {
+                    return body;
+                }
+
+                const message = body.error?.message || `Failed to upload video (HTTP ${response.status})`;
+
+                // 5xx and errors Graph flags as transient are worth another try
+                if (response.status >= 500 || body.error?.is_transient) {
+                    throw new UploadInterruptedError(message);
+                }
+
+                // Typed like every other Graph call, so an expired token asks for a reconnect
+                throw parseGraphError(new Response(response.body, { status: response.status }), body, {
+                    ...FACEBOOK,
+                    errorMessage: message,
+                });
+            } catch (error) {
+                if (!(error instanceof UploadInterruptedError) || attempt >= MAX_CHUNK_RETRIES) {
+                    throw error;
+                }
+
+                await delay(Math.min(1000 * 2 ** attempt, 30000));
+            }
+        }
+    }
 
-        const result = await response.json();
+    /**
+     * Create a text/link post on a page feed
+     */
+    async createFeedPost(
+        pageAccessToken: string,
+        pageId: string,
+        message: string,
+        link?: string
+    ): Promise<{ id: string; url: string }> {
+        const result = await requestJson(`${GRAPH_API_BASE}/${pageId}/feed`, {
+            ...FACEBOOK,
+            errorMessage: 'Failed to create page post',
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({
+                message,
+                link,
+                access_token: pageAccessToken,
+            }),
+        });
 
         return {
             id: result.id,
@@ -190,15 +307,10 @@ class FacebookAPI {
             'total_video_shares',
         ].join(',');
 
-        const response = await fetch(
-            `${GRAPH_API_BASE}/${videoId}/video_insights?metric=${metrics}&access_token=${accessToken}`
+        const data = await requestJson(
+            `${GRAPH_API_BASE}/${videoId}/video_insights?metric=${metrics}&access_token=${accessToken}`,
+            { ...FACEBOOK, errorMessage: 'Failed to fetch video insights' }
         );
-
-        if (!response.ok) {
-            throw new Error('Failed to fetch video insights');
-        }
-
-        const data = await response.json();
         const insights = data.data || [];
 
         const getMetricValue = (name: string) => {
@@ -216,6 +328,104 @@ class FacebookAPI {
         };
     }
 
+    /**
+     * The page's latest posts, with how many comments each has
+     */
+    async getPagePosts(pageAccessToken: string, pageId: string, limit: number = 25): Promise<FacebookPost[]> {
+        const data = await requestJson<{ data?: GraphPost[] }>(
+            `${GRAPH_API_BASE}/${pageId}/published_posts?fields=id,message,permalink_url,created_time,comments.limit(0).summary(true)&limit=${limit}&access_token=${pageAccessToken}`,
+            { ...FACEBOOK, errorMessage: 'Failed to fetch page posts' }
+        );
+
+        return (data.data || []).map(post => ({
+            id: post.id,
+            message: post.message,
+            permalinkUrl: post.permalink_url,
+            createdTime: post.created_time,
+            commentCount: post.comments?.summary?.total_count || 0,
+        }));
+    }
+
+    /**
+     * Comments and replies on a post or video, newest first. filter=stream
+     * flattens the threads; replies name their top-level comment in `parent`.
+     */
+    async getComments(pageAccessToken: string, objectId: string, limit: number = 100): Promise<FacebookComment[]> {
+        const data = await requestJson<{ data?: GraphComment[] }>(
+            `${GRAPH_API_BASE}/${objectId}/comments?filter=stream&order=reverse_chronological&fields=${COMMENT_FIELDS}&limit=${limit}&access_token=${pageAccessToken}`,
+            { ...FACEBOOK, errorMessage: 'Failed to fetch comments' }
+        );
+
+        return (data.data || []).map(comment => ({
+            id: comment.id,
+            message: comment.message || '',
+            from: comment.from,
+            createdTime: comment.created_time,
+            likeCount: comment.like_count || 0,
+            userLikes: !!comment.user_likes,
+            isHidden: !!comment.is_hidden,
+            parentId: comment.parent?.id,
+        }));
+    }
+
+    /**
+     * Reply to a comment as the page
+     */
+    async replyToComment(pageAccessToken: string, commentId: string, message: string): Promise<{ id: string }> {
+        return requestJson(`${GRAPH_API_BASE}/${commentId}/comments`, {
+            ...FACEBOOK,
+            errorMessage: 'Failed to reply to comment',
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({
+                message,
+                access_token: pageAccessToken,
+            }),
+        });
+    }
+
+    /**
+     * Like or unlike a comment as the page
+     */
+    async setCommentLiked(pageAccessToken: string, commentId: string, liked: boolean): Promise<void> {
+        await requestJson(`${GRAPH_API_BASE}/${commentId}/likes?access_token=${pageAccessToken}`, {
+            ...FACEBOOK,
+            errorMessage: liked ? 'Failed to like comment' : 'Failed to unlike comment',
+            method: liked ? 'POST' : 'DELETE',
+        });
+    }
+
+    /**
+     * Hide a comment from everyone but its author and their friends, or show it again
+     */
+    async setCommentHidden(pageAccessToken: string, commentId: string, hidden: boolean): Promise<void> {
+        await requestJson(`${GRAPH_API_BASE}/${commentId}`, {
+            ...FACEBOOK,
+            errorMessage: hidden ? 'Failed to hide comment' : 'Failed to unhide comment',
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({
+                is_hidden: hidden,
+                access_token: pageAccessToken,
+            }),
+        });
+    }
+
+    /**
+     * Delete a comment on one of the page's posts
+     */
+    async deleteComment(pageAccessToken: string, commentId: string): Promise<void> {
+        await requestJson(`${GRAPH_API_BASE}/${commentId}?access_token=${pageAccessToken}`, {
+            ...FACEBOOK,
+            errorMessage: 'Failed to delete comment',
+            method: 'DELETE',
+        });
+    }
+
     /**
      * Get page information
      */
@@ -224,16 +434,11 @@ class FacebookAPI {
         name: string;
         picture: string;
     }> {
-        const response = await fetch(
-            `${GRAPH_API_BASE}/${pageId}?fields=id,name,picture&access_token=${accessToken}`
+        const data = await requestJson(
+            `${GRAPH_API_BASE}/${pageId}?fields=id,name,picture&access_token=${accessToken}`,
+            { ...FACEBOOK, errorMessage: 'Failed to fetch page info' }
         );
 
-        if (!response.ok) {
-            throw new Error('Failed to fetch page info');
-        }
-
-        const data = await response.json();
-
         return {
             id: data.id,
             name: data.name,
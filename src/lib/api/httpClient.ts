@@ -0,0 +1,117 @@
+/**
+ * HTTP Client
+ * Shared request layer for the API clients: timeouts, retries with backoff and typed errors
+ */
+
+import { getCurrentConfig } from '@/lib/config/musicConfig';
+import { ErrorParser, PlatformApiError, RequestTimeoutError, parseHttpError } from './errors';
+import { delay } from './resumableUpload';
+import { toSandboxUrl } from './sandbox';
+
+export interface HttpRequestOptions extends RequestInit {
+    /** Service name for error messages, e.g. 'YouTube' */
+    service: string;
+    /** Used when the error body carries no message */
+    errorMessage?: string;
+    /** Classifies error responses; defaults to status-based `parseHttpError` */
+    parseError?: ErrorParser;
+    /** Milliseconds per attempt; defaults to `performance.requestTimeout`, 0 disables */
+    timeout?: number;
+    /**
+     * Retries for transient failures. Defaults to 3 for GET and HEAD and 0 otherwise,
+     * since repeating a POST that did reach the server can publish twice.
+     */
+    retries?: number;
+}
+
+const BASE_RETRY_DELAY = 500;
+const MAX_RETRY_DELAY = 30 * 1000;
+const DEFAULT_RETRIES = 3;
+
+/**
+ * Full jitter: a random wait up to the exponential cap, so parallel callers spread out
+ */
+const getBackoff = (attempt: number): number =>
+    Math.random() * Math.min(BASE_RETRY_DELAY * 2 ** attempt, MAX_RETRY_DELAY);
+
+/**
+ * One attempt, aborted after `timeout` ms or when the caller's signal aborts
+ */
+const fetchWithTimeout = async (
+    url: string,
+    init: RequestInit,
+    service: string,
+    timeout: number
+): Promise<Response> => {
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    init.signal?.addEventListener('abort', abort);
+    const timer = timeout > 0 ? setTimeout(abort, timeout) : undefined;
+
+    try {
+        return await fetch(url, { ...init, signal: controller.signal });
+    } catch (error) {
+        if (init.signal?.aborted) throw error;
+        if (controller.signal.aborted) throw new RequestTimeoutError(service, timeout);
+        // fetch only rejects for network failures (offline, DNS, CORS)
+        throw new PlatformApiError(`Could not reach ${service}. Check your connection.`, { service, status: 0 });
+    } finally {
+        clearTimeout(timer);
+        init.signal?.removeEventListener('abort', abort);
+    }
+};
+
+/**
+ * Send a request and return the successful response; failures throw the parser's typed error.
+ * In sandbox mode platform URLs are answered by the local stand-in server.
+ */
+export async function request(url: string, options: HttpRequestOptions): Promise<Response> {
+    const {
+        service,
+        errorMessage = `${service} request failed`,
+        parseError = parseHttpError,
+        timeout = getCurrentConfig().performance.requestTimeout,
+        retries,
+        ...init
+    } = options;
+
+    const target = toSandboxUrl(url, getCurrentConfig().sandbox);
+    const method = (init.method || 'GET').toUpperCase();
+    const maxRetries = retries ?? (method === 'GET' || method === 'HEAD' ? DEFAULT_RETRIES : 0);
+
+    for (let attempt = 0; ; attempt++) {
+        let error: Error;
+
+        try {
+            const response = await fetchWithTimeout(target, init, service, timeout);
+            if (response.ok) return response;
+
+            const body = await response.json().catch(() => null);
+            error = parseError(response, body, { service, errorMessage });
+        } catch (fetchError) {
+            if (!(fetchError instanceof PlatformApiError)) throw fetchError;
+            error = fetchError;
+        }
+
+        // A server asking for a longer wait than we'd ever back off gets the error
+        // back to the caller rather than a request that hangs until then
+        if (
+            !(error instanceof PlatformApiError) ||
+            !error.isTransient ||
+            attempt >= maxRetries ||
+            (error.retryAfter ?? 0) > MAX_RETRY_DELAY
+        ) {
+            throw error;
+        }
+
+        await delay(error.retryAfter ?? getBackoff(attempt));
+    }
+}
+
+/**
+ * `request` for JSON APIs
+ */
+export async function requestJson<T = any>(url: string, options: HttpRequestOptions): Promise<T> {
+    const response = await request(url, options);
+    return response.json();
+}
@@ -1,14 +1,23 @@
 /**
  * Instagram Graph API Integration
- * Handles OAuth (via Facebook), Reels/IGTV uploads, and insights
+ * Handles Reel, image, carousel and Story publishing, insights and comments (OAuth runs via Facebook in the oauth-exchange edge function)
  */
 
+import { parseGraphError } from './errors';
+import { requestJson } from './httpClient';
+
 const GRAPH_API_VERSION = 'v18.0';
 const GRAPH_API_BASE = `https://graph.facebook.com/${GRAPH_API_VERSION}`;
 
+const INSTAGRAM = { service: 'Instagram', parseError: parseGraphError };
+
+const COMMENT_FIELDS = 'id,text,username,from,timestamp,like_count,hidden';
+
+// Carousels take 2 to 10 images and videos
+export const MAX_CAROUSEL_ITEMS = 10;
+
 export interface InstagramConfig {
     appId: string;
-    appSecret: string;
     redirectUri: string;
 }
 
@@ -20,6 +29,41 @@ export interface InstagramVideo {
     collaborators?: string[];
 }
 
+/** An image or video in a carousel or Story; URLs must be publicly accessible */
+export interface InstagramMediaItem {
+    type: 'image' | 'video';
+    url: string;
+}
+
+export interface InstagramPost {
+    caption: string;
+    locationId?: string;
+}
+
+export interface InstagramComment {
+    id: string;
+    text: string;
+    username: string;
+    userId?: string;
+    timestamp: string;
+    likeCount: number;
+    hidden: boolean;
+    /** Top-level comment, for replies */
+    parentId?: string;
+}
+
+// Graph comment objects, as far as they're read here
+interface GraphComment {
+    id: string;
+    text?: string;
+    username?: string;
+    from?: { id: string; username: string };
+    timestamp: string;
+    like_count?: number;
+    hidden?: boolean;
+    replies?: { data: GraphComment[] };
+}
+
 export interface InstagramInsights {
     views: number;
     likes: number;
@@ -27,6 +71,7 @@ export interface InstagramInsights {
     shares: number;
     saves: number;
     reach: number;
+    impressions?: number;
     engagement: number;
 }
 
@@ -44,16 +89,11 @@ class InstagramAPI {
         pageAccessToken: string,
         pageId: string
     ): Promise<string> {
-        const response = await fetch(
-            `${GRAPH_API_BASE}/${pageId}?fields=instagram_business_account&access_token=${pageAccessToken}`
+        const data = await requestJson(
+            `${GRAPH_API_BASE}/${pageId}?fields=instagram_business_account&access_token=${pageAccessToken}`,
+            { ...INSTAGRAM, errorMessage: 'Failed to fetch Instagram account' }
         );
 
-        if (!response.ok) {
-            throw new Error('Failed to fetch Instagram account');
-        }
-
-        const data = await response.json();
-
         if (!data.instagram_business_account) {
             throw new Error('No Instagram Business Account linked to this page');
         }
@@ -61,6 +101,32 @@ class InstagramAPI {
         return data.instagram_business_account.id;
     }
 
+    /**
+     * Get the Instagram Business Account linked to a Facebook Page, with its profile,
+     * or null when the page has none
+     */
+    async getLinkedAccount(
+        accessToken: string,
+        pageId: string
+    ): Promise<{ id: string; username: string; name?: string; profilePictureUrl?: string } | null> {
+        const data = await requestJson(
+            `${GRAPH_API_BASE}/${pageId}?fields=instagram_business_account{id,username,name,profile_picture_url}&access_token=${accessToken}`,
+            { ...INSTAGRAM, errorMessage: 'Failed to fetch Instagram account' }
+        );
+        const account = data.instagram_business_account;
+
+        if (!account) {
+            return null;
+        }
+
+        return {
+            id: account.id,
+            username: account.username,
+            name: account.name,
+            profilePictureUrl: account.profile_picture_url,
+        };
+    }
+
     /**
      * Upload Reel to Instagram
      * Note: Instagram requires a two-step process
@@ -73,48 +139,159 @@ class InstagramAPI {
         onProgress?: (progress: number) => void
     ): Promise<{ id: string; url: string }> {
         // Step 1: Create media container
-        const containerParams = new URLSearchParams({
+        const containerParams: Record<string, string> = {
             media_type: 'REELS',
             video_url: videoUrl,
             caption: metadata.caption,
             share_to_feed: metadata.shareToFeed ? 'true' : 'false',
-            access_token: accessToken,
-        });
+        };
 
         if (metadata.coverUrl) {
-            containerParams.append('cover_url', metadata.coverUrl);
+            containerParams.cover_url = metadata.coverUrl;
         }
 
         if (metadata.locationId) {
-            containerParams.append('location_id', metadata.locationId);
+            containerParams.location_id = metadata.locationId;
         }
 
-        const containerResponse = await fetch(
+        const containerId = await this.createContainer(accessToken, instagramAccountId, containerParams);
+
+        // Step 2: Wait for video processing (poll status)
+        await this.waitForVideoProcessing(accessToken, containerId, onProgress);
+
+        // Step 3: Publish the media
+        const mediaId = await this.publishContainer(accessToken, instagramAccountId, containerId);
+
+        return {
+            id: mediaId,
+            url: `https://www.instagram.com/reel/${mediaId}`,
+        };
+    }
+
+    /**
+     * Publish a single image to the feed
+     */
+    async publishImage(
+        accessToken: string,
+        instagramAccountId: string,
+        imageUrl: string, // Must be a publicly accessible JPEG
+        metadata: InstagramPost,
+        onProgress?: (progress: number) => void
+    ): Promise<{ id: string; url: string }> {
+        const containerId = await this.createContainer(accessToken, instagramAccountId, {
+            image_url: imageUrl,
+            caption: metadata.caption,
+            ...(metadata.locationId && { location_id: metadata.locationId }),
+        });
+
+        await this.waitForVideoProcessing(accessToken, containerId, onProgress);
+
+        return this.publishAndGetPermalink(accessToken, instagramAccountId, containerId);
+    }
+
+    /**
+     * Publish a carousel of images and videos; each item gets its own child container
+     */
+    async publishCarousel(
+        accessToken: string,
+        instagramAccountId: string,
+        items: InstagramMediaItem[],
+        metadata: InstagramPost,
+        onProgress?: (progress: number) => void
+    ): Promise<{ id: string; url: string }> {
+        if (items.length < 2 || items.length > MAX_CAROUSEL_ITEMS) {
+            throw new Error(`Carousels need between 2 and ${MAX_CAROUSEL_ITEMS} images or videos`);
+        }
+
+        // Step 1: One child container per item, each processed before the carousel can be built
+        const childIds: string[] = [];
+        for (const [index, item] of items.entries()) {
+            const childId = await this.createContainer(accessToken, instagramAccountId, {
+                is_carousel_item: 'true',
+                ...(item.type === 'video'
+                    ? { media_type: 'VIDEO', video_url: item.url }
+                    : { image_url: item.url }),
+            });
+
+            // Children take 90% of the progress bar, split evenly
+            await this.waitForVideoProcessing(accessToken, childId, (progress) => {
+                onProgress?.(((index + progress / 100) / items.length) * 90);
+            });
+
+            childIds.push(childId);
+        }
+
+        // Step 2: The carousel container holds the caption
+        const containerId = await this.createContainer(accessToken, instagramAccountId, {
+            media_type: 'CAROUSEL',
+            children: childIds.join(','),
+            caption: metadata.caption,
+            ...(metadata.locationId && { location_id: metadata.locationId }),
+        });
+
+        await this.waitForVideoProcessing(accessToken, containerId, (progress) => {
+            onProgress?.(90 + progress / 10);
+        });
+
+        // Step 3: Publish the carousel
+        return this.publishAndGetPermalink(accessToken, instagramAccountId, containerId);
+    }
+
+    /**
+     * Publish an image or video Story (Stories take no caption)
+     */
+    async publishStory(
+        accessToken: string,
+        instagramAccountId: string,
+        item: InstagramMediaItem,
+        onProgress?: (progress: number) => void
+    ): Promise<{ id: string; url: string }> {
+        const containerId = await this.createContainer(accessToken, instagramAccountId, {
+            media_type: 'STORIES',
+            ...(item.type === 'video' ? { video_url: item.url } : { image_url: item.url }),
+        });
+
+        await this.waitForVideoProcessing(accessToken, containerId, onProgress);
+
+        return this.publishAndGetPermalink(accessToken, instagramAccountId, containerId);
+    }
+
+    /**
+     * Create a media container and return its id
+     */
+    private async createContainer(
+        accessToken: string,
+        instagramAccountId: string,
+        params: Record<string, string>
+    ): Promise<string> {
+        const data = await requestJson(
             `${GRAPH_API_BASE}/${instagramAccountId}/media`,
             {
+                ...INSTAGRAM,
+                errorMessage: 'Failed to create media container',
                 method: 'POST',
                 headers: {
                     'Content-Type': 'application/x-www-form-urlencoded',
                 },
-                body: containerParams.toString(),
+                body: new URLSearchParams({ ...params, access_token: accessToken }).toString(),
             }
         );
+        return data.id;
+    }
 
-        if (!containerResponse.ok) {
-            const error = await containerResponse.json();
-            throw new Error(error.error?.message || 'Failed to create media container');
-        }
-
-        const containerData = await containerResponse.json();
-        const containerId = containerData.id;
-
-        // Step 2: Wait for video processing (poll status)
-        await this.waitForVideoProcessing(accessToken, containerId, onProgress);
-
-        // Step 3: Publish the media
-        const publishResponse = await fetch(
+    /**
+     * Publish a finished container and return the media id
+     */
+    private async publishContainer(
+        accessToken: string,
+        instagramAccountId: string,
+        containerId: string
+    ): Promise<string> {
+        const data = await requestJson(
             `${GRAPH_API_BASE}/${instagramAccountId}/media_publish`,
             {
+                ...INSTAGRAM,
+                errorMessage: 'Failed to publish media',
                 method: 'POST',
                 headers: {
                     'Content-Type': 'application/x-www-form-urlencoded',
@@ -125,22 +302,33 @@ class InstagramAPI {
                 }).toString(),
             }
         );
+        return data.id;
+    }
 
-        if (!publishResponse.ok) {
-            const error = await publishResponse.json();
-            throw new Error(error.error?.message || 'Failed to publish media');
-        }
+    /**
+     * Publish a container and look up the post's link, which for posts and Stories isn't derivable from the id
+     */
+    private async publishAndGetPermalink(
+        accessToken: string,
+        instagramAccountId: string,
+        containerId: string
+    ): Promise<{ id: string; url: string }> {
+        const mediaId = await this.publishContainer(accessToken, instagramAccountId, containerId);
 
-        const publishData = await publishResponse.json();
+        // The post is already live; without the permalink it still links to Instagram
+        const data = await requestJson(
+            `${GRAPH_API_BASE}/${mediaId}?fields=permalink&access_token=${accessToken}`,
+            { ...INSTAGRAM, errorMessage: 'Failed to fetch permalink' }
+        ).catch(() => ({}));
 
         return {
-            id: publishData.id,
-            url: `https://www.instagram.com/reel/${publishData.id}`,
+            id: mediaId,
+            url: data.permalink || 'https://www.instagram.com/',
         };
     }
 
     /**
-     * Wait for video processing to complete
+     * Wait for a container to finish processing; image containers are usually ready at once
      */
     private async waitForVideoProcessing(
         accessToken: string,
@@ -149,15 +337,10 @@ class InstagramAPI {
         maxAttempts: number = 30
     ): Promise<void> {
         for (let attempt = 0; attempt < maxAttempts; attempt++) {
-            const response = await fetch(
-                `${GRAPH_API_BASE}/${containerId}?fields=status_code&access_token=${accessToken}`
+            const data = await requestJson(
+                `${GRAPH_API_BASE}/${containerId}?fields=status_code&access_token=${accessToken}`,
+                { ...INSTAGRAM, errorMessage: 'Failed to check media status' }
             );
-
-            if (!response.ok) {
-                throw new Error('Failed to check video status');
-            }
-
-            const data = await response.json();
             const status = data.status_code;
 
             if (status === 'FINISHED') {
@@ -166,7 +349,7 @@ class InstagramAPI {
             }
 
             if (status === 'ERROR') {
-                throw new Error('Video processing failed');
+                throw new Error('Media processing failed');
             }
 
             // Update progress
@@ -179,7 +362,7 @@ class InstagramAPI {
             await new Promise(resolve => setTimeout(resolve, 2000));
         }
 
-        throw new Error('Video processing timeout');
+        throw new Error('Media processing timeout');
     }
 
     /**
@@ -199,15 +382,10 @@ class InstagramAPI {
             'total_interactions',
         ].join(',');
 
-        const response = await fetch(
-            `${GRAPH_API_BASE}/${mediaId}/insights?metric=${metrics}&access_token=${accessToken}`
+        const data = await requestJson(
+            `${GRAPH_API_BASE}/${mediaId}/insights?metric=${metrics}&access_token=${accessToken}`,
+            { ...INSTAGRAM, errorMessage: 'Failed to fetch reel insights' }
         );
-
-        if (!response.ok) {
-            throw new Error('Failed to fetch reel insights');
-        }
-
-        const data = await response.json();
         const insights = data.data || [];
 
         const getMetricValue = (name: string) => {
@@ -226,6 +404,50 @@ class InstagramAPI {
         };
     }
 
+    /**
+     * Get insights for any published media; the metrics available depend on whether it is a Reel, Story or feed post
+     */
+    async getMediaInsights(
+        accessToken: string,
+        mediaId: string
+    ): Promise<InstagramInsights> {
+        const { media_product_type: productType } = await requestJson(
+            `${GRAPH_API_BASE}/${mediaId}?fields=media_product_type&access_token=${accessToken}`,
+            { ...INSTAGRAM, errorMessage: 'Failed to fetch media' }
+        );
+
+        if (productType === 'REELS') {
+            return this.getReelInsights(accessToken, mediaId);
+        }
+
+        const metrics = productType === 'STORY'
+            ? ['impressions', 'reach', 'replies', 'shares']
+            : ['impressions', 'reach', 'likes', 'comments', 'shares', 'saved', 'total_interactions'];
+
+        const data = await requestJson(
+            `${GRAPH_API_BASE}/${mediaId}/insights?metric=${metrics.join(',')}&access_token=${accessToken}`,
+            { ...INSTAGRAM, errorMessage: 'Failed to fetch media insights' }
+        );
+        const insights: Array<{ name: string; values?: Array<{ value: number }> }> = data.data || [];
+
+        const getMetricValue = (name: string) => {
+            const metric = insights.find(m => m.name === name);
+            return metric?.values?.[0]?.value || 0;
+        };
+
+        return {
+            views: getMetricValue('impressions'),
+            likes: getMetricValue('likes'),
+            // Story replies are private messages, the closest thing Stories have to comments
+            comments: getMetricValue(productType === 'STORY' ? 'replies' : 'comments'),
+            shares: getMetricValue('shares'),
+            saves: getMetricValue('saved'),
+            reach: getMetricValue('reach'),
+            impressions: getMetricValue('impressions'),
+            engagement: getMetricValue('total_interactions'),
+        };
+    }
+
     /**
      * Get Instagram account information
      */
@@ -238,16 +460,11 @@ class InstagramAPI {
         name: string;
         profilePictureUrl: string;
     }> {
-        const response = await fetch(
-            `${GRAPH_API_BASE}/${instagramAccountId}?fields=id,username,name,profile_picture_url&access_token=${accessToken}`
+        const data = await requestJson(
+            `${GRAPH_API_BASE}/${instagramAccountId}?fields=id,username,name,profile_picture_url&access_token=${accessToken}`,
+            { ...INSTAGRAM, errorMessage: 'Failed to fetch account info' }
         );
 
-        if (!response.ok) {
-            throw new Error('Failed to fetch account info');
-        }
-
-        const data = await response.json();
-
         return {
             id: data.id,
             username: data.username,
@@ -270,17 +487,97 @@ class InstagramAPI {
         permalink: string;
         caption: string;
         timestamp: string;
+        commentsCount: number;
     }>> {
-        const response = await fetch(
-            `${GRAPH_API_BASE}/${instagramAccountId}/media?fields=id,media_type,media_url,permalink,caption,timestamp&limit=${limit}&access_token=${accessToken}`
+        const data = await requestJson<{ data?: Array<{
+            id: string;
+            media_type: string;
+            media_url: string;
+            permalink: string;
+            caption: string;
+            timestamp: string;
+            comments_count?: number;
+        }> }>(
+            `${GRAPH_API_BASE}/${instagramAccountId}/media?fields=id,media_type,media_url,permalink,caption,timestamp,comments_count&limit=${limit}&access_token=${accessToken}`,
+            { ...INSTAGRAM, errorMessage: 'Failed to fetch user media' }
         );
 
-        if (!response.ok) {
-            throw new Error('Failed to fetch user media');
-        }
+        return (data.data || []).map(media => ({
+            id: media.id,
+            mediaType: media.media_type,
+            mediaUrl: media.media_url,
+            permalink: media.permalink,
+            caption: media.caption,
+            timestamp: media.timestamp,
+            commentsCount: media.comments_count || 0,
+        }));
+    }
 
-        const data = await response.json();
-        return data.data || [];
+    /**
+     * Comments on a post, newest first, each followed by its replies
+     */
+    async getMediaComments(accessToken: string, mediaId: string, limit: number = 50): Promise<InstagramComment[]> {
+        const data = await requestJson<{ data?: GraphComment[] }>(
+            `${GRAPH_API_BASE}/${mediaId}/comments?fields=${COMMENT_FIELDS},replies{${COMMENT_FIELDS}}&limit=${limit}&access_token=${accessToken}`,
+            { ...INSTAGRAM, errorMessage: 'Failed to fetch comments' }
+        );
+
+        const toComment = (comment: GraphComment, parentId?: string): InstagramComment => ({
+            id: comment.id,
+            text: comment.text || '',
+            username: comment.username || comment.from?.username || '',
+            userId: comment.from?.id,
+            timestamp: comment.timestamp,
+            likeCount: comment.like_count || 0,
+            hidden: !!comment.hidden,
+            parentId,
+        });
+
+        return (data.data || []).flatMap(comment => [
+            toComment(comment),
+            ...(comment.replies?.data || []).map(reply => toComment(reply, comment.id)),
+        ]);
+    }
+
+    /**
+     * Reply to a top-level comment as the account
+     */
+    async replyToComment(accessToken: string, commentId: string, message: string): Promise<{ id: string }> {
+        return requestJson(`${GRAPH_API_BASE}/${commentId}/replies`, {
+            ...INSTAGRAM,
+            errorMessage: 'Failed to reply to comment',
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/x-www-form-urlencoded',
+            },
+            body: new URLSearchParams({ message, access_token: accessToken }).toString(),
+        });
+    }
+
+    /**
+     * Hide a comment from everyone but its author, or show it again
+     */
+    async setCommentHidden(accessToken: string, commentId: string, hidden: boolean): Promise<void> {
+        await requestJson(`${GRAPH_API_BASE}/${commentId}`, {
+            ...INSTAGRAM,
+            errorMessage: hidden ? 'Failed to hide comment' : 'Failed to unhide comment',
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/x-www-form-urlencoded',
+            },
+            body: new URLSearchParams({ hide: String(hidden), access_token: accessToken }).toString(),
+        });
+    }
+
+    /**
+     * Delete a comment on one of the account's posts
+     */
+    async deleteComment(accessToken: string, commentId: string): Promise<void> {
+        await requestJson(`${GRAPH_API_BASE}/${commentId}?access_token=${accessToken}`, {
+            ...INSTAGRAM,
+            errorMessage: 'Failed to delete comment',
+            method: 'DELETE',
+        });
     }
 }
 
@@ -0,0 +1,378 @@
+/**
+ * LinkedIn Marketing API Integration
+ * Handles video/image asset uploads, member and organization posts, and share statistics
+ * (OAuth runs in the oauth-exchange edge function)
+ */
+
+import { delay, sendChunk, UploadInterruptedError } from './resumableUpload';
+
+const LINKEDIN_API_BASE = 'https://api.linkedin.com';
+const LINKEDIN_VERSION = '202401';
+const MAX_PART_RETRIES = 5;
+
+// Videos are processed after finalizeUpload and can't be posted until AVAILABLE
+const VIDEO_POLL_INTERVAL_MS = 5000;
+const VIDEO_POLL_ATTEMPTS = 60; // 5 minutes
+
+export interface LinkedInConfig {
+    clientId: string;
+    redirectUri: string;
+}
+
+export interface LinkedInPost {
+    /** Post text; LinkedIn calls it commentary */
+    commentary: string;
+    /** Asset URN from uploadVideo / uploadImage */
+    mediaUrn?: string;
+    mediaTitle?: string;
+    visibility?: 'PUBLIC' | 'CONNECTIONS';
+}
+
+export interface LinkedInMember {
+    urn: string;
+    name: string;
+    pictureUrl?: string;
+}
+
+export interface LinkedInOrganization {
+    urn: string;
+    name: string;
+    vanityName?: string;
+}
+
+export interface LinkedInShareStatistics {
+    impressions: number;
+    uniqueImpressions: number;
+    clicks: number;
+    likes: number;
+    comments: number;
+    shares: number;
+    /** (clicks + likes + comments + shares) / impressions */
+    engagement: number;
+}
+
+interface RawShareStatistics {
+    impressionCount?: number;
+    uniqueImpressionsCount?: number;
+    clickCount?: number;
+    likeCount?: number;
+    commentCount?: number;
+    shareCount?: number;
+    engagement?: number;
+}
+
+class LinkedInAPI {
+    private config: LinkedInConfig;
+
+    constructor(config: LinkedInConfig) {
+        this.config = config;
+    }
+
+    /**
+     * The authorized member, from the OpenID userinfo endpoint
+     */
+    async getMember(accessToken: string): Promise<LinkedInMember> {
+        const data = await this.request<{ sub: string; name: string; picture?: string }>(
+            accessToken,
+            '/v2/userinfo'
+        );
+
+        return {
+            urn: `urn:li:person:${data.sub}`,
+            name: data.name,
+            pictureUrl: data.picture,
+        };
+    }
+
+    /**
+     * Organizations (company pages) the member administers
+     */
+    async getAdministeredOrganizations(accessToken: string): Promise<LinkedInOrganization[]> {
+        const acls = await this.request<{ elements?: Array<{ organization: string }> }>(
+            accessToken,
+            '/rest/organizationAcls?q=roleAssignee&role=ADMINISTRATOR&state=APPROVED'
+        );
+
+        const organizations: LinkedInOrganization[] = [];
+        for (const { organization } of acls.elements || []) {
+            try {
+                const data = await this.request<{ localizedName: string; vanityName?: string }>(
+                    accessToken,
+                    `/rest/organizations/${organization.split(':').pop()}`
+                );
+                organizations.push({ urn: organization, name: data.localizedName, vanityName: data.vanityName });
+            } catch (error) {
+                // Organization lookup failed, try next
+                continue;
+            }
+        }
+
+        return organizations;
+    }
+
+    /**
+     * Upload a video owned by a member or organization; resolves once LinkedIn has processed it
+     */
+    async uploadVideo(
+        accessToken: string,
+        ownerUrn: string,
+        videoFile: File,
+        onProgress?: (progress: number) => void
+    ): Promise<string> {
+        const fileSize = videoFile.size;
+        const reportProgress = (uploadedBytes: number) => {
+            if (onProgress) onProgress(fileSize > 0 ? (Math.min(uploadedBytes, fileSize) / fileSize) * 100 : 100);
+        };
+
+        // Step 1: register the upload; LinkedIn splits it into parts with their own URLs
+        const { value } = await this.request<{
+            value: {
+                video: string;
+                uploadToken: string;
+                uploadInstructions: Array<{ uploadUrl: string; firstByte: number; lastByte: number }>;
+            };
+        }>(accessToken, '/rest/videos?action=initializeUpload', {
+            initializeUploadRequest: {
+                owner: ownerUrn,
+                fileSizeBytes: fileSize,
+                uploadCaptions: false,
+                uploadThumbnail: false,
+            },
+        });
+
+        // Step 2: upload each part; finalize needs the ETag of every part
+        const uploadedPartIds: string[] = [];
+        for (const instruction of value.uploadInstructions) {
+            const part = videoFile.slice(instruction.firstByte, instruction.lastByte + 1);
+            const etag = await this.uploadPart(
+                instruction.uploadUrl,
+                part,
+                (loaded) => reportProgress(instruction.firstByte + Math.min(loaded, part.size))
+            );
+            uploadedPartIds.push(etag);
+            reportProgress(instruction.lastByte + 1);
+        }
+
+        // Step 3: finalize and wait for processing
+        await this.request(accessToken, '/rest/videos?action=finalizeUpload', {
+            finalizeUploadRequest: {
+                video: value.video,
+                uploadToken: value.uploadToken,
+                uploadedPartIds,
+            },
+        });
+
+        await this.waitForVideo(accessToken, value.video);
+        reportProgress(fileSize);
+
+        return value.video;
+    }
+
+    /**
+     * Upload an image owned by a member or organization
+     */
+    async uploadImage(accessToken: string, ownerUrn: string, imageFile: File): Promise<string> {
+        const { value } = await this.request<{ value: { uploadUrl: string; image: string } }>(
+            accessToken,
+            '/rest/images?action=initializeUpload',
+            { initializeUploadRequest: { owner: ownerUrn } }
+        );
+
+        await this.uploadPart(value.uploadUrl, imageFile);
+        return value.image;
+    }
+
+    /**
+     * Create a post as a member or organization
+     */
+    async createPost(accessToken: string, authorUrn: string, post: LinkedInPost): Promise<{ id: string; url: string }> {
+        const response = await fetch(`${LINKEDIN_API_BASE}/rest/posts`, {
+            method: 'POST',
+            headers: {
+                ...this.getHeaders(accessToken),
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({
+                author: authorUrn,
+                commentary: post.commentary,
+                visibility: post.visibility || 'PUBLIC',
+                distribution: {
+                    feedDistribution: 'MAIN_FEED',
+                    targetEntities: [],
+                    thirdPartyDistributionChannels: [],
+                },
+                ...(post.mediaUrn && {
+                    content: { media: { id: post.mediaUrn, title: post.mediaTitle } },
+                }),
+                lifecycleState: 'PUBLISHED',
+                isReshareDisabledByAuthor: false,
+            }),
+        });
+
+        if (!response.ok) {
+            const error = await response.json().catch(() => ({}));
+            throw new Error(error.message || 'Failed to create LinkedIn post');
+        }
+
+        // The new post's URN comes back in a header, not the body
+        const id = response.headers.get('x-restli-id') || '';
+
+        return {
+            id,
+            url: `https://www.linkedin.com/feed/update/${id}`,
+        };
+    }
+
+    /**
+     * Author of a post, to tell organization posts from member posts
+     */
+    async getPostAuthor(accessToken: string, postUrn: string): Promise<string> {
+        const data = await this.request<{ author: string }>(
+            accessToken,
+            `/rest/posts/${encodeURIComponent(postUrn)}`
+        );
+        return data.author;
+    }
+
+    /**
+     * Lifetime share statistics for an organization, or for specific posts of it
+     */
+    async getShareStatistics(
+        accessToken: string,
+        organizationUrn: string,
+        postUrns: string[] = []
+    ): Promise<LinkedInShareStatistics> {
+        let path = `/rest/organizationalEntityShareStatistics?q=organizationalEntity&organizationalEntity=${encodeURIComponent(organizationUrn)}`;
+
+        // Shares and ugcPosts are filtered by separate parameters
+        const shares = postUrns.filter(urn => urn.startsWith('urn:li:share:'));
+        const ugcPosts = postUrns.filter(urn => urn.startsWith('urn:li:ugcPost:'));
+        if (shares.length > 0) path += `&shares=List(${shares.map(encodeURIComponent).join(',')})`;
+        if (ugcPosts.length > 0) path += `&ugcPosts=List(${ugcPosts.map(encodeURIComponent).join(',')})`;
+
+        const data = await this.request<{ elements?: Array<{ totalShareStatistics?: RawShareStatistics }> }>(
+            accessToken,
+            path
+        );
+        const stats = data.elements?.[0]?.totalShareStatistics || {};
+
+        return {
+            impressions: stats.impressionCount || 0,
+            uniqueImpressions: stats.uniqueImpressionsCount || 0,
+            clicks: stats.clickCount || 0,
+            likes: stats.likeCount || 0,
+            comments: stats.commentCount || 0,
+            shares: stats.shareCount || 0,
+            engagement: stats.engagement || 0,
+        };
+    }
+
+    /**
+     * Number of members following an organization
+     */
+    async getFollowerCount(accessToken: string, organizationUrn: string): Promise<number> {
+        const data = await this.request<{ firstDegreeSize?: number }>(
+            accessToken,
+            `/rest/networkSizes/${encodeURIComponent(organizationUrn)}?edgeType=COMPANY_FOLLOWED_BY_MEMBER`
+        );
+        return data.firstDegreeSize || 0;
+    }
+
+    /**
+     * Number of posts an organization has published
+     */
+    async getPostCount(accessToken: string, organizationUrn: string): Promise<number> {
+        const data = await this.request<{ paging?: { total?: number } }>(
+            accessToken,
+            `/rest/posts?q=author&author=${encodeURIComponent(organizationUrn)}&count=1`
+        );
+        return data.paging?.total || 0;
+    }
+
+    /**
+     * PUT one part of an asset, retrying network failures and 5xx; returns its ETag
+     */
+    private async uploadPart(
+        uploadUrl: string,
+        part: Blob,
+        onUploadProgress?: (loadedBytes: number) => void
+    ): Promise<string> {
+        for (let attempt = 0; ; attempt++) {
+            try {
+                const response = await sendChunk(uploadUrl, {
+                    method: 'PUT',
+                    headers: { 'Content-Type': 'application/octet-stream' },
+                    body: part,
+                    onUploadProgress,
+                });
+
+                if (response.status >= 200 && response.status < 300) {
+                    return response.getHeader('etag') || '';
+                }
+
+                if (response.status >= 500) {
+                    throw new UploadInterruptedError(`LinkedIn upload failed (HTTP ${response.status})`);
+                }
+
+                throw new Error(`LinkedIn rejected the upload (HTTP ${response.status})`);
+            } catch (error) {
+                if (!(error instanceof UploadInterruptedError) || attempt >= MAX_PART_RETRIES) {
+                    throw error;
+                }
+
+                await delay(Math.min(1000 * 2 ** attempt, 30000));
+            }
+        }
+    }
+
+    private async waitForVideo(accessToken: string, videoUrn: string): Promise<void> {
+        for (let attempt = 0; attempt < VIDEO_POLL_ATTEMPTS; attempt++) {
+            const { status } = await this.request<{ status: string }>(
+                accessToken,
+                `/rest/videos/${encodeURIComponent(videoUrn)}`
+            );
+
+            if (status === 'AVAILABLE') {
+                return;
+            }
+
+            if (status === 'PROCESSING_FAILED') {
+                throw new Error('LinkedIn could not process the video');
+            }
+
+            await delay(VIDEO_POLL_INTERVAL_MS);
+        }
+
+        throw new Error('LinkedIn is still processing the video; try posting again later');
+    }
+
+    private getHeaders(accessToken: string): Record<string, string> {
+        return {
+            Authorization: `Bearer ${accessToken}`,
+            'LinkedIn-Version': LINKEDIN_VERSION,
+            'X-Restli-Protocol-Version': '2.0.0',
+        };
+    }
+
+    private async request<T = unknown>(accessToken: string, path: string, body?: unknown): Promise<T> {
+        const response = await fetch(`${LINKEDIN_API_BASE}${path}`, {
+            method: body === undefined ? 'GET' : 'POST',
+            headers: {
+                ...this.getHeaders(accessToken),
+                ...(body !== undefined && { 'Content-Type': 'application/json' }),
+            },
+            body: body === undefined ? undefined : JSON.stringify(body),
+        });
+
+        if (!response.ok) {
+            const error = await response.json().catch(() => ({}));
+            throw new Error(error.message || `LinkedIn request failed (HTTP ${response.status})`);
+        }
+
+        // Action endpoints such as finalizeUpload answer with an empty body
+        const text = await response.text();
+        return (text ? JSON.parse(text) : {}) as T;
+    }
+}
+
+export const createLinkedInAPI = (config: LinkedInConfig) => new LinkedInAPI(config);
@@ -0,0 +1,231 @@
+/**
+ * Mastodon API Integration
+ * Handles media uploads, statuses and engagement counts on any Mastodon-compatible instance
+ * (OAuth, including per-instance app registration, runs in the oauth-exchange edge function)
+ */
+
+import { delay, sendChunk } from './resumableUpload';
+
+// Video and large images are processed asynchronously after upload
+const MEDIA_POLL_INTERVAL_MS = 2000;
+const MEDIA_POLL_ATTEMPTS = 90; // 3 minutes
+
+const DEFAULT_MAX_CHARACTERS = 500;
+
+export interface MastodonConfig {
+    /** Suggested instance in the connect dialog */
+    defaultInstanceUrl: string;
+}
+
+/** Instance and token to make calls with */
+export interface MastodonSession {
+    instanceUrl: string;
+    accessToken: string;
+}
+
+export interface MastodonAccount {
+    id: string;
+    username: string;
+    acct: string;
+    displayName: string;
+    avatar: string;
+    url: string;
+    followersCount: number;
+    statusesCount: number;
+}
+
+export interface MastodonStatusCounts {
+    id: string;
+    url: string;
+    replies: number;
+    reblogs: number;
+    favourites: number;
+}
+
+interface RawAccount {
+    id: string;
+    username: string;
+    acct: string;
+    display_name?: string;
+    avatar?: string;
+    url: string;
+    followers_count?: number;
+    statuses_count?: number;
+}
+
+interface RawStatus {
+    id: string;
+    url: string;
+    replies_count?: number;
+    reblogs_count?: number;
+    favourites_count?: number;
+}
+
+class MastodonAPI {
+    private config: MastodonConfig;
+
+    constructor(config: MastodonConfig) {
+        this.config = config;
+    }
+
+    get defaultInstanceUrl(): string {
+        return this.config.defaultInstanceUrl;
+    }
+
+    /**
+     * Status length limit; instances can raise it from the default 500
+     */
+    async getMaxCharacters(session: MastodonSession): Promise<number> {
+        try {
+            const data = await this.request<{ configuration?: { statuses?: { max_characters?: number } } }>(
+                session,
+                '/api/v2/instance'
+            );
+            return data.configuration?.statuses?.max_characters || DEFAULT_MAX_CHARACTERS;
+        } catch {
+            // Older and compatible servers may not implement v2/instance
+            return DEFAULT_MAX_CHARACTERS;
+        }
+    }
+
+    /**
+     * Upload an image or video with its alt text; resolves once the instance has processed it
+     */
+    async uploadMedia(
+        session: MastodonSession,
+        file: Blob,
+        description?: string,
+        onProgress?: (progress: number) => void
+    ): Promise<string> {
+        const formData = new FormData();
+        formData.append('file', file);
+        if (description) {
+            formData.append('description', description);
+        }
+
+        const response = await sendChunk(`${session.instanceUrl}/api/v2/media`, {
+            method: 'POST',
+            headers: { Authorization: `Bearer ${session.accessToken}` },
+            body: formData,
+            onUploadProgress: (loaded) => onProgress?.(file.size > 0 ? Math.min(loaded / file.size, 1) * 100 : 100),
+        });
+
+        const body = JSON.parse(response.body || '{}');
+        if (response.status !== 200 && response.status !== 202) {
+            throw new Error(body.error || 'Failed to upload media to Mastodon');
+        }
+
+        // 202 means the file is still being processed and can't be attached yet
+        if (response.status === 202) {
+            await this.waitForMedia(session, body.id);
+        }
+
+        return body.id;
+    }
+
+    /**
+     * Post a status with optional media attachments
+     */
+    async createStatus(
+        session: MastodonSession,
+        status: string,
+        mediaIds: string[] = [],
+        visibility: 'public' | 'unlisted' | 'private' = 'public'
+    ): Promise<{ id: string; url: string }> {
+        const response = await fetch(`${session.instanceUrl}/api/v1/statuses`, {
+            method: 'POST',
+            headers: {
+                Authorization: `Bearer ${session.accessToken}`,
+                'Content-Type': 'application/json',
+                // Makes a retried request return the first status instead of posting twice
+                'Idempotency-Key': crypto.randomUUID(),
+            },
+            body: JSON.stringify({ status, media_ids: mediaIds, visibility }),
+        });
+
+        if (!response.ok) {
+            const error = await response.json().catch(() => ({}));
+            throw new Error(error.error || 'Failed to post to Mastodon');
+        }
+
+        const result: RawStatus = await response.json();
+        return { id: result.id, url: result.url };
+    }
+
+    async verifyCredentials(session: MastodonSession): Promise<MastodonAccount> {
+        const account = await this.request<RawAccount>(session, '/api/v1/accounts/verify_credentials');
+
+        return {
+            id: account.id,
+            username: account.username,
+            acct: account.acct,
+            displayName: account.display_name || account.username,
+            avatar: account.avatar || '',
+            url: account.url,
+            followersCount: account.followers_count || 0,
+            statusesCount: account.statuses_count || 0,
+        };
+    }
+
+    /**
+     * Engagement counts for an account's most recent original statuses
+     */
+    async getAccountStatuses(session: MastodonSession, accountId: string, limit = 40): Promise<MastodonStatusCounts[]> {
+        const statuses = await this.request<RawStatus[]>(
+            session,
+            `/api/v1/accounts/${accountId}/statuses?limit=${limit}&exclude_reblogs=true&exclude_replies=true`
+        );
+
+        return statuses.map(status => this.toCounts(status));
+    }
+
+    async getStatus(session: MastodonSession, statusId: string): Promise<MastodonStatusCounts> {
+        return this.toCounts(await this.request<RawStatus>(session, `/api/v1/statuses/${statusId}`));
+    }
+
+    private async waitForMedia(session: MastodonSession, mediaId: string): Promise<void> {
+        for (let attempt = 0; attempt < MEDIA_POLL_ATTEMPTS; attempt++) {
+            await delay(MEDIA_POLL_INTERVAL_MS);
+
+            // 206 while processing, 200 once the media has a URL
+            const response = await fetch(`${session.instanceUrl}/api/v1/media/${mediaId}`, {
+                headers: { Authorization: `Bearer ${session.accessToken}` },
+            });
+
+            if (response.status === 200) {
+                return;
+            }
+
+            if (response.status !== 206) {
+                throw new Error('Mastodon could not process the media');
+            }
+        }
+
+        throw new Error('Mastodon is still processing the media; try posting again later');
+    }
+
+    private async request<T>(session: MastodonSession, path: string): Promise<T> {
+        const response = await fetch(`${session.instanceUrl}${path}`, {
+            headers: { Authorization: `Bearer ${session.accessToken}` },
+        });
+
+        if (!response.ok) {
+            const error = await response.json().catch(() => ({}));
+            throw new Error(error.error || `Mastodon request failed (HTTP ${response.status})`);
+        }
+
+        return response.json();
+    }
+
+    private toCounts(status: RawStatus): MastodonStatusCounts {
+        return {
+            id: status.id,
+            url: status.url,
+            replies: status.replies_count || 0,
+            reblogs: status.reblogs_count || 0,
+            favourites: status.favourites_count || 0,
+        };
+    }
+}
+
+export const createMastodonAPI = (config: MastodonConfig) => new MastodonAPI(config);
@@ -0,0 +1,105 @@
+/**
+ * Resumable Upload Helpers
+ * Chunk transfer with byte-level progress and upload sessions that survive a page reload
+ */
+
+import { getCurrentConfig } from '@/lib/config/musicConfig';
+import { toSandboxUrl } from './sandbox';
+
+const SESSION_KEY_PREFIX = 'resumableUpload:';
+
+// Providers expire idle sessions after about a week; don't try to resume older ones
+const SESSION_MAX_AGE_MS = 6 * 24 * 60 * 60 * 1000;
+
+export interface UploadSession {
+    uploadUrl: string;
+    fileSize: number;
+    createdAt: number;
+}
+
+export interface ChunkResponse {
+    status: number;
+    getHeader: (name: string) => string | null;
+    body: string;
+}
+
+/**
+ * Raised when a chunk never reached the server (offline, connection reset, timeout).
+ * The session is still valid and the upload can be resumed.
+ */
+export class UploadInterruptedError extends Error {
+    constructor(message = 'Upload interrupted') {
+        super(message);
+        this.name = 'UploadInterruptedError';
+    }
+}
+
+/**
+ * Upload sessions persisted in localStorage, keyed by a caller-chosen resume key
+ */
+export const uploadSessions = {
+    get(key: string, fileSize: number): UploadSession | null {
+        try {
+            const stored = localStorage.getItem(SESSION_KEY_PREFIX + key);
+            if (!stored) return null;
+
+            const session: UploadSession = JSON.parse(stored);
+            if (session.fileSize !== fileSize || Date.now() - session.createdAt > SESSION_MAX_AGE_MS) {
+                this.clear(key);
+                return null;
+            }
+
+            return session;
+        } catch {
+            return null;
+        }
+    },
+
+    save(key: string, session: UploadSession): void {
+        localStorage.setItem(SESSION_KEY_PREFIX + key, JSON.stringify(session));
+    },
+
+    clear(key: string): void {
+        localStorage.removeItem(SESSION_KEY_PREFIX + key);
+    },
+};
+
+/**
+ * Send one request with upload progress reporting.
+ * fetch() can't observe request body progress, so this uses XMLHttpRequest.
+ */
+export function sendChunk(
+    url: string,
+    options: {
+        method: string;
+        headers?: Record<string, string>;
+        body?: Blob | FormData | null;
+        onUploadProgress?: (loadedBytes: number) => void;
+    }
+): Promise<ChunkResponse> {
+    return new Promise((resolve, reject) => {
+        const xhr = new XMLHttpRequest();
+        xhr.open(options.method, toSandboxUrl(url, getCurrentConfig().sandbox));
+
+        Object.entries(options.headers || {}).forEach(([name, value]) => {
+            xhr.setRequestHeader(name, value);
+        });
+
+        if (options.onUploadProgress) {
+            xhr.upload.onprogress = (event) => options.onUploadProgress!(event.loaded);
+        }
+
+        xhr.onload = () => resolve({
+            status: xhr.status,
+            getHeader: (name) => xhr.getResponseHeader(name),
+            body: xhr.responseText,
+        });
+        xhr.onerror = () => reject(new UploadInterruptedError('Network error during upload'));
+        xhr.ontimeout = () => reject(new UploadInterruptedError('Upload timed out'));
+        xhr.onabort = () => reject(new UploadInterruptedError('Upload aborted'));
+
+        xhr.send(options.body ?? null);
+    });
+}
+
+export const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
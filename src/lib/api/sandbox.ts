@@ -0,0 +1,37 @@
+/**
+ * Platform Sandbox
+ * Hosts the local stand-in server emulates, and the rewrite that sends their calls to it
+ *
+ * Shared with the server in /sandbox, so this module must not import app code.
+ */
+
+/**
+ * In sandbox mode, requests to these hosts go to `<sandbox url>/<host><path>`
+ */
+export const SANDBOX_HOSTS: string[] = [
+    'accounts.google.com',
+    'oauth2.googleapis.com',
+    'www.googleapis.com',
+    'youtubeanalytics.googleapis.com',
+    'generativelanguage.googleapis.com',
+    'www.facebook.com',
+    'graph.facebook.com',
+    'graph-video.facebook.com',
+    'api.openai.com',
+];
+
+export interface SandboxSettings {
+    enabled: boolean;
+    /** Where the stand-in server is mounted, e.g. '/__sandbox' on the dev server */
+    url: string;
+}
+
+/**
+ * The sandbox equivalent of a platform URL; other URLs (storage, lyrics) pass through
+ */
+export const toSandboxUrl = (url: string, sandbox: SandboxSettings): string => {
+    if (!sandbox.enabled || !url.startsWith('https://')) return url;
+
+    const { host, pathname, search } = new URL(url);
+    return SANDBOX_HOSTS.includes(host) ? `${sandbox.url}/${host}${pathname}${search}` : url;
+};
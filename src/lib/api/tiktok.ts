@@ -0,0 +1,394 @@
+/**
+ * TikTok API v2 Integration
+ * Handles Content Posting API uploads, video lists and insights (OAuth runs in the oauth-exchange edge function)
+ */
+
+import { delay, sendChunk, UploadInterruptedError } from './resumableUpload';
+
+const TIKTOK_API_BASE = 'https://open.tiktokapis.com/v2';
+
+// TikTok takes 5-64 MB chunks; the last chunk absorbs the remainder (up to 128 MB)
+const MIN_CHUNK_SIZE = 5 * 1024 * 1024;
+const UPLOAD_CHUNK_SIZE = 10 * 1024 * 1024;
+const MAX_CHUNK_RETRIES = 5;
+
+// Publishing finishes asynchronously after the last chunk
+const STATUS_POLL_INTERVAL_MS = 5000;
+const STATUS_POLL_ATTEMPTS = 36; // 3 minutes
+
+const VIDEO_FIELDS = 'id,title,cover_image_url,share_url,create_time,view_count,like_count,comment_count,share_count';
+
+export interface TikTokConfig {
+    clientKey: string;
+    redirectUri: string;
+}
+
+export type TikTokPrivacyLevel = 'PUBLIC_TO_EVERYONE' | 'MUTUAL_FOLLOW_FRIENDS' | 'FOLLOWER_OF_CREATOR' | 'SELF_ONLY';
+
+export interface TikTokPost {
+    title: string;
+    privacyLevel?: TikTokPrivacyLevel;
+    disableComment?: boolean;
+    disableDuet?: boolean;
+    disableStitch?: boolean;
+}
+
+export interface TikTokCreatorInfo {
+    username: string;
+    nickname: string;
+    avatarUrl: string;
+    privacyLevelOptions: TikTokPrivacyLevel[];
+    commentDisabled: boolean;
+    duetDisabled: boolean;
+    stitchDisabled: boolean;
+    maxVideoPostDurationSec: number;
+}
+
+export interface TikTokUser {
+    openId: string;
+    username: string;
+    displayName: string;
+    avatarUrl: string;
+    followerCount: number;
+    likesCount: number;
+    videoCount: number;
+}
+
+export interface TikTokVideo {
+    id: string;
+    title: string;
+    coverImageUrl: string;
+    shareUrl: string;
+    createTime: number;
+    views: number;
+    likes: number;
+    comments: number;
+    shares: number;
+}
+
+export type TikTokPublishStatus =
+    | 'PROCESSING_UPLOAD'
+    | 'PROCESSING_DOWNLOAD'
+    | 'SEND_TO_USER_INBOX'
+    | 'PUBLISH_COMPLETE'
+    | 'FAILED';
+
+interface RawVideo {
+    id: string;
+    title?: string;
+    cover_image_url?: string;
+    share_url?: string;
+    create_time?: number;
+    view_count?: number;
+    like_count?: number;
+    comment_count?: number;
+    share_count?: number;
+}
+
+interface RawVideoPage {
+    videos?: RawVideo[];
+    cursor: number;
+    has_more?: boolean;
+}
+
+interface TikTokEnvelope<T> {
+    data: T;
+    error: { code: string; message: string; log_id?: string };
+}
+
+class TikTokAPI {
+    private config: TikTokConfig;
+
+    constructor(config: TikTokConfig) {
+        this.config = config;
+    }
+
+    /**
+     * Posting options the creator allows; direct posts must use one of their privacy levels
+     */
+    async getCreatorInfo(accessToken: string): Promise<TikTokCreatorInfo> {
+        const data = await this.request<{
+            creator_username: string;
+            creator_nickname: string;
+            creator_avatar_url: string;
+            privacy_level_options?: TikTokPrivacyLevel[];
+            comment_disabled?: boolean;
+            duet_disabled?: boolean;
+            stitch_disabled?: boolean;
+            max_video_post_duration_sec?: number;
+        }>(accessToken, '/post/publish/creator_info/query/', {});
+
+        return {
+            username: data.creator_username,
+            nickname: data.creator_nickname,
+            avatarUrl: data.creator_avatar_url,
+            privacyLevelOptions: data.privacy_level_options || [],
+            commentDisabled: !!data.comment_disabled,
+            duetDisabled: !!data.duet_disabled,
+            stitchDisabled: !!data.stitch_disabled,
+            maxVideoPostDurationSec: data.max_video_post_duration_sec || 0,
+        };
+    }
+
+    /**
+     * Post a video straight to the creator's profile
+     */
+    async directPost(
+        accessToken: string,
+        videoFile: File,
+        post: TikTokPost,
+        onProgress?: (progress: number) => void
+    ): Promise<{ publishId: string; status: TikTokPublishStatus; postId?: string }> {
+        const data = await this.request<{ publish_id: string; upload_url: string }>(
+            accessToken,
+            '/post/publish/video/init/',
+            {
+                post_info: {
+                    title: post.title,
+                    privacy_level: post.privacyLevel || 'SELF_ONLY',
+                    disable_comment: !!post.disableComment,
+                    disable_duet: !!post.disableDuet,
+                    disable_stitch: !!post.disableStitch,
+                },
+                source_info: this.getSourceInfo(videoFile.size),
+            }
+        );
+
+        await this.uploadChunks(data.upload_url, videoFile, onProgress);
+        return { publishId: data.publish_id, ...await this.waitForPublish(accessToken, data.publish_id) };
+    }
+
+    /**
+     * Upload a video to the creator's TikTok inbox; they add the caption and post it in the app
+     */
+    async uploadToInbox(
+        accessToken: string,
+        videoFile: File,
+        onProgress?: (progress: number) => void
+    ): Promise<{ publishId: string; status: TikTokPublishStatus; postId?: string }> {
+        const data = await this.request<{ publish_id: string; upload_url: string }>(
+            accessToken,
+            '/post/publish/inbox/video/init/',
+            { source_info: this.getSourceInfo(videoFile.size) }
+        );
+
+        await this.uploadChunks(data.upload_url, videoFile, onProgress);
+        return { publishId: data.publish_id, ...await this.waitForPublish(accessToken, data.publish_id) };
+    }
+
+    /**
+     * Current state of a post started with directPost or uploadToInbox
+     */
+    async getPublishStatus(accessToken: string, publishId: string): Promise<{
+        status: TikTokPublishStatus;
+        failReason?: string;
+        postId?: string;
+    }> {
+        const data = await this.request<{
+            status: TikTokPublishStatus;
+            fail_reason?: string;
+            publicaly_available_post_id?: Array<string | number>;
+        }>(accessToken, '/post/publish/status/fetch/', {
+            publish_id: publishId,
+        });
+
+        return {
+            status: data.status,
+            failReason: data.fail_reason,
+            // Field name is misspelled in the API
+            postId: data.publicaly_available_post_id?.[0]?.toString(),
+        };
+    }
+
+    /**
+     * Profile and counters of the authorized user
+     */
+    async getUserInfo(accessToken: string): Promise<TikTokUser> {
+        const fields = 'open_id,username,display_name,avatar_url,follower_count,likes_count,video_count';
+        const data = await this.request<{
+            user?: {
+                open_id: string;
+                username?: string;
+                display_name?: string;
+                avatar_url?: string;
+                follower_count?: number;
+                likes_count?: number;
+                video_count?: number;
+            };
+        }>(accessToken, `/user/info/?fields=${fields}`);
+        const user = data.user || { open_id: '' };
+
+        return {
+            openId: user.open_id,
+            username: user.username || '',
+            displayName: user.display_name || '',
+            avatarUrl: user.avatar_url || '',
+            followerCount: user.follower_count || 0,
+            likesCount: user.likes_count || 0,
+            videoCount: user.video_count || 0,
+        };
+    }
+
+    /**
+     * The user's public videos, newest first
+     */
+    async listVideos(accessToken: string, maxCount = 20, cursor?: number): Promise<{
+        videos: TikTokVideo[];
+        cursor: number;
+        hasMore: boolean;
+    }> {
+        const data = await this.request<RawVideoPage>(accessToken, `/video/list/?fields=${VIDEO_FIELDS}`, {
+            max_count: maxCount,
+            ...(cursor !== undefined && { cursor }),
+        });
+
+        return {
+            videos: (data.videos || []).map(video => this.toVideo(video)),
+            cursor: data.cursor,
+            hasMore: !!data.has_more,
+        };
+    }
+
+    /**
+     * Current counters for specific videos
+     */
+    async getVideoInsights(accessToken: string, videoIds: string[]): Promise<TikTokVideo[]> {
+        const data = await this.request<RawVideoPage>(accessToken, `/video/query/?fields=${VIDEO_FIELDS}`, {
+            filters: { video_ids: videoIds },
+        });
+
+        return (data.videos || []).map(video => this.toVideo(video));
+    }
+
+    /**
+     * Chunk layout for the init call
+     */
+    private getSourceInfo(videoSize: number) {
+        // Small videos go up in one piece
+        const chunkSize = videoSize < MIN_CHUNK_SIZE ? videoSize : UPLOAD_CHUNK_SIZE;
+
+        return {
+            source: 'FILE_UPLOAD',
+            video_size: videoSize,
+            chunk_size: chunkSize,
+            total_chunk_count: Math.max(1, Math.floor(videoSize / chunkSize)),
+        };
+    }
+
+    /**
+     * PUT the file to the upload URL chunk by chunk, retrying each chunk on its own
+     */
+    private async uploadChunks(
+        uploadUrl: string,
+        videoFile: File,
+        onProgress?: (progress: number) => void
+    ): Promise<void> {
+        const { video_size: fileSize, chunk_size: chunkSize, total_chunk_count: chunkCount } =
+            this.getSourceInfo(videoFile.size);
+        const reportProgress = (uploadedBytes: number) => {
+            if (onProgress) onProgress(fileSize > 0 ? (Math.min(uploadedBytes, fileSize) / fileSize) * 100 : 100);
+        };
+
+        for (let index = 0; index < chunkCount; index++) {
+            const start = index * chunkSize;
+            const end = index === chunkCount - 1 ? fileSize : start + chunkSize;
+            const chunk = videoFile.slice(start, end);
+
+            for (let attempt = 0; ; attempt++) {
+                try {
+                    const response = await sendChunk(uploadUrl, {
+                        method: 'PUT',
+                        headers: {
+                            'Content-Type': videoFile.type || 'video/mp4',
+                            'Content-Range': `bytes ${start}-${end - 1}/${fileSize}`,
+                        },
+                        body: chunk,
+                        onUploadProgress: (loaded) => reportProgress(start + Math.min(loaded, chunk.size)),
+                    });
+
+                    // 206 for each partial chunk, 201 once the whole file is in
+                    if (response.status === 201 || response.status === 206) {
+                        break;
+                    }
+
+                    if (response.status >= 500) {
+                        throw new UploadInterruptedError(`TikTok upload failed (HTTP ${response.status})`);
+                    }
+
+                    throw new Error(`TikTok rejected the upload (HTTP ${response.status})`);
+                } catch (error) {
+                    if (!(error instanceof UploadInterruptedError) || attempt >= MAX_CHUNK_RETRIES) {
+                        throw error;
+                    }
+
+                    await delay(Math.min(1000 * 2 ** attempt, 30000));
+                }
+            }
+
+            reportProgress(end);
+        }
+    }
+
+    /**
+     * Poll until TikTok has processed the upload. Gives up waiting (without failing)
+     * after a few minutes; the post still completes on TikTok's side.
+     */
+    private async waitForPublish(accessToken: string, publishId: string): Promise<{
+        status: TikTokPublishStatus;
+        postId?: string;
+    }> {
+        for (let attempt = 0; attempt < STATUS_POLL_ATTEMPTS; attempt++) {
+            const { status, failReason, postId } = await this.getPublishStatus(accessToken, publishId);
+
+            if (status === 'FAILED') {
+                throw new Error(`TikTok could not publish the video: ${failReason || 'unknown reason'}`);
+            }
+
+            if (status === 'PUBLISH_COMPLETE' || status === 'SEND_TO_USER_INBOX') {
+                return { status, postId };
+            }
+
+            await delay(STATUS_POLL_INTERVAL_MS);
+        }
+
+        return { status: 'PROCESSING_UPLOAD' };
+    }
+
+    /**
+     * Call the API and unwrap its { data, error } envelope
+     */
+    private async request<T>(accessToken: string, path: string, body?: unknown): Promise<T> {
+        const response = await fetch(`${TIKTOK_API_BASE}${path}`, {
+            method: body === undefined ? 'GET' : 'POST',
+            headers: {
+                Authorization: `Bearer ${accessToken}`,
+                ...(body !== undefined && { 'Content-Type': 'application/json; charset=UTF-8' }),
+            },
+            body: body === undefined ? undefined : JSON.stringify(body),
+        });
+
+        const result: TikTokEnvelope<T> = await response.json().catch(() => null);
+
+        if (!response.ok || !result || (result.error && result.error.code !== 'ok')) {
+            throw new Error(result?.error?.message || `TikTok request failed (HTTP ${response.status})`);
+        }
+
+        return result.data;
+    }
+
+    private toVideo(video: RawVideo): TikTokVideo {
+        return {
+            id: video.id,
+            title: video.title || '',
+            coverImageUrl: video.cover_image_url || '',
+            shareUrl: video.share_url || '',
+            createTime: video.create_time || 0,
+            views: video.view_count || 0,
+            likes: video.like_count || 0,
+            comments: video.comment_count || 0,
+            shares: video.share_count || 0,
+        };
+    }
+}
+
+export const createTikTokAPI = (config: TikTokConfig) => new TikTokAPI(config);
@@ -1,16 +1,38 @@
 /**
  * YouTube Data API v3 Integration
- * Handles OAuth, video uploads, and analytics
+ * Handles video, thumbnail and caption uploads and analytics (OAuth runs in the oauth-exchange edge function)
  */
 
 import { supabase } from '@/integrations/supabase/client';
+import { youtubeQuotaService, QuotaPriority } from '@/lib/services/youtubeQuotaService';
+import { ErrorParser, PlatformApiError, parseGoogleError } from './errors';
+import { request, requestJson } from './httpClient';
+import { delay, sendChunk, uploadSessions, UploadInterruptedError } from './resumableUpload';
 
 const YOUTUBE_API_BASE = 'https://www.googleapis.com/youtube/v3';
 const YOUTUBE_UPLOAD_API = 'https://www.googleapis.com/upload/youtube/v3';
 
+// Chunks must be a multiple of 256 KiB
+const UPLOAD_CHUNK_SIZE = 32 * 256 * 1024; // 8 MiB
+const MAX_UPLOAD_RETRIES = 5;
+
+// thumbnails.set rejects anything larger
+export const MAX_THUMBNAIL_BYTES = 2 * 1024 * 1024;
+
+/**
+ * Google errors, with quotaExceeded also closing the quota ledger for the day
+ */
+const parseYouTubeError: ErrorParser = (response, body, context) => {
+    const error = parseGoogleError(response, body, context);
+    return error instanceof PlatformApiError && error.code === 'quotaExceeded'
+        ? youtubeQuotaService.markExhausted()
+        : error;
+};
+
+const YOUTUBE = { service: 'YouTube', parseError: parseYouTubeError };
+
 export interface YouTubeConfig {
     clientId: string;
-    clientSecret: string;
     apiKey: string;
     redirectUri: string;
 }
@@ -23,6 +45,41 @@ export interface YouTubeVideo {
     categoryId?: string;
     privacyStatus: 'public' | 'private' | 'unlisted';
     thumbnailUrl?: string;
+    /** Audience declaration required by COPPA; YouTube asks in Studio when unset */
+    madeForKids?: boolean;
+    license?: YouTubeLicense;
+    embeddable?: boolean;
+    /** BCP-47 language of the title and description */
+    defaultLanguage?: string;
+    /** Translated titles and descriptions keyed by BCP-47 language */
+    localizations?: Record<string, YouTubeLocalization>;
+    /** Goes public at this time; the video is uploaded as private until then */
+    publishAt?: Date;
+}
+
+export type YouTubeLicense = 'youtube' | 'creativeCommon';
+
+export interface YouTubeLocalization {
+    title: string;
+    description: string;
+}
+
+/** A video category or playlist offered in the publish form */
+export interface YouTubeOption {
+    id: string;
+    title: string;
+}
+
+export interface YouTubeCaption {
+    language: string; // BCP-47, e.g. 'en'
+    name: string; // Shown in the player's track menu
+    content: string; // SRT or WebVTT
+}
+
+// Shape of videoCategories and playlists list items, as far as they're read here
+interface YouTubeListItem {
+    id: string;
+    snippet: { title: string; assignable?: boolean };
 }
 
 export interface YouTubeAnalytics {
@@ -36,6 +93,60 @@ export interface YouTubeAnalytics {
     audienceRetention?: any;
 }
 
+export interface YouTubeComment {
+    id: string;
+    videoId: string;
+    /** Top-level comment of the thread, for replies */
+    parentId?: string;
+    authorName: string;
+    authorChannelId?: string;
+    authorAvatarUrl?: string;
+    text: string;
+    likeCount: number;
+    publishedAt: string;
+}
+
+/** 'heldForReview' hides a comment until it's approved; 'rejected' removes it from the video */
+export type YouTubeModerationStatus = 'published' | 'heldForReview' | 'rejected';
+
+// Shape of comments and commentThreads resources, as far as they're read here
+interface YouTubeCommentResource {
+    id: string;
+    snippet: {
+        videoId?: string;
+        parentId?: string;
+        authorDisplayName: string;
+        authorProfileImageUrl?: string;
+        authorChannelId?: { value: string };
+        textOriginal: string;
+        likeCount: number;
+        publishedAt: string;
+    };
+}
+
+interface YouTubeCommentThread {
+    snippet: { videoId: string; topLevelComment: YouTubeCommentResource };
+    replies?: { comments: YouTubeCommentResource[] };
+}
+
+const toComment = ({ id, snippet }: YouTubeCommentResource, videoId: string): YouTubeComment => ({
+    id,
+    videoId: snippet.videoId || videoId,
+    parentId: snippet.parentId,
+    authorName: snippet.authorDisplayName,
+    authorChannelId: snippet.authorChannelId?.value,
+    authorAvatarUrl: snippet.authorProfileImageUrl,
+    text: snippet.textOriginal,
+    likeCount: snippet.likeCount || 0,
+    publishedAt: snippet.publishedAt,
+});
+
+// How much of a resumable upload the server holds
+interface UploadStatus {
+    offset: number | null;
+    video?: { id: string };
+}
+
 class YouTubeAPI {
     private config: YouTubeConfig;
 
@@ -44,97 +155,195 @@ class YouTubeAPI {
     }
 
     /**
-     * Initiate OAuth 2.0 flow
+     * Upload video to YouTube
+     * Sends the file in chunks over a resumable session. When a resumeKey is given the
+     * session URI is persisted, so the same upload continues after a reload or network error.
      */
-    initiateOAuth(): string {
-        const scope = [
-            'https://www.googleapis.com/auth/youtube.upload',
-            'https://www.googleapis.com/auth/youtube.readonly',
-            'https://www.googleapis.com/auth/yt-analytics.readonly',
-        ].join(' ');
+    async uploadVideo(
+        accessToken: string,
+        videoFile: File,
+        metadata: YouTubeVideo,
+        onProgress?: (progress: number) => void,
+        resumeKey?: string
+    ): Promise<{ id: string; url: string }> {
+        const fileSize = videoFile.size;
+        const sessionKey = resumeKey ? `youtube:${resumeKey}` : null;
+        const reportProgress = (uploadedBytes: number) => {
+            if (onProgress) onProgress(fileSize > 0 ? (uploadedBytes / fileSize) * 100 : 100);
+        };
 
-        const params = new URLSearchParams({
-            client_id: this.config.clientId,
-            redirect_uri: this.config.redirectUri,
-            response_type: 'code',
-            scope,
-            access_type: 'offline',
-            prompt: 'consent',
-        });
+        // Interrupted requests, status queries included, share one retry budget;
+        // the upload only gives up once the network has been down through all of it
+        let attempt = 0;
+        const backOff = async (error: unknown) => {
+            if (!(error instanceof UploadInterruptedError) || attempt >= MAX_UPLOAD_RETRIES) {
+                throw error;
+            }
 
-        return `https://accounts.google.com/o/oauth2/v2/auth?${params.toString()}`;
-    }
+            attempt++;
+            await delay(Math.min(1000 * 2 ** attempt, 30000));
+        };
 
-    /**
-     * Exchange authorization code for tokens
-     */
-    async exchangeCodeForTokens(code: string): Promise<{
-        access_token: string;
-        refresh_token: string;
-        expires_in: number;
-    }> {
-        const response = await fetch('https://oauth2.googleapis.com/token', {
-            method: 'POST',
-            headers: {
-                'Content-Type': 'application/x-www-form-urlencoded',
-            },
-            body: new URLSearchParams({
-                code,
-                client_id: this.config.clientId,
-                client_secret: this.config.clientSecret,
-                redirect_uri: this.config.redirectUri,
-                grant_type: 'authorization_code',
-            }),
-        });
+        // Step 1: Reuse a stored session or initialize a new one
+        let uploadUrl: string | null = null;
+        let offset = 0;
+
+        const storedSession = sessionKey ? uploadSessions.get(sessionKey, fileSize) : null;
+        if (storedSession) {
+            let status: UploadStatus | null = null;
+            while (!status) {
+                try {
+                    status = await this.queryUploadStatus(storedSession.uploadUrl, accessToken, fileSize);
+                } catch (error) {
+                    await backOff(error);
+                }
+            }
+
+            if (status.video) {
+                uploadSessions.clear(sessionKey!);
+                reportProgress(fileSize);
+                return this.toUploadResult(status.video);
+            }
+
+            if (status.offset !== null) {
+                uploadUrl = storedSession.uploadUrl;
+                offset = status.offset;
+            } else {
+                uploadSessions.clear(sessionKey!);
+            }
+        }
+
+        if (!uploadUrl) {
+            uploadUrl = await this.createUploadSession(accessToken, videoFile, metadata);
 
-        if (!response.ok) {
-            throw new Error('Failed to exchange code for tokens');
+            if (sessionKey) {
+                uploadSessions.save(sessionKey, { uploadUrl, fileSize, createdAt: Date.now() });
+            }
         }
 
-        return response.json();
+        reportProgress(offset);
+
+        // Step 2: Upload the file chunk by chunk
+        // Set after an interruption: ask the server how much it actually received before sending more
+        let resync = false;
+
+        while (true) {
+            try {
+                if (resync) {
+                    const status = await this.queryUploadStatus(uploadUrl, accessToken, fileSize);
+                    if (status.video) {
+                        if (sessionKey) uploadSessions.clear(sessionKey);
+                        reportProgress(fileSize);
+                        return this.toUploadResult(status.video);
+                    }
+                    if (status.offset === null) {
+                        if (sessionKey) uploadSessions.clear(sessionKey);
+                        throw new Error('YouTube upload session expired. Please publish again to restart the upload.');
+                    }
+
+                    offset = status.offset;
+                    resync = false;
+                    reportProgress(offset);
+                }
+
+                const chunkEnd = Math.min(offset + UPLOAD_CHUNK_SIZE, fileSize);
+                const response = await sendChunk(uploadUrl, {
+                    method: 'PUT',
+                    headers: {
+                        Authorization: `Bearer ${accessToken}`,
+                        'Content-Type': videoFile.type,
+                        'Content-Range': `bytes ${offset}-${chunkEnd - 1}/${fileSize}`,
+                    },
+                    body: videoFile.slice(offset, chunkEnd),
+                    onUploadProgress: (loaded) => reportProgress(offset + loaded),
+                });
+
+                if (response.status === 308) {
+                    offset = this.parseUploadedOffset(response.getHeader('Range'));
+                    attempt = 0;
+                    reportProgress(offset);
+                    continue;
+                }
+
+                if (response.status === 200 || response.status === 201) {
+                    if (sessionKey) uploadSessions.clear(sessionKey);
+                    reportProgress(fileSize);
+                    return this.toUploadResult(JSON.parse(response.body));
+                }
+
+                if (response.status === 404 || response.status === 410) {
+                    if (sessionKey) uploadSessions.clear(sessionKey);
+                    throw new Error('YouTube upload session expired. Please publish again to restart the upload.');
+                }
+
+                if (response.status < 500) {
+                    throw new Error(`Failed to upload video file (HTTP ${response.status})`);
+                }
+
+                // 5xx: fall through to resume below
+                throw new UploadInterruptedError(`YouTube upload server error (HTTP ${response.status})`);
+            } catch (error) {
+                await backOff(error);
+                resync = true;
+            }
+        }
     }
 
     /**
-     * Refresh access token
+     * Set a custom thumbnail (JPEG or PNG, up to 2 MB) on an uploaded video.
+     * Only channels with a verified phone number may use custom thumbnails.
      */
-    async refreshAccessToken(refreshToken: string): Promise<{
-        access_token: string;
-        expires_in: number;
-    }> {
-        const response = await fetch('https://oauth2.googleapis.com/token', {
-            method: 'POST',
-            headers: {
-                'Content-Type': 'application/x-www-form-urlencoded',
-            },
-            body: new URLSearchParams({
-                refresh_token: refreshToken,
-                client_id: this.config.clientId,
-                client_secret: this.config.clientSecret,
-                grant_type: 'refresh_token',
-            }),
-        });
-
-        if (!response.ok) {
-            throw new Error('Failed to refresh access token');
+    async setThumbnail(
+        accessToken: string,
+        videoId: string,
+        image: Blob
+    ): Promise<{ url: string }> {
+        if (image.size > MAX_THUMBNAIL_BYTES) {
+            throw new Error('Thumbnail must be 2 MB or smaller');
         }
 
-        return response.json();
+        await youtubeQuotaService.consume('thumbnails.set');
+        const data = await requestJson(
+            `${YOUTUBE_UPLOAD_API}/thumbnails/set?videoId=${videoId}&uploadType=media`,
+            {
+                ...YOUTUBE,
+                errorMessage: 'Failed to set thumbnail',
+                // Setting the same image twice is harmless
+                retries: 2,
+                method: 'POST',
+                headers: {
+                    Authorization: `Bearer ${accessToken}`,
+                    'Content-Type': image.type || 'image/jpeg',
+                },
+                body: image,
+            }
+        );
+        const thumbnails = data.items?.[0] || {};
+
+        return { url: (thumbnails.maxres || thumbnails.high || thumbnails.default)?.url || '' };
     }
 
     /**
-     * Upload video to YouTube
-     * Uses resumable upload protocol for large files
+     * Open a resumable upload session and return its URI
      */
-    async uploadVideo(
+    private async createUploadSession(
         accessToken: string,
         videoFile: File,
-        metadata: YouTubeVideo,
-        onProgress?: (progress: number) => void
-    ): Promise<{ id: string; url: string }> {
-        // Step 1: Initialize resumable upload
-        const initResponse = await fetch(
-            `${YOUTUBE_UPLOAD_API}/videos?uploadType=resumable&part=snippet,status`,
+        metadata: YouTubeVideo
+    ): Promise<string> {
+        // Localizations are rejected unless the snippet names a default language
+        const part = metadata.localizations && metadata.defaultLanguage
+            ? 'snippet,status,localizations'
+            : 'snippet,status';
+
+        await youtubeQuotaService.consume('videos.insert');
+        const initResponse = await request(
+            `${YOUTUBE_UPLOAD_API}/videos?uploadType=resumable&part=${part}`,
             {
+                ...YOUTUBE,
+                errorMessage: 'Failed to initialize video upload',
+                // Opening a session creates nothing until bytes arrive
+                retries: 2,
                 method: 'POST',
                 headers: {
                     Authorization: `Bearer ${accessToken}`,
@@ -148,44 +357,306 @@ class YouTubeAPI {
                         description: metadata.description,
                         tags: metadata.tags || [],
                         categoryId: metadata.categoryId || '22', // People & Blogs
+                        defaultLanguage: metadata.defaultLanguage,
                     },
                     status: {
-                        privacyStatus: metadata.privacyStatus,
+                        // publishAt only applies to private videos
+                        privacyStatus: metadata.publishAt ? 'private' : metadata.privacyStatus,
+                        publishAt: metadata.publishAt?.toISOString(),
+                        selfDeclaredMadeForKids: metadata.madeForKids,
+                        license: metadata.license,
+                        embeddable: metadata.embeddable,
                     },
+                    localizations: metadata.localizations,
                 }),
             }
         );
 
-        if (!initResponse.ok) {
-            throw new Error('Failed to initialize video upload');
-        }
-
         const uploadUrl = initResponse.headers.get('Location');
         if (!uploadUrl) {
             throw new Error('No upload URL received');
         }
 
-        // Step 2: Upload video file
-        const uploadResponse = await fetch(uploadUrl, {
+        return uploadUrl;
+    }
+
+    /**
+     * Ask the upload server how many bytes it holds.
+     * Returns the finished video if the upload already completed, or a null offset if
+     * the session no longer exists.
+     */
+    private async queryUploadStatus(
+        uploadUrl: string,
+        accessToken: string,
+        fileSize: number
+    ): Promise<UploadStatus> {
+        const response = await sendChunk(uploadUrl, {
             method: 'PUT',
             headers: {
-                'Content-Type': videoFile.type,
+                Authorization: `Bearer ${accessToken}`,
+                'Content-Range': `bytes */${fileSize}`,
             },
-            body: videoFile,
         });
 
-        if (!uploadResponse.ok) {
-            throw new Error('Failed to upload video file');
+        if (response.status === 308) {
+            return { offset: this.parseUploadedOffset(response.getHeader('Range')) };
         }
 
-        const result = await uploadResponse.json();
+        if (response.status === 200 || response.status === 201) {
+            return { offset: fileSize, video: JSON.parse(response.body) };
+        }
 
+        if (response.status === 404 || response.status === 410) {
+            return { offset: null };
+        }
+
+        throw new UploadInterruptedError(`Failed to query upload status (HTTP ${response.status})`);
+    }
+
+    /**
+     * A 308 Range header of "bytes=0-N" means N + 1 bytes were stored; no header means none
+     */
+    private parseUploadedOffset(rangeHeader: string | null): number {
+        const match = rangeHeader?.match(/bytes=0-(\d+)/);
+        return match ? parseInt(match[1], 10) + 1 : 0;
+    }
+
+    private toUploadResult(video: { id: string }): { id: string; url: string } {
         return {
-            id: result.id,
-            url: `https://www.youtube.com/watch?v=${result.id}`,
+            id: video.id,
+            url: `https://www.youtube.com/watch?v=${video.id}`,
         };
     }
 
+    /**
+     * Upload a caption track (captions.insert). Needs the youtube.force-ssl scope.
+     */
+    async insertCaption(
+        accessToken: string,
+        videoId: string,
+        caption: YouTubeCaption
+    ): Promise<{ id: string }> {
+        // Snippet and track go together in a multipart/related body
+        const boundary = `caption-${crypto.randomUUID()}`;
+        const snippet = {
+            snippet: {
+                videoId,
+                language: caption.language,
+                name: caption.name,
+                isDraft: false,
+            },
+        };
+
+        const body = [
+            `--${boundary}`,
+            'Content-Type: application/json; charset=UTF-8',
+            '',
+            JSON.stringify(snippet),
+            `--${boundary}`,
+            'Content-Type: application/octet-stream',
+            '',
+            caption.content,
+            `--${boundary}--`,
+            '',
+        ].join('\r\n');
+
+        await youtubeQuotaService.consume('captions.insert');
+        const data = await requestJson(
+            `${YOUTUBE_UPLOAD_API}/captions?part=snippet&uploadType=multipart`,
+            {
+                ...YOUTUBE,
+                errorMessage: 'Failed to upload captions',
+                method: 'POST',
+                headers: {
+                    Authorization: `Bearer ${accessToken}`,
+                    'Content-Type': `multipart/related; boundary=${boundary}`,
+                },
+                body,
+            }
+        );
+
+        return { id: data.id };
+    }
+
+    /**
+     * Categories a video can be filed under in a region (videoCategories.list)
+     */
+    async getVideoCategories(accessToken: string, regionCode = 'US'): Promise<YouTubeOption[]> {
+        await youtubeQuotaService.consume('videoCategories.list');
+        const data = await requestJson<{ items?: YouTubeListItem[] }>(
+            `${YOUTUBE_API_BASE}/videoCategories?part=snippet&regionCode=${regionCode}`,
+            {
+                ...YOUTUBE,
+                errorMessage: 'Failed to fetch video categories',
+                headers: {
+                    Authorization: `Bearer ${accessToken}`,
+                },
+            }
+        );
+        return (data.items || [])
+            .filter(item => item.snippet.assignable)
+            .map(item => ({ id: item.id, title: item.snippet.title }));
+    }
+
+    /**
+     * Playlists on the authorized channel, following every page
+     */
+    async getPlaylists(accessToken: string): Promise<YouTubeOption[]> {
+        const playlists: YouTubeOption[] = [];
+        let pageToken: string | undefined;
+
+        do {
+            const params = new URLSearchParams({ part: 'snippet', mine: 'true', maxResults: '50' });
+            if (pageToken) params.set('pageToken', pageToken);
+
+            await youtubeQuotaService.consume('playlists.list');
+
+            const data = await requestJson<{ items?: YouTubeListItem[]; nextPageToken?: string }>(
+                `${YOUTUBE_API_BASE}/playlists?${params.toString()}`,
+                {
+                    ...YOUTUBE,
+                    errorMessage: 'Failed to fetch playlists',
+                    headers: {
+                        Authorization: `Bearer ${accessToken}`,
+                    },
+                }
+            );
+            playlists.push(...(data.items || []).map(item => ({ id: item.id, title: item.snippet.title })));
+            pageToken = data.nextPageToken;
+        } while (pageToken);
+
+        return playlists;
+    }
+
+    /**
+     * Append a video to a playlist (playlistItems.insert)
+     */
+    async addToPlaylist(accessToken: string, playlistId: string, videoId: string): Promise<void> {
+        await youtubeQuotaService.consume('playlistItems.insert');
+        await request(`${YOUTUBE_API_BASE}/playlistItems?part=snippet`, {
+            ...YOUTUBE,
+            errorMessage: 'Failed to add video to playlist',
+            method: 'POST',
+            headers: {
+                Authorization: `Bearer ${accessToken}`,
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({
+                snippet: {
+                    playlistId,
+                    resourceId: { kind: 'youtube#video', videoId },
+                },
+            }),
+        });
+    }
+
+    /**
+     * Newest comment threads across the channel's videos, each with the replies YouTube
+     * includes (up to five); costs one unit per 100 threads (commentThreads.list)
+     */
+    async getChannelComments(
+        accessToken: string,
+        channelId: string,
+        maxResults = 100,
+        priority: QuotaPriority = 'low'
+    ): Promise<YouTubeComment[]> {
+        await youtubeQuotaService.consume('commentThreads.list', priority);
+
+        const params = new URLSearchParams({
+            part: 'snippet,replies',
+            allThreadsRelatedToChannelId: channelId,
+            order: 'time',
+            textFormat: 'plainText',
+            maxResults: String(Math.min(maxResults, 100)),
+        });
+
+        const data = await requestJson<{ items?: YouTubeCommentThread[] }>(
+            `${YOUTUBE_API_BASE}/commentThreads?${params.toString()}`,
+            {
+                ...YOUTUBE,
+                errorMessage: 'Failed to fetch comments',
+                headers: {
+                    Authorization: `Bearer ${accessToken}`,
+                },
+            }
+        );
+
+        return (data.items || []).flatMap(thread => {
+            const { videoId, topLevelComment } = thread.snippet;
+            return [
+                toComment(topLevelComment, videoId),
+                ...(thread.replies?.comments || []).map(reply => toComment(reply, videoId)),
+            ];
+        });
+    }
+
+    /**
+     * Titles of up to 50 videos by id (videos.list)
+     */
+    async getVideoTitles(accessToken: string, videoIds: string[], priority: QuotaPriority = 'low'): Promise<Record<string, string>> {
+        if (videoIds.length === 0) return {};
+
+        await youtubeQuotaService.consume('videos.list', priority);
+        const data = await requestJson<{ items?: YouTubeListItem[] }>(
+            `${YOUTUBE_API_BASE}/videos?part=snippet&id=${videoIds.slice(0, 50).join(',')}`,
+            {
+                ...YOUTUBE,
+                errorMessage: 'Failed to fetch video titles',
+                headers: {
+                    Authorization: `Bearer ${accessToken}`,
+                },
+            }
+        );
+
+        return Object.fromEntries((data.items || []).map(item => [item.id, item.snippet.title]));
+    }
+
+    /**
+     * Reply to a top-level comment as the channel (comments.insert)
+     */
+    async replyToComment(accessToken: string, parentId: string, text: string): Promise<YouTubeComment> {
+        await youtubeQuotaService.consume('comments.insert');
+        const data = await requestJson<YouTubeCommentResource>(
+            `${YOUTUBE_API_BASE}/comments?part=snippet`,
+            {
+                ...YOUTUBE,
+                errorMessage: 'Failed to reply to comment',
+                method: 'POST',
+                headers: {
+                    Authorization: `Bearer ${accessToken}`,
+                    'Content-Type': 'application/json',
+                },
+                body: JSON.stringify({
+                    snippet: { parentId, textOriginal: text },
+                }),
+            }
+        );
+
+        return toComment(data, '');
+    }
+
+    /**
+     * Show, hold or remove a comment on one of the channel's videos (comments.setModerationStatus)
+     */
+    async setCommentModerationStatus(
+        accessToken: string,
+        commentId: string,
+        status: YouTubeModerationStatus
+    ): Promise<void> {
+        await youtubeQuotaService.consume('comments.setModerationStatus');
+        await request(
+            `${YOUTUBE_API_BASE}/comments/setModerationStatus?id=${encodeURIComponent(commentId)}&moderationStatus=${status}`,
+            {
+                ...YOUTUBE,
+                errorMessage: 'Failed to moderate comment',
+                method: 'POST',
+                headers: {
+                    Authorization: `Bearer ${accessToken}`,
+                },
+            }
+        );
+    }
+
     /**
      * Get video analytics
      */
@@ -204,55 +675,55 @@ class YouTubeAPI {
             filters: `video==${videoId}`,
         });
 
-        const response = await fetch(
+        const data = await requestJson<{
+            columnHeaders?: { name: string }[];
+            rows?: (string | number)[][];
+        }>(
             `https://youtubeanalytics.googleapis.com/v2/reports?${params.toString()}`,
             {
+                ...YOUTUBE,
+                errorMessage: 'Failed to fetch video analytics',
                 headers: {
                     Authorization: `Bearer ${accessToken}`,
                 },
             }
         );
 
-        if (!response.ok) {
-            throw new Error('Failed to fetch video analytics');
-        }
-
-        const data = await response.json();
+        // Rows start with the `video` dimension, so read values by column name
         const row = data.rows?.[0] || [];
+        const columns = (data.columnHeaders || []).map(header => header.name);
+        const value = (name: string) => Number(row[columns.indexOf(name)]) || 0;
 
         return {
-            views: row[0] || 0,
-            likes: row[1] || 0,
-            dislikes: row[2] || 0,
-            comments: row[3] || 0,
-            shares: row[4] || 0,
-            watchTime: (row[5] || 0) * 60, // convert minutes to seconds
-            averageViewDuration: row[6] || 0,
+            views: value('views'),
+            likes: value('likes'),
+            dislikes: value('dislikes'),
+            comments: value('comments'),
+            shares: value('shares'),
+            watchTime: value('estimatedMinutesWatched') * 60, // convert minutes to seconds
+            averageViewDuration: value('averageViewDuration'),
         };
     }
 
     /**
      * Get channel information
      */
-    async getChannelInfo(accessToken: string): Promise<{
+    async getChannelInfo(accessToken: string, priority: QuotaPriority = 'high'): Promise<{
         id: string;
         title: string;
         thumbnailUrl: string;
     }> {
-        const response = await fetch(
+        await youtubeQuotaService.consume('channels.list', priority);
+        const data = await requestJson(
             `${YOUTUBE_API_BASE}/channels?part=snippet&mine=true`,
             {
+                ...YOUTUBE,
+                errorMessage: 'Failed to fetch channel info',
                 headers: {
                     Authorization: `Bearer ${accessToken}`,
                 },
             }
         );
-
-        if (!response.ok) {
-            throw new Error('Failed to fetch channel info');
-        }
-
-        const data = await response.json();
         const channel = data.items?.[0];
 
         if (!channel) {
@@ -14,7 +14,6 @@ export interface MusicPlatformConfig {
     youtube: {
         apiKey: string;
         clientId?: string;
-        clientSecret?: string;
         baseUrl: string;
         maxRequestsPerDay: number;
     };
@@ -76,6 +75,12 @@ export interface MusicPlatformConfig {
         enableCORS: boolean;
         allowedOrigins: string[];
     };
+
+    // Platform Sandbox: YouTube, Graph and AI calls go to the local stand-in server
+    sandbox: {
+        enabled: boolean;
+        url: string;
+    };
 }
 
 // =============================================================================
@@ -86,7 +91,6 @@ const defaultConfig: MusicPlatformConfig = {
     youtube: {
         apiKey: import.meta.env.VITE_YOUTUBE_API_KEY || '',
         clientId: import.meta.env.VITE_YOUTUBE_CLIENT_ID,
-        clientSecret: import.meta.env.VITE_YOUTUBE_CLIENT_SECRET,
         baseUrl: 'https://www.googleapis.com/youtube/v3',
         maxRequestsPerDay: 10000,
     },
@@ -147,6 +151,11 @@ const defaultConfig: MusicPlatformConfig = {
             'https://orbit-music.netlify.app',
         ],
     },
+
+    sandbox: {
+        enabled: import.meta.env.VITE_PLATFORM_SANDBOX === 'true',
+        url: import.meta.env.VITE_PLATFORM_SANDBOX_URL || '/__sandbox',
+    },
 };
 
 // =============================================================================
@@ -163,8 +172,8 @@ export function validateConfig(config: MusicPlatformConfig): ValidationResult {
     const errors: string[] = [];
     const warnings: string[] = [];
 
-    // Validate required YouTube API configuration
-    if (!config.youtube.apiKey) {
+    // Validate required YouTube API configuration (the sandbox accepts any key)
+    if (!config.youtube.apiKey && !config.sandbox.enabled) {
         errors.push('YouTube API key is required');
     }
 
@@ -215,7 +224,6 @@ export function createMusicServiceConfig(config: MusicPlatformConfig): MusicServ
     return {
         youtubeApiKey: config.youtube.apiKey,
         youtubeClientId: config.youtube.clientId,
-        youtubeClientSecret: config.youtube.clientSecret,
         geminiApiKey: config.ai.geminiApiKey,
         maxCacheSize: config.platform.maxCacheSize,
         enableOfflineMode: config.platform.enableOfflineMode,
@@ -278,6 +286,10 @@ export const configurations = {
                 'https://orbit-music.netlify.app',
             ],
         },
+        sandbox: {
+            ...defaultConfig.sandbox,
+            enabled: false, // Never publish to fake accounts from a production build
+        },
     },
 };
 
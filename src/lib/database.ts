@@ -0,0 +1,10 @@
+/**
+ * Database Client
+ * The Supabase client without the generated Database types, which don't describe
+ * our tables yet; callers type the rows they read with their own row interfaces
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+
+export const db = supabase as unknown as SupabaseClient;
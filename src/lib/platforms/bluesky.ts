@@ -0,0 +1,143 @@
+/**
+ * Bluesky Platform Adapter
+ * Wraps the AT Protocol client in the PlatformAdapter contract
+ */
+
+import { BlueskyConfig, BlueskyPostInput, BlueskySession, createBlueskyAPI } from '@/lib/api/bluesky';
+import { refreshConnectionToken } from './oauth';
+import { downloadMedia } from './media';
+import type { AccountAnalytics, PlatformAdapter, PlatformConnection } from './types';
+
+const MAX_IMAGES = 4;
+
+export const createBlueskyAdapter = (config: BlueskyConfig): PlatformAdapter => {
+    const blueskyAPI = createBlueskyAPI(config);
+
+    const getSession = (connection: PlatformConnection): BlueskySession => ({
+        serviceUrl: connection.instance_url || config.serviceUrl,
+        accessToken: connection.access_token,
+        did: connection.account_id || '',
+    });
+
+    return {
+        id: 'bluesky',
+        name: 'Bluesky',
+        icon: '🦋',
+        setupInstructions:
+            'Click "Connect" and sign in with your handle and an app password (Settings → Privacy and security → App passwords).',
+
+        supportsImages: true,
+
+        authMethod: 'credentials',
+        connectFields: [
+            { name: 'identifier', label: 'Handle or email', placeholder: 'you.bsky.social', required: true },
+            {
+                name: 'password',
+                label: 'App password',
+                type: 'password',
+                helpText: 'Create one under Settings → Privacy and security → App passwords. Never use your main password.',
+                required: true,
+            },
+            {
+                name: 'serviceUrl',
+                label: 'Hosting provider',
+                type: 'url',
+                placeholder: config.serviceUrl,
+                helpText: 'Only needed for accounts on a self-hosted PDS.',
+            },
+        ],
+
+        refreshToken: refreshConnectionToken,
+
+        async publish(connection, request, onProgress) {
+            const session = getSession(connection);
+
+            let text = request.description || request.title;
+            const missingTags = (request.tags || []).filter(tag => !text.includes(`#${tag}`));
+            if (missingTags.length > 0) {
+                text += '\n\n' + missingTags.map(tag => `#${tag}`).join(' ');
+            }
+
+            let post: BlueskyPostInput = { text };
+            // Bluesky can't mix media, so a video wins over photos
+            const images = (request.media || []).filter(item => item.type === 'image').slice(0, MAX_IMAGES);
+
+            if (request.videoUrl || request.videoFile) {
+                const videoFile = request.videoFile || await downloadMedia(request.videoUrl, `${request.title}.mp4`);
+                const blob = await blueskyAPI.uploadBlob(session, videoFile, onProgress);
+                post = { ...post, video: { blob, alt: request.altText || '' } };
+            } else if (images.length > 0) {
+                const uploaded = [];
+
+                for (const [index, image] of images.entries()) {
+                    const file = await downloadMedia(image.url, `image-${index + 1}`);
+                    const blob = await blueskyAPI.uploadBlob(session, file);
+                    uploaded.push({ blob, alt: image.altText || '' });
+                    if (onProgress) onProgress(((index + 1) / images.length) * 100);
+                }
+
+                post = { ...post, images: uploaded };
+            }
+
+            const { uri } = await blueskyAPI.createPost(session, post);
+            const profile = await blueskyAPI.getProfile(session);
+
+            return {
+                id: uri,
+                url: blueskyAPI.getPostUrl(profile.handle, uri),
+            };
+        },
+
+        async listAccounts(connection) {
+            // An app password session belongs to one account
+            const profile = await blueskyAPI.getProfile(getSession(connection));
+
+            return [{
+                id: profile.did,
+                name: profile.displayName,
+                username: profile.handle,
+                avatarUrl: profile.avatar,
+            }];
+        },
+
+        async getAccountAnalytics(connection) {
+            const session = getSession(connection);
+            const profile = await blueskyAPI.getProfile(session);
+            const posts = await blueskyAPI.getRecentPosts(session);
+
+            const totalEngagement = posts.reduce(
+                (sum, post) => sum + post.likes + post.replies + post.reposts + post.quotes,
+                0
+            );
+
+            const analytics: AccountAnalytics = {
+                platform: 'bluesky',
+                account_id: profile.did,
+                account_name: profile.displayName,
+                followers: profile.followersCount,
+                total_views: 0, // Bluesky doesn't count views
+                total_videos: 0,
+                total_posts: profile.postsCount,
+                average_views_per_video: 0,
+                average_engagement_rate: profile.followersCount > 0 ? (totalEngagement / profile.followersCount) * 100 : 0,
+            };
+
+            return analytics;
+        },
+
+        async getPostAnalytics(connection, postId) {
+            const [post] = await blueskyAPI.getPosts(getSession(connection), [postId]);
+
+            if (!post) {
+                throw new Error('Bluesky post not found');
+            }
+
+            return {
+                views: 0,
+                likes: post.likes,
+                comments: post.replies,
+                shares: post.reposts + post.quotes,
+            };
+        },
+    };
+};
@@ -0,0 +1,51 @@
+/**
+ * Platform Configuration
+ * Builds API client configs from environment variables
+ *
+ * Only public identifiers belong here; client secrets live in the
+ * oauth-exchange edge function.
+ */
+
+import type { YouTubeConfig } from '@/lib/api/youtube';
+import type { FacebookConfig } from '@/lib/api/facebook';
+import type { InstagramConfig } from '@/lib/api/instagram';
+import type { TikTokConfig } from '@/lib/api/tiktok';
+import type { LinkedInConfig } from '@/lib/api/linkedin';
+import type { BlueskyConfig } from '@/lib/api/bluesky';
+import type { MastodonConfig } from '@/lib/api/mastodon';
+
+export const getOAuthRedirectUri = () => `${window.location.origin}/oauth/callback`;
+
+export const getYouTubeConfig = (): YouTubeConfig => ({
+    clientId: import.meta.env.VITE_YOUTUBE_CLIENT_ID || '',
+    apiKey: import.meta.env.VITE_YOUTUBE_API_KEY || '',
+    redirectUri: getOAuthRedirectUri(),
+});
+
+export const getFacebookConfig = (): FacebookConfig => ({
+    appId: import.meta.env.VITE_FACEBOOK_APP_ID || '',
+    redirectUri: getOAuthRedirectUri(),
+});
+
+export const getInstagramConfig = (): InstagramConfig => ({
+    appId: import.meta.env.VITE_INSTAGRAM_APP_ID || import.meta.env.VITE_FACEBOOK_APP_ID || '',
+    redirectUri: getOAuthRedirectUri(),
+});
+
+export const getTikTokConfig = (): TikTokConfig => ({
+    clientKey: import.meta.env.VITE_TIKTOK_CLIENT_KEY || '',
+    redirectUri: getOAuthRedirectUri(),
+});
+
+export const getLinkedInConfig = (): LinkedInConfig => ({
+    clientId: import.meta.env.VITE_LINKEDIN_CLIENT_ID || '',
+    redirectUri: getOAuthRedirectUri(),
+});
+
+export const getBlueskyConfig = (): BlueskyConfig => ({
+    serviceUrl: import.meta.env.VITE_BLUESKY_SERVICE_URL || 'https://bsky.social',
+});
+
+export const getMastodonConfig = (): MastodonConfig => ({
+    defaultInstanceUrl: import.meta.env.VITE_MASTODON_INSTANCE_URL || '',
+});
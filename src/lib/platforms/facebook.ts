@@ -0,0 +1,221 @@
+/**
+ * Facebook Platform Adapter
+ * Wraps the Facebook Graph API client in the PlatformAdapter contract
+ */
+
+import { createFacebookAPI, FacebookConfig } from '@/lib/api/facebook';
+import { parseGraphError } from '@/lib/api/errors';
+import { requestJson } from '@/lib/api/httpClient';
+import { refreshConnectionToken } from './oauth';
+import type { AccountAnalytics, PlatformAdapter, PlatformComment } from './types';
+
+const GRAPH_API_BASE = 'https://graph.facebook.com/v18.0';
+const FACEBOOK = { service: 'Facebook', parseError: parseGraphError };
+const LONG_LIVED_TOKEN_REFRESH_WINDOW = 7 * 24 * 60 * 60; // 7 days
+// Latest posts the comment inbox reads
+const COMMENT_SYNC_POSTS = 25;
+
+export const createFacebookAdapter = (config: FacebookConfig): PlatformAdapter => {
+    const facebookAPI = createFacebookAPI(config);
+
+    /**
+     * Resolve the page to act on; without an account id, the first page managed
+     */
+    const findPage = async (accessToken: string, accountId?: string) => {
+        const pages = await facebookAPI.getUserPages(accessToken);
+        if (pages.length === 0) {
+            throw new Error('No Facebook pages found');
+        }
+
+        if (!accountId) {
+            return pages[0];
+        }
+
+        const page = pages.find(p => p.id === accountId);
+        if (!page) {
+            throw new Error('This Facebook page is no longer managed by the connected account');
+        }
+
+        return page;
+    };
+
+    return {
+        id: 'facebook',
+        name: 'Facebook',
+        icon: '📘',
+        setupInstructions:
+            'Click "Connect" to start OAuth flow. Your Facebook app needs Facebook Login and Pages permissions approved.',
+
+        // Long-lived tokens can only be extended before they expire
+        tokenRefreshWindow: LONG_LIVED_TOKEN_REFRESH_WINDOW,
+
+        refreshToken: refreshConnectionToken,
+
+        supportsNativeScheduling: true,
+        commentActions: ['reply', 'like', 'hide', 'delete'],
+
+        async publish(connection, request, onProgress) {
+            const page = await findPage(connection.access_token, request.accountId);
+            const scheduledPublishTime = request.scheduledPublishTime
+                ? Math.floor(request.scheduledPublishTime.getTime() / 1000)
+                : undefined;
+
+            // Reject bad schedule times before downloading the video
+            if (scheduledPublishTime) {
+                facebookAPI.validateScheduledPublishTime(scheduledPublishTime);
+            }
+
+            let videoFile = request.videoFile;
+
+            if (!videoFile) {
+                // Download video file from storage for upload
+                const videoResponse = await fetch(request.videoUrl);
+                if (!videoResponse.ok) {
+                    throw new Error('Failed to download video for Facebook upload');
+                }
+
+                const videoBlob = await videoResponse.blob();
+                videoFile = new File([videoBlob], `${request.title}.mp4`, { type: videoBlob.type });
+            }
+
+            return facebookAPI.uploadVideo(
+                page.access_token,
+                page.id,
+                videoFile,
+                {
+                    title: request.title,
+                    description: request.description,
+                    scheduledPublishTime,
+                },
+                onProgress
+            );
+        },
+
+        async listAccounts(connection) {
+            const pages = await facebookAPI.getUserPages(connection.access_token);
+
+            return pages.map(page => ({
+                id: page.id,
+                name: page.name,
+                avatarUrl: `${GRAPH_API_BASE}/${page.id}/picture`,
+            }));
+        },
+
+        async listComments(connection, accountId) {
+            const page = await findPage(connection.access_token, accountId);
+            const posts = await facebookAPI.getPagePosts(page.access_token, page.id, COMMENT_SYNC_POSTS);
+            const comments: PlatformComment[] = [];
+
+            for (const post of posts.filter(post => post.commentCount > 0)) {
+                const postComments = await facebookAPI.getComments(page.access_token, post.id);
+
+                comments.push(...postComments.map(comment => ({
+                    id: comment.id,
+                    postId: post.id,
+                    postTitle: post.message?.split('\n')[0],
+                    postUrl: post.permalinkUrl,
+                    parentId: comment.parentId,
+                    authorName: comment.from?.name || 'Facebook user',
+                    authorId: comment.from?.id,
+                    authorAvatarUrl: comment.from ? `${GRAPH_API_BASE}/${comment.from.id}/picture` : undefined,
+                    text: comment.message,
+                    likeCount: comment.likeCount,
+                    publishedAt: comment.createdTime,
+                    isOwn: comment.from?.id === page.id,
+                    liked: comment.userLikes,
+                    hidden: comment.isHidden,
+                })));
+            }
+
+            return comments;
+        },
+
+        async replyToComment(connection, accountId, commentId, text) {
+            const page = await findPage(connection.access_token, accountId);
+            return facebookAPI.replyToComment(page.access_token, commentId, text);
+        },
+
+        async moderateComment(connection, accountId, commentId, action) {
+            const page = await findPage(connection.access_token, accountId);
+
+            switch (action) {
+                case 'like':
+                case 'unlike':
+                    return facebookAPI.setCommentLiked(page.access_token, commentId, action === 'like');
+                case 'hide':
+                case 'unhide':
+                    return facebookAPI.setCommentHidden(page.access_token, commentId, action === 'hide');
+                case 'delete':
+                    return facebookAPI.deleteComment(page.access_token, commentId);
+            }
+        },
+
+        async getAccountAnalytics(connection, accountId) {
+            const pages = await facebookAPI.getUserPages(connection.access_token);
+            const mainPage = accountId ? pages.find(page => page.id === accountId) : pages[0];
+
+            if (!mainPage) {
+                return null;
+            }
+
+            // Get page insights
+            // Insights need pages_read_engagement; without them the counts stay at 0
+            const insightsData = await requestJson(
+                `${GRAPH_API_BASE}/${mainPage.id}/insights?metric=page_fans,page_impressions,page_posts_impressions&access_token=${mainPage.access_token}`,
+                FACEBOOK
+            ).catch(() => null);
+
+            let followers = 0;
+            let totalViews = 0;
+            let totalPosts = 0;
+
+            if (insightsData) {
+                const insights = insightsData.data || [];
+
+                const fansMetric = insights.find((m: any) => m.name === 'page_fans');
+                followers = fansMetric?.values?.[0]?.value || 0;
+
+                const impressionsMetric = insights.find((m: any) => m.name === 'page_impressions');
+                totalViews = impressionsMetric?.values?.[0]?.value || 0;
+            }
+
+            // Get recent posts count
+            const postsData = await requestJson(
+                `${GRAPH_API_BASE}/${mainPage.id}/posts?limit=50&access_token=${mainPage.access_token}`,
+                FACEBOOK
+            ).catch(() => null);
+
+            if (postsData) {
+                totalPosts = postsData.data?.length || 0;
+            }
+
+            const analytics: AccountAnalytics = {
+                platform: 'facebook',
+                account_id: mainPage.id,
+                account_name: mainPage.name,
+                followers,
+                total_views: totalViews,
+                total_videos: totalPosts,
+                total_posts: totalPosts,
+                average_views_per_video: totalPosts > 0 ? totalViews / totalPosts : 0,
+                average_engagement_rate: 0, // Would need additional insights for engagement
+            };
+
+            return analytics;
+        },
+
+        async getPostAnalytics(connection, postId, accountId) {
+            // Page videos only report insights to the page's token
+            const page = await findPage(connection.access_token, accountId);
+            const insights = await facebookAPI.getVideoInsights(page.access_token, postId);
+
+            return {
+                views: insights.views,
+                likes: insights.likes,
+                comments: insights.comments,
+                shares: insights.shares,
+                reach: insights.reach,
+            };
+        },
+    };
+};
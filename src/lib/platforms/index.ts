@@ -0,0 +1,66 @@
+/**
+ * Platform Integrations
+ * Registers the built-in adapters and exposes the registry
+ *
+ * Adding a network means writing an adapter and registering it here;
+ * connections, publishing and analytics pick it up from the registry.
+ */
+
+import { registerPlatformAdapter } from './registry';
+import {
+    getBlueskyConfig,
+    getFacebookConfig,
+    getInstagramConfig,
+    getLinkedInConfig,
+    getMastodonConfig,
+    getTikTokConfig,
+    getYouTubeConfig,
+} from './config';
+import { createYouTubeAdapter } from './youtube';
+import { createFacebookAdapter } from './facebook';
+import { createInstagramAdapter } from './instagram';
+import { createTikTokAdapter } from './tiktok';
+import { createLinkedInAdapter } from './linkedin';
+import { createBlueskyAdapter } from './bluesky';
+import { createMastodonAdapter } from './mastodon';
+
+registerPlatformAdapter(createYouTubeAdapter(getYouTubeConfig()));
+registerPlatformAdapter(createFacebookAdapter(getFacebookConfig()));
+registerPlatformAdapter(createInstagramAdapter(getInstagramConfig()));
+registerPlatformAdapter(createTikTokAdapter(getTikTokConfig()));
+registerPlatformAdapter(createLinkedInAdapter(getLinkedInConfig()));
+registerPlatformAdapter(createBlueskyAdapter(getBlueskyConfig()));
+registerPlatformAdapter(createMastodonAdapter(getMastodonConfig()));
+
+export {
+    registerPlatformAdapter,
+    getPlatformAdapter,
+    getPlatformAdapters,
+    hasPlatformAdapter,
+} from './registry';
+
+export { tokenManager, ReauthRequiredError } from './tokenManager';
+export { getAuthorizationUrl, completeAuthorization, connectWithCredentials } from './oauth';
+
+export type {
+    PlatformAdapter,
+    PlatformConnection,
+    PlatformAccount,
+    PublishTarget,
+    ConnectField,
+    PublishMedia,
+    PublishCaption,
+    PostType,
+    PublishOption,
+    PublishOptions,
+    VideoLocalization,
+    VideoSettings,
+    PlatformTokens,
+    AccountAnalytics,
+    PostAnalytics,
+    PublishRequest,
+    PublishResult,
+    PlatformComment,
+    CommentAction,
+    CommentModeration,
+} from './types';
@@ -0,0 +1,280 @@
+/**
+ * Instagram Platform Adapter
+ * Wraps the Instagram Graph API client in the PlatformAdapter contract
+ */
+
+import { createInstagramAPI, InstagramConfig, InstagramMediaItem, MAX_CAROUSEL_ITEMS } from '@/lib/api/instagram';
+import { createFacebookAPI } from '@/lib/api/facebook';
+import { parseGraphError } from '@/lib/api/errors';
+import { requestJson } from '@/lib/api/httpClient';
+import { refreshConnectionToken } from './oauth';
+import type { AccountAnalytics, PlatformAccount, PlatformAdapter, PlatformComment, PublishRequest } from './types';
+
+const GRAPH_API_BASE = 'https://graph.facebook.com/v18.0';
+const INSTAGRAM = { service: 'Instagram', parseError: parseGraphError };
+const LONG_LIVED_TOKEN_REFRESH_WINDOW = 7 * 24 * 60 * 60; // 7 days
+const MAX_CAPTION_LENGTH = 2200;
+// Latest posts the comment inbox reads
+const COMMENT_SYNC_POSTS = 25;
+
+/**
+ * Assets of a post in order: the listed media, or else the video alone
+ */
+const getMediaItems = (request: PublishRequest): InstagramMediaItem[] =>
+    request.media && request.media.length > 0
+        ? request.media.map(item => ({ type: item.type, url: item.url }))
+        : request.videoUrl ? [{ type: 'video', url: request.videoUrl }] : [];
+
+/**
+ * Post type when the user didn't choose one: a video is a Reel, several assets a carousel
+ */
+const inferPostType = (items: InstagramMediaItem[]): string => {
+    if (items.length > 1) return 'carousel';
+    return items[0]?.type === 'image' ? 'image' : 'reel';
+};
+
+export const createInstagramAdapter = (config: InstagramConfig): PlatformAdapter => {
+    const instagramAPI = createInstagramAPI(config);
+    // Instagram Business Accounts are reached through the Facebook pages they are linked to
+    const facebookAPI = createFacebookAPI(config);
+
+    /**
+     * Instagram Business Accounts linked to any page the user manages
+     */
+    const listInstagramAccounts = async (accessToken: string): Promise<PlatformAccount[]> => {
+        const pages = await facebookAPI.getUserPages(accessToken);
+        const accounts: PlatformAccount[] = [];
+
+        for (const page of pages) {
+            try {
+                const account = await instagramAPI.getLinkedAccount(accessToken, page.id);
+                if (account) {
+                    accounts.push({
+                        id: account.id,
+                        name: account.name || account.username,
+                        username: account.username,
+                        avatarUrl: account.profilePictureUrl,
+                    });
+                }
+            } catch (error) {
+                // This page's account couldn't be read, try next
+                continue;
+            }
+        }
+
+        return accounts;
+    };
+
+    /**
+     * Resolve the account to act on; without an account id, the first one linked
+     */
+    const findInstagramAccount = async (accessToken: string, accountId?: string): Promise<PlatformAccount | null> => {
+        const accounts = await listInstagramAccounts(accessToken);
+        return accountId ? accounts.find(account => account.id === accountId) || null : accounts[0] || null;
+    };
+
+    return {
+        id: 'instagram',
+        name: 'Instagram',
+        icon: '📷',
+        contentLabel: 'Reels, Posts & Stories',
+        setupInstructions:
+            'Click "Connect" to start OAuth flow. Requires Facebook Business account with linked Instagram Business account.',
+
+        // Long-lived tokens can only be extended before they expire
+        tokenRefreshWindow: LONG_LIVED_TOKEN_REFRESH_WINDOW,
+
+        supportsImages: true,
+        postTypes: [
+            { id: 'reel', label: 'Reel' },
+            { id: 'image', label: 'Image post' },
+            { id: 'carousel', label: 'Carousel' },
+            { id: 'story', label: 'Story' },
+        ],
+        // The Graph API can't like Instagram comments
+        commentActions: ['reply', 'hide', 'delete'],
+
+        refreshToken: refreshConnectionToken,
+
+        async publish(connection, request, onProgress) {
+            const instagramAccount = await findInstagramAccount(connection.access_token, request.accountId);
+
+            if (!instagramAccount) {
+                throw new Error('No Instagram Business Account found. Please connect your Instagram Business Account.');
+            }
+
+            let caption = `${request.title}\n\n${request.description}`;
+            const missingTags = (request.tags || []).filter(tag => !caption.includes(`#${tag}`));
+            if (missingTags.length > 0) {
+                caption += '\n\n' + missingTags.map(tag => `#${tag}`).join(' ');
+            }
+
+            // Truncate caption to Instagram's limit
+            if (caption.length > MAX_CAPTION_LENGTH) {
+                caption = caption.substring(0, MAX_CAPTION_LENGTH - 3) + '...';
+            }
+
+            const items = getMediaItems(request);
+            const postType = request.postType || inferPostType(items);
+            const video = items.find(item => item.type === 'video');
+            const image = items.find(item => item.type === 'image');
+
+            switch (postType) {
+                case 'image':
+                    if (!image) {
+                        throw new Error('Instagram image posts need an image');
+                    }
+                    return instagramAPI.publishImage(connection.access_token, instagramAccount.id, image.url, { caption }, onProgress);
+
+                case 'carousel':
+                    return instagramAPI.publishCarousel(
+                        connection.access_token,
+                        instagramAccount.id,
+                        items.slice(0, MAX_CAROUSEL_ITEMS),
+                        { caption },
+                        onProgress
+                    );
+
+                case 'story':
+                    if (items.length === 0) {
+                        throw new Error('Instagram Stories need an image or video');
+                    }
+                    return instagramAPI.publishStory(connection.access_token, instagramAccount.id, items[0], onProgress);
+
+                default:
+                    if (!video) {
+                        throw new Error('Instagram Reels need a video');
+                    }
+                    return instagramAPI.uploadReel(
+                        connection.access_token,
+                        instagramAccount.id,
+                        video.url, // Must be publicly accessible
+                        {
+                            caption,
+                            coverUrl: request.thumbnailUrl,
+                            shareToFeed: true, // Share to feed as well as Reels
+                        },
+                        onProgress
+                    );
+            }
+        },
+
+        listAccounts: (connection) => listInstagramAccounts(connection.access_token),
+
+        async listComments(connection, accountId) {
+            const accessToken = connection.access_token;
+            const instagramAccount = await findInstagramAccount(accessToken, accountId);
+
+            if (!instagramAccount) {
+                return [];
+            }
+
+            const media = await instagramAPI.getUserMedia(accessToken, instagramAccount.id, COMMENT_SYNC_POSTS);
+            const comments: PlatformComment[] = [];
+
+            for (const post of media.filter(post => post.commentsCount > 0)) {
+                const postComments = await instagramAPI.getMediaComments(accessToken, post.id);
+
+                comments.push(...postComments.map(comment => ({
+                    id: comment.id,
+                    postId: post.id,
+                    postTitle: post.caption?.split('\n')[0],
+                    postUrl: post.permalink,
+                    parentId: comment.parentId,
+                    authorName: comment.username,
+                    authorId: comment.userId,
+                    text: comment.text,
+                    likeCount: comment.likeCount,
+                    publishedAt: comment.timestamp,
+                    isOwn: comment.username === instagramAccount.username,
+                    hidden: comment.hidden,
+                })));
+            }
+
+            return comments;
+        },
+
+        replyToComment: (connection, _accountId, commentId, text) =>
+            instagramAPI.replyToComment(connection.access_token, commentId, text),
+
+        async moderateComment(connection, _accountId, commentId, action) {
+            switch (action) {
+                case 'hide':
+                case 'unhide':
+                    return instagramAPI.setCommentHidden(connection.access_token, commentId, action === 'hide');
+                case 'delete':
+                    return instagramAPI.deleteComment(connection.access_token, commentId);
+                default:
+                    throw new Error(`Instagram comments can't be ${action}d`);
+            }
+        },
+
+        async getAccountAnalytics(connection, accountId) {
+            const accessToken = connection.access_token;
+            const instagramAccount = await findInstagramAccount(accessToken, accountId);
+
+            if (!instagramAccount) {
+                return null;
+            }
+
+            const instagramAccountId = instagramAccount.id;
+
+            // Get Instagram account info
+            const accountData = await requestJson(
+                `${GRAPH_API_BASE}/${instagramAccountId}?fields=followers_count,media_count&access_token=${accessToken}`,
+                INSTAGRAM
+            ).catch(() => null);
+
+            let followers = 0;
+            let totalPosts = 0;
+
+            if (accountData) {
+                followers = accountData.followers_count || 0;
+                totalPosts = accountData.media_count || 0;
+            }
+
+            // Get recent media to calculate average engagement
+            const mediaData = await requestJson(
+                `${GRAPH_API_BASE}/${instagramAccountId}/media?fields=like_count,comments_count&limit=10&access_token=${accessToken}`,
+                INSTAGRAM
+            ).catch(() => null);
+
+            let totalEngagement = 0;
+            if (mediaData) {
+                const mediaItems = mediaData.data || [];
+
+                for (const item of mediaItems) {
+                    totalEngagement += (item.like_count || 0) + (item.comments_count || 0);
+                }
+            }
+
+            const analytics: AccountAnalytics = {
+                platform: 'instagram',
+                account_id: instagramAccount.id,
+                account_name: instagramAccount.name,
+                followers,
+                total_views: 0, // Instagram doesn't provide direct view counts via basic API
+                total_videos: totalPosts, // Instagram posts include both photos and videos
+                total_posts: totalPosts,
+                average_views_per_video: 0,
+                average_engagement_rate: followers > 0 ? (totalEngagement / followers) * 100 : 0,
+            };
+
+            return analytics;
+        },
+
+        async getPostAnalytics(connection, postId) {
+            const insights = await instagramAPI.getMediaInsights(connection.access_token, postId);
+
+            return {
+                views: insights.views,
+                likes: insights.likes,
+                comments: insights.comments,
+                shares: insights.shares,
+                saves: insights.saves,
+                reach: insights.reach,
+                impressions: insights.impressions,
+            };
+        },
+    };
+};
@@ -0,0 +1,146 @@
+/**
+ * LinkedIn Platform Adapter
+ * Wraps the LinkedIn Marketing API client in the PlatformAdapter contract
+ */
+
+import { createLinkedInAPI, LinkedInConfig } from '@/lib/api/linkedin';
+import { refreshConnectionToken } from './oauth';
+import type { AccountAnalytics, PlatformAccount, PlatformAdapter } from './types';
+
+const MAX_COMMENTARY_LENGTH = 3000;
+// Access tokens last 60 days; renew well before that
+const TOKEN_REFRESH_WINDOW = 7 * 24 * 60 * 60; // 7 days
+
+/**
+ * Escape post text for LinkedIn's "little text" format, where these characters are markup
+ */
+const escapeLittleText = (text: string) => text.replace(/[\\|{}@[\]()<>#*_~]/g, char => `\\${char}`);
+
+const isOrganization = (urn: string) => urn.startsWith('urn:li:organization:');
+
+export const createLinkedInAdapter = (config: LinkedInConfig): PlatformAdapter => {
+    const linkedinAPI = createLinkedInAPI(config);
+
+    /**
+     * The member's own profile plus every company page they administer
+     */
+    const listLinkedInAccounts = async (accessToken: string): Promise<PlatformAccount[]> => {
+        const member = await linkedinAPI.getMember(accessToken);
+        const organizations = await linkedinAPI.getAdministeredOrganizations(accessToken);
+
+        return [
+            { id: member.urn, name: member.name, avatarUrl: member.pictureUrl },
+            ...organizations.map(organization => ({
+                id: organization.urn,
+                name: organization.name,
+                username: organization.vanityName,
+            })),
+        ];
+    };
+
+    return {
+        id: 'linkedin',
+        name: 'LinkedIn',
+        icon: '💼',
+        setupInstructions:
+            'Click "Connect" to start OAuth flow. Company pages need the Community Management API product and an admin role on the page.',
+
+        tokenRefreshWindow: TOKEN_REFRESH_WINDOW,
+
+        refreshToken: refreshConnectionToken,
+
+        async publish(connection, request, onProgress) {
+            const accessToken = connection.access_token;
+            // Without an account id, post as the member
+            const authorUrn = request.accountId || (await linkedinAPI.getMember(accessToken)).urn;
+
+            let videoFile = request.videoFile;
+
+            if (!videoFile) {
+                // Download video file from storage for upload
+                const videoResponse = await fetch(request.videoUrl);
+                if (!videoResponse.ok) {
+                    throw new Error('Failed to download video for LinkedIn upload');
+                }
+
+                const videoBlob = await videoResponse.blob();
+                videoFile = new File([videoBlob], `${request.title}.mp4`, { type: videoBlob.type });
+            }
+
+            const videoUrn = await linkedinAPI.uploadVideo(accessToken, authorUrn, videoFile, onProgress);
+
+            let commentary = escapeLittleText(request.description || request.title);
+            const missingTags = (request.tags || []).filter(tag => !(request.description || '').includes(`#${tag}`));
+            if (missingTags.length > 0) {
+                commentary += '\n\n' + missingTags.map(tag => `{hashtag|\\#|${tag}}`).join(' ');
+            }
+
+            if (commentary.length > MAX_COMMENTARY_LENGTH) {
+                commentary = commentary.substring(0, MAX_COMMENTARY_LENGTH - 3) + '...';
+            }
+
+            return linkedinAPI.createPost(accessToken, authorUrn, {
+                commentary,
+                mediaUrn: videoUrn,
+                mediaTitle: request.title,
+            });
+        },
+
+        listAccounts: (connection) => listLinkedInAccounts(connection.access_token),
+
+        async getAccountAnalytics(connection, accountId) {
+            // LinkedIn only reports statistics for company pages
+            if (!accountId || !isOrganization(accountId)) {
+                return null;
+            }
+
+            const accessToken = connection.access_token;
+            const accounts = await listLinkedInAccounts(accessToken);
+            const organization = accounts.find(account => account.id === accountId);
+
+            if (!organization) {
+                return null;
+            }
+
+            const [followers, totalPosts, stats] = await Promise.all([
+                linkedinAPI.getFollowerCount(accessToken, accountId),
+                linkedinAPI.getPostCount(accessToken, accountId),
+                linkedinAPI.getShareStatistics(accessToken, accountId),
+            ]);
+
+            const analytics: AccountAnalytics = {
+                platform: 'linkedin',
+                account_id: accountId,
+                account_name: organization.name,
+                followers,
+                total_views: stats.impressions, // LinkedIn reports impressions rather than views
+                total_videos: totalPosts,
+                total_posts: totalPosts,
+                average_views_per_video: totalPosts > 0 ? stats.impressions / totalPosts : 0,
+                average_engagement_rate: stats.engagement * 100,
+            };
+
+            return analytics;
+        },
+
+        async getPostAnalytics(connection, postId) {
+            const accessToken = connection.access_token;
+            const author = await linkedinAPI.getPostAuthor(accessToken, postId);
+
+            if (!isOrganization(author)) {
+                throw new Error('LinkedIn only reports statistics for company page posts');
+            }
+
+            const stats = await linkedinAPI.getShareStatistics(accessToken, author, [postId]);
+
+            return {
+                views: stats.impressions,
+                likes: stats.likes,
+                comments: stats.comments,
+                shares: stats.shares,
+                reach: stats.uniqueImpressions,
+                impressions: stats.impressions,
+            };
+        },
+    };
+};
@@ -0,0 +1,124 @@
+/**
+ * Mastodon Platform Adapter
+ * Wraps the Mastodon API client in the PlatformAdapter contract
+ */
+
+import { createMastodonAPI, MastodonConfig, MastodonSession } from '@/lib/api/mastodon';
+import { refreshConnectionToken } from './oauth';
+import { downloadMedia } from './media';
+import type { AccountAnalytics, PlatformAdapter, PlatformConnection } from './types';
+
+const MAX_ATTACHMENTS = 4;
+
+export const createMastodonAdapter = (config: MastodonConfig): PlatformAdapter => {
+    const mastodonAPI = createMastodonAPI(config);
+
+    const getSession = (connection: PlatformConnection): MastodonSession => {
+        if (!connection.instance_url) {
+            throw new Error('This Mastodon connection has no instance; reconnect it');
+        }
+
+        return { instanceUrl: connection.instance_url, accessToken: connection.access_token };
+    };
+
+    return {
+        id: 'mastodon',
+        name: 'Mastodon',
+        icon: '🐘',
+        setupInstructions:
+            'Click "Connect" and enter your instance (e.g. mastodon.social). The app registers itself with the instance; no review needed.',
+
+        supportsImages: true,
+
+        connectFields: [
+            {
+                name: 'instanceUrl',
+                label: 'Instance',
+                type: 'url',
+                placeholder: config.defaultInstanceUrl || 'mastodon.social',
+                required: true,
+            },
+        ],
+
+        refreshToken: refreshConnectionToken,
+
+        async publish(connection, request, onProgress) {
+            const session = getSession(connection);
+
+            let status = `${request.title}\n\n${request.description}`.trim();
+            const missingTags = (request.tags || []).filter(tag => !status.includes(`#${tag}`));
+            if (missingTags.length > 0) {
+                status += '\n\n' + missingTags.map(tag => `#${tag}`).join(' ');
+            }
+
+            const maxCharacters = await mastodonAPI.getMaxCharacters(session);
+            if (status.length > maxCharacters) {
+                status = status.substring(0, maxCharacters - 1) + '…';
+            }
+
+            const mediaIds: string[] = [];
+            const images = (request.media || []).filter(item => item.type === 'image').slice(0, MAX_ATTACHMENTS);
+
+            if (request.videoUrl || request.videoFile) {
+                const videoFile = request.videoFile || await downloadMedia(request.videoUrl, `${request.title}.mp4`);
+                mediaIds.push(await mastodonAPI.uploadMedia(session, videoFile, request.altText, onProgress));
+            } else if (images.length > 0) {
+                for (const [index, image] of images.entries()) {
+                    const file = await downloadMedia(image.url, `image-${index + 1}`);
+                    mediaIds.push(await mastodonAPI.uploadMedia(session, file, image.altText));
+                    if (onProgress) onProgress(((index + 1) / images.length) * 100);
+                }
+            }
+
+            return mastodonAPI.createStatus(session, status, mediaIds);
+        },
+
+        async listAccounts(connection) {
+            const account = await mastodonAPI.verifyCredentials(getSession(connection));
+
+            // Same id the oauth-exchange function stores on the connection
+            return [{
+                id: account.url,
+                name: account.displayName,
+                username: account.acct,
+                avatarUrl: account.avatar,
+            }];
+        },
+
+        async getAccountAnalytics(connection) {
+            const session = getSession(connection);
+            const account = await mastodonAPI.verifyCredentials(session);
+            const statuses = await mastodonAPI.getAccountStatuses(session, account.id);
+
+            const totalEngagement = statuses.reduce(
+                (sum, status) => sum + status.replies + status.reblogs + status.favourites,
+                0
+            );
+
+            const analytics: AccountAnalytics = {
+                platform: 'mastodon',
+                account_id: account.url,
+                account_name: account.displayName,
+                followers: account.followersCount,
+                total_views: 0, // Mastodon doesn't count views
+                total_videos: 0,
+                total_posts: account.statusesCount,
+                average_views_per_video: 0,
+                average_engagement_rate: account.followersCount > 0 ? (totalEngagement / account.followersCount) * 100 : 0,
+            };
+
+            return analytics;
+        },
+
+        async getPostAnalytics(connection, postId) {
+            const status = await mastodonAPI.getStatus(getSession(connection), postId);
+
+            return {
+                views: 0,
+                likes: status.favourites,
+                comments: status.replies,
+                shares: status.reblogs,
+            };
+        },
+    };
+};
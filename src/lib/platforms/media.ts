@@ -0,0 +1,17 @@
+/**
+ * Publish Media Helpers
+ * Loads the stored files a PublishRequest points at
+ */
+
+/**
+ * Download a stored file so it can be uploaded to a platform
+ */
+export async function downloadMedia(url: string, fileName: string): Promise<File> {
+    const response = await fetch(url);
+    if (!response.ok) {
+        throw new Error(`Failed to download ${fileName} for upload`);
+    }
+
+    const blob = await response.blob();
+    return new File([blob], fileName, { type: blob.type });
+}
@@ -0,0 +1,80 @@
+/**
+ * Platform OAuth
+ * Client side of the oauth-exchange edge function, which holds the platform secrets
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import { OAuthTokenError, toOAuthTokenError } from '@/lib/api/errors';
+import { getOAuthRedirectUri } from './config';
+import type { PlatformConnection, PlatformTokens } from './types';
+
+const OAUTH_FUNCTION = 'oauth-exchange';
+
+async function invokeOAuthFunction<T>(body: Record<string, unknown>, fallbackMessage: string): Promise<T> {
+    const { data, error } = await supabase.functions.invoke(OAUTH_FUNCTION, { body });
+
+    if (error) {
+        // Non-2xx responses carry the original Response so the status survives
+        if (error.context instanceof Response) {
+            throw await toOAuthTokenError(error.context, fallbackMessage);
+        }
+        throw new Error(error.message || fallbackMessage);
+    }
+
+    return data as T;
+}
+
+/**
+ * Get the provider authorization URL; the state parameter is signed server-side
+ * and bound to the current user. `params` carries connect dialog input such as
+ * a Mastodon instance URL.
+ */
+export async function getAuthorizationUrl(platform: string, params: Record<string, string> = {}): Promise<string> {
+    const { authUrl } = await invokeOAuthFunction<{ authUrl: string }>(
+        { action: 'authorize', platform, redirectUri: getOAuthRedirectUri(), params },
+        `Failed to start ${platform} authorization`
+    );
+
+    return authUrl;
+}
+
+/**
+ * Exchange the authorization code; the edge function stores the connection
+ * and reports which platform the signed state was issued for
+ */
+export async function completeAuthorization(code: string, state: string): Promise<{ platform: string }> {
+    return invokeOAuthFunction<{ success: boolean; platform: string }>(
+        { action: 'exchange', code, state },
+        'Failed to exchange code for tokens'
+    );
+}
+
+/**
+ * Sign in with credentials instead of a redirect (adapters with authMethod 'credentials');
+ * the edge function creates the session and stores the connection
+ */
+export async function connectWithCredentials(
+    platform: string,
+    credentials: Record<string, string>
+): Promise<{ platform: string }> {
+    return invokeOAuthFunction<{ success: boolean; platform: string }>(
+        { action: 'connect', platform, credentials },
+        `Failed to connect ${platform}`
+    );
+}
+
+/**
+ * Refresh a connection's access token server-side
+ */
+export async function refreshConnectionToken(connection: PlatformConnection): Promise<PlatformTokens> {
+    const tokens = await invokeOAuthFunction<PlatformTokens>(
+        { action: 'refresh', connectionId: connection.id },
+        `Failed to refresh ${connection.platform} token`
+    );
+
+    if (!tokens?.access_token) {
+        throw new OAuthTokenError(`Failed to refresh ${connection.platform} token`, 502);
+    }
+
+    return tokens;
+}
@@ -0,0 +1,33 @@
+/**
+ * Platform Adapter Registry
+ * Single lookup for every platform the app can connect to
+ */
+
+import type { PlatformAdapter } from './types';
+
+const adapters = new Map<string, PlatformAdapter>();
+
+export function registerPlatformAdapter(adapter: PlatformAdapter): void {
+    adapters.set(adapter.id, adapter);
+}
+
+export function hasPlatformAdapter(platform: string): boolean {
+    return adapters.has(platform);
+}
+
+export function getPlatformAdapter(platform: string): PlatformAdapter {
+    const adapter = adapters.get(platform);
+
+    if (!adapter) {
+        throw new Error(`Unsupported platform: ${platform}`);
+    }
+
+    return adapter;
+}
+
+/**
+ * All registered adapters, in registration order
+ */
+export function getPlatformAdapters(): PlatformAdapter[] {
+    return Array.from(adapters.values());
+}
@@ -0,0 +1,136 @@
+/**
+ * TikTok Platform Adapter
+ * Wraps the TikTok API v2 client in the PlatformAdapter contract
+ */
+
+import { createTikTokAPI, TikTokConfig } from '@/lib/api/tiktok';
+import { refreshConnectionToken } from './oauth';
+import type { AccountAnalytics, PlatformAdapter } from './types';
+
+const MAX_CAPTION_LENGTH = 2200;
+
+export const createTikTokAdapter = (config: TikTokConfig): PlatformAdapter => {
+    const tiktokAPI = createTikTokAPI(config);
+
+    return {
+        id: 'tiktok',
+        name: 'TikTok',
+        icon: '🎵',
+        contentLabel: 'Videos',
+        setupInstructions:
+            'Click "Connect" to start OAuth flow. Requires a TikTok developer app with Login Kit and the Content Posting API; unaudited apps can only post privately.',
+        supportsDrafts: true,
+
+        refreshToken: refreshConnectionToken,
+
+        async publish(connection, request, onProgress) {
+            let videoFile = request.videoFile;
+
+            if (!videoFile) {
+                // Download video file from storage for upload
+                const videoResponse = await fetch(request.videoUrl);
+                if (!videoResponse.ok) {
+                    throw new Error('Failed to download video for TikTok upload');
+                }
+
+                const videoBlob = await videoResponse.blob();
+                videoFile = new File([videoBlob], `${request.title}.mp4`, { type: videoBlob.type || 'video/mp4' });
+            }
+
+            const creator = await tiktokAPI.getCreatorInfo(connection.access_token);
+            const profileUrl = `https://www.tiktok.com/@${creator.username}`;
+
+            if (request.asDraft) {
+                const result = await tiktokAPI.uploadToInbox(connection.access_token, videoFile, onProgress);
+                return { id: result.publishId, url: profileUrl };
+            }
+
+            let caption = request.title;
+            const missingTags = (request.tags || []).filter(tag => !caption.includes(`#${tag}`));
+            if (missingTags.length > 0) {
+                caption += ' ' + missingTags.map(tag => `#${tag}`).join(' ');
+            }
+
+            if (caption.length > MAX_CAPTION_LENGTH) {
+                caption = caption.substring(0, MAX_CAPTION_LENGTH - 3) + '...';
+            }
+
+            // Unaudited apps are limited to SELF_ONLY, which then is the only option offered
+            const privacyLevel = creator.privacyLevelOptions.includes('PUBLIC_TO_EVERYONE')
+                ? 'PUBLIC_TO_EVERYONE'
+                : creator.privacyLevelOptions[0];
+
+            const result = await tiktokAPI.directPost(
+                connection.access_token,
+                videoFile,
+                {
+                    title: caption,
+                    privacyLevel,
+                    disableComment: creator.commentDisabled,
+                    disableDuet: creator.duetDisabled,
+                    disableStitch: creator.stitchDisabled,
+                },
+                onProgress
+            );
+
+            return {
+                id: result.postId || result.publishId,
+                url: result.postId ? `${profileUrl}/video/${result.postId}` : profileUrl,
+            };
+        },
+
+        async listAccounts(connection) {
+            // A TikTok grant is tied to one account; other accounts are separate connections
+            const user = await tiktokAPI.getUserInfo(connection.access_token);
+
+            return [{
+                id: user.openId,
+                name: user.displayName || user.username,
+                username: user.username,
+                avatarUrl: user.avatarUrl,
+            }];
+        },
+
+        async getAccountAnalytics(connection) {
+            const accessToken = connection.access_token;
+            const user = await tiktokAPI.getUserInfo(accessToken);
+
+            // TikTok has no lifetime view total; add up the recent videos instead
+            const { videos } = await tiktokAPI.listVideos(accessToken);
+            const totalViews = videos.reduce((sum, video) => sum + video.views, 0);
+            const totalEngagement = videos.reduce(
+                (sum, video) => sum + video.likes + video.comments + video.shares,
+                0
+            );
+
+            const analytics: AccountAnalytics = {
+                platform: 'tiktok',
+                account_id: user.openId,
+                account_name: user.displayName || user.username,
+                followers: user.followerCount,
+                total_views: totalViews,
+                total_videos: user.videoCount,
+                total_posts: user.videoCount,
+                average_views_per_video: videos.length > 0 ? totalViews / videos.length : 0,
+                average_engagement_rate: user.followerCount > 0 ? (totalEngagement / user.followerCount) * 100 : 0,
+            };
+
+            return analytics;
+        },
+
+        async getPostAnalytics(connection, postId) {
+            const [video] = await tiktokAPI.getVideoInsights(connection.access_token, [postId]);
+
+            if (!video) {
+                throw new Error('TikTok video not found');
+            }
+
+            return {
+                views: video.views,
+                likes: video.likes,
+                comments: video.comments,
+                shares: video.shares,
+            };
+        },
+    };
+};
@@ -0,0 +1,159 @@
+/**
+ * Platform Token Manager
+ * Keeps platform_connections tokens valid before every API call
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import { AuthExpiredError, OAuthTokenError } from '@/lib/api/errors';
+import { getPlatformAdapter } from './registry';
+import type { PlatformConnection } from './types';
+
+// Refresh this long before expiry so in-flight calls don't race the deadline
+const DEFAULT_REFRESH_WINDOW_SECONDS = 5 * 60;
+
+/**
+ * Raised when a connection's grant is no longer usable and the user must
+ * connect the platform again
+ */
+export class ReauthRequiredError extends Error {
+    platform: string;
+
+    constructor(platform: string, message: string) {
+        super(message);
+        this.name = 'ReauthRequiredError';
+        this.platform = platform;
+    }
+}
+
+class TokenManager {
+    // Refreshes in progress, keyed by connection id, so concurrent callers share one request
+    private pendingRefreshes = new Map<string, Promise<PlatformConnection>>();
+
+    /**
+     * Run an API call with a connection whose access token is known to be valid.
+     * A token the platform rejects anyway (revoked early, clock skew) is refreshed
+     * and the call retried once; the connection is only flagged for re-auth when
+     * that refresh fails for good.
+     */
+    async withFreshToken<T>(
+        connection: PlatformConnection,
+        call: (connection: PlatformConnection) => Promise<T>
+    ): Promise<T> {
+        const freshConnection = await this.getFreshConnection(connection);
+
+        try {
+            return await call(freshConnection);
+        } catch (error) {
+            if (!(error instanceof AuthExpiredError)) {
+                throw error;
+            }
+        }
+
+        const refreshedConnection = await this.getFreshConnection(freshConnection, { force: true });
+        return call(refreshedConnection);
+    }
+
+    /**
+     * Return the connection unchanged if its token is still valid, otherwise refresh it.
+     * `force` refreshes even a token that hasn't reached its refresh window.
+     */
+    async getFreshConnection(
+        connection: PlatformConnection,
+        { force = false }: { force?: boolean } = {}
+    ): Promise<PlatformConnection> {
+        if (connection.status === 'needs_reauth') {
+            throw new ReauthRequiredError(
+                connection.platform,
+                `Your ${connection.platform} connection has expired. Please reconnect it.`
+            );
+        }
+
+        if (!force && !this.needsRefresh(connection)) {
+            return connection;
+        }
+
+        const pending = this.pendingRefreshes.get(connection.id);
+        if (pending) {
+            return pending;
+        }
+
+        const refresh = this.refresh(connection).finally(() => {
+            this.pendingRefreshes.delete(connection.id);
+        });
+        this.pendingRefreshes.set(connection.id, refresh);
+
+        return refresh;
+    }
+
+    private needsRefresh(connection: PlatformConnection): boolean {
+        if (!connection.expires_at) {
+            return false;
+        }
+
+        const adapter = getPlatformAdapter(connection.platform);
+        const windowMs = (adapter.tokenRefreshWindow ?? DEFAULT_REFRESH_WINDOW_SECONDS) * 1000;
+
+        return new Date(connection.expires_at).getTime() - windowMs <= Date.now();
+    }
+
+    private async refresh(connection: PlatformConnection): Promise<PlatformConnection> {
+        const adapter = getPlatformAdapter(connection.platform);
+
+        let tokens;
+        try {
+            tokens = await adapter.refreshToken(connection);
+        } catch (error) {
+            if (error instanceof OAuthTokenError && error.isPermanent) {
+                await this.markNeedsReauth(connection, error.message);
+                throw new ReauthRequiredError(
+                    connection.platform,
+                    `Your ${adapter.name} connection has expired. Please reconnect it.`
+                );
+            }
+
+            // Network errors and provider outages: keep the connection, let the caller retry later
+            throw error;
+        }
+
+        // oauth-exchange has already stored the new tokens, including a rotated refresh
+        // token that never reaches the browser, so read the row back instead of writing it
+        const { data, error } = await (supabase as any)
+            .from('platform_connections')
+            .select('*')
+            .eq('id', connection.id)
+            .single();
+
+        if (error || !data) {
+            // The new token is still usable for this call even if the row couldn't be read back
+            console.error(`Error loading refreshed ${connection.platform} connection:`, error);
+            return {
+                ...connection,
+                access_token: tokens.access_token,
+                expires_at: tokens.expires_in
+                    ? new Date(Date.now() + tokens.expires_in * 1000).toISOString()
+                    : null,
+                status: 'connected',
+                last_refresh_error: null,
+            };
+        }
+
+        return data as PlatformConnection;
+    }
+
+    private async markNeedsReauth(connection: PlatformConnection, reason: string): Promise<void> {
+        const { error } = await (supabase as any)
+            .from('platform_connections')
+            .update({
+                status: 'needs_reauth',
+                last_refresh_error: reason,
+                updated_at: new Date().toISOString(),
+            })
+            .eq('id', connection.id);
+
+        if (error) {
+            console.error(`Error flagging ${connection.platform} connection for re-auth:`, error);
+        }
+    }
+}
+
+export const tokenManager = new TokenManager();
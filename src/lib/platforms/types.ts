@@ -0,0 +1,266 @@
+/**
+ * Platform Adapter Contract
+ * Shared shape every social network integration implements
+ */
+
+export interface PlatformConnection {
+    id: string;
+    platform: string;
+    access_token: string;
+    refresh_token?: string;
+    expires_at?: string;
+    account_id?: string;
+    account_name?: string;
+    account_username?: string;
+    status?: 'connected' | 'needs_reauth';
+    last_refresh_error?: string | null;
+    /** Server the account lives on, for federated platforms (Mastodon instance, Bluesky PDS) */
+    instance_url?: string | null;
+}
+
+/**
+ * Input the connect dialog collects before authorizing, e.g. a Mastodon instance URL
+ */
+export interface ConnectField {
+    name: string;
+    label: string;
+    type?: 'text' | 'password' | 'url';
+    placeholder?: string;
+    helpText?: string;
+    required?: boolean;
+}
+
+/**
+ * Something a connection can publish to: a YouTube channel, Facebook page
+ * or Instagram business account. One connection can reach several.
+ */
+export interface PlatformAccount {
+    id: string;
+    name: string;
+    username?: string;
+    avatarUrl?: string;
+}
+
+/** A specific account on a specific connection, chosen in the publish and schedule UIs */
+export interface PublishTarget {
+    platform: string;
+    connectionId: string;
+    accountId: string;
+}
+
+export interface AccountAnalytics {
+    platform: string;
+    account_id?: string;
+    account_name?: string;
+    followers: number;
+    total_views: number;
+    total_videos: number;
+    total_posts?: number; // Optional for platforms that don't have posts
+    average_views_per_video: number;
+    average_engagement_rate: number;
+}
+
+export interface PostAnalytics {
+    views: number;
+    likes: number;
+    comments: number;
+    shares: number;
+    saves?: number;
+    reach?: number;
+    impressions?: number;
+    watchTimeSeconds?: number;
+    averageViewDuration?: number;
+}
+
+export interface PlatformTokens {
+    access_token: string;
+    refresh_token?: string;
+    expires_in?: number; // seconds
+}
+
+/** A photo or video in an image or multi-asset post */
+export interface PublishMedia {
+    type: 'image' | 'video';
+    url: string; // Publicly accessible URL of the stored file
+    altText?: string;
+}
+
+/** A subtitle track to publish with the video */
+export interface PublishCaption {
+    language: string; // BCP-47, e.g. 'en'
+    name: string;
+    vtt: string; // WebVTT text
+}
+
+/** A kind of post an adapter can make from the same media, e.g. Instagram Reel vs Story */
+export interface PostType {
+    id: string;
+    label: string;
+}
+
+/** A choice loaded from the platform for the publish form, e.g. a category or playlist */
+export interface PublishOption {
+    id: string;
+    title: string;
+}
+
+/** Choices for `VideoSettings` that depend on the account */
+export interface PublishOptions {
+    categories?: PublishOption[];
+    playlists?: PublishOption[];
+}
+
+/** A translated title and description */
+export interface VideoLocalization {
+    title: string;
+    description: string;
+}
+
+/**
+ * Video metadata beyond title and description. Adapters apply the fields their
+ * platform has and ignore the rest; `videoSettingsFields` lists the ones that apply.
+ */
+export interface VideoSettings {
+    privacy?: 'public' | 'unlisted' | 'private';
+    /** One of the account's `PublishOptions.categories` */
+    categoryId?: string;
+    /** Playlists from `PublishOptions.playlists` to add the video to after upload */
+    playlistIds?: string[];
+    madeForKids?: boolean;
+    license?: 'standard' | 'creativeCommon';
+    embeddable?: boolean;
+    /** BCP-47 language of the title and description */
+    defaultLanguage?: string;
+    /** Translated titles and descriptions keyed by BCP-47 language */
+    localizations?: Record<string, VideoLocalization>;
+}
+
+export interface PublishRequest {
+    title: string;
+    description: string;
+    videoUrl: string; // Publicly accessible URL of the stored video; empty for image and text posts
+    /** Description of the video for screen readers, on platforms that accept one */
+    altText?: string;
+    /** Every asset of the post in order, when it has images or more than one file */
+    media?: PublishMedia[];
+    /** One of the adapter's `postTypes`; adapters pick from the media when unset */
+    postType?: string;
+    /** Account to publish to; defaults to the first one the connection reaches */
+    accountId?: string;
+    /** Subtitle tracks, on platforms that accept caption uploads */
+    captions?: PublishCaption[];
+    /** Publicly accessible URL of a stored custom thumbnail / cover image */
+    thumbnailUrl?: string;
+    /** Local copy of the video, when the caller still has it, to skip downloading it again */
+    videoFile?: File;
+    tags?: string[];
+    videoSettings?: VideoSettings;
+    /** Hand scheduling to the platform; only honoured by adapters with `supportsNativeScheduling` */
+    scheduledPublishTime?: Date;
+    /** Upload for the creator to finish in the platform's app; only honoured by adapters with `supportsDrafts` */
+    asDraft?: boolean;
+}
+
+export interface PublishResult {
+    id: string;
+    url: string;
+}
+
+/** A comment or reply on one of the account's posts */
+export interface PlatformComment {
+    id: string;
+    postId: string;
+    postTitle?: string;
+    postUrl?: string;
+    /** Top-level comment this replies to; unset for top-level comments */
+    parentId?: string;
+    authorName: string;
+    authorId?: string;
+    authorAvatarUrl?: string;
+    text: string;
+    likeCount: number;
+    publishedAt: string;
+    /** Written by the account itself, e.g. a reply sent from the inbox */
+    isOwn: boolean;
+    /** Liked by the account; only set by platforms that report it */
+    liked?: boolean;
+    /** Hidden from everyone but the author; only set by platforms that report it */
+    hidden?: boolean;
+}
+
+export type CommentAction = 'reply' | 'like' | 'hide' | 'delete';
+
+/** Changes `moderateComment` can make; each is the platform's own, not a local flag */
+export type CommentModeration = 'like' | 'unlike' | 'hide' | 'unhide' | 'delete';
+
+export interface PlatformAdapter {
+    /** Identifier stored in `platform_connections.platform` */
+    id: string;
+    name: string;
+    icon: string;
+    /** Kind of content published, shown next to the name in the publish UI */
+    contentLabel?: string;
+    setupInstructions: string;
+    /**
+     * How the user connects: 'oauth' (default) redirects to the provider, 'credentials'
+     * signs in server-side with the `connectFields` values (e.g. a Bluesky app password)
+     */
+    authMethod?: 'oauth' | 'credentials';
+    /** Asked for in a dialog before connecting */
+    connectFields?: ConnectField[];
+    /**
+     * Seconds before `expires_at` at which the token is renewed.
+     * Tokens that can only be exchanged while still valid need a wide window.
+     */
+    tokenRefreshWindow?: number;
+    /** Whether `publish` can schedule posts on the platform itself via `scheduledPublishTime` */
+    supportsNativeScheduling?: boolean;
+    /** Whether `publish` can send the video to the creator's drafts / inbox via `asDraft` */
+    supportsDrafts?: boolean;
+    /** Whether `publish` can post `media` without a video */
+    supportsImages?: boolean;
+    /** Post types the user can choose between via `postType` */
+    postTypes?: PostType[];
+    /** `VideoSettings` fields `publish` honours, shown in the publish form */
+    videoSettingsFields?: (keyof VideoSettings)[];
+    /** What the comment inbox offers for this platform's comments, for adapters with `listComments` */
+    commentActions?: CommentAction[];
+
+    /** Authorization and code exchange run in the oauth-exchange edge function */
+    refreshToken(connection: PlatformConnection): Promise<PlatformTokens>;
+
+    publish(
+        connection: PlatformConnection,
+        request: PublishRequest,
+        onProgress?: (progress: number) => void
+    ): Promise<PublishResult>;
+
+    /** Account-specific choices for `videoSettings`, for adapters with `videoSettingsFields` */
+    getPublishOptions?(connection: PlatformConnection, accountId?: string): Promise<PublishOptions>;
+
+    /** Accounts this connection can publish to and report on */
+    listAccounts(connection: PlatformConnection): Promise<PlatformAccount[]>;
+
+    /** Comments and replies on the account's recent posts */
+    listComments?(connection: PlatformConnection, accountId: string): Promise<PlatformComment[]>;
+
+    /** Reply to a top-level comment as the account, returning the reply's id */
+    replyToComment?(
+        connection: PlatformConnection,
+        accountId: string,
+        commentId: string,
+        text: string
+    ): Promise<{ id: string }>;
+
+    /** Like, hide or delete a comment, for the `commentActions` the adapter lists */
+    moderateComment?(
+        connection: PlatformConnection,
+        accountId: string,
+        commentId: string,
+        action: CommentModeration
+    ): Promise<void>;
+
+    getAccountAnalytics(connection: PlatformConnection, accountId?: string): Promise<AccountAnalytics | null>;
+    /** Lifetime metrics for a published post; `accountId` is the account it was published to, when known */
+    getPostAnalytics(connection: PlatformConnection, postId: string, accountId?: string): Promise<PostAnalytics>;
+}
@@ -0,0 +1,265 @@
+/**
+ * YouTube Platform Adapter
+ * Wraps the YouTube Data API client in the PlatformAdapter contract
+ */
+
+import { createYouTubeAPI, YouTubeConfig, YouTubeModerationStatus } from '@/lib/api/youtube';
+import { QuotaExceededError, parseGoogleError } from '@/lib/api/errors';
+import { requestJson } from '@/lib/api/httpClient';
+import { youtubeQuotaService } from '@/lib/services/youtubeQuotaService';
+import { refreshConnectionToken } from './oauth';
+import { downloadMedia } from './media';
+import type { AccountAnalytics, CommentModeration, PlatformAdapter } from './types';
+
+const YOUTUBE_API_BASE = 'https://www.googleapis.com/youtube/v3';
+const YOUTUBE = { service: 'YouTube', parseError: parseGoogleError };
+
+// Earliest date the Analytics API accepts, used to request lifetime totals
+const LIFETIME_START_DATE = '2005-02-14';
+
+// YouTube calls its standard license 'youtube'
+const LICENSES = { standard: 'youtube', creativeCommon: 'creativeCommon' } as const;
+
+// Channel owners can't delete other people's comments; removing them is a moderation status, as in Studio
+const MODERATION_STATUSES: Partial<Record<CommentModeration, YouTubeModerationStatus>> = {
+    hide: 'heldForReview',
+    unhide: 'published',
+    delete: 'rejected',
+};
+
+export const createYouTubeAdapter = (config: YouTubeConfig): PlatformAdapter => {
+    const youtubeAPI = createYouTubeAPI(config);
+
+    return {
+        id: 'youtube',
+        name: 'YouTube',
+        icon: '📺',
+        setupInstructions:
+            'Click "Connect" to start OAuth flow. Ensure your Google Cloud Console has YouTube Data API v3 enabled and redirect URIs configured.',
+
+        // publishAt uploads the video as private and YouTube makes it public on time
+        supportsNativeScheduling: true,
+        videoSettingsFields: [
+            'privacy',
+            'categoryId',
+            'playlistIds',
+            'madeForKids',
+            'license',
+            'embeddable',
+            'defaultLanguage',
+            'localizations',
+        ],
+        // The Data API has no way to like a comment
+        commentActions: ['reply', 'hide', 'delete'],
+
+        refreshToken: refreshConnectionToken,
+
+        async publish(connection, request, onProgress) {
+            let videoFile = request.videoFile;
+
+            if (!videoFile) {
+                // Download video file from storage for upload
+                const videoResponse = await fetch(request.videoUrl);
+                if (!videoResponse.ok) {
+                    throw new Error('Failed to download video for YouTube upload');
+                }
+
+                const videoBlob = await videoResponse.blob();
+                videoFile = new File([videoBlob], `${request.title}.mp4`, { type: videoBlob.type });
+            }
+
+            const settings = request.videoSettings || {};
+            const result = await youtubeAPI.uploadVideo(
+                connection.access_token,
+                videoFile,
+                {
+                    title: request.title,
+                    description: request.description,
+                    tags: request.tags,
+                    categoryId: settings.categoryId,
+                    privacyStatus: settings.privacy || 'public',
+                    madeForKids: settings.madeForKids,
+                    license: settings.license ? LICENSES[settings.license] : undefined,
+                    embeddable: settings.embeddable,
+                    defaultLanguage: settings.defaultLanguage,
+                    localizations: settings.localizations,
+                    publishAt: request.scheduledPublishTime,
+                },
+                onProgress,
+                // Publishing the same stored video to the same channel resumes its session
+                `${connection.id}:${request.videoUrl}`
+            );
+
+            if (request.thumbnailUrl) {
+                try {
+                    const thumbnail = await downloadMedia(request.thumbnailUrl, 'thumbnail.jpg');
+                    await youtubeAPI.setThumbnail(connection.access_token, result.id, thumbnail);
+                } catch (error) {
+                    // The video is already live; failing now would only lead to a duplicate upload on retry
+                    console.error('Failed to set YouTube thumbnail:', error);
+                }
+            }
+
+            for (const playlistId of settings.playlistIds || []) {
+                try {
+                    await youtubeAPI.addToPlaylist(connection.access_token, playlistId, result.id);
+                } catch (error) {
+                    console.error(`Failed to add video to YouTube playlist ${playlistId}:`, error);
+                }
+            }
+
+            for (const caption of request.captions || []) {
+                try {
+                    await youtubeAPI.insertCaption(connection.access_token, result.id, {
+                        language: caption.language,
+                        name: caption.name,
+                        content: caption.vtt,
+                    });
+                } catch (error) {
+                    console.error(`Failed to upload ${caption.language} captions to YouTube:`, error);
+                }
+            }
+
+            return result;
+        },
+
+        async getPublishOptions(connection) {
+            const [categories, playlists] = await Promise.all([
+                youtubeAPI.getVideoCategories(connection.access_token),
+                youtubeAPI.getPlaylists(connection.access_token),
+            ]);
+
+            return { categories, playlists };
+        },
+
+        async listAccounts(connection) {
+            // A Google grant is tied to one channel; other channels are separate connections
+            const channelInfo = await youtubeAPI.getChannelInfo(connection.access_token);
+
+            return [{
+                id: channelInfo.id,
+                name: channelInfo.title,
+                avatarUrl: channelInfo.thumbnailUrl,
+            }];
+        },
+
+        async getAccountAnalytics(connection) {
+            const accessToken = connection.access_token;
+
+            // Stats are low priority: near the quota limit they give way to publishing
+            const channelInfo = await youtubeAPI.getChannelInfo(accessToken, 'low');
+
+            // Get channel statistics using YouTube Data API
+            await youtubeQuotaService.consume('channels.list', 'low');
+            const statsData = await requestJson(
+                `${YOUTUBE_API_BASE}/channels?part=statistics&id=${channelInfo.id}&access_token=${accessToken}`,
+                { ...YOUTUBE, errorMessage: 'Failed to fetch channel statistics' }
+            );
+            const statistics = statsData.items?.[0]?.statistics || {};
+
+            let videoCount = 0;
+            let totalVideoViews = 0;
+
+            try {
+                // Recent videos cost a search (100 units); without them the averages stay at 0
+                await youtubeQuotaService.consume('search.list', 'low');
+                const videosData = await requestJson(
+                    `${YOUTUBE_API_BASE}/search?part=snippet&channelId=${channelInfo.id}&order=date&maxResults=10&type=video&access_token=${accessToken}`,
+                    YOUTUBE
+                ).catch(() => null);
+
+                if (videosData) {
+                    const videoIds = videosData.items?.map((item: any) => item.id.videoId).filter(Boolean) || [];
+
+                    if (videoIds.length > 0) {
+                        // Get statistics for each video
+                        await youtubeQuotaService.consume('videos.list', 'low');
+                        const videoStatsData = await requestJson(
+                            `${YOUTUBE_API_BASE}/videos?part=statistics&id=${videoIds.join(',')}&access_token=${accessToken}`,
+                            YOUTUBE
+                        ).catch(() => null);
+
+                        if (videoStatsData) {
+                            videoCount = videoStatsData.items?.length || 0;
+                            totalVideoViews = videoStatsData.items?.reduce((sum: number, video: any) => {
+                                return sum + (parseInt(video.statistics.viewCount) || 0);
+                            }, 0) || 0;
+                        }
+                    }
+                }
+            } catch (error) {
+                if (!(error instanceof QuotaExceededError)) throw error;
+                console.warn('Skipping recent YouTube video stats:', error.message);
+            }
+
+            const analytics: AccountAnalytics = {
+                platform: 'youtube',
+                account_id: channelInfo.id,
+                account_name: channelInfo.title,
+                followers: parseInt(statistics.subscriberCount) || 0,
+                total_views: parseInt(statistics.viewCount) || 0,
+                total_videos: videoCount,
+                total_posts: videoCount,
+                average_views_per_video: videoCount > 0 ? totalVideoViews / videoCount : 0,
+                average_engagement_rate: 0, // Would need to calculate from likes, comments, etc.
+            };
+
+            return analytics;
+        },
+
+        async listComments(connection, accountId) {
+            const comments = await youtubeAPI.getChannelComments(connection.access_token, accountId);
+            const titles = await youtubeAPI
+                .getVideoTitles(connection.access_token, [...new Set(comments.map(comment => comment.videoId))])
+                .catch(() => ({} as Record<string, string>));
+
+            return comments.map(comment => ({
+                id: comment.id,
+                postId: comment.videoId,
+                postTitle: titles[comment.videoId],
+                postUrl: `https://www.youtube.com/watch?v=${comment.videoId}`,
+                parentId: comment.parentId,
+                authorName: comment.authorName,
+                authorId: comment.authorChannelId,
+                authorAvatarUrl: comment.authorAvatarUrl,
+                text: comment.text,
+                likeCount: comment.likeCount,
+                publishedAt: comment.publishedAt,
+                isOwn: comment.authorChannelId === accountId,
+            }));
+        },
+
+        async replyToComment(connection, _accountId, commentId, text) {
+            const reply = await youtubeAPI.replyToComment(connection.access_token, commentId, text);
+            return { id: reply.id };
+        },
+
+        async moderateComment(connection, _accountId, commentId, action) {
+            const status = MODERATION_STATUSES[action];
+            if (!status) {
+                throw new Error(`YouTube comments can't be ${action}d`);
+            }
+
+            await youtubeAPI.setCommentModerationStatus(connection.access_token, commentId, status);
+        },
+
+        async getPostAnalytics(connection, postId) {
+            const today = new Date().toISOString().split('T')[0];
+            const analytics = await youtubeAPI.getVideoAnalytics(
+                connection.access_token,
+                postId,
+                LIFETIME_START_DATE,
+                today
+            );
+
+            return {
+                views: analytics.views,
+                likes: analytics.likes,
+                comments: analytics.comments,
+                shares: analytics.shares,
+                watchTimeSeconds: analytics.watchTime,
+                averageViewDuration: analytics.averageViewDuration,
+            };
+        },
+    };
+};
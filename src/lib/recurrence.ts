@@ -0,0 +1,247 @@
+/**
+ * Recurrence Rules
+ * The part of RFC 5545 RRULEs recurring posts use: daily, weekly on given
+ * weekdays and monthly on given days, every INTERVAL periods, ending on
+ * UNTIL or after COUNT occurrences. Occurrences keep the first post's time of
+ * day on the clock of the series' time zone.
+ *
+ * The process-scheduled-posts worker expands rules the same way; keep the two
+ * in step.
+ */
+
+import { getZonedParts, zonedTimeToUtc } from '@/lib/timeZone';
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY';
+
+export type Weekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU';
+
+/** Weeks start on Monday (RFC 5545's default WKST) */
+export const WEEKDAYS: Weekday[] = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+
+export interface RecurrenceRule {
+    freq: RecurrenceFrequency;
+    interval: number;
+    /** Weekly only; the first occurrence's weekday when empty */
+    byDay: Weekday[];
+    /** Monthly only, negative counts from the month's end; the first occurrence's day when empty */
+    byMonthDay: number[];
+    until: Date | null;
+    count: number | null;
+}
+
+const FREQUENCIES: RecurrenceFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY'];
+
+const WEEKDAY_NAMES: Record<Weekday, string> = {
+    MO: 'Mon', TU: 'Tue', WE: 'Wed', TH: 'Thu', FR: 'Fri', SA: 'Sat', SU: 'Sun',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Periods looked at before giving up on a rule that never matches
+const MAX_PERIODS = 20000;
+
+// 20251231T235959Z
+const parseUntil = (value: string) => {
+    const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/);
+    if (!match) {
+        throw new Error(`Invalid UNTIL in recurrence rule: ${value}`);
+    }
+    const [, year, month, day, hour = '23', minute = '59', second = '59'] = match;
+    return new Date(Date.UTC(+year, +month - 1, +day, +hour, +minute, +second));
+};
+
+const formatUntil = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+/**
+ * Parse an RRULE value such as FREQ=WEEKLY;BYDAY=TU;COUNT=10, with or without the RRULE: prefix
+ */
+export const parseRRule = (value: string): RecurrenceRule => {
+    const rule: RecurrenceRule = { freq: 'DAILY', interval: 1, byDay: [], byMonthDay: [], until: null, count: null };
+    let hasFreq = false;
+
+    for (const part of value.replace(/^RRULE:/i, '').split(';').filter(Boolean)) {
+        const [name, rawValue = ''] = part.split('=');
+        const fieldValue = rawValue.toUpperCase();
+
+        switch (name.toUpperCase()) {
+            case 'FREQ':
+                if (!FREQUENCIES.includes(fieldValue as RecurrenceFrequency)) {
+                    throw new Error(`Unsupported recurrence frequency: ${rawValue}`);
+                }
+                rule.freq = fieldValue as RecurrenceFrequency;
+                hasFreq = true;
+                break;
+            case 'INTERVAL':
+                rule.interval = Math.max(1, parseInt(fieldValue, 10) || 1);
+                break;
+            case 'BYDAY':
+                rule.byDay = fieldValue.split(',').map(day => {
+                    if (!WEEKDAYS.includes(day as Weekday)) {
+                        throw new Error(`Unsupported BYDAY value: ${day}`);
+                    }
+                    return day as Weekday;
+                });
+                break;
+            case 'BYMONTHDAY':
+                rule.byMonthDay = fieldValue.split(',').map(day => {
+                    const monthDay = parseInt(day, 10);
+                    if (!monthDay || Math.abs(monthDay) > 31) {
+                        throw new Error(`Invalid BYMONTHDAY value: ${day}`);
+                    }
+                    return monthDay;
+                });
+                break;
+            case 'UNTIL':
+                rule.until = parseUntil(fieldValue);
+                break;
+            case 'COUNT':
+                rule.count = Math.max(1, parseInt(fieldValue, 10) || 1);
+                break;
+            case 'WKST':
+                break;
+            default:
+                throw new Error(`Unsupported recurrence rule part: ${name}`);
+        }
+    }
+
+    if (!hasFreq) {
+        throw new Error('Recurrence rule has no FREQ');
+    }
+
+    return rule;
+};
+
+export const formatRRule = (rule: RecurrenceRule): string => {
+    const parts = [`FREQ=${rule.freq}`];
+
+    if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+    if (rule.freq === 'WEEKLY' && rule.byDay.length > 0) {
+        parts.push(`BYDAY=${WEEKDAYS.filter(day => rule.byDay.includes(day)).join(',')}`);
+    }
+    if (rule.freq === 'MONTHLY' && rule.byMonthDay.length > 0) {
+        parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+    }
+    if (rule.until) parts.push(`UNTIL=${formatUntil(rule.until)}`);
+    else if (rule.count) parts.push(`COUNT=${rule.count}`);
+
+    return parts.join(';');
+};
+
+/**
+ * A short summary like "Every 2 weeks on Tue, Thu, 10 times"
+ */
+export const describeRRule = (rule: RecurrenceRule): string => {
+    const unit = { DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month' }[rule.freq];
+    let description = rule.interval > 1 ? `Every ${rule.interval} ${unit}s` : `Every ${unit}`;
+
+    if (rule.freq === 'WEEKLY' && rule.byDay.length > 0) {
+        description += ` on ${WEEKDAYS.filter(day => rule.byDay.includes(day)).map(day => WEEKDAY_NAMES[day]).join(', ')}`;
+    }
+    if (rule.freq === 'MONTHLY' && rule.byMonthDay.length > 0) {
+        description += ` on day ${rule.byMonthDay.map(day => (day === -1 ? 'last' : day)).join(', ')}`;
+    }
+    if (rule.until) {
+        description += `, until ${rule.until.toLocaleDateString()}`;
+    } else if (rule.count) {
+        description += `, ${rule.count} ${rule.count === 1 ? 'time' : 'times'}`;
+    }
+
+    return description;
+};
+
+// Days since the epoch of a calendar date
+const toDayNumber = (year: number, month: number, day: number) => Date.UTC(year, month - 1, day) / DAY_MS;
+
+const daysInMonth = (year: number, month: number) => new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+/**
+ * The calendar days of one period, in order
+ */
+const getPeriodDays = (rule: RecurrenceRule, start: { year: number; month: number; day: number; weekday: number }, period: number) => {
+    const startDay = toDayNumber(start.year, start.month, start.day);
+
+    switch (rule.freq) {
+        case 'DAILY':
+            return [startDay + period * rule.interval];
+
+        case 'WEEKLY': {
+            const mondayOffset = (start.weekday + 6) % 7;
+            const weekStart = startDay - mondayOffset + period * rule.interval * 7;
+            const weekdays = rule.byDay.length > 0 ? rule.byDay : [WEEKDAYS[mondayOffset]];
+            return WEEKDAYS
+                .map((day, index) => (weekdays.includes(day) ? weekStart + index : null))
+                .filter((day): day is number => day !== null);
+        }
+
+        case 'MONTHLY': {
+            const monthIndex = start.year * 12 + (start.month - 1) + period * rule.interval;
+            const year = Math.floor(monthIndex / 12);
+            const month = (monthIndex % 12) + 1;
+            const length = daysInMonth(year, month);
+            const monthDays = rule.byMonthDay.length > 0 ? rule.byMonthDay : [start.day];
+
+            // Days the month doesn't have are skipped, as RFC 5545 says
+            return [...new Set(monthDays.map(day => (day > 0 ? day : length + 1 + day)))]
+                .filter(day => day >= 1 && day <= length)
+                .sort((a, b) => a - b)
+                .map(day => toDayNumber(year, month, day));
+        }
+    }
+};
+
+interface OccurrenceOptions {
+    /** Only occurrences at or after this */
+    from?: Date;
+    /** Only occurrences at or before this */
+    to?: Date;
+    /** Stop after this many */
+    limit?: number;
+}
+
+/**
+ * The series' occurrences in order; the first is `start` itself when it
+ * matches the rule. Pass `to` or `limit` for rules without an end.
+ */
+export const getOccurrences = (
+    rule: RecurrenceRule,
+    start: Date,
+    timeZone: string,
+    { from, to, limit }: OccurrenceOptions = {}
+): Date[] => {
+    const startParts = getZonedParts(start, timeZone);
+    const occurrences: Date[] = [];
+    let count = 0;
+
+    for (let period = 0; period < MAX_PERIODS; period++) {
+        for (const dayNumber of getPeriodDays(rule, startParts, period)) {
+            const date = new Date(dayNumber * DAY_MS);
+            const occurrence = zonedTimeToUtc({
+                year: date.getUTCFullYear(),
+                month: date.getUTCMonth() + 1,
+                day: date.getUTCDate(),
+                hour: startParts.hour,
+                minute: startParts.minute,
+            }, timeZone);
+
+            if (occurrence < start) continue;
+
+            count++;
+            if ((rule.count && count > rule.count) || (rule.until && occurrence > rule.until) || (to && occurrence > to)) {
+                return occurrences;
+            }
+
+            if (!from || occurrence >= from) {
+                occurrences.push(occurrence);
+                if (limit && occurrences.length >= limit) return occurrences;
+            }
+        }
+    }
+
+    return occurrences;
+};
+
+/**
+ * The first occurrence after the given one, or null once the series is over
+ */
+export const getNextOccurrence = (rule: RecurrenceRule, start: Date, timeZone: string, after: Date): Date | null =>
+    getOccurrences(rule, start, timeZone, { from: new Date(after.getTime() + 1), limit: 1 })[0] ?? null;
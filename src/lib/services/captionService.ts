@@ -0,0 +1,161 @@
+/**
+ * Caption Service
+ * Parses, formats and stores per-language caption tracks (SRT and WebVTT)
+ */
+
+import { db } from '@/lib/database';
+
+export interface CaptionCue {
+    start: number; // seconds
+    end: number; // seconds
+    text: string;
+}
+
+export interface CaptionTrack {
+    id?: string;
+    language: string; // BCP-47, e.g. 'en' or 'pt-BR'
+    name: string;
+    cues: CaptionCue[];
+}
+
+export type CaptionFormat = 'srt' | 'vtt';
+
+// 00:01:02,500 (SRT) or 00:01:02.500 / 01:02.500 (VTT)
+const TIMESTAMP_PATTERN = /(?:(\d+):)?(\d{1,2}):(\d{2})[,.](\d{3})/;
+
+const parseTimestamp = (value: string): number => {
+    const match = value.trim().match(TIMESTAMP_PATTERN);
+    if (!match) {
+        throw new Error(`Invalid caption timestamp: ${value}`);
+    }
+
+    const [, hours, minutes, seconds, milliseconds] = match;
+    return (parseInt(hours || '0') * 3600) + (parseInt(minutes) * 60) + parseInt(seconds) + (parseInt(milliseconds) / 1000);
+};
+
+const formatTimestamp = (time: number, separator: ',' | '.'): string => {
+    const totalMilliseconds = Math.max(0, Math.round(time * 1000));
+    const hours = Math.floor(totalMilliseconds / 3600000);
+    const minutes = Math.floor((totalMilliseconds % 3600000) / 60000);
+    const seconds = Math.floor((totalMilliseconds % 60000) / 1000);
+    const milliseconds = totalMilliseconds % 1000;
+
+    return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${seconds
+        .toString()
+        .padStart(2, '0')}${separator}${milliseconds.toString().padStart(3, '0')}`;
+};
+
+class CaptionService {
+    /**
+     * Parse SRT or WebVTT text; both use the same cue layout, so one pass reads either
+     */
+    parse(text: string): CaptionCue[] {
+        const normalized = text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+        const blocks = normalized.split(/\n{2,}/);
+        const cues: CaptionCue[] = [];
+
+        for (const block of blocks) {
+            const lines = block.split('\n').filter(line => line.trim() !== '');
+            const timingIndex = lines.findIndex(line => line.includes('-->'));
+
+            // Skips the WEBVTT header, NOTE/STYLE/REGION blocks and stray text
+            if (timingIndex === -1) continue;
+
+            const [startText, endAndSettings] = lines[timingIndex].split('-->');
+            // VTT cue settings (align:start etc.) follow the end time
+            const endText = endAndSettings.trim().split(/\s+/)[0];
+            const cueText = lines.slice(timingIndex + 1).join('\n').trim();
+
+            if (!cueText) continue;
+
+            cues.push({
+                start: parseTimestamp(startText),
+                end: parseTimestamp(endText),
+                text: cueText,
+            });
+        }
+
+        return cues.sort((a, b) => a.start - b.start);
+    }
+
+    toSrt(cues: CaptionCue[]): string {
+        return cues
+            .map((cue, index) =>
+                `${index + 1}\n${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}\n${cue.text}`
+            )
+            .join('\n\n') + '\n';
+    }
+
+    toVtt(cues: CaptionCue[]): string {
+        return 'WEBVTT\n\n' + cues
+            .map(cue => `${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}\n${cue.text}`)
+            .join('\n\n') + '\n';
+    }
+
+    format(cues: CaptionCue[], format: CaptionFormat): string {
+        return format === 'srt' ? this.toSrt(cues) : this.toVtt(cues);
+    }
+
+    /**
+     * Plain text of a track, for AI content generation
+     */
+    toTranscript(cues: CaptionCue[]): string {
+        return cues
+            .map(cue => cue.text.replace(/<[^>]+>/g, '').replace(/\n/g, ' '))
+            .join(' ')
+            .replace(/\s+/g, ' ')
+            .trim();
+    }
+
+    /**
+     * A video's stored tracks, in the order they were added
+     */
+    async getTracks(videoId: string): Promise<CaptionTrack[]> {
+        const { data, error } = await db
+            .from('caption_tracks')
+            .select('id, language, name, cues')
+            .eq('video_id', videoId)
+            .order('created_at');
+
+        if (error) throw error;
+        return (data || []) as CaptionTrack[];
+    }
+
+    /**
+     * Store a video's tracks, replacing any existing track in the same language
+     * and removing the ones no longer in the list
+     */
+    async saveTracks(userId: string, videoId: string, tracks: CaptionTrack[]): Promise<void> {
+        if (tracks.length > 0) {
+            const { error } = await db
+                .from('caption_tracks')
+                .upsert(
+                    tracks.map(track => ({
+                        user_id: userId,
+                        video_id: videoId,
+                        language: track.language,
+                        name: track.name,
+                        cues: track.cues,
+                    })),
+                    { onConflict: 'video_id,language' }
+                );
+
+            if (error) throw error;
+        }
+
+        let removed = db
+            .from('caption_tracks')
+            .delete()
+            .eq('user_id', userId)
+            .eq('video_id', videoId);
+
+        if (tracks.length > 0) {
+            removed = removed.not('language', 'in', `(${tracks.map(track => `"${track.language}"`).join(',')})`);
+        }
+
+        const { error } = await removed;
+        if (error) throw error;
+    }
+}
+
+export const captionService = new CaptionService();
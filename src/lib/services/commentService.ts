@@ -0,0 +1,512 @@
+/**
+ * Comment Service
+ * Syncs comments from every platform with a comment API into platform_comments,
+ * runs the moderation rules on what's new, and sends replies and moderation back
+ * through the platform adapters
+ */
+
+import { db } from '@/lib/database';
+import { getPlatformAdapter, getPlatformAdapters, tokenManager } from '@/lib/platforms';
+import type { CommentAction, CommentModeration, PlatformComment, PlatformConnection } from '@/lib/platforms';
+import { findMatchingRule, moderationService } from './moderationService';
+import type { CommentRule, CommentSentiment, ReplyTemplate } from './moderationService';
+
+export interface StoredComment {
+    id: string;
+    user_id: string;
+    connection_id: string;
+    platform: string;
+    account_id: string;
+    post_id: string;
+    post_title: string | null;
+    post_url: string | null;
+    comment_id: string;
+    /** Top-level comment, for replies */
+    parent_comment_id: string | null;
+    author_name: string;
+    author_id: string | null;
+    author_avatar_url: string | null;
+    text: string;
+    like_count: number;
+    is_own: boolean;
+    liked: boolean;
+    hidden: boolean;
+    /** team_members id */
+    assigned_to: string | null;
+    /** Set once the comment has been through moderation */
+    sentiment: CommentSentiment | null;
+    /** Waiting for someone to review it */
+    flagged: boolean;
+    matched_rule_id: string | null;
+    published_at: string;
+}
+
+/** A top-level comment with its replies, oldest reply first */
+export interface CommentThread {
+    comment: StoredComment;
+    replies: StoredComment[];
+    /** Nobody has answered from the account yet */
+    unanswered: boolean;
+}
+
+export interface TeamMember {
+    id: string;
+    name: string;
+    email: string | null;
+}
+
+/** The platform_accounts columns the inbox reads */
+interface PlatformAccountRow {
+    account_id: string;
+    name: string;
+}
+
+export interface CommentSyncResult {
+    synced: number;
+    /** Platforms whose comments couldn't be read, e.g. a connection that needs reconnecting */
+    failed: string[];
+}
+
+// How often new comments are pulled while someone is signed in
+export const COMMENT_SYNC_INTERVAL = 10 * 60 * 1000;
+
+// Newest comments the inbox loads
+const INBOX_LIMIT = 1000;
+
+// Comments moderated per sync; the rest wait for the next one
+const MODERATION_BATCH_SIZE = 200;
+
+const toRow = (userId: string, connection: PlatformConnection, accountId: string, comment: PlatformComment) => ({
+    user_id: userId,
+    connection_id: connection.id,
+    platform: connection.platform,
+    account_id: accountId,
+    post_id: comment.postId,
+    post_title: comment.postTitle ?? null,
+    post_url: comment.postUrl ?? null,
+    comment_id: comment.id,
+    parent_comment_id: comment.parentId ?? null,
+    author_name: comment.authorName,
+    author_id: comment.authorId ?? null,
+    author_avatar_url: comment.authorAvatarUrl ?? null,
+    text: comment.text,
+    like_count: comment.likeCount,
+    is_own: comment.isOwn,
+    // Platforms that don't report these keep what the inbox last set
+    ...(comment.liked !== undefined && { liked: comment.liked }),
+    ...(comment.hidden !== undefined && { hidden: comment.hidden }),
+    published_at: comment.publishedAt,
+    synced_at: new Date().toISOString(),
+});
+
+class CommentService {
+    private pendingSync: Promise<CommentSyncResult> | null = null;
+    private scheduledSync: { userId: string; timer: ReturnType<typeof setInterval> } | null = null;
+    private syncListeners = new Set<(result: CommentSyncResult) => void>();
+    lastSyncedAt: Date | null = null;
+
+    /**
+     * Platforms whose comments the inbox can show
+     */
+    getCommentPlatforms(): string[] {
+        return getPlatformAdapters()
+            .filter(adapter => adapter.listComments)
+            .map(adapter => adapter.id);
+    }
+
+    /**
+     * Inbox actions a platform supports
+     */
+    getCommentActions(platform: string): CommentAction[] {
+        return getPlatformAdapter(platform).commentActions || [];
+    }
+
+    /**
+     * Pull recent comments for every connected account; concurrent callers share one run
+     */
+    syncComments(userId: string): Promise<CommentSyncResult> {
+        if (!this.pendingSync) {
+            this.pendingSync = this.runSync(userId).finally(() => {
+                this.pendingSync = null;
+            });
+        }
+
+        return this.pendingSync;
+    }
+
+    /**
+     * Sync now and then every COMMENT_SYNC_INTERVAL until the returned function is called.
+     * Starting again for the same user keeps the running schedule.
+     */
+    startScheduledSync(userId: string): () => void {
+        if (this.scheduledSync?.userId !== userId) {
+            this.stopScheduledSync();
+
+            const sync = () => this.syncComments(userId).catch(error => console.error('Scheduled comment sync failed:', error));
+            this.scheduledSync = { userId, timer: setInterval(sync, COMMENT_SYNC_INTERVAL) };
+            sync();
+        }
+
+        return () => this.stopScheduledSync();
+    }
+
+    /**
+     * Called after every sync, scheduled or not; returns the unsubscribe function
+     */
+    onSynced(listener: (result: CommentSyncResult) => void): () => void {
+        this.syncListeners.add(listener);
+        return () => {
+            this.syncListeners.delete(listener);
+        };
+    }
+
+    stopScheduledSync(): void {
+        if (this.scheduledSync) {
+            clearInterval(this.scheduledSync.timer);
+            this.scheduledSync = null;
+        }
+    }
+
+    private async runSync(userId: string): Promise<CommentSyncResult> {
+        const platforms = this.getCommentPlatforms();
+        const result: CommentSyncResult = { synced: 0, failed: [] };
+
+        const { data: connections, error } = await db
+            .from('platform_connections')
+            .select('*')
+            .eq('user_id', userId)
+            .in('platform', platforms);
+
+        if (error) throw error;
+
+        for (const connection of (connections || []) as PlatformConnection[]) {
+            if (!connection.access_token || connection.status === 'needs_reauth') continue;
+
+            const adapter = getPlatformAdapter(connection.platform);
+
+            try {
+                const { data: accounts } = await db
+                    .from('platform_accounts')
+                    .select('account_id')
+                    .eq('connection_id', connection.id);
+
+                for (const { account_id: accountId } of (accounts || []) as Pick<PlatformAccountRow, 'account_id'>[]) {
+                    const comments = await tokenManager.withFreshToken(connection, conn =>
+                        adapter.listComments!(conn, accountId)
+                    );
+
+                    if (comments.length === 0) continue;
+
+                    const { error: upsertError } = await db
+                        .from('platform_comments')
+                        .upsert(
+                            comments.map(comment => toRow(userId, connection, accountId, comment)),
+                            { onConflict: 'user_id,platform,comment_id' }
+                        );
+
+                    if (upsertError) throw upsertError;
+                    result.synced += comments.length;
+                }
+            } catch (syncError) {
+                console.error(`Error syncing ${connection.platform} comments:`, syncError);
+                if (!result.failed.includes(adapter.name)) {
+                    result.failed.push(adapter.name);
+                }
+            }
+        }
+
+        try {
+            await this.applyModeration(userId);
+        } catch (moderationError) {
+            console.error('Error moderating comments:', moderationError);
+        }
+
+        this.lastSyncedAt = new Date();
+        this.syncListeners.forEach(listener => listener(result));
+        return result;
+    }
+
+    /**
+     * Label and run the rules on comments no sync has checked yet
+     */
+    private async applyModeration(userId: string): Promise<void> {
+        const { data, error } = await db
+            .from('platform_comments')
+            .select('*')
+            .eq('user_id', userId)
+            .eq('is_own', false)
+            .is('moderated_at', null)
+            .order('published_at')
+            .limit(MODERATION_BATCH_SIZE);
+
+        if (error) throw error;
+
+        const comments = (data || []) as StoredComment[];
+        if (comments.length === 0) return;
+
+        const [rules, templates, sentiments] = await Promise.all([
+            moderationService.getRules(userId),
+            moderationService.getTemplates(userId),
+            moderationService.classifySentiment(comments.map(comment => comment.text)),
+        ]);
+
+        for (const [index, comment] of comments.entries()) {
+            const rule = findMatchingRule(rules, comment);
+            let flagged = comment.flagged;
+
+            if (rule) {
+                try {
+                    flagged = await this.applyRule(userId, comment, rule, templates) || flagged;
+                } catch (ruleError) {
+                    // Someone should see what the rule couldn't deal with
+                    console.error(`Rule "${rule.name}" failed on comment ${comment.comment_id}:`, ruleError);
+                    flagged = true;
+                }
+            }
+
+            // A no-op when the rule deleted the comment
+            const { error: updateError } = await db
+                .from('platform_comments')
+                .update({
+                    sentiment: sentiments[index],
+                    flagged,
+                    matched_rule_id: rule?.id ?? null,
+                    moderated_at: new Date().toISOString(),
+                })
+                .eq('user_id', userId)
+                .eq('id', comment.id);
+
+            if (updateError) throw updateError;
+        }
+    }
+
+    /**
+     * Carry out a rule's action; returns whether the comment needs review.
+     * Actions the platform doesn't support flag the comment instead.
+     */
+    private async applyRule(userId: string, comment: StoredComment, rule: CommentRule, templates: ReplyTemplate[]): Promise<boolean> {
+        const actions = this.getCommentActions(comment.platform);
+
+        switch (rule.action) {
+            case 'flag':
+                return true;
+
+            case 'hide':
+                if (!actions.includes('hide')) return true;
+                if (!comment.hidden) await this.moderate(userId, comment, 'hide');
+                return false;
+
+            case 'delete':
+                if (!actions.includes('delete')) return true;
+                await this.moderate(userId, comment, 'delete');
+                return false;
+
+            case 'reply': {
+                const template = templates.find(saved => saved.id === rule.reply_template_id);
+                if (!template || !actions.includes('reply')) return true;
+                await this.reply(userId, comment, template.body.split('{name}').join(comment.author_name));
+                return false;
+            }
+        }
+    }
+
+    /**
+     * Clear or set the review flag
+     */
+    async setFlagged(userId: string, commentId: string, flagged: boolean): Promise<void> {
+        const { error } = await db
+            .from('platform_comments')
+            .update({ flagged })
+            .eq('user_id', userId)
+            .eq('id', commentId);
+
+        if (error) throw error;
+    }
+
+    /**
+     * Stored comments grouped into threads, newest first
+     */
+    async getThreads(userId: string): Promise<CommentThread[]> {
+        const { data, error } = await db
+            .from('platform_comments')
+            .select('*')
+            .eq('user_id', userId)
+            .order('published_at', { ascending: false })
+            .limit(INBOX_LIMIT);
+
+        if (error) throw error;
+
+        const comments = (data || []) as StoredComment[];
+        const replies = new Map<string, StoredComment[]>();
+
+        for (const comment of comments) {
+            if (comment.parent_comment_id) {
+                const key = `${comment.platform}:${comment.parent_comment_id}`;
+                replies.set(key, [comment, ...(replies.get(key) || [])]);
+            }
+        }
+
+        return comments
+            .filter(comment => !comment.parent_comment_id)
+            .map(comment => {
+                const threadReplies = replies.get(`${comment.platform}:${comment.comment_id}`) || [];
+                return {
+                    comment,
+                    replies: threadReplies,
+                    unanswered: !comment.is_own && !threadReplies.some(reply => reply.is_own),
+                };
+            });
+    }
+
+    /**
+     * Reply as the account; replies to a reply go to its thread, as every platform nests one level
+     */
+    async reply(userId: string, comment: StoredComment, text: string): Promise<StoredComment> {
+        const connection = await this.getConnection(userId, comment.connection_id);
+        const adapter = getPlatformAdapter(comment.platform);
+        const parentId = comment.parent_comment_id || comment.comment_id;
+
+        if (!adapter.replyToComment) {
+            throw new Error(`${adapter.name} comments can't be answered from the inbox`);
+        }
+
+        const reply = await tokenManager.withFreshToken(connection, conn =>
+            adapter.replyToComment!(conn, comment.account_id, parentId, text)
+        );
+
+        const { data: account } = await db
+            .from('platform_accounts')
+            .select('name')
+            .eq('connection_id', connection.id)
+            .eq('account_id', comment.account_id)
+            .maybeSingle<Pick<PlatformAccountRow, 'name'>>();
+
+        // Stored now so the thread shows as answered before the next sync
+        const { data, error } = await db
+            .from('platform_comments')
+            .upsert(
+                toRow(userId, connection, comment.account_id, {
+                    id: reply.id,
+                    postId: comment.post_id,
+                    postTitle: comment.post_title ?? undefined,
+                    postUrl: comment.post_url ?? undefined,
+                    parentId,
+                    authorName: account?.name || adapter.name,
+                    authorId: comment.account_id,
+                    text,
+                    likeCount: 0,
+                    publishedAt: new Date().toISOString(),
+                    isOwn: true,
+                }),
+                { onConflict: 'user_id,platform,comment_id' }
+            )
+            .select()
+            .single<StoredComment>();
+
+        if (error) throw error;
+        return data;
+    }
+
+    /**
+     * Like, hide or delete a comment on the platform, then record the change
+     */
+    async moderate(userId: string, comment: StoredComment, action: CommentModeration): Promise<void> {
+        const connection = await this.getConnection(userId, comment.connection_id);
+        const adapter = getPlatformAdapter(comment.platform);
+
+        if (!adapter.moderateComment) {
+            throw new Error(`${adapter.name} comments can't be moderated from the inbox`);
+        }
+
+        await tokenManager.withFreshToken(connection, conn =>
+            adapter.moderateComment!(conn, comment.account_id, comment.comment_id, action)
+        );
+
+        if (action === 'delete') {
+            // A deleted comment takes its replies with it
+            const { error } = await db
+                .from('platform_comments')
+                .delete()
+                .eq('user_id', userId)
+                .eq('platform', comment.platform)
+                .or(`comment_id.eq."${comment.comment_id}",parent_comment_id.eq."${comment.comment_id}"`);
+
+            if (error) throw error;
+            return;
+        }
+
+        const updates = action === 'like' || action === 'unlike'
+            ? { liked: action === 'like', like_count: Math.max(0, comment.like_count + (action === 'like' ? 1 : -1)) }
+            : { hidden: action === 'hide' };
+
+        const { error } = await db
+            .from('platform_comments')
+            .update(updates)
+            .eq('user_id', userId)
+            .eq('id', comment.id);
+
+        if (error) throw error;
+    }
+
+    async assign(userId: string, commentId: string, teamMemberId: string | null): Promise<void> {
+        const { error } = await db
+            .from('platform_comments')
+            .update({ assigned_to: teamMemberId })
+            .eq('user_id', userId)
+            .eq('id', commentId);
+
+        if (error) throw error;
+    }
+
+    async getTeamMembers(userId: string): Promise<TeamMember[]> {
+        const { data, error } = await db
+            .from('team_members')
+            .select('id, name, email')
+            .eq('user_id', userId)
+            .order('name');
+
+        if (error) throw error;
+        return (data || []) as TeamMember[];
+    }
+
+    async addTeamMember(userId: string, name: string, email?: string): Promise<TeamMember> {
+        const { data, error } = await db
+            .from('team_members')
+            .insert({ user_id: userId, name, email: email || null })
+            .select('id, name, email')
+            .single<TeamMember>();
+
+        if (error) throw error;
+        return data;
+    }
+
+    /**
+     * Their comments go back to unassigned (ON DELETE SET NULL)
+     */
+    async removeTeamMember(userId: string, teamMemberId: string): Promise<void> {
+        const { error } = await db
+            .from('team_members')
+            .delete()
+            .eq('user_id', userId)
+            .eq('id', teamMemberId);
+
+        if (error) throw error;
+    }
+
+    private async getConnection(userId: string, connectionId: string): Promise<PlatformConnection> {
+        const { data: connection, error } = await db
+            .from('platform_connections')
+            .select('*')
+            .eq('user_id', userId)
+            .eq('id', connectionId)
+            .single<PlatformConnection>();
+
+        if (error || !connection) {
+            throw new Error('This comment\'s account is no longer connected');
+        }
+
+        return connection;
+    }
+}
+
+export const commentService = new CommentService();
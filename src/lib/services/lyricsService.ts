@@ -4,6 +4,8 @@
  */
 
 import { TrackLyrics, SyncedLyricsLine } from '@/types/music';
+import { PlatformApiError } from '@/lib/api/errors';
+import { requestJson } from '@/lib/api/httpClient';
 
 interface LyricsSearchResult {
     lyrics: string;
@@ -105,16 +107,11 @@ class LyricsService {
             const cleanArtist = this.cleanSearchTerm(artist);
             const cleanTitle = this.cleanSearchTerm(title);
 
-            const response = await fetch(
-                `https://api.lyrics.ovh/v1/${encodeURIComponent(cleanArtist)}/${encodeURIComponent(cleanTitle)}`
+            const data = await requestJson(
+                `https://api.lyrics.ovh/v1/${encodeURIComponent(cleanArtist)}/${encodeURIComponent(cleanTitle)}`,
+                { service: 'Lyrics.ovh' }
             );
 
-            if (!response.ok) {
-                return null;
-            }
-
-            const data = await response.json();
-
             if (!data.lyrics) {
                 return null;
             }
@@ -126,6 +123,8 @@ class LyricsService {
                 language: this.detectLanguage(data.lyrics),
             };
         } catch (error) {
+            // OVH answers 404 for songs it has no lyrics for
+            if (error instanceof PlatformApiError && error.status === 404) return null;
             console.error('OVH lyrics search failed:', error);
             return null;
         }
@@ -142,15 +141,10 @@ class LyricsService {
 
         try {
             // First, search for the track
-            const searchResponse = await fetch(
-                `https://api.musixmatch.com/ws/1.1/track.search?apikey=${apiKey}&q_artist=${encodeURIComponent(artist)}&q_track=${encodeURIComponent(title)}&format=json&page_size=1`
+            const searchData = await requestJson(
+                `https://api.musixmatch.com/ws/1.1/track.search?apikey=${apiKey}&q_artist=${encodeURIComponent(artist)}&q_track=${encodeURIComponent(title)}&format=json&page_size=1`,
+                { service: 'Musixmatch' }
             );
-
-            if (!searchResponse.ok) {
-                return null;
-            }
-
-            const searchData = await searchResponse.json();
             const track = searchData.message?.body?.track_list?.[0]?.track;
 
             if (!track) {
@@ -158,15 +152,10 @@ class LyricsService {
             }
 
             // Get the lyrics
-            const lyricsResponse = await fetch(
-                `https://api.musixmatch.com/ws/1.1/track.lyrics.get?apikey=${apiKey}&track_id=${track.track_id}&format=json`
+            const lyricsData = await requestJson(
+                `https://api.musixmatch.com/ws/1.1/track.lyrics.get?apikey=${apiKey}&track_id=${track.track_id}&format=json`,
+                { service: 'Musixmatch' }
             );
-
-            if (!lyricsResponse.ok) {
-                return null;
-            }
-
-            const lyricsData = await lyricsResponse.json();
             const lyrics = lyricsData.message?.body?.lyrics?.lyrics_body;
 
             if (!lyrics) {
@@ -196,20 +185,15 @@ class LyricsService {
 
         try {
             // Search for the song
-            const searchResponse = await fetch(
+            const searchData = await requestJson(
                 `https://api.genius.com/search?q=${encodeURIComponent(`${artist} ${title}`)}`,
                 {
+                    service: 'Genius',
                     headers: {
                         'Authorization': `Bearer ${apiKey}`,
                     },
                 }
             );
-
-            if (!searchResponse.ok) {
-                return null;
-            }
-
-            const searchData = await searchResponse.json();
             const song = searchData.response?.hits?.[0]?.result;
 
             if (!song) {
@@ -217,20 +201,15 @@ class LyricsService {
             }
 
             // Get the song details and lyrics URL
-            const songResponse = await fetch(
+            const songData = await requestJson(
                 `https://api.genius.com/songs/${song.id}`,
                 {
+                    service: 'Genius',
                     headers: {
                         'Authorization': `Bearer ${apiKey}`,
                     },
                 }
             );
-
-            if (!songResponse.ok) {
-                return null;
-            }
-
-            const songData = await songResponse.json();
             const lyricsUrl = songData.response?.song?.lyrics_url;
 
             if (!lyricsUrl) {
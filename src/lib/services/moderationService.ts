@@ -0,0 +1,376 @@
+/**
+ * Moderation Service
+ * Comment rules and saved replies, the matcher the inbox runs on new comments,
+ * and sentiment labels from the configured AI provider or a local word list
+ */
+
+import { db } from '@/lib/database';
+import { createAIContentGenerator } from '@/lib/api/ai-content';
+import type { AIConfig, CommentSentiment } from '@/lib/api/ai-content';
+
+export type { CommentSentiment };
+
+export type CommentRuleMatch = 'keyword' | 'regex' | 'link' | 'emoji_spam' | 'blocked_user';
+export type CommentRuleAction = 'hide' | 'delete' | 'flag' | 'reply';
+
+export interface CommentRule {
+    id: string;
+    name: string;
+    match_type: CommentRuleMatch;
+    /** Keywords, expressions, allowed link domains or blocked authors, depending on match_type */
+    patterns: string[];
+    action: CommentRuleAction;
+    reply_template_id: string | null;
+    enabled: boolean;
+    position: number;
+    created_at: string;
+}
+
+export type CommentRuleInput = Omit<CommentRule, 'id' | 'position' | 'created_at'>;
+
+export interface ReplyTemplate {
+    id: string;
+    name: string;
+    body: string;
+}
+
+/** The parts of a comment rules look at */
+export interface ModeratedComment {
+    text: string;
+    author_name: string;
+    author_id: string | null;
+    published_at: string;
+}
+
+/** The platform_comments columns the sentiment trends read */
+interface SentimentRow {
+    platform: string;
+    post_id: string;
+    post_title: string | null;
+    sentiment: CommentSentiment;
+    published_at: string;
+}
+
+/** Comment counts per label for one day of one video */
+export interface SentimentTrendPoint {
+    date: string;
+    positive: number;
+    neutral: number;
+    negative: number;
+    question: number;
+}
+
+export interface VideoSentimentTrend {
+    platform: string;
+    postId: string;
+    postTitle: string;
+    total: number;
+    points: SentimentTrendPoint[];
+}
+
+// Comments sent to the AI provider per request
+const SENTIMENT_BATCH_SIZE = 25;
+
+// Days of comments the sentiment trends cover
+const TREND_DAYS = 30;
+
+// The same emoji this many times in a row, or a comment that is mostly this many emoji
+const EMOJI_REPEAT_LIMIT = 5;
+const EMOJI_COUNT_LIMIT = 10;
+
+const EMOJI = /\p{Extended_Pictographic}/gu;
+const REPEATED_EMOJI = new RegExp(`(\\p{Extended_Pictographic})(?:\\uFE0F?\\1){${EMOJI_REPEAT_LIMIT - 1},}`, 'u');
+const LINK = /(?:https?:\/\/|www\.)[^\s]+|\b[a-z0-9-]+(?:\.[a-z0-9-]+)*\.(?:com|net|org|io|co|me|ly|gg|xyz|info|biz|link|click|shop|top)\b(?:\/[^\s]*)?/gi;
+
+const POSITIVE_WORDS = new Set([
+    'love', 'loved', 'loving', 'great', 'awesome', 'amazing', 'best', 'good', 'nice', 'beautiful',
+    'excellent', 'fantastic', 'wonderful', 'brilliant', 'perfect', 'thanks', 'thank', 'helpful',
+    'cool', 'fire', 'incredible', 'enjoyed', 'favorite', 'favourite', 'masterpiece', 'legend',
+    'underrated', 'inspiring', 'beautifully', 'wow', 'lovely', 'happy', 'glad', 'recommend',
+]);
+
+const NEGATIVE_WORDS = new Set([
+    'hate', 'hated', 'bad', 'worst', 'terrible', 'awful', 'boring', 'trash', 'garbage', 'stupid',
+    'ugly', 'horrible', 'annoying', 'disappointed', 'disappointing', 'waste', 'useless', 'fake',
+    'scam', 'cringe', 'wrong', 'broken', 'sucks', 'sad', 'angry', 'poor', 'unsubscribed', 'clickbait',
+    'dislike', 'misleading', 'lame', 'overrated', 'rubbish', 'meh',
+]);
+
+const NEGATIONS = new Set(['not', 'no', 'never', "don't", 'dont', "isn't", 'isnt', "wasn't", 'wasnt', "didn't", 'didnt']);
+
+const QUESTION_STARTS = /^(who|what|when|where|why|how|which|can|could|will|would|is|are|do|does|did|should|any)\b/i;
+
+/**
+ * Label a comment with the word lists; used when no AI provider is configured or it fails
+ */
+export const lexiconSentiment = (text: string): CommentSentiment => {
+    const trimmed = text.trim();
+    if (trimmed.includes('?') || QUESTION_STARTS.test(trimmed)) {
+        return 'question';
+    }
+
+    const words = trimmed.toLowerCase().match(/[a-z']+/g) || [];
+    let score = 0;
+
+    words.forEach((word, index) => {
+        const weight = POSITIVE_WORDS.has(word) ? 1 : NEGATIVE_WORDS.has(word) ? -1 : 0;
+        // "not good" and "never boring" flip the word that follows
+        score += index > 0 && NEGATIONS.has(words[index - 1]) ? -weight : weight;
+    });
+
+    if (score > 0) return 'positive';
+    if (score < 0) return 'negative';
+    return 'neutral';
+};
+
+const hostOf = (link: string): string =>
+    link.replace(/^https?:\/\//i, '').replace(/^www\./i, '').split(/[/?#]/)[0].toLowerCase();
+
+/**
+ * Whether a rule matches a comment. Invalid expressions never match.
+ */
+export const matchesRule = (rule: Pick<CommentRule, 'match_type' | 'patterns'>, comment: ModeratedComment): boolean => {
+    const text = comment.text.toLowerCase();
+    const patterns = rule.patterns.map(pattern => pattern.trim()).filter(Boolean);
+
+    switch (rule.match_type) {
+        case 'keyword':
+            return patterns.some(pattern => text.includes(pattern.toLowerCase()));
+
+        case 'regex':
+            return patterns.some(pattern => {
+                try {
+                    return new RegExp(pattern, 'i').test(comment.text);
+                } catch {
+                    return false;
+                }
+            });
+
+        case 'link': {
+            // Patterns are domains that may be linked, e.g. the creator's own site
+            const allowed = patterns.map(pattern => hostOf(pattern));
+            return (comment.text.match(LINK) || []).some(link => {
+                const host = hostOf(link);
+                return !allowed.some(domain => host === domain || host.endsWith(`.${domain}`));
+            });
+        }
+
+        case 'emoji_spam': {
+            const emojiCount = (comment.text.match(EMOJI) || []).length;
+            const otherCount = comment.text.replace(EMOJI, '').replace(/[\s\uFE0F\u200D]/g, '').length;
+            return REPEATED_EMOJI.test(comment.text) || (emojiCount >= EMOJI_COUNT_LIMIT && emojiCount > otherCount);
+        }
+
+        case 'blocked_user': {
+            const author = [comment.author_name, comment.author_id]
+                .filter((value): value is string => !!value)
+                .map(value => value.toLowerCase().replace(/^@/, ''));
+            return patterns.some(pattern => author.includes(pattern.toLowerCase().replace(/^@/, '')));
+        }
+    }
+};
+
+/**
+ * The first enabled rule that matches. Rules only apply to comments written after
+ * they were created, so a new rule doesn't act on a backlog of old comments.
+ */
+export const findMatchingRule = (rules: CommentRule[], comment: ModeratedComment): CommentRule | null =>
+    rules.find(rule =>
+        rule.enabled &&
+        new Date(comment.published_at) >= new Date(rule.created_at) &&
+        matchesRule(rule, comment)
+    ) || null;
+
+/**
+ * Same text provider choice as the thumbnail service: Gemini when configured, otherwise OpenAI
+ */
+const getAIConfig = (): AIConfig | null => {
+    const geminiApiKey = import.meta.env.VITE_GEMINI_API_KEY;
+    const openaiApiKey = import.meta.env.VITE_OPENAI_API_KEY;
+
+    if (geminiApiKey) return { provider: 'gemini', apiKey: geminiApiKey };
+    if (openaiApiKey) return { provider: 'openai', apiKey: openaiApiKey };
+    return null;
+};
+
+class ModerationService {
+    /**
+     * Sentiment for each text, in order. Uses the AI provider when one is configured;
+     * anything it can't label falls back to the word lists.
+     */
+    async classifySentiment(texts: string[]): Promise<CommentSentiment[]> {
+        const config = getAIConfig();
+        const labels: (CommentSentiment | null)[] = [];
+
+        for (let start = 0; start < texts.length; start += SENTIMENT_BATCH_SIZE) {
+            const batch = texts.slice(start, start + SENTIMENT_BATCH_SIZE);
+
+            if (!config) {
+                labels.push(...batch.map(() => null));
+                continue;
+            }
+
+            try {
+                labels.push(...await createAIContentGenerator(config).classifySentiment(batch));
+            } catch (error) {
+                console.error('AI sentiment failed, using word lists:', error);
+                labels.push(...batch.map(() => null));
+            }
+        }
+
+        return texts.map((text, index) => labels[index] ?? lexiconSentiment(text));
+    }
+
+    async getRules(userId: string): Promise<CommentRule[]> {
+        const { data, error } = await db
+            .from('comment_rules')
+            .select('*')
+            .eq('user_id', userId)
+            .order('position')
+            .order('created_at');
+
+        if (error) throw error;
+        return (data || []) as CommentRule[];
+    }
+
+    /**
+     * New rules go to the end of the list
+     */
+    async createRule(userId: string, rule: CommentRuleInput): Promise<CommentRule> {
+        this.validateRule(rule);
+
+        const rules = await this.getRules(userId);
+        const position = rules.length > 0 ? Math.max(...rules.map(existing => existing.position)) + 1 : 0;
+
+        const { data, error } = await db
+            .from('comment_rules')
+            .insert({ ...rule, user_id: userId, position })
+            .select()
+            .single<CommentRule>();
+
+        if (error) throw error;
+        return data;
+    }
+
+    async updateRule(userId: string, ruleId: string, updates: Partial<CommentRuleInput>): Promise<void> {
+        this.validateRule(updates);
+
+        const { error } = await db
+            .from('comment_rules')
+            .update(updates)
+            .eq('user_id', userId)
+            .eq('id', ruleId);
+
+        if (error) throw error;
+    }
+
+    async deleteRule(userId: string, ruleId: string): Promise<void> {
+        const { error } = await db
+            .from('comment_rules')
+            .delete()
+            .eq('user_id', userId)
+            .eq('id', ruleId);
+
+        if (error) throw error;
+    }
+
+    async getTemplates(userId: string): Promise<ReplyTemplate[]> {
+        const { data, error } = await db
+            .from('reply_templates')
+            .select('id, name, body')
+            .eq('user_id', userId)
+            .order('name');
+
+        if (error) throw error;
+        return (data || []) as ReplyTemplate[];
+    }
+
+    async createTemplate(userId: string, name: string, body: string): Promise<ReplyTemplate> {
+        const { data, error } = await db
+            .from('reply_templates')
+            .insert({ user_id: userId, name, body })
+            .select('id, name, body')
+            .single<ReplyTemplate>();
+
+        if (error) throw error;
+        return data;
+    }
+
+    /**
+     * Reply rules using it stop replying until another template is picked (ON DELETE SET NULL)
+     */
+    async deleteTemplate(userId: string, templateId: string): Promise<void> {
+        const { error } = await db
+            .from('reply_templates')
+            .delete()
+            .eq('user_id', userId)
+            .eq('id', templateId);
+
+        if (error) throw error;
+    }
+
+    /**
+     * Daily sentiment counts per video over the last TREND_DAYS, busiest videos first
+     */
+    async getSentimentTrends(userId: string): Promise<VideoSentimentTrend[]> {
+        const since = new Date(Date.now() - TREND_DAYS * 24 * 60 * 60 * 1000);
+
+        const { data, error } = await db
+            .from('platform_comments')
+            .select('platform, post_id, post_title, sentiment, published_at')
+            .eq('user_id', userId)
+            .eq('is_own', false)
+            .not('sentiment', 'is', null)
+            .gte('published_at', since.toISOString())
+            .order('published_at');
+
+        if (error) throw error;
+
+        const videos = new Map<string, VideoSentimentTrend & { days: Map<string, SentimentTrendPoint> }>();
+
+        for (const row of (data || []) as SentimentRow[]) {
+            const key = `${row.platform}:${row.post_id}`;
+            if (!videos.has(key)) {
+                videos.set(key, {
+                    platform: row.platform,
+                    postId: row.post_id,
+                    postTitle: row.post_title || `Post ${row.post_id}`,
+                    total: 0,
+                    points: [],
+                    days: new Map(),
+                });
+            }
+
+            const video = videos.get(key)!;
+            const date = row.published_at.substring(0, 10);
+            if (!video.days.has(date)) {
+                video.days.set(date, { date, positive: 0, neutral: 0, negative: 0, question: 0 });
+            }
+
+            video.days.get(date)![row.sentiment] += 1;
+            video.total += 1;
+        }
+
+        return Array.from(videos.values())
+            .map(({ days, ...video }) => ({ ...video, points: Array.from(days.values()) }))
+            .sort((a, b) => b.total - a.total);
+    }
+
+    private validateRule(rule: Partial<CommentRuleInput>): void {
+        if (rule.match_type === 'regex') {
+            for (const pattern of rule.patterns || []) {
+                try {
+                    new RegExp(pattern, 'i');
+                } catch {
+                    throw new Error(`"${pattern}" isn't a valid regular expression`);
+                }
+            }
+        }
+
+        if (rule.action === 'reply' && !rule.reply_template_id) {
+            throw new Error('Pick a saved reply for this rule to send');
+        }
+    }
+}
+
+export const moderationService = new ModerationService();
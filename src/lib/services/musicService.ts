@@ -22,6 +22,7 @@ import {
     UserLibrary
 } from '@/types/music';
 import { supabase } from '@/integrations/supabase/client';
+import { QuotaExceededError } from '@/lib/api/errors';
 
 // =============================================================================
 // MUSIC SERVICE CONFIGURATION
@@ -30,7 +31,6 @@ import { supabase } from '@/integrations/supabase/client';
 export interface MusicServiceConfig {
     youtubeApiKey: string;
     youtubeClientId?: string;
-    youtubeClientSecret?: string;
     geminiApiKey?: string;
     maxCacheSize?: number;
     enableOfflineMode?: boolean;
@@ -53,7 +53,6 @@ class MusicService {
         this.youtubeMusicService = createYouTubeMusicService({
             apiKey: config.youtubeApiKey,
             clientId: config.youtubeClientId,
-            clientSecret: config.youtubeClientSecret,
             maxResults: 50,
         });
 
@@ -83,9 +82,9 @@ class MusicService {
             userId?: string;
         } = {}
     ) {
-        try {
-            const cacheKey = `search:${query}:${JSON.stringify(options)}`;
+        const cacheKey = `search:${query}:${JSON.stringify(options)}`;
 
+        try {
             if (this.isCached(cacheKey)) {
                 return this.getFromCache(cacheKey);
             }
@@ -102,6 +101,10 @@ class MusicService {
             this.setCache(cacheKey, enhancedResults);
             return enhancedResults;
         } catch (error) {
+            // Out of YouTube quota: expired results beat none
+            if (error instanceof QuotaExceededError && this.cache.has(cacheKey)) {
+                return this.getFromCache(cacheKey);
+            }
             console.error('Music search error:', error);
             throw new Error('Failed to search music');
         }
@@ -116,9 +119,9 @@ class MusicService {
         limit?: number;
         userId?: string;
     } = {}) {
-        try {
-            const cacheKey = `trending:${options.type}:${options.genre}:${options.limit}`;
+        const cacheKey = `trending:${options.type}:${options.genre}:${options.limit}`;
 
+        try {
             if (this.isCached(cacheKey)) {
                 return this.getFromCache(cacheKey);
             }
@@ -154,6 +157,9 @@ class MusicService {
             this.setCache(cacheKey, enhancedTracks);
             return enhancedTracks;
         } catch (error) {
+            if (error instanceof QuotaExceededError && this.cache.has(cacheKey)) {
+                return this.getFromCache(cacheKey);
+            }
             console.error('Trending music error:', error);
             throw new Error('Failed to get trending music');
         }
@@ -167,9 +173,9 @@ class MusicService {
         genre?: string;
         userId?: string;
     } = {}) {
-        try {
-            const cacheKey = `new_releases:${options.genre}:${options.limit}`;
+        const cacheKey = `new_releases:${options.genre}:${options.limit}`;
 
+        try {
             if (this.isCached(cacheKey)) {
                 return this.getFromCache(cacheKey);
             }
@@ -184,6 +190,9 @@ class MusicService {
             this.setCache(cacheKey, enhancedTracks);
             return enhancedTracks;
         } catch (error) {
+            if (error instanceof QuotaExceededError && this.cache.has(cacheKey)) {
+                return this.getFromCache(cacheKey);
+            }
             console.error('New releases error:', error);
             throw new Error('Failed to get new releases');
         }
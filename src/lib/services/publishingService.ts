@@ -0,0 +1,137 @@
+/**
+ * Publishing Service
+ * Publishes stored videos to connected accounts through their platform adapters
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import { PlatformApiError, QuotaExceededError } from '@/lib/api/errors';
+import { getPlatformAdapter, ReauthRequiredError, tokenManager } from '@/lib/platforms';
+import type { PlatformConnection, PublishOptions, PublishRequest, PublishResult, PublishTarget } from '@/lib/platforms';
+
+class PublishingService {
+    /**
+     * Pull hashtags out of a description to use as platform tags
+     */
+    extractTags(description: string): string[] {
+        const tagMatches = description.match(/#\w+/g) || [];
+        return tagMatches.map(tag => tag.substring(1)); // Remove # symbol
+    }
+
+    /**
+     * Publish to one account, reporting upload progress as a percentage.
+     * Pass the library video's id to record the post for analytics.
+     */
+    async publishVideo(
+        userId: string,
+        target: PublishTarget,
+        request: PublishRequest,
+        onProgress?: (progress: number) => void,
+        videoId?: string
+    ): Promise<PublishResult> {
+        const { platform } = target;
+        const connection = await this.getConnection(userId, target);
+
+        try {
+            const adapter = getPlatformAdapter(platform);
+
+            if (!request.videoUrl && !request.videoFile && !adapter.supportsImages) {
+                throw new Error(`${adapter.name} can only publish videos`);
+            }
+
+            const result = await tokenManager.withFreshToken(connection, conn =>
+                adapter.publish(conn, {
+                    ...request,
+                    accountId: target.accountId,
+                    tags: request.tags ?? this.extractTags(request.description),
+                }, onProgress)
+            );
+
+            // Drafts aren't public yet, so there's nothing to report on
+            if (!request.asDraft) {
+                await this.recordPost(userId, target, request, result, videoId);
+            }
+
+            return result;
+        } catch (error: any) {
+            console.error(`${platform} publish error:`, error);
+
+            // Already say what went wrong and what to do (reconnect, wait for the quota); keep them as is
+            if (
+                error instanceof ReauthRequiredError ||
+                error instanceof PlatformApiError ||
+                error instanceof QuotaExceededError
+            ) {
+                throw error;
+            }
+
+            throw new Error(`${platform} publish failed: ${error.message}`);
+        }
+    }
+
+    /**
+     * Remember where a video went so the analytics sync can follow it.
+     * The post is already live, so a failure here is only logged.
+     */
+    private async recordPost(
+        userId: string,
+        target: PublishTarget,
+        request: PublishRequest,
+        result: PublishResult,
+        videoId?: string
+    ): Promise<void> {
+        const { error } = await (supabase as any)
+            .from('platform_posts')
+            .upsert({
+                user_id: userId,
+                video_id: videoId ?? null,
+                connection_id: target.connectionId,
+                platform: target.platform,
+                account_id: target.accountId,
+                remote_id: result.id,
+                url: result.url,
+                title: request.title,
+                status: 'published',
+                attempts: 1,
+                published_at: (request.scheduledPublishTime ?? new Date()).toISOString(),
+            }, { onConflict: 'user_id,platform,remote_id' });
+
+        if (error) {
+            console.error(`Error recording ${target.platform} post:`, error);
+        }
+    }
+
+    /**
+     * Categories, playlists and other account-specific choices for the publish form
+     */
+    async getPublishOptions(userId: string, target: PublishTarget): Promise<PublishOptions> {
+        const adapter = getPlatformAdapter(target.platform);
+        if (!adapter.getPublishOptions) {
+            return {};
+        }
+
+        const connection = await this.getConnection(userId, target);
+        return tokenManager.withFreshToken(connection, conn =>
+            adapter.getPublishOptions!(conn, target.accountId)
+        );
+    }
+
+    /**
+     * The connection that reaches the target account
+     */
+    private async getConnection(userId: string, target: PublishTarget): Promise<PlatformConnection> {
+        const { data: connection, error } = await (supabase as any)
+            .from('platform_connections')
+            .select('*')
+            .eq('user_id', userId)
+            .eq('id', target.connectionId)
+            .single();
+
+        if (error || !connection) {
+            throw new Error(`${target.platform} connection not found`);
+        }
+
+        return connection;
+    }
+}
+
+export const publishingService = new PublishingService();
@@ -0,0 +1,496 @@
+/**
+ * Scheduled Post Service
+ * Scheduled posts with the per-target results the process-scheduled-posts
+ * worker keeps in platform_posts, and requeueing the targets that failed once
+ * the worker has stopped retrying them. Recurring series are expanded into
+ * their occurrences here; a single occurrence is moved or skipped by giving
+ * it its own post ahead of the worker.
+ */
+
+import { db } from '@/lib/database';
+import type { PublishTarget } from '@/lib/platforms';
+import { getOccurrences, parseRRule } from '@/lib/recurrence';
+
+export type ScheduledPostStatus =
+    | 'scheduled'
+    | 'publishing'
+    | 'retrying'
+    | 'published'
+    | 'partially_published'
+    | 'failed'
+    | 'cancelled';
+
+export type PlatformPostStatus = 'pending' | 'publishing' | 'published' | 'failed';
+
+/**
+ * Why a target's last attempt failed: transient errors and expired tokens are
+ * retried by the worker, revoked credentials and rejected posts need the user
+ */
+export type PublishErrorType = 'transient' | 'expired_token' | 'credentials' | 'rejected';
+
+/** One target of a publish: how it went and, once live, where the post is */
+export interface PlatformPost {
+    id: string;
+    scheduled_post_id: string | null;
+    video_id: string | null;
+    connection_id: string | null;
+    platform: string;
+    account_id: string | null;
+    status: PlatformPostStatus;
+    attempts: number;
+    last_error: string | null;
+    error_type: PublishErrorType | null;
+    /** When the worker retries a pending target that failed before */
+    next_attempt_at: string | null;
+    remote_id: string | null;
+    url: string | null;
+    published_at: string | null;
+}
+
+/** A scheduled post as the calendar shows it */
+export interface CalendarPost {
+    id: string;
+    video_id: string;
+    title: string;
+    /** The video's description, which the worker posts as the caption */
+    description: string;
+    thumbnail_url: string | null;
+    platforms: string[];
+    targets: PublishTarget[];
+    scheduled_date: Date;
+    /** IANA zone the time was picked in; edits keep the time on its clock */
+    timezone: string;
+    status: ScheduledPostStatus;
+    error_message: string | null;
+    /** Next retry while the post is retrying */
+    retry_at: Date | null;
+    notes: string | null;
+    /** One per target once the worker has picked the post up */
+    results: PlatformPost[];
+    /** Set on occurrences of a recurring series */
+    series_id: string | null;
+    /** When the series' rule puts the occurrence, even if it was moved */
+    occurrence_date: Date | null;
+    /** An occurrence expanded from its series' rule that has no post yet */
+    virtual: boolean;
+}
+
+/** A recurring series, with the occurrences that already have their own post */
+export interface RecurringSeries {
+    id: string;
+    video_id: string;
+    title: string;
+    description: string;
+    thumbnail_url: string | null;
+    platforms: string[];
+    targets: PublishTarget[];
+    /** The first occurrence */
+    start: Date;
+    recurrence_rule: string;
+    timezone: string;
+    notes: string | null;
+    /** Times (ms) of occurrences that were published, moved or skipped */
+    exceptions: Set<number>;
+}
+
+// scheduled_posts row with its targets' platform_posts embedded
+interface ScheduledPostRow {
+    id: string;
+    video_id: string;
+    platforms: string[] | null;
+    targets: PublishTarget[] | null;
+    scheduled_date: string;
+    status: ScheduledPostStatus;
+    error_message: string | null;
+    retry_at: string | null;
+    notes: string | null;
+    thumbnail_url: string | null;
+    series_id: string | null;
+    occurrence_date: string | null;
+    recurrence_rule: string | null;
+    timezone: string | null;
+    /** Per platform: what was chosen when scheduling, passed on to the worker */
+    publish_options: Record<string, unknown> | null;
+    platform_posts?: PlatformPost[] | null;
+}
+
+type VideoRow = { id: string; title: string; description: string | null; thumbnail_url: string | null };
+
+// Posts whose failed targets can be sent back to the worker
+const RETRYABLE_STATUSES: ScheduledPostStatus[] = ['retrying', 'partially_published', 'failed'];
+
+// Posts that can be called off; nothing of a failed post went out
+const CANCELLABLE_STATUSES: ScheduledPostStatus[] = ['scheduled', 'retrying', 'failed'];
+
+class ScheduledPostService {
+    /**
+     * Every post that hasn't been cancelled, oldest first, with its per-target
+     * results; recurring series come from getSeries
+     */
+    async getPosts(userId: string): Promise<CalendarPost[]> {
+        const { data: posts, error } = await db
+            .from('scheduled_posts')
+            .select('*, platform_posts(*)')
+            .eq('user_id', userId)
+            .neq('status', 'cancelled')
+            .is('recurrence_rule', null)
+            .order('scheduled_date');
+
+        if (error) throw error;
+
+        const rows = (posts || []) as ScheduledPostRow[];
+        if (rows.length === 0) return [];
+
+        const videosById = await this.getVideos(userId, rows.map(post => post.video_id));
+
+        return rows.map((post): CalendarPost => ({
+            id: post.id,
+            video_id: post.video_id,
+            title: videosById.get(post.video_id)?.title || 'Untitled',
+            description: videosById.get(post.video_id)?.description || '',
+            thumbnail_url: post.thumbnail_url || videosById.get(post.video_id)?.thumbnail_url || null,
+            platforms: post.platforms || [],
+            targets: post.targets || [],
+            scheduled_date: new Date(post.scheduled_date),
+            timezone: post.timezone || 'UTC',
+            status: post.status,
+            error_message: post.error_message,
+            retry_at: post.retry_at ? new Date(post.retry_at) : null,
+            notes: post.notes,
+            results: post.platform_posts || [],
+            series_id: post.series_id,
+            occurrence_date: post.occurrence_date ? new Date(post.occurrence_date) : null,
+            virtual: false,
+        }));
+    }
+
+    /**
+     * Recurring series that are still running
+     */
+    async getSeries(userId: string): Promise<RecurringSeries[]> {
+        const { data: series, error } = await db
+            .from('scheduled_posts')
+            .select('*')
+            .eq('user_id', userId)
+            .eq('status', 'scheduled')
+            .not('recurrence_rule', 'is', null)
+            .not('next_occurrence_at', 'is', null);
+
+        if (error) throw error;
+
+        const rows = (series || []) as ScheduledPostRow[];
+        if (rows.length === 0) return [];
+
+        const { data: occurrences, error: occurrencesError } = await db
+            .from('scheduled_posts')
+            .select('series_id, occurrence_date')
+            .eq('user_id', userId)
+            .in('series_id', rows.map(post => post.id));
+
+        if (occurrencesError) throw occurrencesError;
+
+        const occurrenceRows = (occurrences || []) as Pick<ScheduledPostRow, 'series_id' | 'occurrence_date'>[];
+        const videosById = await this.getVideos(userId, rows.map(post => post.video_id));
+
+        return rows.map((post): RecurringSeries => ({
+            id: post.id,
+            video_id: post.video_id,
+            title: videosById.get(post.video_id)?.title || 'Untitled',
+            description: videosById.get(post.video_id)?.description || '',
+            thumbnail_url: post.thumbnail_url || videosById.get(post.video_id)?.thumbnail_url || null,
+            platforms: post.platforms || [],
+            targets: post.targets || [],
+            start: new Date(post.scheduled_date),
+            recurrence_rule: post.recurrence_rule!,
+            timezone: post.timezone || 'UTC',
+            notes: post.notes,
+            exceptions: new Set(
+                occurrenceRows
+                    .filter(occurrence => occurrence.series_id === post.id)
+                    .map(occurrence => new Date(occurrence.occurrence_date!).getTime())
+            ),
+        }));
+    }
+
+    /**
+     * A series' occurrences between two dates that don't have their own post yet
+     */
+    expandSeries(series: RecurringSeries, from: Date, to: Date): CalendarPost[] {
+        return getOccurrences(parseRRule(series.recurrence_rule), series.start, series.timezone, { from, to })
+            .filter(occurrence => !series.exceptions.has(occurrence.getTime()))
+            .map((occurrence): CalendarPost => ({
+                id: `${series.id}:${occurrence.toISOString()}`,
+                video_id: series.video_id,
+                title: series.title,
+                description: series.description,
+                thumbnail_url: series.thumbnail_url,
+                platforms: series.platforms,
+                targets: series.targets,
+                scheduled_date: occurrence,
+                timezone: series.timezone,
+                status: 'scheduled',
+                error_message: null,
+                retry_at: null,
+                notes: series.notes,
+                results: [],
+                series_id: series.id,
+                occurrence_date: occurrence,
+                virtual: true,
+            }));
+    }
+
+    private async getVideos(userId: string, videoIds: string[]): Promise<Map<string, VideoRow>> {
+        const { data: videos, error } = await db
+            .from('videos')
+            .select('id, title, description, thumbnail_url')
+            .eq('user_id', userId)
+            .in('id', [...new Set(videoIds.filter(Boolean))]);
+
+        if (error) throw error;
+
+        return new Map(((videos || []) as VideoRow[]).map(video => [video.id, video]));
+    }
+
+    /**
+     * Every target a library video has been published or scheduled to
+     */
+    async getVideoPosts(userId: string, videoIds: string[]): Promise<PlatformPost[]> {
+        if (videoIds.length === 0) return [];
+
+        const { data, error } = await db
+            .from('platform_posts')
+            .select('*')
+            .eq('user_id', userId)
+            .in('video_id', videoIds)
+            .order('created_at');
+
+        if (error) throw error;
+        return (data || []) as PlatformPost[];
+    }
+
+    /**
+     * Move a post that hasn't been published yet
+     */
+    async reschedule(userId: string, postId: string, scheduledDate: Date): Promise<void> {
+        const { data, error } = await db
+            .from('scheduled_posts')
+            .update({ scheduled_date: scheduledDate.toISOString() })
+            .eq('id', postId)
+            .eq('user_id', userId)
+            .eq('status', 'scheduled')
+            .select('id');
+
+        if (error) throw error;
+        if (!data?.length) {
+            throw new Error('Only posts that are still scheduled can be moved');
+        }
+    }
+
+    async cancel(userId: string, postId: string): Promise<void> {
+        const { data, error } = await db
+            .from('scheduled_posts')
+            .update({ status: 'cancelled', retry_at: null })
+            .eq('id', postId)
+            .eq('user_id', userId)
+            .in('status', CANCELLABLE_STATUSES)
+            .select('id');
+
+        if (error) throw error;
+        if (!data?.length) {
+            throw new Error('Only posts that haven\'t been published can be cancelled');
+        }
+    }
+
+    /**
+     * Give one occurrence of a series its own post at another time; the rest
+     * of the series is unchanged
+     */
+    async moveOccurrence(userId: string, seriesId: string, occurrenceDate: Date, scheduledDate: Date): Promise<void> {
+        await this.createOccurrence(userId, seriesId, occurrenceDate, {
+            scheduled_date: scheduledDate.toISOString(),
+            status: 'scheduled',
+        });
+    }
+
+    /**
+     * Leave one occurrence of a series out
+     */
+    async skipOccurrence(userId: string, seriesId: string, occurrenceDate: Date): Promise<void> {
+        await this.createOccurrence(userId, seriesId, occurrenceDate, {
+            scheduled_date: occurrenceDate.toISOString(),
+            status: 'cancelled',
+        });
+    }
+
+    /**
+     * End a series, along with the occurrences that haven't gone out yet
+     */
+    async cancelSeries(userId: string, seriesId: string): Promise<void> {
+        const { data, error } = await db
+            .from('scheduled_posts')
+            .update({ status: 'cancelled', next_occurrence_at: null })
+            .eq('id', seriesId)
+            .eq('user_id', userId)
+            .eq('status', 'scheduled')
+            .select('id');
+
+        if (error) throw error;
+        if (!data?.length) {
+            throw new Error('This series has already ended');
+        }
+
+        const { error: occurrencesError } = await db
+            .from('scheduled_posts')
+            .update({ status: 'cancelled' })
+            .eq('series_id', seriesId)
+            .eq('user_id', userId)
+            .eq('status', 'scheduled');
+
+        if (occurrencesError) throw occurrencesError;
+    }
+
+    private async createOccurrence(
+        userId: string,
+        seriesId: string,
+        occurrenceDate: Date,
+        changes: { scheduled_date: string; status: ScheduledPostStatus }
+    ): Promise<void> {
+        const { data: series, error } = await db
+            .from('scheduled_posts')
+            .select('*')
+            .eq('id', seriesId)
+            .eq('user_id', userId)
+            .eq('status', 'scheduled')
+            .maybeSingle<ScheduledPostRow>();
+
+        if (error) throw error;
+        if (!series?.recurrence_rule) {
+            throw new Error('This series has already ended');
+        }
+
+        const { error: insertError } = await db
+            .from('scheduled_posts')
+            .insert({
+                user_id: userId,
+                video_id: series.video_id,
+                platforms: series.platforms,
+                targets: series.targets,
+                thumbnail_url: series.thumbnail_url,
+                notes: series.notes,
+                publish_options: series.publish_options,
+                timezone: series.timezone,
+                series_id: seriesId,
+                occurrence_date: occurrenceDate.toISOString(),
+                ...changes,
+            });
+
+        if (insertError) {
+            // The worker got there first
+            if (insertError.code === '23505') {
+                throw new Error('This occurrence is already being published');
+            }
+            throw insertError;
+        }
+    }
+
+    /**
+     * Change the title and description a post goes out with; they belong to
+     * its library video, so other posts of the video change with it
+     */
+    async updateContent(userId: string, postId: string, content: { title: string; description: string }): Promise<void> {
+        const { data: post, error } = await db
+            .from('scheduled_posts')
+            .select('video_id')
+            .eq('id', postId)
+            .eq('user_id', userId)
+            .maybeSingle<Pick<ScheduledPostRow, 'video_id'>>();
+
+        if (error) throw error;
+        if (!post?.video_id) {
+            throw new Error('This post has no video to edit');
+        }
+
+        const { error: videoError } = await db
+            .from('videos')
+            .update({ title: content.title, description: content.description })
+            .eq('id', post.video_id)
+            .eq('user_id', userId);
+
+        if (videoError) throw videoError;
+    }
+
+    /**
+     * Send one failed target back to the worker; the targets that already
+     * published are left alone
+     */
+    async retryTarget(userId: string, platformPostId: string): Promise<void> {
+        const { data: target, error } = await db
+            .from('platform_posts')
+            .select('id, status, scheduled_post_id')
+            .eq('id', platformPostId)
+            .eq('user_id', userId)
+            .maybeSingle<Pick<PlatformPost, 'id' | 'status' | 'scheduled_post_id'>>();
+
+        if (error) throw error;
+        if (!target?.scheduled_post_id || target.status !== 'failed') {
+            throw new Error('Only failed scheduled publishes can be retried');
+        }
+
+        await this.requeueTargets(userId, target.scheduled_post_id, [platformPostId]);
+    }
+
+    /**
+     * Send every target of a dead-lettered post that didn't publish back to
+     * the worker, with a fresh set of attempts
+     */
+    async requeue(userId: string, postId: string): Promise<void> {
+        const { data: targets, error } = await db
+            .from('platform_posts')
+            .select('id')
+            .eq('scheduled_post_id', postId)
+            .eq('user_id', userId)
+            .neq('status', 'published');
+
+        if (error) throw error;
+
+        await this.requeueTargets(userId, postId, ((targets || []) as Pick<PlatformPost, 'id'>[]).map(target => target.id));
+    }
+
+    private async requeueTargets(userId: string, postId: string, targetIds: string[]): Promise<void> {
+        const { data: post, error } = await db
+            .from('scheduled_posts')
+            .select('status')
+            .eq('id', postId)
+            .eq('user_id', userId)
+            .maybeSingle<Pick<ScheduledPostRow, 'status'>>();
+
+        if (error) throw error;
+
+        // A post the worker is still on would be overwritten when it finishes
+        if (!RETRYABLE_STATUSES.includes(post?.status)) {
+            throw new Error('This post is still being published; try again in a moment');
+        }
+
+        if (targetIds.length > 0) {
+            const { error: targetError } = await db
+                .from('platform_posts')
+                .update({ status: 'pending', attempts: 0, last_error: null, error_type: null, next_attempt_at: null })
+                .in('id', targetIds)
+                .eq('user_id', userId);
+
+            if (targetError) throw targetError;
+        }
+
+        // Back in the queue; the worker's next scheduled run publishes it
+        const { error: postError } = await db
+            .from('scheduled_posts')
+            .update({ status: 'scheduled', attempts: 0, error_message: null, retry_at: null })
+            .eq('id', postId)
+            .eq('user_id', userId)
+            .in('status', RETRYABLE_STATUSES);
+
+        if (postError) throw postError;
+    }
+}
+
+export const scheduledPostService = new ScheduledPostService();
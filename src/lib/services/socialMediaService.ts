@@ -1,23 +1,20 @@
 /**
  * Social Media Analytics Service
- * Fetches real analytics data from YouTube, Facebook, and Instagram APIs
+ * Fetches real analytics data from every registered platform adapter
  */
 
 import { supabase } from '@/integrations/supabase/client';
-import { createYouTubeAPI, YouTubeConfig } from '@/lib/api/youtube';
-import { createFacebookAPI, FacebookConfig } from '@/lib/api/facebook';
-import { createInstagramAPI, InstagramConfig } from '@/lib/api/instagram';
+import { getPlatformAdapter, getPlatformAdapters, tokenManager } from '@/lib/platforms';
+import type { AccountAnalytics, PlatformAccount, PlatformConnection } from '@/lib/platforms';
 
-const GRAPH_API_BASE = 'https://graph.facebook.com/v18.0';
+export type { AccountAnalytics, PlatformConnection } from '@/lib/platforms';
 
-export interface PlatformConnection {
-    id: string;
-    platform: string;
-    access_token: string;
-    refresh_token?: string;
-    expires_at?: string;
-    account_name?: string;
-    account_username?: string;
+/** The zone a publish target's audience is in */
+export interface AccountTimeZone {
+    connectionId: string;
+    accountId: string;
+    name: string;
+    timeZone: string;
 }
 
 export interface VideoAnalytics {
@@ -39,23 +36,19 @@ export interface VideoAnalytics {
     impressions?: number;
 }
 
-export interface AccountAnalytics {
-    platform: string;
-    followers: number;
-    total_views: number;
-    total_videos: number;
-    total_posts?: number; // Optional for platforms that don't have posts
-    average_views_per_video: number;
-    average_engagement_rate: number;
-}
-
 class SocialMediaService {
-    private async getPlatformConnections(userId: string): Promise<PlatformConnection[]> {
-        const { data, error } = await (supabase as any)
+    private async getPlatformConnections(userId: string, platform?: string): Promise<PlatformConnection[]> {
+        let query = (supabase as any)
             .from('platform_connections')
             .select('*')
             .eq('user_id', userId);
 
+        if (platform) {
+            query = query.eq('platform', platform);
+        }
+
+        const { data, error } = await query;
+
         if (error) {
             console.error('Error fetching platform connections:', error);
             return [];
@@ -64,277 +57,113 @@ class SocialMediaService {
         return data || [];
     }
 
-    async getYouTubeAnalytics(userId: string): Promise<AccountAnalytics | null> {
-        const connections = await this.getPlatformConnections(userId);
-        const youtubeConnection = connections.find(conn => conn.platform === 'youtube');
-
-        if (!youtubeConnection || !youtubeConnection.access_token) {
-            return null;
-        }
-
-        try {
-            const config: YouTubeConfig = {
-                clientId: import.meta.env.VITE_YOUTUBE_CLIENT_ID,
-                clientSecret: import.meta.env.VITE_YOUTUBE_CLIENT_SECRET,
-                apiKey: import.meta.env.VITE_YOUTUBE_API_KEY,
-                redirectUri: `${window.location.origin}/oauth/callback`
-            };
-
-            const youtubeAPI = createYouTubeAPI(config);
-
-            // Refresh access token if needed
-            let accessToken = youtubeConnection.access_token;
-            if (youtubeConnection.expires_at && new Date(youtubeConnection.expires_at) <= new Date()) {
-                // In a real implementation, you'd refresh the token here
-                console.warn('Access token expired, would need to refresh');
-            }
-
-            // Get channel info
-            const channelInfo = await youtubeAPI.getChannelInfo(accessToken);
-
-            // Get channel statistics using YouTube Data API
-            const statsResponse = await fetch(
-                `https://www.googleapis.com/youtube/v3/channels?part=statistics&id=${channelInfo.id}&access_token=${accessToken}`
-            );
-
-            if (!statsResponse.ok) {
-                throw new Error('Failed to fetch channel statistics');
-            }
-
-            const statsData = await statsResponse.json();
-            const statistics = statsData.items?.[0]?.statistics || {};
-
-            // Get recent videos
-            const videosResponse = await fetch(
-                `https://www.googleapis.com/youtube/v3/search?part=snippet&channelId=${channelInfo.id}&order=date&maxResults=10&type=video&access_token=${accessToken}`
-            );
-
-            let videoCount = 0;
-            let totalVideoViews = 0;
-
-            if (videosResponse.ok) {
-                const videosData = await videosResponse.json();
-                const videoIds = videosData.items?.map((item: any) => item.id.videoId).filter(Boolean) || [];
-
-                if (videoIds.length > 0) {
-                    // Get statistics for each video
-                    const videoStatsResponse = await fetch(
-                        `https://www.googleapis.com/youtube/v3/videos?part=statistics&id=${videoIds.join(',')}&access_token=${accessToken}`
-                    );
-
-                    if (videoStatsResponse.ok) {
-                        const videoStatsData = await videoStatsResponse.json();
-                        videoCount = videoStatsData.items?.length || 0;
-                        totalVideoViews = videoStatsData.items?.reduce((sum: number, video: any) => {
-                            return sum + (parseInt(video.statistics.viewCount) || 0);
-                        }, 0) || 0;
-                    }
-                }
+    /**
+     * Re-read the accounts a connection can reach and cache them in platform_accounts
+     */
+    async syncPlatformAccounts(userId: string, connection: PlatformConnection): Promise<PlatformAccount[]> {
+        const adapter = getPlatformAdapter(connection.platform);
+        const accounts = await tokenManager.withFreshToken(connection, conn => adapter.listAccounts(conn));
+
+        if (accounts.length > 0) {
+            const { error } = await (supabase as any)
+                .from('platform_accounts')
+                .upsert(
+                    accounts.map(account => ({
+                        user_id: userId,
+                        connection_id: connection.id,
+                        platform: connection.platform,
+                        account_id: account.id,
+                        name: account.name,
+                        username: account.username,
+                        avatar_url: account.avatarUrl,
+                    })),
+                    { onConflict: 'connection_id,account_id' }
+                );
+
+            if (error) {
+                console.error('Error storing platform accounts:', error);
             }
-
-            const analytics: AccountAnalytics = {
-                platform: 'youtube',
-                followers: parseInt(statistics.subscriberCount) || 0,
-                total_views: parseInt(statistics.viewCount) || 0,
-                total_videos: videoCount,
-                total_posts: videoCount,
-                average_views_per_video: videoCount > 0 ? totalVideoViews / videoCount : 0,
-                average_engagement_rate: 0, // Would need to calculate from likes, comments, etc.
-            };
-
-            return analytics;
-        } catch (error) {
-            console.error('Error fetching YouTube analytics:', error);
-            return null;
         }
-    }
 
-    async getFacebookAnalytics(userId: string): Promise<AccountAnalytics | null> {
-        const connections = await this.getPlatformConnections(userId);
-        const facebookConnection = connections.find(conn => conn.platform === 'facebook');
+        // Drop pages / accounts the grant no longer reaches
+        let staleQuery = (supabase as any)
+            .from('platform_accounts')
+            .delete()
+            .eq('connection_id', connection.id);
 
-        if (!facebookConnection || !facebookConnection.access_token) {
-            return null;
+        if (accounts.length > 0) {
+            staleQuery = staleQuery.not('account_id', 'in', `(${accounts.map(account => `"${account.id}"`).join(',')})`);
         }
 
-        try {
-            const config: FacebookConfig = {
-                appId: import.meta.env.VITE_FACEBOOK_APP_ID,
-                appSecret: import.meta.env.VITE_FACEBOOK_APP_SECRET,
-                redirectUri: `${window.location.origin}/oauth/callback`
-            };
-
-            const facebookAPI = createFacebookAPI(config);
-
-            const accessToken = facebookConnection.access_token;
-
-            // Get user's pages
-            const pages = await facebookAPI.getUserPages(accessToken);
-
-            if (pages.length === 0) {
-                return null;
-            }
-
-            // Get analytics for the first page (in a real app, you'd handle multiple pages)
-            const mainPage = pages[0];
-
-            // Get page insights
-            const pageInsightsResponse = await fetch(
-                `${GRAPH_API_BASE}/${mainPage.id}/insights?metric=page_fans,page_impressions,page_posts_impressions&access_token=${mainPage.access_token}`
-            );
-
-            let followers = 0;
-            let totalViews = 0;
-            let totalPosts = 0;
-
-            if (pageInsightsResponse.ok) {
-                const insightsData = await pageInsightsResponse.json();
-                const insights = insightsData.data || [];
-
-                const fansMetric = insights.find((m: any) => m.name === 'page_fans');
-                followers = fansMetric?.values?.[0]?.value || 0;
-
-                const impressionsMetric = insights.find((m: any) => m.name === 'page_impressions');
-                totalViews = impressionsMetric?.values?.[0]?.value || 0;
-            }
-
-            // Get recent posts count
-            const postsResponse = await fetch(
-                `${GRAPH_API_BASE}/${mainPage.id}/posts?limit=50&access_token=${mainPage.access_token}`
-            );
-
-            if (postsResponse.ok) {
-                const postsData = await postsResponse.json();
-                totalPosts = postsData.data?.length || 0;
-            }
+        await staleQuery;
 
-            const analytics: AccountAnalytics = {
-                platform: 'facebook',
-                followers,
-                total_views: totalViews,
-                total_videos: totalPosts,
-                total_posts: totalPosts,
-                average_views_per_video: totalPosts > 0 ? totalViews / totalPosts : 0,
-                average_engagement_rate: 0, // Would need additional insights for engagement
-            };
-
-            return analytics;
-        } catch (error) {
-            console.error('Error fetching Facebook analytics:', error);
-            return null;
-        }
+        return accounts;
     }
 
-    async getInstagramAnalytics(userId: string): Promise<AccountAnalytics | null> {
-        const connections = await this.getPlatformConnections(userId);
-        const instagramConnection = connections.find(conn => conn.platform === 'instagram');
+    private async getCachedAccounts(connectionId: string): Promise<PlatformAccount[]> {
+        const { data, error } = await (supabase as any)
+            .from('platform_accounts')
+            .select('account_id, name, username, avatar_url')
+            .eq('connection_id', connectionId);
 
-        if (!instagramConnection || !instagramConnection.access_token) {
-            return null;
+        if (error) {
+            console.error('Error fetching platform accounts:', error);
+            return [];
         }
 
-        try {
-            const accessToken = instagramConnection.access_token;
-            const GRAPH_API_BASE = 'https://graph.facebook.com/v18.0';
-
-            // Get user's pages to find linked Instagram Business Account
-            const { createFacebookAPI } = await import('@/lib/api/facebook');
-            const facebookConfig = {
-                appId: import.meta.env.VITE_FACEBOOK_APP_ID,
-                appSecret: import.meta.env.VITE_FACEBOOK_APP_SECRET,
-                redirectUri: `${window.location.origin}/oauth/callback`
-            };
-            const facebookAPI = createFacebookAPI(facebookConfig);
-
-            // Get user's pages
-            const pages = await facebookAPI.getUserPages(accessToken);
+        return (data || []).map((row: { account_id: string; name: string; username?: string; avatar_url?: string }) => ({
+            id: row.account_id,
+            name: row.name,
+            username: row.username,
+            avatarUrl: row.avatar_url,
+        }));
+    }
 
-            if (pages.length === 0) {
-                return null;
-            }
+    /**
+     * Fetch metrics for every account reachable on the platform, one entry per account
+     */
+    async getPlatformAnalytics(userId: string, platform: string): Promise<AccountAnalytics[]> {
+        const connections = await this.getPlatformConnections(userId, platform);
+        const adapter = getPlatformAdapter(platform);
+        const results: AccountAnalytics[] = [];
+
+        for (const connection of connections) {
+            if (!connection.access_token) continue;
+
+            try {
+                let accounts = await this.getCachedAccounts(connection.id);
+                if (accounts.length === 0) {
+                    accounts = await this.syncPlatformAccounts(userId, connection);
+                }
 
-            // Find page with linked Instagram Business Account
-            let instagramAccountId = null;
-            for (const page of pages) {
-                try {
-                    const pageResponse = await fetch(
-                        `${GRAPH_API_BASE}/${page.id}?fields=instagram_business_account&access_token=${accessToken}`
+                for (const account of accounts) {
+                    const analytics = await tokenManager.withFreshToken(connection, conn =>
+                        adapter.getAccountAnalytics(conn, account.id)
                     );
 
-                    if (pageResponse.ok) {
-                        const pageData = await pageResponse.json();
-                        if (pageData.instagram_business_account) {
-                            instagramAccountId = pageData.instagram_business_account.id;
-                            break;
-                        }
+                    if (analytics) {
+                        results.push({
+                            ...analytics,
+                            account_id: analytics.account_id ?? account.id,
+                            account_name: analytics.account_name ?? account.name,
+                        });
                     }
-                } catch (error) {
-                    console.error('Error checking page for Instagram account:', error);
-                }
-            }
-
-            if (!instagramAccountId) {
-                return null;
-            }
-
-            // Get Instagram account info
-            const accountResponse = await fetch(
-                `${GRAPH_API_BASE}/${instagramAccountId}?fields=followers_count,media_count&access_token=${accessToken}`
-            );
-
-            let followers = 0;
-            let totalPosts = 0;
-
-            if (accountResponse.ok) {
-                const accountData = await accountResponse.json();
-                followers = accountData.followers_count || 0;
-                totalPosts = accountData.media_count || 0;
-            }
-
-            // Get recent media to calculate average views
-            const mediaResponse = await fetch(
-                `${GRAPH_API_BASE}/${instagramAccountId}/media?fields=like_count,comments_count&limit=10&access_token=${accessToken}`
-            );
-
-            let totalEngagement = 0;
-            if (mediaResponse.ok) {
-                const mediaData = await mediaResponse.json();
-                const mediaItems = mediaData.data || [];
-
-                for (const item of mediaItems) {
-                    totalEngagement += (item.like_count || 0) + (item.comments_count || 0);
                 }
+            } catch (error) {
+                console.error(`Error fetching ${platform} analytics:`, error);
             }
-
-            const analytics: AccountAnalytics = {
-                platform: 'instagram',
-                followers,
-                total_views: 0, // Instagram doesn't provide direct view counts via basic API
-                total_videos: totalPosts, // Instagram posts include both photos and videos
-                total_posts: totalPosts,
-                average_views_per_video: 0,
-                average_engagement_rate: followers > 0 ? (totalEngagement / followers) * 100 : 0,
-            };
-
-            return analytics;
-        } catch (error) {
-            console.error('Error fetching Instagram analytics:', error);
-            return null;
         }
+
+        return results;
     }
 
-    async getAllPlatformAnalytics(userId: string): Promise<{
-        youtube: AccountAnalytics | null;
-        facebook: AccountAnalytics | null;
-        instagram: AccountAnalytics | null;
-    }> {
-        const [youtube, facebook, instagram] = await Promise.all([
-            this.getYouTubeAnalytics(userId),
-            this.getFacebookAnalytics(userId),
-            this.getInstagramAnalytics(userId),
-        ]);
-
-        return { youtube, facebook, instagram };
+    async getAllPlatformAnalytics(userId: string): Promise<Record<string, AccountAnalytics[]>> {
+        const platforms = getPlatformAdapters().map(adapter => adapter.id);
+        const results = await Promise.all(
+            platforms.map(platform => this.getPlatformAnalytics(userId, platform))
+        );
+
+        return Object.fromEntries(platforms.map((platform, index) => [platform, results[index]]));
     }
 
     async storeAnalytics(userId: string, analytics: AccountAnalytics) {
@@ -343,19 +172,16 @@ class SocialMediaService {
             .upsert({
                 user_id: userId,
                 ...analytics,
+                account_id: analytics.account_id ?? '',
                 date_recorded: new Date().toISOString().split('T')[0],
-            });
+            }, { onConflict: 'user_id,platform,account_id,date_recorded' });
 
         if (error) {
             console.error('Error storing analytics:', error);
         }
     }
 
-    async getStoredAnalytics(userId: string, days: number = 30): Promise<{
-        youtube: AccountAnalytics[];
-        facebook: AccountAnalytics[];
-        instagram: AccountAnalytics[];
-    }> {
+    async getStoredAnalytics(userId: string, days: number = 30): Promise<Record<string, AccountAnalytics[]>> {
         const startDate = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
 
         const { data, error } = await (supabase as any)
@@ -367,14 +193,49 @@ class SocialMediaService {
 
         if (error) {
             console.error('Error fetching stored analytics:', error);
-            return { youtube: [], facebook: [], instagram: [] };
         }
 
-        const youtube = data?.filter((d: any) => d.platform === 'youtube') || [];
-        const facebook = data?.filter((d: any) => d.platform === 'facebook') || [];
-        const instagram = data?.filter((d: any) => d.platform === 'instagram') || [];
+        // Group rows by platform, with an entry for every registered platform
+        return Object.fromEntries(
+            getPlatformAdapters().map(adapter => [
+                adapter.id,
+                (data || []).filter((d: AccountAnalytics) => d.platform === adapter.id),
+            ])
+        );
+    }
 
-        return { youtube, facebook, instagram };
+    /**
+     * Accounts that have their audience's time zone set
+     */
+    async getAccountTimeZones(userId: string): Promise<AccountTimeZone[]> {
+        const { data, error } = await (supabase as any)
+            .from('platform_accounts')
+            .select('connection_id, account_id, name, timezone')
+            .eq('user_id', userId)
+            .not('timezone', 'is', null);
+
+        if (error) throw error;
+
+        return (data || []).map((row: { connection_id: string; account_id: string; name: string; timezone: string }) => ({
+            connectionId: row.connection_id,
+            accountId: row.account_id,
+            name: row.name,
+            timeZone: row.timezone,
+        }));
+    }
+
+    /**
+     * Set or clear the time zone an account's audience is in
+     */
+    async setAccountTimeZone(userId: string, connectionId: string, accountId: string, timeZone: string | null): Promise<void> {
+        const { error } = await (supabase as any)
+            .from('platform_accounts')
+            .update({ timezone: timeZone })
+            .eq('user_id', userId)
+            .eq('connection_id', connectionId)
+            .eq('account_id', accountId);
+
+        if (error) throw error;
     }
 
     async isPlatformConnected(userId: string, platform: string): Promise<boolean> {
@@ -383,9 +244,20 @@ class SocialMediaService {
             .select('id')
             .eq('user_id', userId)
             .eq('platform', platform)
-            .single();
+            .limit(1);
+
+        return !error && data?.length > 0;
+    }
+
+    async disconnectConnection(userId: string, connectionId: string): Promise<boolean> {
+        // platform_accounts rows go with it (ON DELETE CASCADE)
+        const { error } = await (supabase as any)
+            .from('platform_connections')
+            .delete()
+            .eq('user_id', userId)
+            .eq('id', connectionId);
 
-        return !error && !!data;
+        return !error;
     }
 
     async disconnectPlatform(userId: string, platform: string): Promise<boolean> {
@@ -0,0 +1,148 @@
+/**
+ * Thumbnail Service
+ * Produces custom thumbnails from AI generation, a video frame or an uploaded file and stores them
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import { createAIContentGenerator, generateThumbnailImage } from '@/lib/api/ai-content';
+import { MAX_THUMBNAIL_BYTES } from '@/lib/api/youtube';
+
+export type ThumbnailSource = 'generated' | 'frame' | 'upload';
+
+// YouTube's recommended size; 16:9 also suits Reel covers cropped from the centre
+const THUMBNAIL_WIDTH = 1280;
+const THUMBNAIL_HEIGHT = 720;
+
+class ThumbnailService {
+    /**
+     * Whether AI generation is available (image generation needs an OpenAI key)
+     */
+    canGenerate(): boolean {
+        return !!import.meta.env.VITE_OPENAI_API_KEY;
+    }
+
+    /**
+     * Generate a thumbnail from the video's title and description
+     */
+    async generate(title: string, description: string): Promise<Blob> {
+        const openaiApiKey = import.meta.env.VITE_OPENAI_API_KEY;
+        if (!openaiApiKey) {
+            throw new Error('Thumbnail generation needs an OpenAI API key');
+        }
+
+        // Let the text model write the image prompt; Gemini is preferred when configured
+        const geminiApiKey = import.meta.env.VITE_GEMINI_API_KEY;
+        const aiGenerator = createAIContentGenerator(
+            geminiApiKey
+                ? { provider: 'gemini', apiKey: geminiApiKey }
+                : { provider: 'openai', apiKey: openaiApiKey }
+        );
+
+        const [prompt] = await aiGenerator.generateThumbnailPrompts(
+            { videoTitle: title, videoDescription: description, targetPlatform: 'youtube' },
+            1
+        );
+
+        return generateThumbnailImage(openaiApiKey, prompt || title);
+    }
+
+    /**
+     * Grab the frame at `time` seconds from a stored video
+     */
+    captureFrame(videoUrl: string, time: number): Promise<Blob> {
+        return new Promise((resolve, reject) => {
+            const video = document.createElement('video');
+            // Storage serves CORS headers; without this the canvas can't be read back
+            video.crossOrigin = 'anonymous';
+            video.preload = 'auto';
+            video.muted = true;
+
+            video.onloadedmetadata = () => {
+                video.currentTime = Math.min(Math.max(time, 0), video.duration || 0);
+            };
+
+            video.onseeked = () => {
+                this.drawToJpeg(video, video.videoWidth, video.videoHeight).then(resolve, reject);
+            };
+
+            video.onerror = () => {
+                reject(new Error('Failed to load video for frame capture'));
+            };
+
+            video.src = videoUrl;
+        });
+    }
+
+    /**
+     * Resize any image to a 1280x720 JPEG that fits YouTube's 2 MB limit
+     */
+    async prepare(image: Blob): Promise<Blob> {
+        const bitmap = await createImageBitmap(image);
+
+        try {
+            return await this.drawToJpeg(bitmap, bitmap.width, bitmap.height);
+        } finally {
+            bitmap.close();
+        }
+    }
+
+    /**
+     * Store a thumbnail and return its public URL, which stays valid for scheduled publishing
+     */
+    async save(userId: string, image: Blob, source: ThumbnailSource): Promise<string> {
+        const thumbnail = await this.prepare(image);
+        const path = `${userId}/${Date.now()}-${source}.jpg`;
+
+        const { data, error } = await supabase.storage
+            .from('thumbnails')
+            .upload(path, thumbnail, {
+                cacheControl: '3600',
+                contentType: 'image/jpeg',
+                upsert: false,
+            });
+
+        if (error) throw error;
+
+        const { data: urlData } = supabase.storage
+            .from('thumbnails')
+            .getPublicUrl(data.path);
+
+        return urlData.publicUrl;
+    }
+
+    /**
+     * Draw a source centre-cropped to 16:9, lowering JPEG quality until it fits the size limit
+     */
+    private async drawToJpeg(source: CanvasImageSource, width: number, height: number): Promise<Blob> {
+        const canvas = document.createElement('canvas');
+        canvas.width = THUMBNAIL_WIDTH;
+        canvas.height = THUMBNAIL_HEIGHT;
+
+        const context = canvas.getContext('2d');
+        if (!context) {
+            throw new Error('Canvas is not supported');
+        }
+
+        const scale = Math.max(THUMBNAIL_WIDTH / width, THUMBNAIL_HEIGHT / height);
+        const drawWidth = width * scale;
+        const drawHeight = height * scale;
+        context.drawImage(
+            source,
+            (THUMBNAIL_WIDTH - drawWidth) / 2,
+            (THUMBNAIL_HEIGHT - drawHeight) / 2,
+            drawWidth,
+            drawHeight
+        );
+
+        for (const quality of [0.92, 0.8, 0.6]) {
+            const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', quality));
+            if (blob && blob.size <= MAX_THUMBNAIL_BYTES) {
+                return blob;
+            }
+        }
+
+        throw new Error('Thumbnail is too large');
+    }
+}
+
+export const thumbnailService = new ThumbnailService();
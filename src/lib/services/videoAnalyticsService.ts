@@ -0,0 +1,246 @@
+/**
+ * Video Analytics Service
+ * Takes a daily snapshot of every published post's metrics into video_analytics,
+ * linked back to the library video it was published from
+ */
+
+import { db } from '@/lib/database';
+import { getPlatformAdapter, ReauthRequiredError, tokenManager } from '@/lib/platforms';
+import type { PlatformConnection, PostAnalytics } from '@/lib/platforms';
+import type { VideoAnalytics } from './socialMediaService';
+
+/** One post's metrics on one day */
+export interface VideoAnalyticsSnapshot extends VideoAnalytics {
+    /** Library video the post was published from */
+    source_video_id: string | null;
+    platform_post_id: string;
+    date_recorded: string;
+}
+
+export interface PublishedPost {
+    id: string;
+    video_id: string | null;
+    connection_id: string | null;
+    platform: string;
+    account_id: string | null;
+    remote_id: string;
+    url: string | null;
+    title: string | null;
+    published_at: string;
+}
+
+export interface AnalyticsSyncResult {
+    synced: number;
+    /** Platforms with posts whose metrics couldn't be read */
+    failed: string[];
+}
+
+// Snapshots are daily, so a few syncs a day keep today's current
+export const VIDEO_ANALYTICS_SYNC_INTERVAL = 6 * 60 * 60 * 1000;
+
+// engagement_rate is DECIMAL(5,2)
+const MAX_ENGAGEMENT_RATE = 999.99;
+
+const toSnapshot = (userId: string, post: PublishedPost, analytics: PostAnalytics) => {
+    const engagement = analytics.likes + analytics.comments + analytics.shares + (analytics.saves ?? 0);
+
+    return {
+        user_id: userId,
+        platform: post.platform,
+        video_id: post.remote_id,
+        video_title: post.title,
+        video_url: post.url,
+        published_at: post.published_at,
+        source_video_id: post.video_id,
+        platform_post_id: post.id,
+        views: analytics.views,
+        likes: analytics.likes,
+        comments: analytics.comments,
+        shares: analytics.shares,
+        saves: analytics.saves ?? 0,
+        reach: analytics.reach ?? 0,
+        impressions: analytics.impressions ?? 0,
+        watch_time_seconds: Math.round(analytics.watchTimeSeconds ?? 0),
+        average_view_duration: Math.round(analytics.averageViewDuration ?? 0),
+        engagement_rate: analytics.views > 0
+            ? Math.min(MAX_ENGAGEMENT_RATE, Math.round((engagement / analytics.views) * 10000) / 100)
+            : 0,
+        fetched_at: new Date().toISOString(),
+        date_recorded: new Date().toISOString().split('T')[0],
+    };
+};
+
+class VideoAnalyticsService {
+    private pendingSync: Promise<AnalyticsSyncResult> | null = null;
+    private scheduledSync: { userId: string; timer: ReturnType<typeof setInterval> } | null = null;
+    private syncListeners = new Set<(result: AnalyticsSyncResult) => void>();
+
+    /**
+     * Snapshot every published post; concurrent callers share one run
+     */
+    syncVideoAnalytics(userId: string): Promise<AnalyticsSyncResult> {
+        if (!this.pendingSync) {
+            this.pendingSync = this.runSync(userId).finally(() => {
+                this.pendingSync = null;
+            });
+        }
+
+        return this.pendingSync;
+    }
+
+    /**
+     * Sync now and then every VIDEO_ANALYTICS_SYNC_INTERVAL until the returned function is called.
+     * Starting again for the same user keeps the running schedule.
+     */
+    startScheduledSync(userId: string): () => void {
+        if (this.scheduledSync?.userId !== userId) {
+            this.stopScheduledSync();
+
+            const sync = () => this.syncVideoAnalytics(userId).catch(error => console.error('Scheduled analytics sync failed:', error));
+            this.scheduledSync = { userId, timer: setInterval(sync, VIDEO_ANALYTICS_SYNC_INTERVAL) };
+            sync();
+        }
+
+        return () => this.stopScheduledSync();
+    }
+
+    stopScheduledSync(): void {
+        if (this.scheduledSync) {
+            clearInterval(this.scheduledSync.timer);
+            this.scheduledSync = null;
+        }
+    }
+
+    /**
+     * Called after every sync, scheduled or not; returns the unsubscribe function
+     */
+    onSynced(listener: (result: AnalyticsSyncResult) => void): () => void {
+        this.syncListeners.add(listener);
+        return () => {
+            this.syncListeners.delete(listener);
+        };
+    }
+
+    private async runSync(userId: string): Promise<AnalyticsSyncResult> {
+        const result: AnalyticsSyncResult = { synced: 0, failed: [] };
+
+        const { data: posts, error } = await db
+            .from('platform_posts')
+            .select('*')
+            .eq('user_id', userId)
+            .eq('status', 'published')
+            .not('connection_id', 'is', null);
+
+        if (error) throw error;
+        if (!posts?.length) return result;
+
+        const publishedPosts = posts as PublishedPost[];
+
+        const { data: connections, error: connectionsError } = await db
+            .from('platform_connections')
+            .select('*')
+            .eq('user_id', userId)
+            .in('id', [...new Set(publishedPosts.map(post => post.connection_id))]);
+
+        if (connectionsError) throw connectionsError;
+
+        const markFailed = (platform: string) => {
+            const { name } = getPlatformAdapter(platform);
+            if (!result.failed.includes(name)) {
+                result.failed.push(name);
+            }
+        };
+
+        for (const connection of (connections || []) as PlatformConnection[]) {
+            const connectionPosts = publishedPosts.filter(post => post.connection_id === connection.id);
+
+            if (!connection.access_token || connection.status === 'needs_reauth') {
+                markFailed(connection.platform);
+                continue;
+            }
+
+            const adapter = getPlatformAdapter(connection.platform);
+            const snapshots = [];
+
+            for (const post of connectionPosts) {
+                try {
+                    const analytics = await tokenManager.withFreshToken(connection, conn =>
+                        adapter.getPostAnalytics(conn, post.remote_id, post.account_id ?? undefined)
+                    );
+                    snapshots.push(toSnapshot(userId, post, analytics));
+                } catch (postError) {
+                    // One removed post shouldn't stop the rest; a lost connection stops them all
+                    console.error(`Error fetching ${connection.platform} analytics for post ${post.remote_id}:`, postError);
+                    markFailed(connection.platform);
+                    if (postError instanceof ReauthRequiredError) break;
+                }
+            }
+
+            if (snapshots.length === 0) continue;
+
+            const { error: upsertError } = await db
+                .from('video_analytics')
+                .upsert(snapshots, { onConflict: 'user_id,platform,video_id,date_recorded' });
+
+            if (upsertError) {
+                console.error('Error storing video analytics:', upsertError);
+                markFailed(connection.platform);
+                continue;
+            }
+
+            result.synced += snapshots.length;
+        }
+
+        this.syncListeners.forEach(listener => listener(result));
+        return result;
+    }
+
+    /**
+     * Snapshots from the last `days` days, oldest first; only one video's when `videoId` is given
+     */
+    async getSnapshots(userId: string, days: number = 30, videoId?: string): Promise<VideoAnalyticsSnapshot[]> {
+        const startDate = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+
+        let query = db
+            .from('video_analytics')
+            .select('*')
+            .eq('user_id', userId)
+            .gte('date_recorded', startDate)
+            .order('date_recorded');
+
+        if (videoId) {
+            query = query.eq('source_video_id', videoId);
+        }
+
+        const { data, error } = await query;
+
+        if (error) throw error;
+        return (data || []) as VideoAnalyticsSnapshot[];
+    }
+
+    /**
+     * Library videos that have been published somewhere, newest first
+     */
+    async getPublishedVideos(userId: string): Promise<{ id: string; title: string }[]> {
+        const { data, error } = await db
+            .from('platform_posts')
+            .select('video_id, title, published_at')
+            .eq('user_id', userId)
+            .eq('status', 'published')
+            .not('video_id', 'is', null)
+            .order('published_at', { ascending: false });
+
+        if (error) throw error;
+
+        const videos = new Map<string, string>();
+        for (const post of (data || []) as Pick<PublishedPost, 'video_id' | 'title'>[]) {
+            if (post.video_id && !videos.has(post.video_id)) {
+                videos.set(post.video_id, post.title || 'Untitled');
+            }
+        }
+
+        return Array.from(videos, ([id, title]) => ({ id, title }));
+    }
+}
+
+export const videoAnalyticsService = new VideoAnalyticsService();
@@ -10,14 +10,18 @@ import {
     MusicSearchFilters,
     MusicSearchResults
 } from '@/types/music';
+import { QuotaExceededError, parseGoogleError } from '@/lib/api/errors';
+import { requestJson } from '@/lib/api/httpClient';
+import { youtubeQuotaService } from './youtubeQuotaService';
 
 const YOUTUBE_API_BASE = 'https://www.googleapis.com/youtube/v3';
 const YOUTUBE_MUSIC_BASE = 'https://music.youtube.com/youtubei/v1';
 
+const YOUTUBE = { service: 'YouTube', parseError: parseGoogleError };
+
 export interface YouTubeMusicConfig {
     apiKey: string;
     clientId?: string;
-    clientSecret?: string;
     maxResults?: number;
 }
 
@@ -59,16 +63,14 @@ class YouTubeMusicService {
                 safeSearch: 'moderate',
             });
 
-            const response = await fetch(`${YOUTUBE_API_BASE}/search?${searchParams}`);
-
-            if (!response.ok) {
-                throw new Error(`YouTube API error: ${response.status}`);
-            }
-
-            const data = await response.json();
+            // Music calls are low priority so they never starve publishing of quota
+            await youtubeQuotaService.consume('search.list', 'low');
+            const data = await requestJson(`${YOUTUBE_API_BASE}/search?${searchParams}`, YOUTUBE);
 
             return this.processSearchResults(data.items || []);
         } catch (error) {
+            // Callers fall back to cached results on quota errors, so keep them distinguishable
+            if (error instanceof QuotaExceededError) throw error;
             console.error('YouTube Music search error:', error);
             throw new Error('Failed to search music on YouTube');
         }
@@ -110,15 +112,11 @@ class YouTubeMusicService {
                 searchParams.append('publishedAfter', publishedAfter);
             }
 
-            const response = await fetch(`${YOUTUBE_API_BASE}/search?${searchParams}`);
-
-            if (!response.ok) {
-                throw new Error(`YouTube API error: ${response.status}`);
-            }
-
-            const data = await response.json();
+            await youtubeQuotaService.consume('search.list', 'low');
+            const data = await requestJson(`${YOUTUBE_API_BASE}/search?${searchParams}`, YOUTUBE);
             return this.processVideoResults(data.items || []);
         } catch (error) {
+            if (error instanceof QuotaExceededError) throw error;
             console.error('YouTube Music category error:', error);
             throw new Error('Failed to fetch music by category');
         }
@@ -135,15 +133,11 @@ class YouTubeMusicService {
                 part: 'snippet,contentDetails,statistics',
             });
 
-            const response = await fetch(`${YOUTUBE_API_BASE}/videos?${searchParams}`);
-
-            if (!response.ok) {
-                throw new Error(`YouTube API error: ${response.status}`);
-            }
-
-            const data = await response.json();
+            await youtubeQuotaService.consume('videos.list', 'low');
+            const data = await requestJson(`${YOUTUBE_API_BASE}/videos?${searchParams}`, YOUTUBE);
             return this.processVideoResults(data.items || []);
         } catch (error) {
+            if (error instanceof QuotaExceededError) throw error;
             console.error('YouTube video details error:', error);
             throw new Error('Failed to fetch video details');
         }
@@ -169,17 +163,13 @@ class YouTubeMusicService {
                 order: 'relevance',
             });
 
-            const response = await fetch(`${YOUTUBE_API_BASE}/search?${searchParams}`);
-
-            if (!response.ok) {
-                throw new Error(`YouTube API error: ${response.status}`);
-            }
-
-            const data = await response.json();
+            await youtubeQuotaService.consume('search.list', 'low');
+            const data = await requestJson(`${YOUTUBE_API_BASE}/search?${searchParams}`, YOUTUBE);
             const tracks = await this.processVideoResults(data.items || []);
 
             return tracks.map(this.convertToMusicTrack);
         } catch (error) {
+            if (error instanceof QuotaExceededError) throw error;
             console.error('YouTube track search error:', error);
             throw new Error('Failed to search tracks');
         }
@@ -200,13 +190,8 @@ class YouTubeMusicService {
                 maxResults: maxResults.toString(),
             });
 
-            const response = await fetch(`${YOUTUBE_API_BASE}/playlistItems?${searchParams}`);
-
-            if (!response.ok) {
-                throw new Error(`YouTube API error: ${response.status}`);
-            }
-
-            const data = await response.json();
+            await youtubeQuotaService.consume('playlistItems.list', 'low');
+            const data = await requestJson(`${YOUTUBE_API_BASE}/playlistItems?${searchParams}`, YOUTUBE);
             const videoIds = (data.items || []).map((item: any) => item.snippet?.resourceId?.videoId).filter(Boolean);
 
             if (videoIds.length === 0) return [];
@@ -214,6 +199,7 @@ class YouTubeMusicService {
             const tracks = await this.getVideoDetails(videoIds);
             return tracks.map(this.convertToMusicTrack);
         } catch (error) {
+            if (error instanceof QuotaExceededError) throw error;
             console.error('YouTube playlist error:', error);
             throw new Error('Failed to fetch playlist tracks');
         }
@@ -459,6 +445,7 @@ class YouTubeMusicService {
                 sortOrder: 'desc',
             };
         } catch (error) {
+            if (error instanceof QuotaExceededError) throw error;
             console.error('Filtered search error:', error);
             throw new Error('Failed to search with filters');
         }
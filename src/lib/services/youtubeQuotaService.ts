@@ -0,0 +1,245 @@
+/**
+ * YouTube Quota Service
+ * Ledger of YouTube Data API units spent today, enforcing the daily budget before each call
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import { getCurrentConfig } from '@/lib/config/musicConfig';
+import { QuotaExceededError } from '@/lib/api/errors';
+
+/**
+ * Unit cost of each endpoint the app calls
+ * https://developers.google.com/youtube/v3/determine_quota_cost
+ */
+export const YOUTUBE_QUOTA_COSTS = {
+    'search.list': 100,
+    'videos.list': 1,
+    'videos.insert': 1600,
+    'thumbnails.set': 50,
+    'captions.insert': 400,
+    'channels.list': 1,
+    'playlists.list': 1,
+    'playlistItems.list': 1,
+    'playlistItems.insert': 50,
+    'videoCategories.list': 1,
+    'commentThreads.list': 1,
+    'comments.insert': 50,
+    'comments.setModerationStatus': 50,
+} as const;
+
+export type YouTubeEndpoint = keyof typeof YOUTUBE_QUOTA_COSTS;
+
+/**
+ * 'high' is publishing; 'low' is anything that can wait or be served from a cache
+ * (music search, channel stats) and is refused first as the quota runs low
+ */
+export type QuotaPriority = 'high' | 'low';
+
+export interface YouTubeQuotaUsage {
+    used: number;
+    limit: number;
+    remaining: number;
+    /** Units held back for high-priority calls */
+    reserved: number;
+    byEndpoint: Partial<Record<YouTubeEndpoint, number>>;
+    resetsAt: Date;
+}
+
+// Low-priority calls stop once only this share of the quota is left, so a
+// full upload (video, thumbnail, captions: ~2,050 units) still fits
+const LOW_PRIORITY_RESERVE_RATIO = 0.25;
+
+// How long usage recorded by other users can go unseen
+const SYNC_INTERVAL = 60 * 1000;
+
+// Google resets the quota at midnight Pacific time
+const QUOTA_TIME_ZONE = 'America/Los_Angeles';
+
+interface LedgerState {
+    day: string;
+    byEndpoint: Partial<Record<YouTubeEndpoint, number>>;
+    syncedAt: number;
+    /** The API reported the quota spent, whatever the ledger says */
+    exhausted: boolean;
+}
+
+const getQuotaDay = (date = new Date()): string =>
+    new Intl.DateTimeFormat('en-CA', { timeZone: QUOTA_TIME_ZONE }).format(date); // YYYY-MM-DD
+
+const getResetTime = (now = new Date()): Date => {
+    const parts = Object.fromEntries(
+        new Intl.DateTimeFormat('en-US', {
+            timeZone: QUOTA_TIME_ZONE,
+            hourCycle: 'h23',
+            hour: 'numeric',
+            minute: 'numeric',
+            second: 'numeric',
+        })
+            .formatToParts(now)
+            .map(part => [part.type, part.value])
+    );
+    const elapsedToday = (parseInt(parts.hour) * 3600 + parseInt(parts.minute) * 60 + parseInt(parts.second)) * 1000;
+
+    return new Date(now.getTime() - now.getMilliseconds() - elapsedToday + 24 * 60 * 60 * 1000);
+};
+
+const sumUnits = (byEndpoint: LedgerState['byEndpoint']): number =>
+    Object.values(byEndpoint).reduce((sum, units) => sum + (units || 0), 0);
+
+class YouTubeQuotaService {
+    private state: LedgerState = { day: getQuotaDay(), byEndpoint: {}, syncedAt: 0, exhausted: false };
+    private keyId?: Promise<string>;
+    private listeners = new Set<(usage: YouTubeQuotaUsage) => void>();
+
+    /**
+     * Charge `calls` requests to `endpoint` before making them.
+     * Throws QuotaExceededError when they would overrun the budget for their priority.
+     */
+    async consume(endpoint: YouTubeEndpoint, priority: QuotaPriority = 'high', calls = 1): Promise<void> {
+        await this.sync();
+
+        const units = YOUTUBE_QUOTA_COSTS[endpoint] * calls;
+        const usage = this.toUsage();
+        const available = priority === 'low' ? usage.remaining - usage.reserved : usage.remaining;
+
+        if (units > available) {
+            throw new QuotaExceededError(
+                priority === 'low'
+                    ? `YouTube quota is reserved for publishing until ${usage.resetsAt.toLocaleTimeString()}`
+                    : `Not enough YouTube quota left for ${endpoint} (${units} units, ${usage.remaining} left)`,
+                usage.resetsAt
+            );
+        }
+
+        this.add(endpoint, units);
+        this.record(endpoint, units, priority);
+    }
+
+    /**
+     * The API said the quota is spent (403 quotaExceeded): trust it over the ledger until the reset
+     */
+    markExhausted(): QuotaExceededError {
+        // Calls made outside this app (other tools on the same project) are never recorded
+        this.state.exhausted = true;
+        this.notify();
+
+        return new QuotaExceededError('YouTube API quota is exhausted for today', getResetTime());
+    }
+
+    async getUsage(): Promise<YouTubeQuotaUsage> {
+        await this.sync(true);
+        return this.toUsage();
+    }
+
+    /**
+     * Called with the new usage after every change; returns an unsubscribe function
+     */
+    subscribe(listener: (usage: YouTubeQuotaUsage) => void): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    private toUsage(): YouTubeQuotaUsage {
+        const limit = getCurrentConfig().youtube.maxRequestsPerDay;
+        const used = this.state.exhausted
+            ? Math.max(sumUnits(this.state.byEndpoint), limit)
+            : sumUnits(this.state.byEndpoint);
+
+        return {
+            used,
+            limit,
+            remaining: Math.max(limit - used, 0),
+            reserved: Math.round(limit * LOW_PRIORITY_RESERVE_RATIO),
+            byEndpoint: { ...this.state.byEndpoint },
+            resetsAt: getResetTime(),
+        };
+    }
+
+    private add(endpoint: YouTubeEndpoint, units: number): void {
+        this.state.byEndpoint[endpoint] = (this.state.byEndpoint[endpoint] || 0) + units;
+        this.notify();
+    }
+
+    private notify(): void {
+        const usage = this.toUsage();
+        this.listeners.forEach(listener => listener(usage));
+    }
+
+    /**
+     * Pull today's totals for the key, which include other users' calls.
+     * Keeps the local count when it's ahead (inserts still in flight).
+     */
+    private async sync(force = false): Promise<void> {
+        const day = getQuotaDay();
+        if (day !== this.state.day) {
+            this.state = { day, byEndpoint: {}, syncedAt: 0, exhausted: false };
+        }
+
+        if (!force && Date.now() - this.state.syncedAt < SYNC_INTERVAL) return;
+
+        try {
+            const { data, error } = await (supabase as any).rpc('get_youtube_quota_usage', {
+                p_key_id: await this.getKeyId(),
+                p_day: day,
+            });
+
+            if (error) throw error;
+
+            const remote: LedgerState['byEndpoint'] = {};
+            for (const row of (data || []) as { endpoint: YouTubeEndpoint; units: number }[]) {
+                remote[row.endpoint] = Number(row.units);
+            }
+
+            if (sumUnits(remote) >= sumUnits(this.state.byEndpoint)) {
+                this.state.byEndpoint = remote;
+            }
+            this.state.syncedAt = Date.now();
+            this.notify();
+        } catch (error) {
+            // Without the ledger table the local count still protects this session
+            console.error('Failed to sync YouTube quota usage:', error);
+            this.state.syncedAt = Date.now();
+        }
+    }
+
+    private async record(endpoint: YouTubeEndpoint, units: number, priority: QuotaPriority): Promise<void> {
+        try {
+            const { data: { session } } = await supabase.auth.getSession();
+
+            const { error } = await (supabase as any)
+                .from('youtube_quota_usage')
+                .insert({
+                    user_id: session?.user.id ?? null,
+                    key_id: await this.getKeyId(),
+                    quota_day: this.state.day,
+                    endpoint,
+                    units,
+                    priority,
+                });
+
+            if (error) throw error;
+        } catch (error) {
+            console.error('Failed to record YouTube quota usage:', error);
+        }
+    }
+
+    /**
+     * Short SHA-256 of the API key, so usage is tracked per key without storing it
+     */
+    private getKeyId(): Promise<string> {
+        if (!this.keyId) {
+            const apiKey = getCurrentConfig().youtube.apiKey;
+            this.keyId = crypto.subtle
+                .digest('SHA-256', new TextEncoder().encode(apiKey))
+                .then(hash => Array.from(new Uint8Array(hash).slice(0, 8))
+                    .map(byte => byte.toString(16).padStart(2, '0'))
+                    .join(''));
+        }
+
+        return this.keyId;
+    }
+}
+
+export const youtubeQuotaService = new YouTubeQuotaService();
@@ -0,0 +1,168 @@
+/**
+ * Time Zone Helpers
+ * Wall-clock times in IANA time zones, with nothing but Intl. Times that a
+ * daylight-saving change skips or repeats resolve the way RFC 5545 does.
+ */
+
+export interface ZonedParts {
+    year: number;
+    /** 1-12 */
+    month: number;
+    day: number;
+    hour: number;
+    minute: number;
+    second: number;
+    /** 0 is Sunday, like Date.getDay() */
+    weekday: number;
+}
+
+const WEEKDAY_INDEX: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// For browsers without Intl.supportedValuesOf
+const COMMON_TIME_ZONES = [
+    'UTC',
+    'America/Los_Angeles',
+    'America/Denver',
+    'America/Chicago',
+    'America/New_York',
+    'America/Sao_Paulo',
+    'Europe/London',
+    'Europe/Berlin',
+    'Europe/Paris',
+    'Europe/Istanbul',
+    'Africa/Lagos',
+    'Africa/Johannesburg',
+    'Asia/Dubai',
+    'Asia/Kolkata',
+    'Asia/Singapore',
+    'Asia/Shanghai',
+    'Asia/Tokyo',
+    'Australia/Sydney',
+    'Pacific/Auckland',
+];
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string) => {
+    let formatter = formatters.get(timeZone);
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat('en-US', {
+            timeZone,
+            hourCycle: 'h23',
+            weekday: 'short',
+            year: 'numeric',
+            month: 'numeric',
+            day: 'numeric',
+            hour: 'numeric',
+            minute: 'numeric',
+            second: 'numeric',
+        });
+        formatters.set(timeZone, formatter);
+    }
+    return formatter;
+};
+
+/**
+ * The zone the browser runs in, e.g. Europe/Berlin
+ */
+export const getLocalTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+/**
+ * Every zone the browser knows, for pickers
+ */
+export const getTimeZones = (): string[] => {
+    const { supportedValuesOf } = Intl as unknown as { supportedValuesOf?: (key: 'timeZone') => string[] };
+    const zones = supportedValuesOf ? supportedValuesOf('timeZone') : COMMON_TIME_ZONES;
+    // Some browsers leave UTC out of the list
+    return zones.includes('UTC') ? zones : ['UTC', ...zones];
+};
+
+export const isValidTimeZone = (timeZone: string) => {
+    try {
+        getFormatter(timeZone);
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+/**
+ * What a clock in the zone shows at the given instant
+ */
+export const getZonedParts = (date: Date, timeZone: string): ZonedParts => {
+    const parts = Object.fromEntries(
+        getFormatter(timeZone).formatToParts(date).map(({ type, value }) => [type, value])
+    );
+
+    return {
+        year: Number(parts.year),
+        month: Number(parts.month),
+        day: Number(parts.day),
+        hour: Number(parts.hour),
+        minute: Number(parts.minute),
+        second: Number(parts.second),
+        weekday: WEEKDAY_INDEX[parts.weekday],
+    };
+};
+
+// How far the zone's clocks are ahead of UTC at the given instant, in milliseconds
+const getOffset = (time: number, timeZone: string) => {
+    const parts = getZonedParts(new Date(time), timeZone);
+    const wallTime = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+    return wallTime - Math.floor(time / 1000) * 1000;
+};
+
+/**
+ * The instant a clock in the zone shows the given date and time. A time the
+ * clocks skip (02:30 when they jump from 02:00 to 03:00) keeps the offset from
+ * before the jump and lands an hour later; a time they show twice is the
+ * first of the two.
+ */
+export const zonedTimeToUtc = (
+    parts: Pick<ZonedParts, 'year' | 'month' | 'day' | 'hour' | 'minute'>,
+    timeZone: string
+): Date => {
+    const wallTime = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute);
+    // Offsets a day either side are those before and after any change that day
+    const offsetBefore = getOffset(wallTime - DAY_MS, timeZone);
+    const offsetAfter = getOffset(wallTime + DAY_MS, timeZone);
+
+    const valid = [wallTime - offsetBefore, wallTime - offsetAfter]
+        .filter(time => getOffset(time, timeZone) === wallTime - time)
+        .sort((a, b) => a - b);
+
+    return new Date(valid[0] ?? wallTime - offsetBefore);
+};
+
+/**
+ * The zone's wall-clock date and time as yyyy-MM-dd and HH:mm, for date and time inputs
+ */
+export const toZonedInputValues = (date: Date, timeZone: string) => {
+    const parts = getZonedParts(date, timeZone);
+    const pad = (value: number) => value.toString().padStart(2, '0');
+
+    return {
+        date: `${parts.year}-${pad(parts.month)}-${pad(parts.day)}`,
+        time: `${pad(parts.hour)}:${pad(parts.minute)}`,
+    };
+};
+
+/**
+ * The instant of a yyyy-MM-dd date and HH:mm time on the zone's clock
+ */
+export const fromZonedInputValues = (date: string, time: string, timeZone: string) => {
+    const [year, month, day] = date.split('-').map(Number);
+    const [hour, minute] = time.split(':').map(Number);
+    return zonedTimeToUtc({ year, month, day, hour, minute }, timeZone);
+};
+
+/**
+ * A time as a clock in the zone shows it, with the zone's abbreviation, e.g. "Tue, Mar 10, 9:00 AM EDT"
+ */
+export const formatInTimeZone = (
+    date: Date,
+    timeZone: string,
+    options: Intl.DateTimeFormatOptions = { weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' }
+) => date.toLocaleString('en-US', { ...options, timeZone, timeZoneName: 'short' });
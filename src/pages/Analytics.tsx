@@ -10,6 +10,7 @@ import { Card } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import Header from '@/components/Header';
 import VideoAnalytics from '@/components/VideoAnalytics';
+import SentimentTrends from '@/components/SentimentTrends';
 import { usePlatformConnections } from '@/hooks/usePlatformConnections';
 import { useDashboardData } from '@/hooks/useDashboardData';
 import { Loader2 } from 'lucide-react';
@@ -192,6 +193,8 @@ const Analytics = () => {
             </TabsContent>
 
             <TabsContent value="insights" className="space-y-6">
+              <SentimentTrends />
+
               <Card className="glass-card p-6">
                 <h3 className="text-lg font-bold mb-4">AI-Powered Insights</h3>
                 <div className="space-y-4">
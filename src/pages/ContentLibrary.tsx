@@ -1,50 +1,25 @@
 /**
  * Content Library Page
- * Manage all uploaded videos
+ * Manage all uploaded videos, image posts and carousels
  */
 
-import { useState } from 'react';
-import { ArrowLeft, Video, Trash2, Calendar, BarChart3, Edit } from 'lucide-react';
+import { ArrowLeft, Video, Trash2, BarChart3, Edit, Image, Images, Loader2 } from 'lucide-react';
 import { Link } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import Header from '@/components/Header';
+import PlatformPostBadges from '@/components/PlatformPostBadges';
+import { useContentLibrary } from '@/hooks/useContentLibrary';
+
+const formatDuration = (seconds: number) => {
+    if (!seconds) return '';
+    const minutes = Math.floor(seconds / 60);
+    return `${minutes}:${Math.round(seconds % 60).toString().padStart(2, '0')}`;
+};
 
 const ContentLibrary = () => {
-    // Mock data - replace with actual database query
-    const [videos] = useState([
-        {
-            id: '1',
-            title: 'Getting Started with Social Media Marketing',
-            thumbnail: 'https://via.placeholder.com/320x180',
-            duration: '10:25',
-            uploadedAt: '2024-01-15',
-            status: 'published',
-            platforms: ['youtube', 'facebook'],
-            views: 1250,
-        },
-        {
-            id: '2',
-            title: 'Advanced Instagram Strategies',
-            thumbnail: 'https://via.placeholder.com/320x180',
-            duration: '15:30',
-            uploadedAt: '2024-01-14',
-            status: 'published',
-            platforms: ['instagram', 'facebook'],
-            views: 890,
-        },
-        {
-            id: '3',
-            title: 'YouTube SEO Tips and Tricks',
-            thumbnail: 'https://via.placeholder.com/320x180',
-            duration: '8:45',
-            uploadedAt: '2024-01-13',
-            status: 'draft',
-            platforms: [],
-            views: 0,
-        },
-    ]);
+    const { items: videos, isLoading } = useContentLibrary();
 
     const getStatusColor = (status: string) => {
         switch (status) {
@@ -56,12 +31,11 @@ const ContentLibrary = () => {
         }
     };
 
-    const getPlatformEmoji = (platform: string) => {
-        switch (platform) {
-            case 'youtube': return '📺';
-            case 'facebook': return '📘';
-            case 'instagram': return '📷';
-            default: return '📱';
+    const getMediaLabel = (mediaType: string, assetCount: number) => {
+        switch (mediaType) {
+            case 'carousel': return `Carousel · ${assetCount}`;
+            case 'image': return 'Image';
+            default: return null;
         }
     };
 
@@ -93,14 +67,28 @@ const ContentLibrary = () => {
                     {videos.map((video) => (
                         <Card key={video.id} className="glass-card overflow-hidden group">
                             <div className="relative">
-                                <img
-                                    src={video.thumbnail}
-                                    alt={video.title}
-                                    className="w-full h-48 object-cover"
-                                />
-                                <div className="absolute bottom-2 right-2 bg-black/80 text-white text-xs px-2 py-1 rounded">
-                                    {video.duration}
-                                </div>
+                                {video.thumbnailUrl ? (
+                                    <img
+                                        src={video.thumbnailUrl}
+                                        alt={video.title}
+                                        className="w-full h-48 object-cover"
+                                    />
+                                ) : (
+                                    <div className="w-full h-48 bg-white/5 flex items-center justify-center">
+                                        <Video className="w-12 h-12 text-muted-foreground" />
+                                    </div>
+                                )}
+                                {video.duration > 0 && (
+                                    <div className="absolute bottom-2 right-2 bg-black/80 text-white text-xs px-2 py-1 rounded">
+                                        {formatDuration(video.duration)}
+                                    </div>
+                                )}
+                                {getMediaLabel(video.mediaType, video.assetCount) && (
+                                    <div className="absolute bottom-2 left-2 bg-black/80 text-white text-xs px-2 py-1 rounded flex items-center gap-1">
+                                        {video.mediaType === 'carousel' ? <Images className="w-3 h-3" /> : <Image className="w-3 h-3" />}
+                                        {getMediaLabel(video.mediaType, video.assetCount)}
+                                    </div>
+                                )}
                                 <div className="absolute top-2 right-2">
                                     <Badge className={getStatusColor(video.status)}>
                                         {video.status}
@@ -116,16 +104,10 @@ const ContentLibrary = () => {
                                     <span>{video.views.toLocaleString()} views</span>
                                 </div>
 
-                                {video.platforms.length > 0 && (
-                                    <div className="flex items-center space-x-2">
-                                        <span className="text-xs text-muted-foreground">Published on:</span>
-                                        <div className="flex space-x-1">
-                                            {video.platforms.map((platform) => (
-                                                <span key={platform} className="text-lg">
-                                                    {getPlatformEmoji(platform)}
-                                                </span>
-                                            ))}
-                                        </div>
+                                {video.posts.length > 0 && (
+                                    <div className="flex items-start space-x-2">
+                                        <span className="text-xs text-muted-foreground pt-1 shrink-0">Published on:</span>
+                                        <PlatformPostBadges posts={video.posts} />
                                     </div>
                                 )}
 
@@ -147,12 +129,18 @@ const ContentLibrary = () => {
                     ))}
                 </div>
 
-                {videos.length === 0 && (
+                {isLoading && (
+                    <div className="flex justify-center py-12">
+                        <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+                    </div>
+                )}
+
+                {!isLoading && videos.length === 0 && (
                     <Card className="glass-card p-12 text-center">
                         <Video className="w-16 h-16 mx-auto mb-4 text-muted-foreground" />
-                        <h3 className="text-xl font-bold mb-2">No videos yet</h3>
+                        <h3 className="text-xl font-bold mb-2">No content yet</h3>
                         <p className="text-muted-foreground mb-6">
-                            Upload your first video to get started!
+                            Upload your first video or photos to get started!
                         </p>
                         <Link to="/upload">
                             <Button className="btn-3d gradient-funky text-white">
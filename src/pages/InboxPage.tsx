@@ -0,0 +1,34 @@
+/**
+ * Inbox Page
+ * Comments from YouTube, Facebook and Instagram in one place
+ */
+
+import { ArrowLeft } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import Header from '@/components/Header';
+import CommentInbox from '@/components/CommentInbox';
+
+const InboxPage = () => {
+    return (
+        <div className="min-h-screen bg-background">
+            <Header />
+
+            <main className="container mx-auto px-6 py-8 space-y-8 max-w-5xl">
+                <div className="flex items-center space-x-4">
+                    <Link to="/">
+                        <Button variant="ghost" className="btn-3d">
+                            <ArrowLeft className="w-4 h-4 mr-2" />
+                            Back
+                        </Button>
+                    </Link>
+                    <h1 className="text-4xl font-bold text-gradient-funky">Comment Inbox</h1>
+                </div>
+
+                <CommentInbox />
+            </main>
+        </div>
+    );
+};
+
+export default InboxPage;
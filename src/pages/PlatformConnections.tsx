@@ -1,9 +1,11 @@
 /**
  * Platform Connections Page
- * Manage OAuth connections to YouTube, Facebook, Instagram
+ * Manage OAuth connections to every registered platform, and the time zone
+ * each account's audience is in
  */
 
-import { ArrowLeft, Link as LinkIcon, CheckCircle, XCircle, RefreshCw } from 'lucide-react';
+import { useState } from 'react';
+import { ArrowLeft, Link as LinkIcon, CheckCircle, XCircle, RefreshCw, AlertTriangle, Plus } from 'lucide-react';
 import { Link } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
@@ -13,6 +15,11 @@ import { useToast } from '@/hooks/use-toast';
 import { usePlatformConnections } from '@/hooks/usePlatformConnections';
 import { useAuth } from '@/contexts/AuthContext';
 import DebugPanel from '@/components/DebugPanel';
+import ConnectPlatformDialog from '@/components/ui/connect-platform-dialog';
+import TimeZoneSelect from '@/components/TimeZoneSelect';
+import { connectWithCredentials, getAuthorizationUrl, getPlatformAdapter, getPlatformAdapters } from '@/lib/platforms';
+import type { PlatformAdapter, PublishTarget } from '@/lib/platforms';
+import { getLocalTimeZone } from '@/lib/timeZone';
 
 const PlatformConnections = () => {
     const { toast } = useToast();
@@ -23,8 +30,13 @@ const PlatformConnections = () => {
         error,
         connectPlatform,
         disconnectPlatform,
+        disconnectConnection,
         refreshConnection,
+        setAccountTimeZone,
     } = usePlatformConnections();
+    // Adapter whose connect fields are being asked for
+    const [connectAdapter, setConnectAdapter] = useState<PlatformAdapter | null>(null);
+    const [isConnecting, setIsConnecting] = useState(false);
 
     // Debug logging
     console.log('PlatformConnections render:', {
@@ -35,58 +47,47 @@ const PlatformConnections = () => {
         error
     });
 
-    const handleConnect = async (platform: string) => {
+    const handleConnect = async (platform: string, values: Record<string, string> = {}) => {
+        const adapter = getPlatformAdapter(platform);
+
+        // Ask for instance URLs / app passwords first
+        if (adapter.connectFields && !connectAdapter) {
+            setConnectAdapter(adapter);
+            return;
+        }
+
+        if (adapter.authMethod === 'credentials') {
+            setIsConnecting(true);
+            try {
+                await connectWithCredentials(platform, values);
+                setConnectAdapter(null);
+                await connectPlatform(platform);
+                toast({
+                    title: 'Connected',
+                    description: `Successfully connected ${adapter.name}`,
+                });
+            } catch (error) {
+                toast({
+                    title: 'Connection Failed',
+                    description: (error instanceof Error && error.message) || `Failed to connect to ${adapter.name}. Please try again.`,
+                    variant: 'destructive',
+                });
+            } finally {
+                setIsConnecting(false);
+            }
+            return;
+        }
+
         toast({
             title: 'Connecting...',
             description: `Opening ${platform} OAuth flow`,
         });
 
         try {
-            let authUrl = '';
-
-            switch (platform) {
-                case 'youtube':
-                    const youtubeConfig = {
-                        clientId: import.meta.env.VITE_YOUTUBE_CLIENT_ID,
-                        clientSecret: import.meta.env.VITE_YOUTUBE_CLIENT_SECRET,
-                        apiKey: import.meta.env.VITE_YOUTUBE_API_KEY,
-                        redirectUri: `${window.location.origin}/oauth/callback`
-                    };
-                    const { createYouTubeAPI } = await import('@/lib/api/youtube');
-                    const youtubeAPI = createYouTubeAPI(youtubeConfig);
-                    authUrl = youtubeAPI.initiateOAuth();
-                    break;
-
-                case 'facebook':
-                    const facebookConfig = {
-                        appId: import.meta.env.VITE_FACEBOOK_APP_ID,
-                        appSecret: import.meta.env.VITE_FACEBOOK_APP_SECRET,
-                        redirectUri: `${window.location.origin}/oauth/callback`
-                    };
-                    const { createFacebookAPI } = await import('@/lib/api/facebook');
-                    const facebookAPI = createFacebookAPI(facebookConfig);
-                    authUrl = facebookAPI.initiateOAuth();
-                    break;
-
-                case 'instagram':
-                    const instagramConfig = {
-                        appId: import.meta.env.VITE_FACEBOOK_APP_ID,
-                        appSecret: import.meta.env.VITE_FACEBOOK_APP_SECRET,
-                        redirectUri: `${window.location.origin}/oauth/callback`
-                    };
-                    const { createInstagramAPI } = await import('@/lib/api/instagram');
-                    const instagramAPI = createInstagramAPI(instagramConfig);
-                    // Instagram uses Facebook's OAuth flow
-                    authUrl = `https://www.facebook.com/v18.0/dialog/oauth?client_id=${instagramConfig.appId}&redirect_uri=${encodeURIComponent(instagramConfig.redirectUri)}&scope=instagram_basic,instagram_content_publish&response_type=code`;
-                    break;
-
-                default:
-                    throw new Error(`Unsupported platform: ${platform}`);
-            }
+            // The platform travels in the signed state, so nothing needs storing locally
+            const authUrl = await getAuthorizationUrl(platform, values);
 
             if (authUrl) {
-                // Store the platform being connected for callback handling
-                localStorage.setItem('connectingPlatform', platform);
                 // Redirect to OAuth provider
                 window.location.href = authUrl;
             }
@@ -107,10 +108,38 @@ const PlatformConnections = () => {
                 title: 'Disconnected',
                 description: `Successfully disconnected from ${platform}`,
             });
-        } catch (error: any) {
+        } catch (error) {
             toast({
                 title: 'Disconnection Failed',
-                description: error.message || `Failed to disconnect from ${platform}`,
+                description: (error instanceof Error && error.message) || `Failed to disconnect from ${platform}`,
+                variant: 'destructive',
+            });
+        }
+    };
+
+    const handleDisconnectAccount = async (connectionId: string, accountName: string) => {
+        try {
+            await disconnectConnection(connectionId);
+            toast({
+                title: 'Disconnected',
+                description: `Removed ${accountName}`,
+            });
+        } catch (error) {
+            toast({
+                title: 'Disconnection Failed',
+                description: (error instanceof Error && error.message) || `Failed to remove ${accountName}`,
+                variant: 'destructive',
+            });
+        }
+    };
+
+    const handleTimeZoneChange = async (account: PublishTarget & { name: string }, timeZone: string | null) => {
+        try {
+            await setAccountTimeZone(account, timeZone);
+        } catch (error) {
+            toast({
+                title: 'Could Not Save Time Zone',
+                description: (error instanceof Error && error.message) || `Failed to update ${account.name}`,
                 variant: 'destructive',
             });
         }
@@ -129,10 +158,10 @@ const PlatformConnections = () => {
                 title: 'Refreshed',
                 description: `${platform} connection updated successfully`,
             });
-        } catch (error: any) {
+        } catch (error) {
             toast({
                 title: 'Refresh Failed',
-                description: error.message || `Failed to refresh ${platform} connection`,
+                description: (error instanceof Error && error.message) || `Failed to refresh ${platform} connection`,
                 variant: 'destructive',
             });
         }
@@ -225,7 +254,12 @@ const PlatformConnections = () => {
                                         <div>
                                             <h3 className="text-lg font-bold flex items-center space-x-2">
                                                 <span>{connection.name}</span>
-                                                {connection.connected ? (
+                                                {connection.needsReauth ? (
+                                                    <Badge className="bg-yellow-500/20 text-yellow-500">
+                                                        <AlertTriangle className="w-3 h-3 mr-1" />
+                                                        Reconnect Required
+                                                    </Badge>
+                                                ) : connection.connected ? (
                                                     <Badge className="bg-green-500/20 text-green-500">
                                                         <CheckCircle className="w-3 h-3 mr-1" />
                                                         Connected
@@ -239,7 +273,7 @@ const PlatformConnections = () => {
                                             </h3>
                                             {connection.connected && (
                                                 <div className="text-sm text-muted-foreground mt-1">
-                                                    <p>{connection.accountName}</p>
+                                                    {connection.accounts.length === 0 && <p>{connection.accountName}</p>}
                                                     {connection.lastSync && (
                                                         <p className="text-xs">
                                                             Last synced: {new Date(connection.lastSync).toLocaleString()}
@@ -253,6 +287,26 @@ const PlatformConnections = () => {
                                     <div className="flex gap-2">
                                         {connection.connected ? (
                                             <>
+                                                <Button
+                                                    variant="outline"
+                                                    size="sm"
+                                                    onClick={() => handleConnect(connection.platform)}
+                                                    className="btn-3d"
+                                                    title={`Connect another ${connection.name} account`}
+                                                >
+                                                    <Plus className="w-4 h-4 mr-2" />
+                                                    Add
+                                                </Button>
+                                                {connection.needsReauth && (
+                                                    <Button
+                                                        size="sm"
+                                                        onClick={() => handleConnect(connection.platform)}
+                                                        className="btn-3d gradient-instagram text-white"
+                                                    >
+                                                        <LinkIcon className="w-4 h-4 mr-2" />
+                                                        Reconnect
+                                                    </Button>
+                                                )}
                                                 <Button
                                                     variant="outline"
                                                     size="sm"
@@ -281,6 +335,57 @@ const PlatformConnections = () => {
                                         )}
                                     </div>
                                 </div>
+
+                                {/* Accounts reachable through this platform's connections */}
+                                {connection.accounts.length > 0 && (
+                                    <div className="mt-4 space-y-2 border-t border-border/50 pt-4">
+                                        {connection.accounts.map((account) => (
+                                            <div
+                                                key={`${account.connectionId}:${account.accountId}`}
+                                                className="flex items-center justify-between text-sm"
+                                            >
+                                                <div className="flex items-center space-x-3">
+                                                    {account.avatarUrl ? (
+                                                        <img src={account.avatarUrl} alt="" className="w-6 h-6 rounded-full" />
+                                                    ) : (
+                                                        <div className="w-6 h-6 rounded-full bg-muted" />
+                                                    )}
+                                                    <span className="font-medium">{account.name}</span>
+                                                    {account.username && (
+                                                        <span className="text-muted-foreground">@{account.username}</span>
+                                                    )}
+                                                    {account.needsReauth && (
+                                                        <AlertTriangle className="w-3 h-3 text-yellow-500" />
+                                                    )}
+                                                </div>
+                                                <div className="flex items-center space-x-4 text-muted-foreground">
+                                                    {account.followerCount !== undefined && (
+                                                        <span>{account.followerCount.toLocaleString()} followers</span>
+                                                    )}
+                                                    {account.engagementRate !== undefined && (
+                                                        <span>{Number(account.engagementRate).toFixed(1)}% engagement</span>
+                                                    )}
+                                                    <TimeZoneSelect
+                                                        value={account.timeZone ?? null}
+                                                        onChange={(timeZone) => handleTimeZoneChange(account, timeZone)}
+                                                        suggested={[getLocalTimeZone()]}
+                                                        noneLabel="Audience time zone"
+                                                        className="h-8 w-48 text-xs"
+                                                    />
+                                                    {connection.connectionIds.length > 1 && (
+                                                        <Button
+                                                            variant="ghost"
+                                                            size="sm"
+                                                            onClick={() => handleDisconnectAccount(account.connectionId, account.name)}
+                                                        >
+                                                            Remove
+                                                        </Button>
+                                                    )}
+                                                </div>
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
                             </Card>
                         ))}
                     </div>
@@ -289,18 +394,12 @@ const PlatformConnections = () => {
                 <Card className="glass-card p-6">
                     <h3 className="text-lg font-bold mb-4">Setup Instructions</h3>
                     <div className="space-y-4 text-sm text-muted-foreground">
-                        <div>
-                            <h4 className="font-semibold text-foreground mb-2">📺 YouTube</h4>
-                            <p>Click "Connect" to start OAuth flow. Ensure your Google Cloud Console has YouTube Data API v3 enabled and redirect URIs configured.</p>
-                        </div>
-                        <div>
-                            <h4 className="font-semibold text-foreground mb-2">📘 Facebook</h4>
-                            <p>Click "Connect" to start OAuth flow. Your Facebook app needs Facebook Login and Pages permissions approved.</p>
-                        </div>
-                        <div>
-                            <h4 className="font-semibold text-foreground mb-2">📷 Instagram</h4>
-                            <p>Click "Connect" to start OAuth flow. Requires Facebook Business account with linked Instagram Business account.</p>
-                        </div>
+                        {getPlatformAdapters().map((adapter) => (
+                            <div key={adapter.id}>
+                                <h4 className="font-semibold text-foreground mb-2">{adapter.icon} {adapter.name}</h4>
+                                <p>{adapter.setupInstructions}</p>
+                            </div>
+                        ))}
                         <div className="mt-4 p-3 bg-blue-500/10 border border-blue-500/20 rounded-lg">
                             <p className="text-blue-400 text-xs">
                                 💡 <strong>Tip:</strong> After connecting, click "Refresh" to fetch the latest analytics data from your connected accounts.
@@ -310,6 +409,13 @@ const PlatformConnections = () => {
                 </Card>
             </main>
 
+            <ConnectPlatformDialog
+                adapter={connectAdapter}
+                onOpenChange={(open) => !open && setConnectAdapter(null)}
+                onConnect={(values) => connectAdapter && handleConnect(connectAdapter.id, values)}
+                isLoading={isConnecting}
+            />
+
             {/* Debug Panel */}
             <DebugPanel />
         </div>
@@ -1,6 +1,7 @@
 /**
  * Scheduler Page
- * Manage scheduled posts and content calendar
+ * Manage scheduled posts and content calendar, follow how they were published
+ * and requeue the ones that failed
  */
 
 import { ArrowLeft } from 'lucide-react';
@@ -8,6 +9,8 @@ import { Link } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import Header from '@/components/Header';
 import { ContentCalendar } from '@/components/ContentCalendar';
+import DeadLetterQueue from '@/components/DeadLetterQueue';
+import PublishResults from '@/components/PublishResults';
 
 const SchedulerPage = () => {
     return (
@@ -26,6 +29,10 @@ const SchedulerPage = () => {
                 </div>
 
                 <ContentCalendar />
+
+                <DeadLetterQueue />
+
+                <PublishResults />
             </main>
         </div>
     );
@@ -3,7 +3,7 @@
  * Main interface for uploading videos and publishing to platforms
  */
 
-import { useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { ArrowLeft, Sparkles, Send, Calendar, Play, Pause, Volume2, VolumeX, Upload } from 'lucide-react';
 import { Link, useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
@@ -12,15 +12,28 @@ import { Textarea } from '@/components/ui/textarea';
 import { Card } from '@/components/ui/card';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import Header from '@/components/Header';
 import VideoUploader from '@/components/VideoUploader';
 import BatchUploader from '@/components/BatchUploader';
+import MediaUploader, { PostMediaItem } from '@/components/MediaUploader';
+import ThumbnailPicker from '@/components/ThumbnailPicker';
+import CaptionEditor from '@/components/CaptionEditor';
+import VideoSettingsForm from '@/components/VideoSettingsForm';
 import ScheduleDialog, { ScheduleData } from '@/components/ui/schedule-dialog';
 import { useAuth } from '@/contexts/AuthContext';
 import { useVideoUpload } from '@/hooks/useVideoUpload';
 import { useToast } from '@/hooks/use-toast';
 import { useScheduledPosts } from '@/hooks/useScheduledPosts';
+import { usePlatformConnections, getTargetKey, PlatformAccountData } from '@/hooks/usePlatformConnections';
+import { getPlatformAdapter, getPlatformAdapters } from '@/lib/platforms';
+import type { PublishCaption, PublishMedia, VideoSettings } from '@/lib/platforms';
+import { PlatformApiError } from '@/lib/api/errors';
+import { publishingService } from '@/lib/services/publishingService';
+import { captionService, CaptionTrack } from '@/lib/services/captionService';
+import { formatInTimeZone } from '@/lib/timeZone';
 
 const UploadPage = () => {
     const { user } = useAuth();
@@ -28,17 +41,31 @@ const UploadPage = () => {
     const { toast } = useToast();
     const { saveVideoToDatabase } = useVideoUpload();
     const { schedulePost, isScheduling } = useScheduledPosts();
+    const { connections, getPublishTargets } = usePlatformConnections();
 
     const [videoData, setVideoData] = useState<any>(null);
     const [title, setTitle] = useState('');
     const [description, setDescription] = useState('');
-    const [platforms, setPlatforms] = useState({
-        youtube: false,
-        facebook: false,
-        instagram: false,
-    });
+    // Screen-reader description, sent to platforms that accept one (Bluesky, Mastodon)
+    const [altText, setAltText] = useState('');
+    // Photos and extra videos for image, carousel and Story posts
+    const [media, setMedia] = useState<PostMediaItem[]>([]);
+    // Subtitle tracks per language, saved with the video and uploaded to YouTube
+    const [captionTracks, setCaptionTracks] = useState<CaptionTrack[]>([]);
+    // Stored custom thumbnail for the video
+    const [thumbnailUrl, setThumbnailUrl] = useState<string>();
+    // Chosen post type per platform, for adapters that offer several (e.g. Instagram Reel vs Story)
+    const [postTypes, setPostTypes] = useState<Record<string, string>>({});
+    // Category, playlists, audience etc. per platform, for adapters with video settings
+    const [videoSettings, setVideoSettings] = useState<Record<string, VideoSettings>>({});
+    // Per platform: upload now and let the platform make the video public at this time
+    const [publishTimes, setPublishTimes] = useState<Record<string, Date | undefined>>({});
+    const [selectedTargets, setSelectedTargets] = useState<string[]>([]);
+    // Platforms to upload to as a draft instead of posting (e.g. TikTok inbox)
+    const [draftPlatforms, setDraftPlatforms] = useState<string[]>([]);
     const [isGenerating, setIsGenerating] = useState(false);
     const [isPublishing, setIsPublishing] = useState(false);
+    const [publishProgress, setPublishProgress] = useState<Record<string, number>>({});
     const [showScheduleDialog, setShowScheduleDialog] = useState(false);
     const [savedVideoId, setSavedVideoId] = useState<string>('');
     const [uploadProgress, setUploadProgress] = useState(0);
@@ -48,8 +75,59 @@ const UploadPage = () => {
     const [currentTime, setCurrentTime] = useState(0);
     const [duration, setDuration] = useState(0);
 
+    const hasContent = !!videoData || media.length > 0;
+
+    /**
+     * Every asset in order when the post has photos or several files; the video leads
+     */
+    const getPostMedia = (): PublishMedia[] | undefined => {
+        if (media.length === 0) return undefined;
+
+        const items: PublishMedia[] = media.map(({ type, url, altText: itemAltText }) => ({
+            type,
+            url,
+            altText: itemAltText || undefined,
+        }));
+
+        return videoData
+            ? [{ type: 'video', url: videoData.url, altText: altText || undefined }, ...items]
+            : items;
+    };
+
+    const getPublishCaptions = (): PublishCaption[] =>
+        captionTracks
+            .filter(track => track.cues.length > 0)
+            .map(track => ({ language: track.language, name: track.name, vtt: captionService.toVtt(track.cues) }));
+
+    // Show the first caption track on the preview player
+    const previewCaptionsUrl = useMemo(() => {
+        const track = captionTracks.find(t => t.cues.length > 0);
+        return track ? URL.createObjectURL(new Blob([captionService.toVtt(track.cues)], { type: 'text/vtt' })) : null;
+    }, [captionTracks]);
+
+    useEffect(() => () => {
+        if (previewCaptionsUrl) URL.revokeObjectURL(previewCaptionsUrl);
+    }, [previewCaptionsUrl]);
+
+    /**
+     * Save the post and its caption tracks; without a video the first photo stands in for it
+     */
+    const savePost = async (userId: string) => {
+        const primary = videoData || media[0];
+        const video = await saveVideoToDatabase(userId, title, description, primary.url, primary.path, primary.metadata, media);
+
+        if (video) {
+            await captionService.saveTracks(userId, video.id, captionTracks.filter(track => track.cues.length > 0));
+        }
+
+        return video;
+    };
+
     const handleUploadComplete = (data: any) => {
         setVideoData(data);
+        setSavedVideoId('');
+        setThumbnailUrl(undefined);
+        setCaptionTracks([]);
         setIsPlaying(false);
         setIsMuted(false);
         setCurrentTime(0);
@@ -80,6 +158,14 @@ const UploadPage = () => {
         }
     };
 
+    const seekTo = (time: number) => {
+        const video = document.getElementById('video-preview') as HTMLVideoElement;
+        if (video) {
+            video.currentTime = time;
+            setCurrentTime(time);
+        }
+    };
+
     const handleTimeUpdate = () => {
         const video = document.getElementById('video-preview') as HTMLVideoElement;
         if (video) {
@@ -137,9 +223,17 @@ const UploadPage = () => {
             }
 
             // Generate content
+            // Captions double as the transcript; once the post is saved its stored tracks do too
+            let transcriptTrack = captionTracks.find(track => track.cues.length > 0);
+            if (!transcriptTrack && savedVideoId) {
+                const storedTracks = await captionService.getTracks(savedVideoId);
+                transcriptTrack = storedTracks.find(track => track.cues.length > 0);
+            }
+
             const contentOptions = {
                 videoTitle: title,
                 videoDescription: description,
+                videoTranscript: transcriptTrack ? captionService.toTranscript(transcriptTrack.cues) : undefined,
                 targetPlatform: 'youtube' as const,
                 tone: 'engaging' as const,
             };
@@ -169,7 +263,9 @@ const UploadPage = () => {
             console.error('AI generation error:', error);
             toast({
                 title: 'Generation Failed',
-                description: 'Failed to generate content. Please try again.',
+                description: error instanceof PlatformApiError
+                    ? error.message
+                    : 'Failed to generate content. Please try again.',
                 variant: 'destructive',
             });
         } finally {
@@ -178,180 +274,41 @@ const UploadPage = () => {
     };
 
     const publishToPlatform = async (
-        platform: string,
+        target: PlatformAccountData,
         userId: string,
         videoTitle: string,
         videoDescription: string,
-        videoUrl: string
+        videoUrl: string,
+        videoId?: string
     ) => {
-        // Get user's platform connection
-        const { supabase } = await import('@/integrations/supabase/client');
-        const { data: connection, error } = await (supabase as any)
-            .from('platform_connections')
-            .select('*')
-            .eq('user_id', userId)
-            .eq('platform', platform)
-            .single();
-
-        if (error || !connection) {
-            throw new Error(`${platform} connection not found`);
-        }
-
-        switch (platform) {
-            case 'youtube':
-                try {
-                    // Get YouTube API configuration
-                    const { createYouTubeAPI } = await import('@/lib/api/youtube');
-
-                    const youtubeAPI = createYouTubeAPI({
-                        clientId: import.meta.env.VITE_YOUTUBE_CLIENT_ID || '',
-                        clientSecret: import.meta.env.VITE_YOUTUBE_CLIENT_SECRET || '',
-                        apiKey: import.meta.env.VITE_YOUTUBE_API_KEY || '',
-                        redirectUri: `${window.location.origin}/oauth/callback`
-                    });
-
-                    // Download video file from storage for upload
-                    const videoResponse = await fetch(videoUrl);
-                    if (!videoResponse.ok) {
-                        throw new Error('Failed to download video for YouTube upload');
-                    }
-
-                    const videoBlob = await videoResponse.blob();
-                    const videoFile = new File([videoBlob], `${videoTitle}.mp4`, { type: videoBlob.type });
-
-                    // Extract tags from description (hashtags)
-                    const tagMatches = description.match(/#\w+/g) || [];
-                    const tags = tagMatches.map(tag => tag.substring(1)); // Remove # symbol
-
-                    // Upload to YouTube
-                    const uploadResult = await youtubeAPI.uploadVideo(
-                        connection.access_token,
-                        videoFile,
-                        {
-                            title: videoTitle,
-                            description: videoDescription,
-                            tags: tags,
-                            privacyStatus: 'public'
-                        }
-                    );
-
-                    console.log('YouTube upload successful:', uploadResult);
-                    return uploadResult;
-                } catch (error: any) {
-                    console.error('YouTube upload error:', error);
-                    throw new Error(`YouTube upload failed: ${error.message}`);
-                }
-
-            case 'facebook':
-                // For Facebook, we can share the video URL
-                const { createFacebookAPI } = await import('@/lib/api/facebook');
-                const facebookAPI = createFacebookAPI({
-                    appId: import.meta.env.VITE_FACEBOOK_APP_ID,
-                    appSecret: import.meta.env.VITE_FACEBOOK_APP_SECRET,
-                    redirectUri: `${window.location.origin}/oauth/callback`
-                });
-
-                // Get user's pages
-                const pages = await facebookAPI.getUserPages(connection.access_token);
-                if (pages.length > 0) {
-                    const pageId = pages[0].id;
-                    // Create video post
-                    await fetch(`https://graph.facebook.com/v18.0/${pageId}/feed`, {
-                        method: 'POST',
-                        headers: {
-                            'Content-Type': 'application/json',
-                        },
-                        body: JSON.stringify({
-                            message: `${videoTitle}\n\n${videoDescription}\n\nWatch: ${videoUrl}`,
-                            access_token: connection.access_token,
-                        }),
-                    });
-                }
-                break;
-
-            case 'instagram':
-                try {
-                    // Get Instagram API configuration
-                    const { createInstagramAPI } = await import('@/lib/api/instagram');
-
-                    const instagramAPI = createInstagramAPI({
-                        appId: import.meta.env.VITE_INSTAGRAM_APP_ID || import.meta.env.VITE_FACEBOOK_APP_ID || '',
-                        appSecret: import.meta.env.VITE_INSTAGRAM_APP_SECRET || import.meta.env.VITE_FACEBOOK_APP_SECRET || '',
-                        redirectUri: `${window.location.origin}/oauth/callback`
-                    });
-
-                    // First, get the user's pages to find Instagram Business Account
-                    const { createFacebookAPI } = await import('@/lib/api/facebook');
-                    const facebookAPI = createFacebookAPI({
-                        appId: import.meta.env.VITE_FACEBOOK_APP_ID || '',
-                        appSecret: import.meta.env.VITE_FACEBOOK_APP_SECRET || '',
-                        redirectUri: `${window.location.origin}/oauth/callback`
-                    });
-
-                    const pages = await facebookAPI.getUserPages(connection.access_token);
-                    if (pages.length === 0) {
-                        throw new Error('No Facebook pages found. Instagram Business Account required.');
-                    }
-
-                    // Find the first page with Instagram Business Account
-                    let instagramAccountId: string | null = null;
-                    let selectedPage = null;
-
-                    for (const page of pages) {
-                        try {
-                            instagramAccountId = await instagramAPI.getInstagramAccountId(
-                                connection.access_token,
-                                page.id
-                            );
-                            selectedPage = page;
-                            break;
-                        } catch (error) {
-                            // This page doesn't have Instagram Business Account, try next
-                            continue;
-                        }
-                    }
-
-                    if (!instagramAccountId) {
-                        throw new Error('No Instagram Business Account found. Please connect your Instagram Business Account.');
-                    }
-
-                    // Extract hashtags from description for caption
-                    const tagMatches = description.match(/#\w+/g) || [];
-                    const hashtagText = tagMatches.join(' ');
-
-                    // Truncate caption to Instagram's limit (2200 characters)
-                    const maxCaptionLength = 2200;
-                    let caption = videoTitle + '\n\n' + videoDescription;
-                    if (hashtagText) {
-                        caption += '\n\n' + hashtagText;
-                    }
-
-                    if (caption.length > maxCaptionLength) {
-                        caption = caption.substring(0, maxCaptionLength - 3) + '...';
-                    }
-
-                    // Upload Reel to Instagram
-                    const uploadResult = await instagramAPI.uploadReel(
-                        connection.access_token,
-                        instagramAccountId,
-                        videoUrl, // Must be publicly accessible
-                        {
-                            caption: caption,
-                            shareToFeed: true, // Share to feed as well as Reels
-                        }
-                    );
+        return publishingService.publishVideo(
+            userId,
+            target,
+            {
+                title: videoTitle,
+                description: videoDescription,
+                videoUrl,
+                altText: altText || undefined,
+                media: getPostMedia(),
+                postType: postTypes[target.platform],
+                thumbnailUrl,
+                captions: getPublishCaptions(),
+                videoSettings: videoSettings[target.platform],
+                scheduledPublishTime: publishTimes[target.platform],
+                asDraft: draftPlatforms.includes(target.platform),
+            },
+            (progress) => setPublishProgress(prev => ({ ...prev, [getTargetKey(target)]: progress })),
+            videoId
+        );
+    };
 
-                    console.log('Instagram upload successful:', uploadResult);
-                    return uploadResult;
-                } catch (error: any) {
-                    console.error('Instagram upload error:', error);
-                    throw new Error(`Instagram upload failed: ${error.message}`);
-                }
-        }
+    const toggleTarget = (target: PlatformAccountData, checked: boolean) => {
+        const key = getTargetKey(target);
+        setSelectedTargets(prev => checked ? [...prev, key] : prev.filter(k => k !== key));
     };
 
     const handleSchedule = async (scheduleData: ScheduleData) => {
-        if (!user || !videoData) return;
+        if (!user || !hasContent) return;
 
         if (!title.trim()) {
             toast({
@@ -364,14 +321,7 @@ const UploadPage = () => {
 
         try {
             // Save video to database first
-            const video = await saveVideoToDatabase(
-                user.id,
-                title,
-                description,
-                videoData.url,
-                videoData.path,
-                videoData.metadata
-            );
+            const video = await savePost(user.id);
 
             if (!video) {
                 throw new Error('Failed to save video to database');
@@ -379,11 +329,60 @@ const UploadPage = () => {
 
             setSavedVideoId(video.id);
 
-            // Schedule the post
-            await schedulePost(video.id, {
-                ...scheduleData,
-                platforms: scheduleData.platforms.filter(platform => platforms[platform as keyof typeof platforms]),
-            });
+            // Natively scheduled platforms get the upload now and publish on their own
+            const nativePlatforms = scheduleData.nativeSchedulePlatforms || [];
+            const nativeTargets = scheduleData.targets.filter(target => nativePlatforms.includes(target.platform));
+            if (nativeTargets.length > 0) {
+                setIsPublishing(true);
+                setPublishProgress({});
+
+                try {
+                    await Promise.all(
+                        nativeTargets.map(target =>
+                            publishingService.publishVideo(
+                                user.id,
+                                target,
+                                {
+                                    title,
+                                    description,
+                                    videoUrl: videoData?.url || '',
+                                    altText: altText || undefined,
+                                    media: getPostMedia(),
+                                    postType: postTypes[target.platform],
+                                    thumbnailUrl: scheduleData.thumbnailUrl,
+                                    captions: getPublishCaptions(),
+                                    videoSettings: videoSettings[target.platform],
+                                    scheduledPublishTime: scheduleData.scheduledDate,
+                                },
+                                (progress) => setPublishProgress(prev => ({ ...prev, [getTargetKey(target)]: progress })),
+                                video.id
+                            )
+                        )
+                    );
+                } finally {
+                    setIsPublishing(false);
+                }
+
+                toast({
+                    title: 'Scheduled on Platform',
+                    description: `${nativePlatforms.join(', ')} will publish at ${formatInTimeZone(scheduleData.scheduledDate, scheduleData.timeZone)}`,
+                });
+            }
+
+            // Schedule the remaining accounts with our own worker
+            const workerTargets = scheduleData.targets.filter(target => !nativePlatforms.includes(target.platform));
+            if (workerTargets.length > 0) {
+                const workerPlatforms = [...new Set(workerTargets.map(target => target.platform))];
+                await schedulePost(video.id, {
+                    ...scheduleData,
+                    platforms: workerPlatforms,
+                    targets: workerTargets,
+                    publishOptions: Object.fromEntries(workerPlatforms.map(platform => [
+                        platform,
+                        { postType: postTypes[platform], videoSettings: videoSettings[platform] },
+                    ])),
+                });
+            }
 
             setShowScheduleDialog(false);
             navigate('/library');
@@ -396,38 +395,15 @@ const UploadPage = () => {
         }
     };
 
-    const validatePlatformConnections = async (selectedPlatforms: string[]) => {
-        const { supabase } = await import('@/integrations/supabase/client');
-        const invalidPlatforms: string[] = [];
-
-        for (const platform of selectedPlatforms) {
-            const { data, error } = await (supabase as any)
-                .from('platform_connections')
-                .select('*')
-                .eq('user_id', user!.id)
-                .eq('platform', platform)
-                .eq('status', 'connected')
-                .single();
-
-            if (error || !data) {
-                invalidPlatforms.push(platform);
-            }
-        }
-
-        return invalidPlatforms;
-    };
-
     const handlePublish = async () => {
-        if (!user || !videoData) return;
+        if (!user || !hasContent) return;
 
-        const selectedPlatforms = Object.entries(platforms)
-            .filter(([_, selected]) => selected)
-            .map(([platform]) => platform);
+        const targets = getPublishTargets().filter(target => selectedTargets.includes(getTargetKey(target)));
 
-        if (selectedPlatforms.length === 0) {
+        if (targets.length === 0) {
             toast({
-                title: 'Select Platforms',
-                description: 'Please select at least one platform to publish to.',
+                title: 'Select Accounts',
+                description: 'Please select at least one account to publish to.',
                 variant: 'destructive',
             });
             return;
@@ -443,45 +419,25 @@ const UploadPage = () => {
         }
 
         setIsPublishing(true);
+        setPublishProgress({});
 
         try {
-            // Validate platform connections first
-            const invalidPlatforms = await validatePlatformConnections(selectedPlatforms);
-
-            if (invalidPlatforms.length > 0) {
-                toast({
-                    title: 'Connection Required',
-                    description: `Please connect your ${invalidPlatforms.join(', ')} account(s) first.`,
-                    variant: 'destructive',
-                });
-                setIsPublishing(false);
-                navigate('/platform-connections');
-                return;
-            }
-
             // Save video to database
-            const video = await saveVideoToDatabase(
-                user.id,
-                title,
-                description,
-                videoData.url,
-                videoData.path,
-                videoData.metadata
-            );
+            const video = await savePost(user.id);
 
             toast({
                 title: 'Publishing...',
-                description: `Publishing to ${selectedPlatforms.join(', ')}`,
+                description: `Publishing to ${targets.map(target => target.name).join(', ')}`,
             });
 
-            // Publish to selected platforms with detailed logging
+            // Publish to selected accounts with detailed logging
             const publishResults = await Promise.allSettled(
-                selectedPlatforms.map(async (platform) => {
+                targets.map(async (target) => {
                     try {
-                        await publishToPlatform(platform, user.id, title, description, videoData.url);
-                        return { platform, status: 'success', error: null };
+                        await publishToPlatform(target, user.id, title, description, videoData?.url || '', video?.id);
+                        return { platform: target.name, status: 'success', error: null };
                     } catch (error: any) {
-                        return { platform, status: 'failed', error: error.message };
+                        return { platform: target.name, status: 'failed', error: error.message };
                     }
                 })
             );
@@ -507,7 +463,7 @@ const UploadPage = () => {
             } else {
                 toast({
                     title: 'Published Successfully!',
-                    description: `Video published to ${selectedPlatforms.join(', ')}`,
+                    description: `Video published to ${targets.map(target => target.name).join(', ')}`,
                 });
             }
 
@@ -575,7 +531,11 @@ const UploadPage = () => {
                                                 onPause={() => setIsPlaying(false)}
                                                 controls={false}
                                                 muted={isMuted}
-                                            />
+                                            >
+                                                {previewCaptionsUrl && (
+                                                    <track key={previewCaptionsUrl} kind="subtitles" src={previewCaptionsUrl} default />
+                                                )}
+                                            </video>
 
                                             {/* Video Controls Overlay */}
                                             <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/80 to-transparent p-4">
@@ -640,8 +600,35 @@ const UploadPage = () => {
                                                 <span>{videoData.metadata.fps || 'Unknown'}</span>
                                             </div>
                                         </div>
+
+                                        <div className="mt-6">
+                                            <ThumbnailPicker
+                                                videoUrl={videoData.url}
+                                                userId={user?.id || ''}
+                                                title={title}
+                                                description={description}
+                                                value={thumbnailUrl}
+                                                onChange={setThumbnailUrl}
+                                            />
+                                        </div>
                                     </Card>
                                 )}
+
+                                {videoData && (
+                                    <CaptionEditor
+                                        tracks={captionTracks}
+                                        onChange={setCaptionTracks}
+                                        currentTime={currentTime}
+                                        duration={duration || videoData.metadata.duration}
+                                        onSeek={seekTo}
+                                    />
+                                )}
+
+                                <MediaUploader
+                                    media={media}
+                                    onChange={setMedia}
+                                    userId={user?.id || ''}
+                                />
                             </div>
 
                             {/* Right Column - Metadata & Publishing */}
@@ -684,61 +671,149 @@ const UploadPage = () => {
                                                 className="resize-none"
                                             />
                                         </div>
+
+                                        <div>
+                                            <Label htmlFor="alt-text">Alt Text</Label>
+                                            <Input
+                                                id="alt-text"
+                                                placeholder="Describe the video for people using screen readers..."
+                                                value={altText}
+                                                onChange={(e) => setAltText(e.target.value)}
+                                                className="mt-2"
+                                            />
+                                        </div>
                                     </div>
                                 </Card>
 
                                 <Card className="glass-card p-6">
-                                    <h3 className="text-lg font-bold mb-4">Select Platforms</h3>
+                                    <h3 className="text-lg font-bold mb-4">Select Accounts</h3>
 
                                     <div className="space-y-4">
-                                        <div className="flex items-center space-x-3">
-                                            <Checkbox
-                                                id="youtube"
-                                                checked={platforms.youtube}
-                                                onCheckedChange={(checked) =>
-                                                    setPlatforms({ ...platforms, youtube: !!checked })
-                                                }
-                                            />
-                                            <Label htmlFor="youtube" className="flex items-center space-x-2 cursor-pointer">
-                                                <span className="text-2xl">📺</span>
-                                                <span>YouTube</span>
-                                            </Label>
-                                        </div>
-
-                                        <div className="flex items-center space-x-3">
-                                            <Checkbox
-                                                id="facebook"
-                                                checked={platforms.facebook}
-                                                onCheckedChange={(checked) =>
-                                                    setPlatforms({ ...platforms, facebook: !!checked })
-                                                }
-                                            />
-                                            <Label htmlFor="facebook" className="flex items-center space-x-2 cursor-pointer">
-                                                <span className="text-2xl">📘</span>
-                                                <span>Facebook</span>
-                                            </Label>
-                                        </div>
+                                        {connections.map((connection) => (
+                                            <div key={connection.platform} className="space-y-2">
+                                                <div className="flex items-center space-x-2">
+                                                    <span className="text-2xl">{connection.icon}</span>
+                                                    <span className="font-medium">
+                                                        {connection.name}
+                                                        {getPlatformAdapter(connection.platform).contentLabel &&
+                                                            ` (${getPlatformAdapter(connection.platform).contentLabel})`}
+                                                    </span>
+                                                </div>
 
-                                        <div className="flex items-center space-x-3">
-                                            <Checkbox
-                                                id="instagram"
-                                                checked={platforms.instagram}
-                                                onCheckedChange={(checked) =>
-                                                    setPlatforms({ ...platforms, instagram: !!checked })
-                                                }
-                                            />
-                                            <Label htmlFor="instagram" className="flex items-center space-x-2 cursor-pointer">
-                                                <span className="text-2xl">📷</span>
-                                                <span>Instagram (Reels)</span>
-                                            </Label>
-                                        </div>
+                                                {getPlatformAdapter(connection.platform).supportsDrafts && connection.accounts.length > 0 && (
+                                                    <div className="flex items-center space-x-3 ml-9">
+                                                        <Checkbox
+                                                            id={`${connection.platform}-draft`}
+                                                            checked={draftPlatforms.includes(connection.platform)}
+                                                            onCheckedChange={(checked) =>
+                                                                setDraftPlatforms(prev => checked
+                                                                    ? [...prev, connection.platform]
+                                                                    : prev.filter(p => p !== connection.platform))
+                                                            }
+                                                        />
+                                                        <Label htmlFor={`${connection.platform}-draft`} className="cursor-pointer text-sm text-muted-foreground">
+                                                            Send to {connection.name} inbox to finish in the app
+                                                        </Label>
+                                                    </div>
+                                                )}
+
+                                                {getPlatformAdapter(connection.platform).postTypes && connection.accounts.length > 0 && (
+                                                    <div className="flex items-center space-x-3 ml-9">
+                                                        <Label className="text-sm text-muted-foreground">Post as</Label>
+                                                        <Select
+                                                            value={postTypes[connection.platform] || 'auto'}
+                                                            onValueChange={(value) =>
+                                                                setPostTypes(prev => ({
+                                                                    ...prev,
+                                                                    [connection.platform]: value === 'auto' ? '' : value,
+                                                                }))
+                                                            }
+                                                        >
+                                                            <SelectTrigger className="h-8 w-40">
+                                                                <SelectValue />
+                                                            </SelectTrigger>
+                                                            <SelectContent>
+                                                                <SelectItem value="auto">Automatic</SelectItem>
+                                                                {getPlatformAdapter(connection.platform).postTypes!.map(postType => (
+                                                                    <SelectItem key={postType.id} value={postType.id}>
+                                                                        {postType.label}
+                                                                    </SelectItem>
+                                                                ))}
+                                                            </SelectContent>
+                                                        </Select>
+                                                    </div>
+                                                )}
+
+                                                {connection.accounts.length === 0 ? (
+                                                    <Link to="/platforms" className="ml-9 text-sm text-muted-foreground underline">
+                                                        Connect {connection.name}
+                                                    </Link>
+                                                ) : (
+                                                    connection.accounts.map((account) => {
+                                                        const key = getTargetKey(account);
+                                                        return (
+                                                            <div key={key} className="flex items-center space-x-3 ml-9">
+                                                                <Checkbox
+                                                                    id={key}
+                                                                    checked={selectedTargets.includes(key)}
+                                                                    disabled={account.needsReauth ||
+                                                                        (!videoData && media.length > 0 && !getPlatformAdapter(account.platform).supportsImages)}
+                                                                    onCheckedChange={(checked) => toggleTarget(account, !!checked)}
+                                                                />
+                                                                <Label htmlFor={key} className="cursor-pointer">
+                                                                    {account.name}
+                                                                    {account.needsReauth && ' (reconnect required)'}
+                                                                </Label>
+                                                                {isPublishing && selectedTargets.includes(key) && (
+                                                                    <div className="flex-1 flex items-center gap-2">
+                                                                        <Progress value={publishProgress[key] || 0} className="h-2" />
+                                                                        <span className="text-xs text-muted-foreground w-10 text-right">
+                                                                            {Math.round(publishProgress[key] || 0)}%
+                                                                        </span>
+                                                                    </div>
+                                                                )}
+                                                            </div>
+                                                        );
+                                                    })
+                                                )}
+                                            </div>
+                                        ))}
                                     </div>
                                 </Card>
 
+                                {videoData && getPlatformAdapters()
+                                    .filter(adapter => adapter.videoSettingsFields)
+                                    .map(adapter => {
+                                        const target = getPublishTargets().find(t =>
+                                            t.platform === adapter.id && selectedTargets.includes(getTargetKey(t)));
+                                        if (!target) return null;
+
+                                        return (
+                                            <Card key={adapter.id} className="glass-card p-6">
+                                                <h3 className="text-lg font-bold mb-4">
+                                                    {adapter.icon} {adapter.name} Settings
+                                                </h3>
+                                                <VideoSettingsForm
+                                                    adapter={adapter}
+                                                    userId={user?.id || ''}
+                                                    target={target}
+                                                    value={videoSettings[adapter.id] || {}}
+                                                    onChange={(settings) =>
+                                                        setVideoSettings(prev => ({ ...prev, [adapter.id]: settings }))
+                                                    }
+                                                    publishAt={adapter.supportsNativeScheduling ? publishTimes[adapter.id] : undefined}
+                                                    onPublishAtChange={adapter.supportsNativeScheduling
+                                                        ? (publishAt) => setPublishTimes(prev => ({ ...prev, [adapter.id]: publishAt }))
+                                                        : undefined}
+                                                />
+                                            </Card>
+                                        );
+                                    })}
+
                                 <div className="flex gap-4">
                                     <Button
                                         onClick={handlePublish}
-                                        disabled={!videoData || isPublishing}
+                                        disabled={!hasContent || isPublishing}
                                         className="flex-1 btn-3d gradient-instagram text-white"
                                     >
                                         <Send className="w-4 h-4 mr-2" />
@@ -747,7 +822,7 @@ const UploadPage = () => {
 
                                     <Button
                                         variant="outline"
-                                        disabled={!videoData}
+                                        disabled={!hasContent}
                                         onClick={() => setShowScheduleDialog(true)}
                                         className="btn-3d"
                                     >
@@ -770,7 +845,10 @@ const UploadPage = () => {
                 open={showScheduleDialog}
                 onOpenChange={setShowScheduleDialog}
                 onSchedule={handleSchedule}
+                accounts={getPublishTargets()}
+                defaultSelected={selectedTargets}
                 isLoading={isScheduling}
+                video={videoData ? { url: videoData.url, title, description, thumbnailUrl } : undefined}
             />
         </div>
     );
@@ -24,21 +24,49 @@ export interface PlatformMetrics {
     last_updated: string;
 }
 
+/**
+ * A Facebook or Instagram webhook event, as written by the platform-webhooks function
+ */
+export interface PlatformEvent {
+    id: string;
+    user_id: string;
+    connection_id: string | null;
+    platform: 'facebook' | 'instagram';
+    account_id: string;
+    event_type: 'comment' | 'mention' | 'feed' | 'live_video';
+    field: string;
+    verb: string | null;
+    object_id: string | null;
+    parent_id: string | null;
+    payload: Record<string, unknown>;
+    occurred_at: string;
+    read_at: string | null;
+    created_at: string;
+}
+
+const PLATFORM_NAMES: Record<PlatformEvent['platform'], string> = {
+    facebook: 'Facebook',
+    instagram: 'Instagram',
+};
+
+const EVENT_MESSAGES: Record<PlatformEvent['event_type'], string> = {
+    comment: 'New comment',
+    mention: 'New mention',
+    feed: 'Page feed updated',
+    live_video: 'Live video status changed',
+};
+
 class RealtimeDataService {
     private subscribers: Map<string, Set<(data: any) => void>> = new Map();
-    private pollingInterval: NodeJS.Timeout | null = null;
 
     /**
-     * Initialize real-time connection using polling
+     * Initialize real-time connection
      */
     async initialize(): Promise<void> {
         try {
             // Subscribe to database changes using Supabase real-time
             this.subscribeToDatabaseChanges();
 
-            // Start polling for updates
-            this.startPolling();
-
             console.log('Real-time data service initialized');
         } catch (error) {
             console.error('Failed to initialize real-time service:', error);
@@ -72,49 +100,30 @@ class RealtimeDataService {
                 )
                 .subscribe();
 
+            // Webhook deliveries; RLS limits these to the signed-in user's pages and accounts
+            const eventsChannel = supabase
+                .channel('platform-events')
+                .on('postgres_changes',
+                    { event: 'INSERT', schema: 'public', table: 'platform_events' },
+                    (payload) => {
+                        const event = payload.new as PlatformEvent;
+                        this.notifySubscribers('platform-events', event);
+                        this.sendNotification(
+                            event.event_type,
+                            `${EVENT_MESSAGES[event.event_type]} on ${PLATFORM_NAMES[event.platform]}`,
+                            event
+                        );
+                    }
+                )
+                .subscribe();
+
             // Store channels for cleanup
-            (this as any).channels = [analyticsChannel, platformChannel];
+            (this as any).channels = [analyticsChannel, platformChannel, eventsChannel];
         } catch (error) {
             console.error('Failed to subscribe to database changes:', error);
         }
     }
 
-    /**
-     * Start polling for data updates
-     */
-    private startPolling(): void {
-        this.pollingInterval = setInterval(async () => {
-            try {
-                const { data: { user } } = await supabase.auth.getUser();
-                if (user) {
-                    // Poll for latest analytics data
-                    await this.pollAnalyticsData(user.id);
-                }
-            } catch (error) {
-                console.error('Error during polling:', error);
-            }
-        }, 30000); // Poll every 30 seconds
-    }
-
-    /**
-     * Poll analytics data for updates
-     */
-    private async pollAnalyticsData(userId: string): Promise<void> {
-        try {
-            // This would normally fetch from your APIs, but for demo we'll simulate updates
-            const mockData = {
-                timestamp: new Date().toISOString(),
-                followers: Math.floor(Math.random() * 1000) + 50000,
-                engagement: Math.random() * 10 + 5,
-                reach: Math.floor(Math.random() * 10000) + 50000
-            };
-
-            this.notifySubscribers('analytics', mockData);
-        } catch (error) {
-            console.error('Failed to poll analytics data:', error);
-        }
-    }
-
     /**
      * Subscribe to real-time updates
      */
@@ -275,11 +284,6 @@ class RealtimeDataService {
      * Disconnect and cleanup
      */
     disconnect(): void {
-        if (this.pollingInterval) {
-            clearInterval(this.pollingInterval);
-            this.pollingInterval = null;
-        }
-
         // Clean up Supabase channels
         if ((this as any).channels) {
             (this as any).channels.forEach((channel: any) => {
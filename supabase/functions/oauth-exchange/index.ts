@@ -0,0 +1,850 @@
+/**
+ * OAuth Exchange Edge Function
+ * Builds authorization URLs, exchanges codes and refreshes tokens server-side
+ * so platform client secrets never reach the browser
+ *
+ * Actions (POST JSON, caller must send their Supabase JWT):
+ *   { action: 'authorize', platform, redirectUri, params? } -> { authUrl }
+ *   { action: 'exchange', code, state }                     -> { success, platform }
+ *   { action: 'connect', platform, credentials }            -> { success, platform }
+ *   { action: 'refresh', connectionId }                     -> { access_token, expires_in }
+ *
+ * `params.instanceUrl` picks the Mastodon server; `connect` signs in to
+ * platforms without OAuth (Bluesky app passwords). Other edge functions may
+ * `refresh` with the service role key instead of a JWT, naming the `userId`.
+ */
+
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4'
+
+const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Local stand-in for Google and Graph during development (see README "Platform Sandbox")
+const SANDBOX_URL = Deno.env.get('PLATFORM_SANDBOX_URL') ?? ''
+
+/**
+ * The sandbox equivalent of a Google or Graph URL when PLATFORM_SANDBOX_URL is set
+ */
+const platformUrl = (url: string) => {
+    if (!SANDBOX_URL) return url
+    const { host, pathname, search } = new URL(url)
+    return `${SANDBOX_URL}/${host}${pathname}${search}`
+}
+
+const GRAPH_API_BASE = platformUrl('https://graph.facebook.com/v18.0')
+const TIKTOK_API_BASE = 'https://open.tiktokapis.com/v2'
+const BLUESKY_DEFAULT_SERVICE = 'https://bsky.social'
+const MASTODON_SCOPES = ['read', 'write:statuses', 'write:media']
+const STATE_TTL_MS = 10 * 60 * 1000 // 10 minutes
+const CALLBACK_PATH = '/oauth/callback'
+
+interface TokenResult {
+    access_token: string
+    refresh_token?: string
+    expires_in?: number
+}
+
+interface AccountInfo {
+    account_id?: string
+    account_name?: string
+}
+
+interface StoredConnection {
+    access_token: string
+    refresh_token?: string
+    instance_url?: string | null
+}
+
+interface OAuthProvider {
+    authorizeUrl: string
+    clientId: string
+    /** Query parameter carrying the client id; TikTok calls it client_key */
+    clientIdParam?: string
+    scopes: string[]
+    scopeSeparator: string
+    extraParams?: Record<string, string>
+    exchange: (code: string, redirectUri: string) => Promise<TokenResult>
+    refresh: (connection: StoredConnection) => Promise<TokenResult>
+    getAccount: (accessToken: string) => Promise<AccountInfo>
+}
+
+/**
+ * Platforms signed in to with credentials rather than a redirect
+ */
+interface CredentialProvider {
+    scopes: string[]
+    login: (credentials: Record<string, string>) => Promise<TokenResult & AccountInfo & { instance_url: string }>
+    refresh: (connection: StoredConnection) => Promise<TokenResult>
+}
+
+interface StatePayload {
+    uid: string
+    platform: string
+    redirectUri: string
+    instanceUrl?: string
+    nonce: string
+    exp: number
+}
+
+/**
+ * Provider error carrying the HTTP status, so 4xx (bad grant) can be told
+ * apart from 5xx / network failures
+ */
+class ProviderError extends Error {
+    status: number
+
+    constructor(message: string, status: number) {
+        super(message)
+        this.status = status
+    }
+
+    get isPermanent() {
+        return this.status >= 400 && this.status < 500 && this.status !== 429
+    }
+}
+
+const env = (name: string) => Deno.env.get(name) ?? ''
+
+async function requestToken(url: string, init: RequestInit, fallbackMessage: string): Promise<TokenResult> {
+    const response = await fetch(url, init)
+    const body = await response.json().catch(() => ({}))
+
+    // TikTok reports token errors in a 200 body
+    if (!response.ok || (typeof body.error === 'string' && !body.access_token)) {
+        const message = body.error_description || body.error?.message ||
+            (typeof body.error === 'string' ? body.error : null) || fallbackMessage
+        throw new ProviderError(message, response.ok ? 400 : response.status)
+    }
+
+    return body
+}
+
+// =============================================================================
+// PROVIDERS
+// =============================================================================
+
+const googleToken = (params: Record<string, string>, fallbackMessage: string) =>
+    requestToken(platformUrl('https://oauth2.googleapis.com/token'), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: new URLSearchParams({
+            client_id: env('YOUTUBE_CLIENT_ID'),
+            client_secret: env('YOUTUBE_CLIENT_SECRET'),
+            ...params,
+        }),
+    }, fallbackMessage)
+
+const linkedinToken = (params: Record<string, string>, fallbackMessage: string) =>
+    requestToken('https://www.linkedin.com/oauth/v2/accessToken', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: new URLSearchParams({
+            client_id: env('LINKEDIN_CLIENT_ID'),
+            client_secret: env('LINKEDIN_CLIENT_SECRET'),
+            ...params,
+        }),
+    }, fallbackMessage)
+
+const tiktokToken = (params: Record<string, string>, fallbackMessage: string) =>
+    requestToken(`${TIKTOK_API_BASE}/oauth/token/`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: new URLSearchParams({
+            client_key: env('TIKTOK_CLIENT_KEY'),
+            client_secret: env('TIKTOK_CLIENT_SECRET'),
+            ...params,
+        }),
+    }, fallbackMessage)
+
+const facebookToken = (appId: string, appSecret: string, params: Record<string, string>, fallbackMessage: string) =>
+    requestToken(`${GRAPH_API_BASE}/oauth/access_token?${new URLSearchParams({
+        client_id: appId,
+        client_secret: appSecret,
+        ...params,
+    })}`, {}, fallbackMessage)
+
+function facebookProvider(appId: string, appSecret: string, scopes: string[]): OAuthProvider {
+    const longLived = (accessToken: string) =>
+        facebookToken(appId, appSecret, {
+            grant_type: 'fb_exchange_token',
+            fb_exchange_token: accessToken,
+        }, 'Failed to get long-lived token')
+
+    return {
+        authorizeUrl: platformUrl('https://www.facebook.com/v18.0/dialog/oauth'),
+        clientId: appId,
+        scopes,
+        scopeSeparator: ',',
+        async exchange(code, redirectUri) {
+            const shortLived = await facebookToken(appId, appSecret, {
+                redirect_uri: redirectUri,
+                code,
+            }, 'Failed to exchange code for token')
+
+            // Swap the short-lived token for a long-lived one
+            return longLived(shortLived.access_token)
+        },
+        refresh: (connection) => longLived(connection.access_token),
+        async getAccount(accessToken) {
+            const response = await fetch(`${GRAPH_API_BASE}/me?fields=id,name&access_token=${accessToken}`)
+            if (!response.ok) return {}
+            const data = await response.json()
+            return { account_id: data.id, account_name: data.name }
+        },
+    }
+}
+
+const providers: Record<string, OAuthProvider> = {
+    youtube: {
+        authorizeUrl: platformUrl('https://accounts.google.com/o/oauth2/v2/auth'),
+        clientId: env('YOUTUBE_CLIENT_ID'),
+        scopes: [
+            'https://www.googleapis.com/auth/youtube.upload',
+            // captions.insert
+            'https://www.googleapis.com/auth/youtube.force-ssl',
+            'https://www.googleapis.com/auth/youtube.readonly',
+            'https://www.googleapis.com/auth/yt-analytics.readonly',
+        ],
+        scopeSeparator: ' ',
+        // select_account lets the user connect a second channel
+        extraParams: { access_type: 'offline', prompt: 'select_account consent' },
+        exchange: (code, redirectUri) =>
+            googleToken({
+                code,
+                redirect_uri: redirectUri,
+                grant_type: 'authorization_code',
+            }, 'Failed to exchange code for tokens'),
+        refresh(connection) {
+            if (!connection.refresh_token) {
+                throw new ProviderError('No refresh token stored for YouTube connection', 401)
+            }
+            return googleToken({
+                refresh_token: connection.refresh_token,
+                grant_type: 'refresh_token',
+            }, 'Failed to refresh access token')
+        },
+        async getAccount(accessToken) {
+            const response = await fetch(platformUrl('https://www.googleapis.com/youtube/v3/channels?part=snippet&mine=true'), {
+                headers: { Authorization: `Bearer ${accessToken}` },
+            })
+            if (!response.ok) return {}
+            const channel = (await response.json()).items?.[0]
+            return channel ? { account_id: channel.id, account_name: channel.snippet.title } : {}
+        },
+    },
+    facebook: facebookProvider(
+        env('FACEBOOK_APP_ID'),
+        env('FACEBOOK_APP_SECRET'),
+        [
+            'pages_show_list',
+            'pages_read_engagement',
+            'pages_manage_posts',
+            'pages_manage_engagement',
+            'pages_read_user_content',
+            'instagram_basic',
+            'instagram_content_publish',
+            'instagram_manage_comments',
+        ]
+    ),
+    tiktok: {
+        authorizeUrl: 'https://www.tiktok.com/v2/auth/authorize/',
+        clientId: env('TIKTOK_CLIENT_KEY'),
+        clientIdParam: 'client_key',
+        scopes: [
+            'user.info.basic',
+            'user.info.profile',
+            'user.info.stats',
+            'video.list',
+            'video.publish',
+            'video.upload',
+        ],
+        scopeSeparator: ',',
+        exchange: (code, redirectUri) =>
+            tiktokToken({
+                code,
+                redirect_uri: redirectUri,
+                grant_type: 'authorization_code',
+            }, 'Failed to exchange code for tokens'),
+        refresh(connection) {
+            if (!connection.refresh_token) {
+                throw new ProviderError('No refresh token stored for TikTok connection', 401)
+            }
+            // TikTok rotates refresh tokens; the new one is stored by the caller
+            return tiktokToken({
+                refresh_token: connection.refresh_token,
+                grant_type: 'refresh_token',
+            }, 'Failed to refresh access token')
+        },
+        async getAccount(accessToken) {
+            const response = await fetch(`${TIKTOK_API_BASE}/user/info/?fields=open_id,display_name`, {
+                headers: { Authorization: `Bearer ${accessToken}` },
+            })
+            if (!response.ok) return {}
+            const user = (await response.json()).data?.user
+            return user ? { account_id: user.open_id, account_name: user.display_name } : {}
+        },
+    },
+    linkedin: {
+        authorizeUrl: 'https://www.linkedin.com/oauth/v2/authorization',
+        clientId: env('LINKEDIN_CLIENT_ID'),
+        scopes: [
+            'openid',
+            'profile',
+            'w_member_social',
+            'r_organization_social',
+            'w_organization_social',
+            'rw_organization_admin',
+        ],
+        scopeSeparator: ' ',
+        exchange: (code, redirectUri) =>
+            linkedinToken({
+                code,
+                redirect_uri: redirectUri,
+                grant_type: 'authorization_code',
+            }, 'Failed to exchange code for tokens'),
+        refresh(connection) {
+            // LinkedIn only issues refresh tokens to approved Marketing API apps
+            if (!connection.refresh_token) {
+                throw new ProviderError('LinkedIn did not issue a refresh token; reconnect the account', 401)
+            }
+            return linkedinToken({
+                refresh_token: connection.refresh_token,
+                grant_type: 'refresh_token',
+            }, 'Failed to refresh access token')
+        },
+        async getAccount(accessToken) {
+            const response = await fetch('https://api.linkedin.com/v2/userinfo', {
+                headers: { Authorization: `Bearer ${accessToken}` },
+            })
+            if (!response.ok) return {}
+            const member = await response.json()
+            return { account_id: member.sub, account_name: member.name }
+        },
+    },
+    // Instagram Business accounts authorize through Facebook Login
+    instagram: facebookProvider(
+        env('INSTAGRAM_APP_ID') || env('FACEBOOK_APP_ID'),
+        env('INSTAGRAM_APP_SECRET') || env('FACEBOOK_APP_SECRET'),
+        ['instagram_basic', 'instagram_content_publish', 'instagram_manage_comments']
+    ),
+}
+
+// Dot-separated DNS labels ending in an alphabetic top-level domain, so IP
+// literals and single-label names never match
+const PUBLIC_HOSTNAME_PATTERN = /^(?=.{1,253}$)(?:[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+(?:[a-z]{2,63}|xn--[a-z0-9-]{1,59})$/
+
+// Names that only ever point inside a private network
+const PRIVATE_HOSTNAME_PATTERN = /(?:^|\.)(?:localhost|local|localdomain|internal|intranet|lan|home|corp|arpa)$/
+
+/**
+ * Normalize a user-supplied server address to its origin. We fetch it server-side,
+ * so only public host names on the default https port are accepted: no IP
+ * literals, loopback or private names. ALLOW_INSECURE_INSTANCES lifts this and
+ * allows plain http, for local test servers.
+ */
+function normalizeInstanceUrl(value: string): string {
+    let url: URL
+    try {
+        url = new URL(value.includes('://') ? value : `https://${value}`)
+    } catch {
+        throw new ProviderError('Invalid server address', 400)
+    }
+
+    if (env('ALLOW_INSECURE_INSTANCES') === 'true') {
+        if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+            throw new ProviderError('Server address must use https', 400)
+        }
+        return url.origin
+    }
+
+    if (url.protocol !== 'https:') {
+        throw new ProviderError('Server address must use https', 400)
+    }
+
+    const hostname = url.hostname.toLowerCase()
+    if (
+        url.port ||
+        url.username ||
+        url.password ||
+        !PUBLIC_HOSTNAME_PATTERN.test(hostname) ||
+        PRIVATE_HOSTNAME_PATTERN.test(hostname)
+    ) {
+        throw new ProviderError('Server address must be a public host name, e.g. mastodon.social', 400)
+    }
+
+    return url.origin
+}
+
+// Mastodon apps are registered per instance on first use and reused after that
+async function getMastodonApp(db: SupabaseClient, instanceUrl: string, redirectUri: string) {
+    const { data: existing } = await db
+        .from('mastodon_apps')
+        .select('client_id, client_secret')
+        .eq('instance_url', instanceUrl)
+        .eq('redirect_uri', redirectUri)
+        .maybeSingle()
+
+    if (existing) return existing
+
+    const response = await fetch(`${instanceUrl}/api/v1/apps`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: new URLSearchParams({
+            client_name: 'Orbit',
+            redirect_uris: redirectUri,
+            scopes: MASTODON_SCOPES.join(' '),
+        }),
+    })
+    if (!response.ok) {
+        throw new ProviderError(`Could not register with ${instanceUrl}`, response.status >= 500 ? 502 : 400)
+    }
+
+    const app = await response.json()
+    const { error } = await db.from('mastodon_apps').insert({
+        instance_url: instanceUrl,
+        redirect_uri: redirectUri,
+        client_id: app.client_id,
+        client_secret: app.client_secret,
+    })
+    if (error) throw error
+
+    return { client_id: app.client_id, client_secret: app.client_secret }
+}
+
+async function mastodonProvider(db: SupabaseClient, instanceUrl: string, redirectUri: string): Promise<OAuthProvider> {
+    const app = await getMastodonApp(db, instanceUrl, redirectUri)
+
+    return {
+        authorizeUrl: `${instanceUrl}/oauth/authorize`,
+        clientId: app.client_id,
+        scopes: MASTODON_SCOPES,
+        scopeSeparator: ' ',
+        exchange: (code, redirectUri) =>
+            requestToken(`${instanceUrl}/oauth/token`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+                body: new URLSearchParams({
+                    client_id: app.client_id,
+                    client_secret: app.client_secret,
+                    redirect_uri: redirectUri,
+                    grant_type: 'authorization_code',
+                    code,
+                    scope: MASTODON_SCOPES.join(' '),
+                }),
+            }, 'Failed to exchange code for token'),
+        refresh() {
+            // Mastodon tokens don't expire; a revoked one needs a new authorization
+            throw new ProviderError('Mastodon access was revoked; reconnect the account', 401)
+        },
+        async getAccount(accessToken) {
+            const response = await fetch(`${instanceUrl}/api/v1/accounts/verify_credentials`, {
+                headers: { Authorization: `Bearer ${accessToken}` },
+            })
+            if (!response.ok) return {}
+            const account = await response.json()
+            // Account ids are only unique per instance; the profile URL is unique everywhere
+            return { account_id: account.url, account_name: account.display_name || account.acct }
+        },
+    }
+}
+
+async function getOAuthProvider(
+    db: SupabaseClient,
+    platform: string,
+    redirectUri: string,
+    instanceUrl?: string
+): Promise<OAuthProvider | undefined> {
+    if (platform === 'mastodon') {
+        if (!instanceUrl) {
+            throw new ProviderError('Mastodon needs an instance URL', 400)
+        }
+        return mastodonProvider(db, instanceUrl, redirectUri)
+    }
+
+    return providers[platform]
+}
+
+/**
+ * Seconds until a JWT expires, from its exp claim
+ */
+function jwtExpiresIn(jwt: string): number | undefined {
+    try {
+        const { exp } = JSON.parse(new TextDecoder().decode(fromBase64Url(jwt.split('.')[1])))
+        return exp ? exp - Math.floor(Date.now() / 1000) : undefined
+    } catch {
+        return undefined
+    }
+}
+
+async function blueskySession(serviceUrl: string, method: string, init: RequestInit) {
+    const response = await fetch(`${serviceUrl}/xrpc/${method}`, init)
+    const body = await response.json().catch(() => ({}))
+
+    if (!response.ok) {
+        throw new ProviderError(body.message || body.error || 'Bluesky sign-in failed', response.status)
+    }
+
+    // Accounts can live on any PDS; later calls go straight to it, so it gets
+    // the same public host check as an address the user typed
+    const pds = body.didDoc?.service?.find((service: { id: string }) => service.id === '#atproto_pds')?.serviceEndpoint
+
+    return {
+        access_token: body.accessJwt,
+        refresh_token: body.refreshJwt,
+        expires_in: jwtExpiresIn(body.accessJwt),
+        account_id: body.did,
+        account_name: body.handle,
+        instance_url: pds ? normalizeInstanceUrl(pds) : serviceUrl,
+    }
+}
+
+const credentialProviders: Record<string, CredentialProvider> = {
+    bluesky: {
+        scopes: ['atproto'],
+        login(credentials) {
+            if (!credentials.identifier || !credentials.password) {
+                throw new ProviderError('Enter your Bluesky handle and an app password', 400)
+            }
+            const serviceUrl = normalizeInstanceUrl(credentials.serviceUrl || BLUESKY_DEFAULT_SERVICE)
+
+            return blueskySession(serviceUrl, 'com.atproto.server.createSession', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ identifier: credentials.identifier, password: credentials.password }),
+            })
+        },
+        refresh(connection) {
+            if (!connection.refresh_token) {
+                throw new ProviderError('No refresh token stored for Bluesky connection', 401)
+            }
+            // The refresh JWT is rotated on every use
+            return blueskySession(connection.instance_url || BLUESKY_DEFAULT_SERVICE, 'com.atproto.server.refreshSession', {
+                method: 'POST',
+                headers: { Authorization: `Bearer ${connection.refresh_token}` },
+            })
+        },
+    },
+}
+
+// =============================================================================
+// SIGNED STATE
+// =============================================================================
+
+const encoder = new TextEncoder()
+
+const toBase64Url = (bytes: Uint8Array) =>
+    btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+
+const fromBase64Url = (value: string) =>
+    Uint8Array.from(atob(value.replace(/-/g, '+').replace(/_/g, '/')), c => c.charCodeAt(0))
+
+async function getStateKey() {
+    const secret = env('OAUTH_STATE_SECRET')
+    if (!secret) {
+        throw new Error('OAUTH_STATE_SECRET is not configured')
+    }
+
+    return crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify'])
+}
+
+/**
+ * Sign a state and record its nonce, which verifyState consumes
+ */
+async function signState(db: SupabaseClient, payload: StatePayload): Promise<string> {
+    // Abandoned authorizations leave nonces behind; clear the user's expired ones
+    await db
+        .from('oauth_state_nonces')
+        .delete()
+        .eq('user_id', payload.uid)
+        .lt('expires_at', new Date().toISOString())
+
+    const { error } = await db
+        .from('oauth_state_nonces')
+        .insert({
+            nonce: payload.nonce,
+            user_id: payload.uid,
+            expires_at: new Date(payload.exp).toISOString(),
+        })
+
+    if (error) throw error
+
+    const body = toBase64Url(encoder.encode(JSON.stringify(payload)))
+    const signature = await crypto.subtle.sign('HMAC', await getStateKey(), encoder.encode(body))
+    return `${body}.${toBase64Url(new Uint8Array(signature))}`
+}
+
+async function verifyState(db: SupabaseClient, state: string, userId: string): Promise<StatePayload> {
+    const [body, signature] = state.split('.')
+    if (!body || !signature) {
+        throw new Error('Malformed state parameter')
+    }
+
+    // crypto.subtle.verify compares in constant time
+    const valid = await crypto.subtle.verify('HMAC', await getStateKey(), fromBase64Url(signature), encoder.encode(body))
+    if (!valid) {
+        throw new Error('Invalid state signature')
+    }
+
+    const payload: StatePayload = JSON.parse(new TextDecoder().decode(fromBase64Url(body)))
+
+    if (payload.exp < Date.now()) {
+        throw new Error('Authorization request expired, please try again')
+    }
+
+    if (payload.uid !== userId) {
+        throw new Error('Authorization was started by a different user')
+    }
+
+    // Each state is good for one exchange; deleting the nonce claims it
+    const { data: nonces, error } = await db
+        .from('oauth_state_nonces')
+        .delete()
+        .eq('nonce', payload.nonce)
+        .eq('user_id', userId)
+        .select('nonce')
+
+    if (error) throw error
+    if (!nonces || nonces.length === 0) {
+        throw new Error('Authorization request was already used, please try again')
+    }
+
+    return payload
+}
+
+function isAllowedRedirect(redirectUri: string, req: Request): boolean {
+    let url: URL
+    try {
+        url = new URL(redirectUri)
+    } catch {
+        return false
+    }
+
+    const allowedOrigins = env('OAUTH_ALLOWED_ORIGINS').split(',').map(origin => origin.trim()).filter(Boolean)
+    const origins = allowedOrigins.length > 0 ? allowedOrigins : [req.headers.get('Origin') ?? '']
+
+    return url.pathname === CALLBACK_PATH && origins.includes(url.origin)
+}
+
+// =============================================================================
+// HANDLER
+// =============================================================================
+
+async function saveConnection(
+    db: SupabaseClient,
+    userId: string,
+    platform: string,
+    tokens: TokenResult,
+    account: AccountInfo,
+    scopes: string[],
+    instanceUrl?: string
+) {
+    const { error } = await db
+        .from('platform_connections')
+        .upsert({
+            user_id: userId,
+            platform,
+            access_token: tokens.access_token,
+            refresh_token: tokens.refresh_token,
+            expires_at: tokens.expires_in
+                ? new Date(Date.now() + tokens.expires_in * 1000).toISOString()
+                : null,
+            scope: scopes.join(' '),
+            // Each channel / Facebook login is its own connection
+            account_id: account.account_id ?? '',
+            account_name: account.account_name,
+            instance_url: instanceUrl ?? null,
+            status: 'connected',
+            last_refresh_error: null,
+            updated_at: new Date().toISOString(),
+        }, { onConflict: 'user_id,platform,account_id' })
+
+    if (error) throw error
+}
+
+const json = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status,
+    })
+
+Deno.serve(async (req) => {
+    if (req.method === 'OPTIONS') {
+        return new Response('ok', { headers: corsHeaders })
+    }
+
+    try {
+        const body = await req.json()
+        const authorization = req.headers.get('Authorization') ?? ''
+
+        // The scheduled posts worker refreshes on the user's behalf with the service role key
+        const serviceRoleKey = env('SUPABASE_SERVICE_ROLE_KEY')
+        const isServiceCall = body.action === 'refresh' && !!body.userId &&
+            !!serviceRoleKey && authorization === `Bearer ${serviceRoleKey}`
+
+        let userId: string = body.userId
+        if (!isServiceCall) {
+            // Identify the caller from their Supabase session
+            const userClient = createClient(
+                env('SUPABASE_URL'),
+                env('SUPABASE_ANON_KEY'),
+                { global: { headers: { Authorization: authorization } } }
+            )
+            const { data: { user } } = await userClient.auth.getUser()
+            if (!user) {
+                return json({ error: 'Not authenticated' }, 401)
+            }
+            userId = user.id
+        }
+
+        // Service role client for writing tokens
+        const supabaseClient = createClient(env('SUPABASE_URL'), serviceRoleKey)
+
+        switch (body.action) {
+            case 'authorize': {
+                if (!isAllowedRedirect(body.redirectUri, req)) {
+                    return json({ error: 'Redirect URI not allowed' }, 400)
+                }
+
+                const instanceUrl = body.params?.instanceUrl ? normalizeInstanceUrl(body.params.instanceUrl) : undefined
+                const provider = await getOAuthProvider(supabaseClient, body.platform, body.redirectUri, instanceUrl)
+                if (!provider) {
+                    return json({ error: `Unsupported platform: ${body.platform}` }, 400)
+                }
+
+                const state = await signState(supabaseClient, {
+                    uid: userId,
+                    platform: body.platform,
+                    redirectUri: body.redirectUri,
+                    instanceUrl,
+                    nonce: crypto.randomUUID(),
+                    exp: Date.now() + STATE_TTL_MS,
+                })
+
+                const params = new URLSearchParams({
+                    [provider.clientIdParam ?? 'client_id']: provider.clientId,
+                    redirect_uri: body.redirectUri,
+                    response_type: 'code',
+                    scope: provider.scopes.join(provider.scopeSeparator),
+                    state,
+                    ...provider.extraParams,
+                })
+
+                return json({ authUrl: `${provider.authorizeUrl}?${params}` })
+            }
+
+            case 'exchange': {
+                const payload = await verifyState(supabaseClient, body.state ?? '', userId)
+                const provider = await getOAuthProvider(
+                    supabaseClient,
+                    payload.platform,
+                    payload.redirectUri,
+                    payload.instanceUrl
+                )
+
+                const tokens = await provider.exchange(body.code, payload.redirectUri)
+                const account = await provider.getAccount(tokens.access_token)
+
+                await saveConnection(
+                    supabaseClient,
+                    userId,
+                    payload.platform,
+                    tokens,
+                    account,
+                    provider.scopes,
+                    payload.instanceUrl
+                )
+
+                return json({ success: true, platform: payload.platform })
+            }
+
+            case 'connect': {
+                const provider = credentialProviders[body.platform]
+                if (!provider) {
+                    return json({ error: `Unsupported platform: ${body.platform}` }, 400)
+                }
+
+                const session = await provider.login(body.credentials ?? {})
+                await saveConnection(
+                    supabaseClient,
+                    userId,
+                    body.platform,
+                    session,
+                    session,
+                    provider.scopes,
+                    session.instance_url
+                )
+
+                return json({ success: true, platform: body.platform })
+            }
+
+            case 'refresh': {
+                const { data: connection, error: fetchError } = await supabaseClient
+                    .from('platform_connections')
+                    .select('*')
+                    .eq('id', body.connectionId)
+                    .eq('user_id', userId)
+                    .single()
+
+                if (fetchError || !connection) {
+                    return json({ error: 'Connection not found' }, 404)
+                }
+
+                const provider = providers[connection.platform] ?? credentialProviders[connection.platform]
+                if (!provider) {
+                    return json({ error: `Unsupported platform: ${connection.platform}` }, 400)
+                }
+
+                let tokens: TokenResult
+                try {
+                    tokens = await provider.refresh(connection)
+                } catch (refreshError) {
+                    const permanent = refreshError instanceof ProviderError && refreshError.isPermanent
+
+                    if (permanent) {
+                        await supabaseClient
+                            .from('platform_connections')
+                            .update({
+                                status: 'needs_reauth',
+                                last_refresh_error: refreshError.message,
+                            })
+                            .eq('id', connection.id)
+                    }
+
+                    // 4xx tells the client the grant is gone; 502 means try again later
+                    return json({ error: refreshError.message }, permanent ? 401 : 502)
+                }
+
+                const expiresAt = tokens.expires_in
+                    ? new Date(Date.now() + tokens.expires_in * 1000).toISOString()
+                    : null
+
+                const { error } = await supabaseClient
+                    .from('platform_connections')
+                    .update({
+                        access_token: tokens.access_token,
+                        // Providers only return a new refresh token when they rotate it
+                        refresh_token: tokens.refresh_token ?? connection.refresh_token,
+                        expires_at: expiresAt,
+                        status: 'connected',
+                        last_refresh_error: null,
+                    })
+                    .eq('id', connection.id)
+
+                if (error) throw error
+
+                return json({
+                    access_token: tokens.access_token,
+                    expires_in: tokens.expires_in,
+                })
+            }
+
+            default:
+                return json({ error: `Unknown action: ${body.action}` }, 400)
+        }
+    } catch (error) {
+        console.error('OAuth exchange error:', error)
+        return json({ error: error.message }, error instanceof ProviderError ? error.status : 400)
+    }
+})
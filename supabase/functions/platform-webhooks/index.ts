@@ -0,0 +1,234 @@
+/**
+ * Platform Webhooks Edge Function
+ * Receives Facebook Page and Instagram webhook deliveries and records them in platform_events
+ *
+ *   GET  ?hub.mode=subscribe&hub.verify_token=...&hub.challenge=... -> the challenge
+ *   POST (signed with X-Hub-Signature-256)                          -> { received }
+ *
+ * Handles comments, mentions, feed changes and live video status; other fields
+ * are acknowledged and dropped. JWT verification is off for this function (see
+ * config.toml): Meta calls it without a Supabase session and is authenticated by
+ * the signature instead.
+ */
+
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4'
+
+type EventType = 'comment' | 'mention' | 'feed' | 'live_video'
+
+/** The parts of a change value read here; the whole value is kept as the payload */
+interface WebhookValue {
+    item?: string
+    verb?: string
+    status?: string
+    id?: string
+    post_id?: string
+    comment_id?: string
+    media_id?: string
+    media?: { id?: string }
+    created_time?: number | string
+    [key: string]: unknown
+}
+
+interface WebhookChange {
+    field: string
+    value: WebhookValue
+}
+
+interface WebhookEntry {
+    id: string
+    time: number
+    changes?: WebhookChange[]
+}
+
+interface WebhookPayload {
+    object: string
+    entry?: WebhookEntry[]
+}
+
+interface PlatformEvent {
+    platform: 'facebook' | 'instagram'
+    account_id: string
+    event_type: EventType
+    field: string
+    verb: string | null
+    object_id: string | null
+    parent_id: string | null
+    payload: WebhookValue
+    event_key: string
+    occurred_at: string
+}
+
+const encoder = new TextEncoder()
+
+const env = (name: string) => Deno.env.get(name) ?? ''
+
+/**
+ * Map a change to an event, or null for fields we don't subscribe to
+ */
+function toEvent(object: string, entry: WebhookEntry, change: WebhookChange): PlatformEvent | null {
+    const { field, value } = change
+    let event: Pick<PlatformEvent, 'event_type' | 'verb' | 'object_id' | 'parent_id'> | null = null
+
+    if (object === 'page') {
+        switch (field) {
+            case 'feed':
+                event = {
+                    event_type: value.item === 'comment' ? 'comment' : 'feed',
+                    verb: value.verb ?? null,
+                    object_id: value.comment_id ?? value.post_id ?? null,
+                    parent_id: value.item === 'comment' ? value.post_id ?? null : null,
+                }
+                break
+            case 'mention':
+                event = {
+                    event_type: 'mention',
+                    verb: value.verb ?? 'add',
+                    object_id: value.comment_id ?? value.post_id ?? null,
+                    parent_id: value.comment_id ? value.post_id ?? null : null,
+                }
+                break
+            case 'live_videos':
+                event = { event_type: 'live_video', verb: value.status ?? null, object_id: value.id ?? null, parent_id: null }
+                break
+        }
+    } else if (object === 'instagram') {
+        switch (field) {
+            case 'comments':
+            case 'live_comments':
+                event = { event_type: 'comment', verb: 'add', object_id: value.id ?? null, parent_id: value.media?.id ?? null }
+                break
+            case 'mentions':
+                event = {
+                    event_type: 'mention',
+                    verb: 'add',
+                    object_id: value.comment_id ?? value.media_id ?? null,
+                    parent_id: value.comment_id ? value.media_id ?? null : null,
+                }
+                break
+        }
+    }
+
+    if (!event) return null
+
+    // Feed changes carry their own timestamp; otherwise use the delivery time
+    const occurredAt = value.created_time
+        ? new Date(typeof value.created_time === 'number' ? value.created_time * 1000 : value.created_time)
+        : new Date(entry.time * 1000)
+
+    return {
+        platform: object === 'page' ? 'facebook' : 'instagram',
+        account_id: entry.id,
+        field,
+        payload: value,
+        event_key: [object, entry.id, field, event.object_id, event.verb, occurredAt.getTime()].join(':'),
+        occurred_at: occurredAt.toISOString(),
+        ...event,
+    }
+}
+
+/**
+ * X-Hub-Signature-256 is "sha256=" + hex HMAC of the raw body with the app secret.
+ * Instagram can be its own app, so either secret is accepted.
+ */
+async function verifySignature(body: string, header: string | null): Promise<boolean> {
+    const hex = header?.startsWith('sha256=') ? header.slice('sha256='.length) : ''
+    if (!/^[0-9a-f]{64}$/i.test(hex)) return false
+
+    const signature = new Uint8Array(hex.match(/../g)!.map(byte => parseInt(byte, 16)))
+    const secrets = [env('FACEBOOK_APP_SECRET'), env('INSTAGRAM_APP_SECRET')].filter(Boolean)
+
+    for (const secret of secrets) {
+        const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['verify'])
+        // crypto.subtle.verify compares in constant time
+        if (await crypto.subtle.verify('HMAC', key, signature, encoder.encode(body))) return true
+    }
+
+    return false
+}
+
+/**
+ * One row per user who has the page or account connected
+ */
+async function saveEvents(supabaseClient: SupabaseClient, events: PlatformEvent[]): Promise<number> {
+    if (events.length === 0) return 0
+
+    const accountIds = [...new Set(events.map(event => event.account_id))]
+    const { data: accounts, error: accountsError } = await supabaseClient
+        .from('platform_accounts')
+        .select('user_id, connection_id, platform, account_id')
+        .in('account_id', accountIds)
+
+    if (accountsError) throw accountsError
+
+    const rows = events.flatMap(event =>
+        (accounts || [])
+            .filter(account => account.platform === event.platform && account.account_id === event.account_id)
+            .map(account => ({ ...event, user_id: account.user_id, connection_id: account.connection_id }))
+    )
+
+    if (rows.length === 0) {
+        console.warn(`No connected accounts for webhook events on ${accountIds.join(', ')}`)
+        return 0
+    }
+
+    const { error } = await supabaseClient
+        .from('platform_events')
+        .upsert(rows, { onConflict: 'user_id,event_key', ignoreDuplicates: true })
+
+    if (error) throw error
+    return rows.length
+}
+
+Deno.serve(async (req) => {
+    const url = new URL(req.url)
+
+    // Subscription handshake from the app dashboard
+    if (req.method === 'GET') {
+        const verifyToken = env('WEBHOOK_VERIFY_TOKEN')
+        if (
+            url.searchParams.get('hub.mode') === 'subscribe' &&
+            verifyToken &&
+            url.searchParams.get('hub.verify_token') === verifyToken
+        ) {
+            return new Response(url.searchParams.get('hub.challenge') ?? '', { status: 200 })
+        }
+        return new Response('Forbidden', { status: 403 })
+    }
+
+    if (req.method !== 'POST') {
+        return new Response('Method not allowed', { status: 405 })
+    }
+
+    // The signature covers the exact bytes sent, so read the body before parsing it
+    const body = await req.text()
+    if (!(await verifySignature(body, req.headers.get('X-Hub-Signature-256')))) {
+        return new Response('Invalid signature', { status: 401 })
+    }
+
+    try {
+        const payload: WebhookPayload = JSON.parse(body)
+        const events = (payload.entry || []).flatMap(entry =>
+            (entry.changes || [])
+                .map(change => toEvent(payload.object, entry, change))
+                .filter((event): event is PlatformEvent => event !== null)
+        )
+
+        const supabaseClient = createClient(
+            env('SUPABASE_URL'),
+            env('SUPABASE_SERVICE_ROLE_KEY')
+        )
+        const received = await saveEvents(supabaseClient, events)
+
+        return new Response(JSON.stringify({ received }), {
+            headers: { 'Content-Type': 'application/json' },
+            status: 200,
+        })
+    } catch (error) {
+        // A non-2xx makes Meta redeliver, and the event key keeps the retry from duplicating
+        console.error('Error handling webhook delivery:', error)
+        return new Response(JSON.stringify({ error: error.message }), {
+            headers: { 'Content-Type': 'application/json' },
+            status: 500,
+        })
+    }
+})
@@ -1,22 +1,1772 @@
 /**
  * Process Scheduled Posts Edge Function
- * Runs periodically to publish scheduled posts to their respective platforms
+ * Runs periodically to publish due scheduled posts: each post's library video
+ * goes to every target it names with the user's stored platform connections.
+ * Every target has its own platform_posts row with its status, attempts, last
+ * error and the live post's ID and link; only pending rows are published, so a
+ * retried post doesn't republish the targets that already succeeded.
+ *
+ * Failures that may clear up on their own (platform 5xx, rate limits, an
+ * expired token) are retried with exponential backoff up to
+ * PUBLISH_MAX_ATTEMPTS; the post waits as 'retrying' in the meantime. So
+ * does a post a run couldn't load (a database or network error).
+ * Rejections and revoked credentials fail the target straight away, leaving
+ * the post failed or partially published for the user to fix and requeue.
+ * A spent YouTube quota waits for Google's midnight Pacific reset instead,
+ * and uploads are charged to the same quota ledger and budget as the app's.
+ *
+ * Posts and targets are claimed ('publishing') while a run works on them. A
+ * run can be killed or time out part way, so claims older than
+ * PUBLISH_CLAIM_TIMEOUT_SECONDS are put back: interrupted targets count as a
+ * failed attempt and their post returns to the queue. Videos are streamed in
+ * chunks to the platforms that take them that way rather than held in memory.
+ *
+ * Recurring series are never published themselves: each run first turns the
+ * series' due occurrences into ordinary posts, which are then published like
+ * any other.
+ *
+ * Only the service role key may start a run (see README for the cron job);
+ * every user's posts are published by it, so the response carries counts only.
+ *
+ * YouTube, Facebook, Instagram, TikTok, LinkedIn, Bluesky and Mastodon are
+ * published from here; targets on any other platform fail with an explanation.
  */
 
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4'
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4'
 
 const corsHeaders = {
     'Access-Control-Allow-Origin': '*',
     'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
-interface ScheduledJob {
+// Local stand-in for Google and Graph during development (see README "Platform Sandbox")
+const SANDBOX_URL = Deno.env.get('PLATFORM_SANDBOX_URL') ?? ''
+
+/**
+ * The sandbox equivalent of a Google or Graph URL when PLATFORM_SANDBOX_URL is set
+ */
+const platformUrl = (url: string) => {
+    if (!SANDBOX_URL) return url
+    const { host, pathname, search } = new URL(url)
+    return `${SANDBOX_URL}/${host}${pathname}${search}`
+}
+
+const GRAPH_API_BASE = platformUrl('https://graph.facebook.com/v18.0')
+// Video uploads go to the dedicated video host
+const GRAPH_VIDEO_API_BASE = platformUrl('https://graph-video.facebook.com/v18.0')
+const YOUTUBE_API_BASE = platformUrl('https://www.googleapis.com/youtube/v3')
+const YOUTUBE_UPLOAD_API = platformUrl('https://www.googleapis.com/upload/youtube/v3')
+const TIKTOK_API_BASE = 'https://open.tiktokapis.com/v2'
+const LINKEDIN_API_BASE = 'https://api.linkedin.com'
+const LINKEDIN_VERSION = '202401'
+const BLUESKY_DEFAULT_SERVICE = 'https://bsky.social'
+
+// Posts claimed per run, and how long a run keeps claiming more; uploads are
+// slow, so the rest wait for the next run rather than risk the function timing out
+const BATCH_SIZE = 3
+const RUN_BUDGET_MS = 60 * 1000
+// Series expanded per run; that only writes rows
+const SERIES_BATCH_SIZE = 10
+// No run lasts this long, so a claim this old belongs to one that was killed
+const CLAIM_TIMEOUT_MS = Number(Deno.env.get('PUBLISH_CLAIM_TIMEOUT_SECONDS') ?? 600) * 1000
+// YouTube upload chunks must be a multiple of 256 KiB
+const YOUTUBE_UPLOAD_CHUNK_SIZE = 32 * 256 * 1024 // 8 MiB
+// Attempts per target before it's given up on, and the backoff between them
+const MAX_ATTEMPTS = Number(Deno.env.get('PUBLISH_MAX_ATTEMPTS') ?? 5)
+const RETRY_BASE_DELAY_MS = Number(Deno.env.get('PUBLISH_RETRY_DELAY_SECONDS') ?? 60) * 1000
+const RETRY_MAX_DELAY_MS = Number(Deno.env.get('PUBLISH_RETRY_MAX_DELAY_SECONDS') ?? 3600) * 1000
+// Refresh tokens this close to expiry; long-lived Graph tokens can only be extended before they expire
+const DEFAULT_REFRESH_WINDOW_MS = 5 * 60 * 1000
+const REFRESH_WINDOWS_MS: Record<string, number> = {
+    facebook: 7 * 24 * 60 * 60 * 1000,
+    instagram: 7 * 24 * 60 * 60 * 1000,
+    linkedin: 7 * 24 * 60 * 60 * 1000,
+}
+const INSTAGRAM_CAPTION_LIMIT = 2200
+const INSTAGRAM_MAX_CAROUSEL_ITEMS = 10
+const INSTAGRAM_PROCESSING_CHECKS = 30
+// Graph error codes for throttling and for an expired or invalidated token
+const GRAPH_RATE_LIMIT_CODES = [4, 17, 32, 613]
+const GRAPH_TOKEN_ERROR_CODE = 190
+// YouTube error reasons worth waiting out
+const YOUTUBE_RETRYABLE_REASONS = ['rateLimitExceeded', 'userRateLimitExceeded', 'backendError']
+// Units of the YouTube calls a publish makes, the daily budget and the zone whose
+// midnight resets it, as in src/lib/services/youtubeQuotaService.ts
+const YOUTUBE_QUOTA_COSTS = {
+    'videos.insert': 1600,
+    'thumbnails.set': 50,
+    'playlistItems.insert': 50,
+    'captions.insert': 400,
+}
+const YOUTUBE_QUOTA_LIMIT = Number(Deno.env.get('YOUTUBE_QUOTA_LIMIT') ?? 10000)
+const YOUTUBE_QUOTA_TIME_ZONE = 'America/Los_Angeles'
+// YouTube calls its standard license 'youtube'
+const YOUTUBE_LICENSES: Record<string, string> = { standard: 'youtube', creativeCommon: 'creativeCommon' }
+// TikTok takes 5-64 MB chunks; the last chunk absorbs the remainder
+const TIKTOK_MIN_CHUNK_SIZE = 5 * 1024 * 1024
+const TIKTOK_CHUNK_SIZE = 10 * 1024 * 1024
+const TIKTOK_CAPTION_LIMIT = 2200
+// Publishing finishes on TikTok's side after the upload, and LinkedIn
+// processes a video before it can be posted
+const TIKTOK_STATUS_CHECKS = 12
+const LINKEDIN_VIDEO_CHECKS = 24
+const PROCESSING_CHECK_INTERVAL_MS = 5000
+const LINKEDIN_COMMENTARY_LIMIT = 3000
+// Posts are limited to 300 graphemes (approximated by code points) and four images
+const BLUESKY_POST_LIMIT = 300
+const BLUESKY_TOKEN_ERRORS = ['ExpiredToken', 'InvalidToken']
+const SOCIAL_MAX_IMAGES = 4
+const MASTODON_DEFAULT_MAX_CHARACTERS = 500
+const MASTODON_MEDIA_CHECKS = 90
+
+interface PublishTarget {
+    platform: string
+    connectionId: string
+    accountId: string
+}
+
+interface VideoSettings {
+    privacy?: string
+    categoryId?: string
+    playlistIds?: string[]
+    madeForKids?: boolean
+    license?: string
+    embeddable?: boolean
+    defaultLanguage?: string
+    localizations?: Record<string, { title: string; description: string }>
+}
+
+/** What was chosen for one platform when the post was scheduled */
+interface PublishOptions {
+    postType?: string
+    videoSettings?: VideoSettings
+}
+
+interface ScheduledPost {
     id: string
     user_id: string
-    video_id: string
+    status: 'scheduled' | 'retrying'
+    video_id: string | null
     platforms: string[]
-    scheduled_for: string
+    targets: PublishTarget[]
+    scheduled_date: string
+    thumbnail_url: string | null
+    notes: string | null
+    publish_options: Record<string, PublishOptions> | null
+    recurrence_rule: string | null
+    timezone: string | null
+    next_occurrence_at: string | null
+    /** Runs in a row that failed before reaching the targets */
+    attempts: number
+}
+
+interface Connection {
+    id: string
+    user_id: string
+    platform: string
+    access_token: string
+    expires_at: string | null
     status: string
+    account_id: string
+    /** Server the account lives on, for Mastodon and Bluesky */
+    instance_url: string | null
+}
+
+interface MediaItem {
+    type: 'image' | 'video'
+    url: string
+}
+
+/** Everything a platform needs to publish one scheduled post */
+interface PostContent {
+    title: string
+    description: string
+    /** Every asset in order; a video post is just its video */
+    media: MediaItem[]
+    thumbnailUrl: string | null
+    captions: { language: string; name: string; vtt: string }[]
+    options: PublishOptions
+}
+
+interface PublishResult {
+    id: string
+    url: string
+}
+
+/**
+ * Why an attempt failed: transient failures and expired tokens are retried,
+ * revoked credentials and rejected posts need the user
+ */
+type ErrorType = 'transient' | 'expired_token' | 'credentials' | 'rejected'
+
+/** A target's row in platform_posts */
+interface PlatformPost {
+    id: string
+    platform: string
+    connection_id: string | null
+    account_id: string | null
+    status: 'pending' | 'publishing' | 'published' | 'failed'
+    attempts: number
+    last_error: string | null
+    error_type: ErrorType | null
+    /** When a pending retry is due; null publishes at once */
+    next_attempt_at: string | null
+    remote_id: string | null
+    url: string | null
+    /** When the current run started sending the target */
+    claimed_at: string | null
+}
+
+/** A file being streamed to a platform */
+interface UploadSource {
+    size: number
+    type: string
+    /** The next `length` bytes, fewer only at the end of the file */
+    read: (length: number) => Promise<Uint8Array>
+}
+
+/** What one attempt changes on a target's row */
+type AttemptResult = Partial<PlatformPost> & { title?: string; published_at?: string }
+
+type Publisher = (connection: Connection, accountId: string, content: PostContent, db: SupabaseClient) => Promise<PublishResult>
+
+type YouTubeEndpoint = keyof typeof YOUTUBE_QUOTA_COSTS
+
+/**
+ * Platform error carrying the HTTP status of the failed call and, when the
+ * status alone doesn't tell, whether it's worth retrying and from when
+ */
+class PublishError extends Error {
+    status: number
+    type?: ErrorType
+    /** No point retrying before this, e.g. a quota reset */
+    retryAt?: Date
+
+    constructor(message: string, status: number, type?: ErrorType, retryAt?: Date) {
+        super(message)
+        this.status = status
+        this.type = type
+        this.retryAt = retryAt
+    }
+}
+
+type PlatformErrorBody = { message?: string; code?: number; is_transient?: boolean; errors?: { reason?: string }[] }
+
+const isQuotaExceeded = (error: PlatformErrorBody | undefined) =>
+    !!error?.errors?.some(({ reason }) => reason === 'quotaExceeded')
+
+/**
+ * Errors the status code alone would misjudge: Graph reports throttling and
+ * expired tokens as 400s, YouTube quota as a 403
+ */
+const platformErrorType = (error: PlatformErrorBody | undefined): ErrorType | undefined => {
+    if (!error) return undefined
+    if (error.is_transient || GRAPH_RATE_LIMIT_CODES.includes(error.code ?? 0) || isQuotaExceeded(error)) return 'transient'
+    if (error.code === GRAPH_TOKEN_ERROR_CODE) return 'expired_token'
+    if (error.errors?.some(({ reason }) => YOUTUBE_RETRYABLE_REASONS.includes(reason ?? ''))) return 'transient'
+    return undefined
+}
+
+/**
+ * Network failures, timeouts, throttling and server errors are transient; a
+ * 401 means the token needs refreshing; any other 4xx is the platform
+ * rejecting the post
+ */
+function classifyError(error: unknown): ErrorType {
+    if (!(error instanceof PublishError)) return 'transient'
+    if (error.type) return error.type
+    if (error.status === 401) return 'expired_token'
+    if (error.status === 408 || error.status === 429 || error.status >= 500) return 'transient'
+    return 'rejected'
+}
+
+/**
+ * Exponential backoff from the attempt just made, with some jitter so
+ * targets that failed together don't retry together
+ */
+const retryDelay = (attempts: number) => {
+    const backoff = Math.min(RETRY_BASE_DELAY_MS * 2 ** (attempts - 1), RETRY_MAX_DELAY_MS)
+    return backoff * (0.9 + Math.random() * 0.2)
+}
+
+const env = (name: string) => Deno.env.get(name) ?? ''
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+const toPublishError = (status: number, body: { error?: PlatformErrorBody }, fallbackMessage: string) =>
+    new PublishError(
+        body.error?.message || `${fallbackMessage} (HTTP ${status})`,
+        status,
+        platformErrorType(body.error),
+        isQuotaExceeded(body.error) ? getYouTubeQuotaReset() : undefined
+    )
+
+/**
+ * The message of an error body in the shapes the other platforms use:
+ * { message } (LinkedIn, Bluesky), { error: '...' } (Mastodon) or
+ * { error: { message } } (TikTok)
+ */
+const errorMessage = (body: { message?: string; error?: string | { message?: string } }) =>
+    body.message || (typeof body.error === 'string' ? body.error : body.error?.message)
+
+async function requestJson(url: string, init: RequestInit, fallbackMessage: string) {
+    const response = await fetch(url, init)
+    const body = await response.json().catch(() => ({}))
+
+    if (!response.ok) {
+        throw toPublishError(response.status, body, fallbackMessage)
+    }
+
+    return body
+}
+
+async function download(url: string, what: string): Promise<Blob> {
+    const response = await fetch(url)
+    if (!response.ok) {
+        throw new PublishError(`Failed to download the ${what} (HTTP ${response.status})`, response.status)
+    }
+    return response.blob()
+}
+
+/**
+ * Read a stream in chunks of a chosen size, holding no more than one chunk
+ */
+function streamReader(stream: ReadableStream<Uint8Array>): UploadSource['read'] {
+    const reader = stream.getReader()
+    let pieces: Uint8Array[] = []
+    let buffered = 0
+
+    return async (length: number) => {
+        while (buffered < length) {
+            const { done, value } = await reader.read()
+            if (done) break
+            pieces.push(value)
+            buffered += value.length
+        }
+
+        const joined = new Uint8Array(buffered)
+        let offset = 0
+        for (const piece of pieces) {
+            joined.set(piece, offset)
+            offset += piece.length
+        }
+
+        const rest = joined.subarray(length)
+        pieces = rest.length > 0 ? [rest] : []
+        buffered = rest.length
+        return joined.subarray(0, length)
+    }
+}
+
+/**
+ * Open a file to stream to a platform. Its size comes from Content-Length;
+ * without one (or when the body is compressed) the file is buffered instead.
+ */
+async function openUpload(url: string, what: string): Promise<UploadSource> {
+    const response = await fetch(url)
+    if (!response.ok || !response.body) {
+        throw new PublishError(`Failed to download the ${what} (HTTP ${response.status})`, response.status)
+    }
+
+    const type = response.headers.get('Content-Type') || 'video/mp4'
+    const length = response.headers.get('Content-Length')
+
+    if (!length || response.headers.get('Content-Encoding')) {
+        const file = await response.blob()
+        return { size: file.size, type, read: streamReader(file.stream()) }
+    }
+
+    return { size: Number(length), type, read: streamReader(response.body) }
+}
+
+const formatTimestamp = (time: number) => {
+    const totalMilliseconds = Math.max(0, Math.round(time * 1000))
+    const hours = Math.floor(totalMilliseconds / 3600000)
+    const minutes = Math.floor((totalMilliseconds % 3600000) / 60000)
+    const seconds = Math.floor((totalMilliseconds % 60000) / 1000)
+    const milliseconds = totalMilliseconds % 1000
+    const pad = (value: number, length = 2) => value.toString().padStart(length, '0')
+
+    return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}.${pad(milliseconds, 3)}`
+}
+
+const toVtt = (cues: { start: number; end: number; text: string }[]) =>
+    'WEBVTT\n\n' + cues
+        .map(cue => `${formatTimestamp(cue.start)} --> ${formatTimestamp(cue.end)}\n${cue.text}`)
+        .join('\n\n') + '\n'
+
+// =============================================================================
+// YOUTUBE
+// =============================================================================
+
+/**
+ * Next midnight Pacific time, when Google resets the quota
+ */
+function getYouTubeQuotaReset(now = new Date()): Date {
+    const today = getZonedParts(now, YOUTUBE_QUOTA_TIME_ZONE)
+    const tomorrow = new Date(Date.UTC(today.year, today.month - 1, today.day + 1))
+
+    return zonedTimeToUtc({
+        year: tomorrow.getUTCFullYear(),
+        month: tomorrow.getUTCMonth() + 1,
+        day: tomorrow.getUTCDate(),
+        hour: 0,
+        minute: 0,
+    }, YOUTUBE_QUOTA_TIME_ZONE)
+}
+
+/**
+ * Short SHA-256 of the API key the app records its usage under (the same key
+ * as VITE_YOUTUBE_API_KEY), so both draw on one ledger
+ */
+async function getYouTubeKeyId(): Promise<string> {
+    const hash = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(env('YOUTUBE_API_KEY')))
+    return Array.from(new Uint8Array(hash).slice(0, 8))
+        .map(byte => byte.toString(16).padStart(2, '0'))
+        .join('')
+}
+
+/**
+ * Charge a publish's calls to today's quota ledger before making them, failing
+ * until the reset when they don't fit in what's left
+ */
+async function consumeYouTubeQuota(db: SupabaseClient, userId: string, calls: Partial<Record<YouTubeEndpoint, number>>) {
+    const keyId = await getYouTubeKeyId()
+    const day = new Intl.DateTimeFormat('en-CA', { timeZone: YOUTUBE_QUOTA_TIME_ZONE }).format(new Date()) // YYYY-MM-DD
+
+    const { data: usage, error } = await db.rpc('get_youtube_quota_usage', { p_key_id: keyId, p_day: day })
+    if (error) throw error
+
+    const used = (usage ?? []).reduce((sum: number, row: { units: number }) => sum + Number(row.units), 0)
+    const charges = (Object.entries(calls) as [YouTubeEndpoint, number][])
+        .filter(([, count]) => count > 0)
+        .map(([endpoint, count]) => ({ endpoint, units: YOUTUBE_QUOTA_COSTS[endpoint] * count }))
+    const units = charges.reduce((sum, charge) => sum + charge.units, 0)
+    const remaining = Math.max(YOUTUBE_QUOTA_LIMIT - used, 0)
+
+    if (units > remaining) {
+        throw new PublishError(
+            `Not enough YouTube quota left today (${units} units needed, ${remaining} left)`,
+            403,
+            'transient',
+            getYouTubeQuotaReset()
+        )
+    }
+
+    const { error: insertError } = await db
+        .from('youtube_quota_usage')
+        .insert(charges.map(({ endpoint, units }) => ({
+            user_id: userId,
+            key_id: keyId,
+            quota_day: day,
+            endpoint,
+            units,
+            priority: 'high',
+        })))
+
+    if (insertError) throw insertError
+}
+
+const publishToYouTube: Publisher = async (connection, _accountId, content, db) => {
+    const video = content.media.find(item => item.type === 'video')
+    if (!video) {
+        throw new PublishError('YouTube posts need a video', 400)
+    }
+
+    const settings = content.options.videoSettings ?? {}
+    await consumeYouTubeQuota(db, connection.user_id, {
+        'videos.insert': 1,
+        'thumbnails.set': content.thumbnailUrl ? 1 : 0,
+        'playlistItems.insert': settings.playlistIds?.length ?? 0,
+        'captions.insert': content.captions.length,
+    })
+
+    const auth = { Authorization: `Bearer ${connection.access_token}` }
+    const file = await openUpload(video.url, 'video')
+
+    // Localizations are rejected unless the snippet names a default language
+    const part = settings.localizations && settings.defaultLanguage
+        ? 'snippet,status,localizations'
+        : 'snippet,status'
+
+    const session = await fetch(`${YOUTUBE_UPLOAD_API}/videos?uploadType=resumable&part=${part}`, {
+        method: 'POST',
+        headers: {
+            ...auth,
+            'Content-Type': 'application/json',
+            'X-Upload-Content-Length': file.size.toString(),
+            'X-Upload-Content-Type': file.type,
+        },
+        body: JSON.stringify({
+            snippet: {
+                title: content.title,
+                description: content.description,
+                categoryId: settings.categoryId || '22', // People & Blogs
+                defaultLanguage: settings.defaultLanguage,
+            },
+            status: {
+                privacyStatus: settings.privacy || 'public',
+                selfDeclaredMadeForKids: settings.madeForKids,
+                license: settings.license ? YOUTUBE_LICENSES[settings.license] : undefined,
+                embeddable: settings.embeddable,
+            },
+            localizations: settings.localizations,
+        }),
+    })
+
+    const uploadUrl = session.headers.get('Location')
+    if (!session.ok || !uploadUrl) {
+        throw toPublishError(session.status, await session.json().catch(() => ({})), 'Failed to initialize video upload')
+    }
+
+    // Each chunk goes up as it downloads, so the worker never holds the whole file
+    let uploaded: { id: string } | null = null
+    let offset = 0
+
+    while (!uploaded) {
+        const chunk = await file.read(YOUTUBE_UPLOAD_CHUNK_SIZE)
+        const end = offset + chunk.length
+        if (chunk.length === 0 || (chunk.length < YOUTUBE_UPLOAD_CHUNK_SIZE && end < file.size)) {
+            throw new PublishError('The video download ended early', 502)
+        }
+
+        const response = await fetch(uploadUrl, {
+            method: 'PUT',
+            headers: {
+                ...auth,
+                'Content-Type': file.type,
+                'Content-Range': `bytes ${offset}-${end - 1}/${file.size}`,
+            },
+            body: chunk,
+        })
+
+        if (response.status === 308) {
+            // A stream can't go back to resend bytes YouTube didn't keep; the next attempt starts over
+            const stored = (response.headers.get('Range') ?? '').match(/bytes=0-(\d+)/)
+            if (!stored || Number(stored[1]) + 1 !== end) {
+                throw new PublishError('YouTube did not store the whole chunk', 503)
+            }
+            offset = end
+            continue
+        }
+
+        const body = await response.json().catch(() => ({}))
+        if (!response.ok) {
+            throw toPublishError(response.status, body, 'Failed to upload video')
+        }
+        uploaded = body
+    }
+
+    const result = { id: uploaded.id, url: `https://www.youtube.com/watch?v=${uploaded.id}` }
+
+    // The video is already live from here on; failing now would only lead to a duplicate upload on retry
+    if (content.thumbnailUrl) {
+        try {
+            const thumbnail = await download(content.thumbnailUrl, 'thumbnail')
+            await requestJson(`${YOUTUBE_UPLOAD_API}/thumbnails/set?videoId=${result.id}&uploadType=media`, {
+                method: 'POST',
+                headers: { ...auth, 'Content-Type': thumbnail.type || 'image/jpeg' },
+                body: thumbnail,
+            }, 'Failed to set thumbnail')
+        } catch (error) {
+            console.error('Failed to set YouTube thumbnail:', error)
+        }
+    }
+
+    for (const playlistId of settings.playlistIds ?? []) {
+        try {
+            await requestJson(`${YOUTUBE_API_BASE}/playlistItems?part=snippet`, {
+                method: 'POST',
+                headers: { ...auth, 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    snippet: { playlistId, resourceId: { kind: 'youtube#video', videoId: result.id } },
+                }),
+            }, 'Failed to add video to playlist')
+        } catch (error) {
+            console.error(`Failed to add video to YouTube playlist ${playlistId}:`, error)
+        }
+    }
+
+    for (const caption of content.captions) {
+        try {
+            // Snippet and track go together in a multipart/related body
+            const boundary = `caption-${crypto.randomUUID()}`
+            const body = [
+                `--${boundary}`,
+                'Content-Type: application/json; charset=UTF-8',
+                '',
+                JSON.stringify({
+                    snippet: { videoId: result.id, language: caption.language, name: caption.name, isDraft: false },
+                }),
+                `--${boundary}`,
+                'Content-Type: application/octet-stream',
+                '',
+                caption.vtt,
+                `--${boundary}--`,
+                '',
+            ].join('\r\n')
+
+            await requestJson(`${YOUTUBE_UPLOAD_API}/captions?part=snippet&uploadType=multipart`, {
+                method: 'POST',
+                headers: { ...auth, 'Content-Type': `multipart/related; boundary=${boundary}` },
+                body,
+            }, 'Failed to upload captions')
+        } catch (error) {
+            console.error(`Failed to upload ${caption.language} captions to YouTube:`, error)
+        }
+    }
+
+    return result
+}
+
+// =============================================================================
+// FACEBOOK
+// =============================================================================
+
+/**
+ * POST one phase of Graph's resumable video upload
+ */
+const sendUploadPhase = (pageId: string, fields: Record<string, string | Blob>) => {
+    const form = new FormData()
+    Object.entries(fields).forEach(([name, value]) => form.append(name, value))
+
+    return requestJson(`${GRAPH_VIDEO_API_BASE}/${pageId}/videos`, { method: 'POST', body: form }, 'Failed to upload video')
+}
+
+const publishToFacebook: Publisher = async (connection, accountId, content) => {
+    const video = content.media.find(item => item.type === 'video')
+    if (!video) {
+        throw new PublishError('Facebook posts need a video', 400)
+    }
+
+    // Pages are published to with their own token
+    const { data: pages } = await requestJson(
+        `${GRAPH_API_BASE}/me/accounts?access_token=${connection.access_token}`,
+        {},
+        'Failed to load Facebook pages'
+    )
+    const page = (pages ?? []).find((p: { id: string }) => p.id === accountId)
+    if (!page) {
+        throw new PublishError('This Facebook page is no longer managed by the connected account', 403, 'credentials')
+    }
+
+    const file = await openUpload(video.url, 'video')
+    const session = await sendUploadPhase(page.id, {
+        access_token: page.access_token,
+        upload_phase: 'start',
+        file_size: file.size.toString(),
+    })
+
+    let startOffset = parseInt(session.start_offset, 10)
+    let endOffset = parseInt(session.end_offset, 10)
+    let position = 0
+
+    // Transfer the ranges Graph asks for until it stops asking; they come in
+    // order, each starting where the download is
+    while (startOffset < endOffset) {
+        if (startOffset !== position) {
+            throw new PublishError('Facebook asked for part of the video again', 502)
+        }
+
+        const chunk = await file.read(endOffset - startOffset)
+        position += chunk.length
+
+        const next = await sendUploadPhase(page.id, {
+            access_token: page.access_token,
+            upload_phase: 'transfer',
+            upload_session_id: session.upload_session_id,
+            start_offset: startOffset.toString(),
+            video_file_chunk: new Blob([chunk], { type: file.type }),
+        })
+        startOffset = parseInt(next.start_offset, 10)
+        endOffset = parseInt(next.end_offset, 10)
+    }
+
+    const finished = await sendUploadPhase(page.id, {
+        access_token: page.access_token,
+        upload_phase: 'finish',
+        upload_session_id: session.upload_session_id,
+        title: content.title,
+        description: content.description,
+    })
+    if (!finished.success) {
+        throw new PublishError('Facebook did not accept the uploaded video', 502)
+    }
+
+    return { id: session.video_id, url: `https://www.facebook.com/${session.video_id}` }
+}
+
+// =============================================================================
+// INSTAGRAM
+// =============================================================================
+
+const createContainer = async (accessToken: string, accountId: string, params: Record<string, string>) => {
+    const data = await requestJson(`${GRAPH_API_BASE}/${accountId}/media`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: new URLSearchParams({ ...params, access_token: accessToken }).toString(),
+    }, 'Failed to create media container')
+    return data.id as string
+}
+
+/**
+ * Wait for a container to finish processing; image containers are usually ready at once
+ */
+const waitForContainer = async (accessToken: string, containerId: string) => {
+    for (let attempt = 0; attempt < INSTAGRAM_PROCESSING_CHECKS; attempt++) {
+        const { status_code: status } = await requestJson(
+            `${GRAPH_API_BASE}/${containerId}?fields=status_code&access_token=${accessToken}`,
+            {},
+            'Failed to check media status'
+        )
+
+        if (status === 'FINISHED') return
+        if (status === 'ERROR') throw new PublishError('Instagram could not process the media', 400)
+
+        await delay(2000)
+    }
+
+    throw new PublishError('Instagram media processing timed out', 504)
+}
+
+const publishContainer = async (accessToken: string, accountId: string, containerId: string): Promise<PublishResult> => {
+    await waitForContainer(accessToken, containerId)
+
+    const { id } = await requestJson(`${GRAPH_API_BASE}/${accountId}/media_publish`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: new URLSearchParams({ creation_id: containerId, access_token: accessToken }).toString(),
+    }, 'Failed to publish media')
+
+    // The post is already live; without the permalink it still links to Instagram
+    const { permalink } = await requestJson(
+        `${GRAPH_API_BASE}/${id}?fields=permalink&access_token=${accessToken}`,
+        {},
+        'Failed to fetch permalink'
+    ).catch(() => ({}))
+
+    return { id, url: permalink || 'https://www.instagram.com/' }
+}
+
+const publishToInstagram: Publisher = async (connection, accountId, content) => {
+    const token = connection.access_token
+    const items = content.media
+    if (items.length === 0) {
+        throw new PublishError('Instagram posts need an image or video', 400)
+    }
+
+    let caption = `${content.title}\n\n${content.description}`
+    if (caption.length > INSTAGRAM_CAPTION_LIMIT) {
+        caption = caption.substring(0, INSTAGRAM_CAPTION_LIMIT - 3) + '...'
+    }
+
+    // A video is a Reel and several assets a carousel, unless chosen otherwise
+    const postType = content.options.postType ||
+        (items.length > 1 ? 'carousel' : items[0].type === 'image' ? 'image' : 'reel')
+    const video = items.find(item => item.type === 'video')
+    const image = items.find(item => item.type === 'image')
+
+    switch (postType) {
+        case 'image': {
+            if (!image) throw new PublishError('Instagram image posts need an image', 400)
+            return publishContainer(token, accountId, await createContainer(token, accountId, {
+                image_url: image.url,
+                caption,
+            }))
+        }
+
+        case 'carousel': {
+            const children: string[] = []
+            for (const item of items.slice(0, INSTAGRAM_MAX_CAROUSEL_ITEMS)) {
+                const childId = await createContainer(token, accountId, {
+                    is_carousel_item: 'true',
+                    ...(item.type === 'video' ? { media_type: 'VIDEO', video_url: item.url } : { image_url: item.url }),
+                })
+                await waitForContainer(token, childId)
+                children.push(childId)
+            }
+
+            return publishContainer(token, accountId, await createContainer(token, accountId, {
+                media_type: 'CAROUSEL',
+                children: children.join(','),
+                caption,
+            }))
+        }
+
+        case 'story': {
+            // Stories take no caption
+            const item = video ?? items[0]
+            return publishContainer(token, accountId, await createContainer(token, accountId, {
+                media_type: 'STORIES',
+                ...(item.type === 'video' ? { video_url: item.url } : { image_url: item.url }),
+            }))
+        }
+
+        default: {
+            if (!video) throw new PublishError('Instagram Reels need a video', 400)
+            return publishContainer(token, accountId, await createContainer(token, accountId, {
+                media_type: 'REELS',
+                video_url: video.url,
+                caption,
+                share_to_feed: 'true',
+                ...(content.thumbnailUrl && { cover_url: content.thumbnailUrl }),
+            }))
+        }
+    }
+}
+
+// =============================================================================
+// TIKTOK
+// =============================================================================
+
+/**
+ * Call the Content Posting API and unwrap its { data, error } envelope
+ */
+const tiktokRequest = async (accessToken: string, path: string, body: unknown) => {
+    const response = await fetch(`${TIKTOK_API_BASE}${path}`, {
+        method: 'POST',
+        headers: {
+            Authorization: `Bearer ${accessToken}`,
+            'Content-Type': 'application/json; charset=UTF-8',
+        },
+        body: JSON.stringify(body),
+    })
+    const result = await response.json().catch(() => ({}))
+
+    if (!response.ok || (result.error && result.error.code !== 'ok')) {
+        throw new PublishError(
+            errorMessage(result) || `TikTok request failed (HTTP ${response.status})`,
+            response.ok ? 400 : response.status
+        )
+    }
+
+    return result.data
+}
+
+const publishToTikTok: Publisher = async (connection, _accountId, content) => {
+    const video = content.media.find(item => item.type === 'video')
+    if (!video) {
+        throw new PublishError('TikTok posts need a video', 400)
+    }
+
+    const token = connection.access_token
+    const creator = await tiktokRequest(token, '/post/publish/creator_info/query/', {})
+    const profileUrl = `https://www.tiktok.com/@${creator.creator_username}`
+    const privacyOptions: string[] = creator.privacy_level_options ?? []
+
+    let title = content.title
+    if (title.length > TIKTOK_CAPTION_LIMIT) {
+        title = title.substring(0, TIKTOK_CAPTION_LIMIT - 3) + '...'
+    }
+
+    const file = await openUpload(video.url, 'video')
+    // Small videos go up in one piece
+    const chunkSize = file.size < TIKTOK_MIN_CHUNK_SIZE ? file.size : TIKTOK_CHUNK_SIZE
+    const chunkCount = Math.max(1, Math.floor(file.size / chunkSize))
+
+    const { publish_id: publishId, upload_url: uploadUrl } = await tiktokRequest(token, '/post/publish/video/init/', {
+        post_info: {
+            title,
+            // Unaudited apps are limited to SELF_ONLY, which then is the only option offered
+            privacy_level: privacyOptions.includes('PUBLIC_TO_EVERYONE') ? 'PUBLIC_TO_EVERYONE' : privacyOptions[0],
+            disable_comment: !!creator.comment_disabled,
+            disable_duet: !!creator.duet_disabled,
+            disable_stitch: !!creator.stitch_disabled,
+        },
+        source_info: {
+            source: 'FILE_UPLOAD',
+            video_size: file.size,
+            chunk_size: chunkSize,
+            total_chunk_count: chunkCount,
+        },
+    })
+
+    let offset = 0
+    for (let index = 0; index < chunkCount; index++) {
+        const length = index === chunkCount - 1 ? file.size - offset : chunkSize
+        const chunk = await file.read(length)
+        if (chunk.length < length) {
+            throw new PublishError('The video download ended early', 502)
+        }
+
+        const response = await fetch(uploadUrl, {
+            method: 'PUT',
+            headers: {
+                'Content-Type': file.type,
+                'Content-Range': `bytes ${offset}-${offset + length - 1}/${file.size}`,
+            },
+            body: chunk,
+        })
+
+        // 206 for each partial chunk, 201 once the whole file is in
+        if (response.status !== 201 && response.status !== 206) {
+            throw new PublishError(`TikTok did not accept the upload (HTTP ${response.status})`, response.status >= 400 ? response.status : 502)
+        }
+        offset += length
+    }
+
+    // Stop waiting, without failing, if TikTok takes longer; the post still completes on its side
+    for (let check = 0; check < TIKTOK_STATUS_CHECKS; check++) {
+        const { status, fail_reason: failReason, publicaly_available_post_id: postIds } =
+            await tiktokRequest(token, '/post/publish/status/fetch/', { publish_id: publishId })
+
+        if (status === 'FAILED') {
+            throw new PublishError(`TikTok could not publish the video: ${failReason || 'unknown reason'}`, 400)
+        }
+
+        if (status === 'PUBLISH_COMPLETE') {
+            // Field name is misspelled in the API
+            const postId = postIds?.[0]?.toString()
+            return postId ? { id: postId, url: `${profileUrl}/video/${postId}` } : { id: publishId, url: profileUrl }
+        }
+
+        await delay(PROCESSING_CHECK_INTERVAL_MS)
+    }
+
+    return { id: publishId, url: profileUrl }
+}
+
+// =============================================================================
+// LINKEDIN
+// =============================================================================
+
+/**
+ * Call the LinkedIn REST API; action endpoints answer with an empty body, and
+ * a new post's URN comes back in a header, so the response is returned as is
+ */
+const linkedinRequest = async (accessToken: string, path: string, body?: unknown) => {
+    const response = await fetch(`${LINKEDIN_API_BASE}${path}`, {
+        method: body === undefined ? 'GET' : 'POST',
+        headers: {
+            Authorization: `Bearer ${accessToken}`,
+            'LinkedIn-Version': LINKEDIN_VERSION,
+            'X-Restli-Protocol-Version': '2.0.0',
+            ...(body !== undefined && { 'Content-Type': 'application/json' }),
+        },
+        body: body === undefined ? undefined : JSON.stringify(body),
+    })
+
+    if (!response.ok) {
+        const error = await response.json().catch(() => ({}))
+        throw new PublishError(errorMessage(error) || `LinkedIn request failed (HTTP ${response.status})`, response.status)
+    }
+
+    return response
+}
+
+/**
+ * Escape post text for LinkedIn's "little text" format, where these characters are markup
+ */
+const escapeLittleText = (text: string) => text.replace(/[\\|{}@[\]()<>#*_~]/g, char => `\\${char}`)
+
+const publishToLinkedIn: Publisher = async (connection, accountId, content) => {
+    const video = content.media.find(item => item.type === 'video')
+    if (!video) {
+        throw new PublishError('LinkedIn posts need a video', 400)
+    }
+
+    const token = connection.access_token
+    // Without an account id, post as the member
+    let authorUrn = accountId
+    if (!authorUrn) {
+        const member = await (await linkedinRequest(token, '/v2/userinfo')).json()
+        authorUrn = `urn:li:person:${member.sub}`
+    }
+
+    const file = await openUpload(video.url, 'video')
+    const { value } = await (await linkedinRequest(token, '/rest/videos?action=initializeUpload', {
+        initializeUploadRequest: {
+            owner: authorUrn,
+            fileSizeBytes: file.size,
+            uploadCaptions: false,
+            uploadThumbnail: false,
+        },
+    })).json()
+
+    // LinkedIn splits the upload into consecutive parts with their own URLs;
+    // finalizing needs the ETag of every part
+    const uploadedPartIds: string[] = []
+    for (const { uploadUrl, firstByte, lastByte } of value.uploadInstructions) {
+        const part = await file.read(lastByte - firstByte + 1)
+        if (part.length < lastByte - firstByte + 1) {
+            throw new PublishError('The video download ended early', 502)
+        }
+
+        const response = await fetch(uploadUrl, {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/octet-stream' },
+            body: part,
+        })
+        if (!response.ok) {
+            throw new PublishError(`LinkedIn did not accept the upload (HTTP ${response.status})`, response.status)
+        }
+        uploadedPartIds.push(response.headers.get('etag') ?? '')
+    }
+
+    await linkedinRequest(token, '/rest/videos?action=finalizeUpload', {
+        finalizeUploadRequest: { video: value.video, uploadToken: value.uploadToken, uploadedPartIds },
+    })
+
+    for (let check = 0; ; check++) {
+        const { status } = await (await linkedinRequest(token, `/rest/videos/${encodeURIComponent(value.video)}`)).json()
+        if (status === 'AVAILABLE') break
+        if (status === 'PROCESSING_FAILED') throw new PublishError('LinkedIn could not process the video', 400)
+        if (check >= LINKEDIN_VIDEO_CHECKS) throw new PublishError('LinkedIn video processing timed out', 504)
+
+        await delay(PROCESSING_CHECK_INTERVAL_MS)
+    }
+
+    let commentary = escapeLittleText(content.description || content.title)
+    if (commentary.length > LINKEDIN_COMMENTARY_LIMIT) {
+        commentary = commentary.substring(0, LINKEDIN_COMMENTARY_LIMIT - 3) + '...'
+    }
+
+    const response = await linkedinRequest(token, '/rest/posts', {
+        author: authorUrn,
+        commentary,
+        visibility: 'PUBLIC',
+        distribution: {
+            feedDistribution: 'MAIN_FEED',
+            targetEntities: [],
+            thirdPartyDistributionChannels: [],
+        },
+        content: { media: { id: value.video, title: content.title } },
+        lifecycleState: 'PUBLISHED',
+        isReshareDisabledByAuthor: false,
+    })
+
+    const id = response.headers.get('x-restli-id') ?? ''
+    return { id, url: `https://www.linkedin.com/feed/update/${id}` }
+}
+
+// =============================================================================
+// BLUESKY
+// =============================================================================
+
+/**
+ * Call an XRPC method on the account's PDS. An expired session comes back as
+ * a 400, so it's told apart by its error name.
+ */
+const blueskyRequest = async (serviceUrl: string, accessToken: string, method: string, init: RequestInit = {}) => {
+    const response = await fetch(`${serviceUrl}/xrpc/${method}`, {
+        ...init,
+        headers: { ...init.headers, Authorization: `Bearer ${accessToken}` },
+    })
+    const body = await response.json().catch(() => ({}))
+
+    if (!response.ok) {
+        throw new PublishError(
+            errorMessage(body) || `Bluesky request failed (HTTP ${response.status})`,
+            response.status,
+            BLUESKY_TOKEN_ERRORS.includes(body.error) ? 'expired_token' : undefined
+        )
+    }
+
+    return body
+}
+
+/**
+ * Rich text facets for links and hashtags, at UTF-8 byte offsets; mirrors src/lib/api/bluesky.ts
+ */
+const buildBlueskyFacets = (text: string) => {
+    const encoder = new TextEncoder()
+    const byteOffset = (index: number) => encoder.encode(text.slice(0, index)).length
+    const facets: { index: { byteStart: number; byteEnd: number }; features: Record<string, string>[] }[] = []
+
+    for (const match of text.matchAll(/https?:\/\/[^\s)]+/g)) {
+        facets.push({
+            index: { byteStart: byteOffset(match.index!), byteEnd: byteOffset(match.index! + match[0].length) },
+            features: [{ $type: 'app.bsky.richtext.facet#link', uri: match[0] }],
+        })
+    }
+
+    for (const match of text.matchAll(/(^|\s)#([^\s#.,!?;:]+)/gu)) {
+        const start = match.index! + match[1].length
+        facets.push({
+            index: { byteStart: byteOffset(start), byteEnd: byteOffset(start + 1 + match[2].length) },
+            features: [{ $type: 'app.bsky.richtext.facet#tag', tag: match[2] }],
+        })
+    }
+
+    return facets
+}
+
+const publishToBluesky: Publisher = async (connection, accountId, content) => {
+    if (content.media.length === 0) {
+        throw new PublishError('Bluesky posts need an image or video', 400)
+    }
+
+    const serviceUrl = connection.instance_url || BLUESKY_DEFAULT_SERVICE
+    const did = accountId || connection.account_id
+    const uploadBlob = async (item: MediaItem) => {
+        // Bluesky caps videos at 100 MB, so they go up whole
+        const file = await download(item.url, item.type)
+        const { blob } = await blueskyRequest(serviceUrl, connection.access_token, 'com.atproto.repo.uploadBlob', {
+            method: 'POST',
+            headers: { 'Content-Type': file.type || 'application/octet-stream' },
+            body: file,
+        })
+        return blob
+    }
+
+    // Bluesky can't mix media, so a video wins over photos
+    const video = content.media.find(item => item.type === 'video')
+    let embed: Record<string, unknown>
+    if (video) {
+        embed = { $type: 'app.bsky.embed.video', video: await uploadBlob(video), alt: '' }
+    } else {
+        const images = []
+        for (const image of content.media.slice(0, SOCIAL_MAX_IMAGES)) {
+            images.push({ image: await uploadBlob(image), alt: '' })
+        }
+        embed = { $type: 'app.bsky.embed.images', images }
+    }
+
+    const characters = Array.from(content.description || content.title)
+    const text = characters.length > BLUESKY_POST_LIMIT
+        ? characters.slice(0, BLUESKY_POST_LIMIT - 1).join('') + '…'
+        : characters.join('')
+    const facets = buildBlueskyFacets(text)
+
+    const { uri } = await blueskyRequest(serviceUrl, connection.access_token, 'com.atproto.repo.createRecord', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+            repo: did,
+            collection: 'app.bsky.feed.post',
+            record: {
+                $type: 'app.bsky.feed.post',
+                text,
+                createdAt: new Date().toISOString(),
+                ...(facets.length > 0 && { facets }),
+                embed,
+            },
+        }),
+    })
+
+    // Profile links work with the DID as well as the handle
+    return { id: uri, url: `https://bsky.app/profile/${did}/post/${uri.split('/').pop()}` }
+}
+
+// =============================================================================
+// MASTODON
+// =============================================================================
+
+const mastodonRequest = async (instanceUrl: string, accessToken: string, path: string, init: RequestInit = {}) => {
+    const response = await fetch(`${instanceUrl}${path}`, {
+        ...init,
+        headers: { ...init.headers, Authorization: `Bearer ${accessToken}` },
+    })
+    const body = await response.json().catch(() => ({}))
+
+    if (!response.ok) {
+        throw new PublishError(errorMessage(body) || `Mastodon request failed (HTTP ${response.status})`, response.status)
+    }
+
+    return { status: response.status, body }
+}
+
+/**
+ * Upload an image or video; resolves once the instance has processed it
+ */
+const uploadMastodonMedia = async (instanceUrl: string, accessToken: string, item: MediaItem) => {
+    // Instances cap uploads at tens of megabytes, so files go up whole
+    const form = new FormData()
+    form.append('file', await download(item.url, item.type))
+
+    const { status, body } = await mastodonRequest(instanceUrl, accessToken, '/api/v2/media', { method: 'POST', body: form })
+
+    // 202 means the file is still being processed and can't be attached yet;
+    // checking it answers 206 until it's done
+    for (let check = 0; status === 202; check++) {
+        if (check >= MASTODON_MEDIA_CHECKS) {
+            throw new PublishError('Mastodon media processing timed out', 504)
+        }
+
+        await delay(2000)
+        const { status: mediaStatus } = await mastodonRequest(instanceUrl, accessToken, `/api/v1/media/${body.id}`)
+        if (mediaStatus === 200) break
+    }
+
+    return body.id as string
+}
+
+const publishToMastodon: Publisher = async (connection, _accountId, content) => {
+    const instanceUrl = connection.instance_url
+    if (!instanceUrl) {
+        throw new PublishError('This Mastodon connection has no instance; reconnect it', 400, 'credentials')
+    }
+
+    const token = connection.access_token
+    // Instances can raise the status limit; older and compatible servers may not say
+    const { body: instance } = await mastodonRequest(instanceUrl, token, '/api/v2/instance').catch(() => ({ body: {} }))
+    const maxCharacters = instance.configuration?.statuses?.max_characters || MASTODON_DEFAULT_MAX_CHARACTERS
+
+    let status = `${content.title}\n\n${content.description}`.trim()
+    if (status.length > maxCharacters) {
+        status = status.substring(0, maxCharacters - 1) + '…'
+    }
+
+    // A video goes alone; otherwise up to four images
+    const video = content.media.find(item => item.type === 'video')
+    const mediaIds: string[] = []
+    for (const item of video ? [video] : content.media.slice(0, SOCIAL_MAX_IMAGES)) {
+        mediaIds.push(await uploadMastodonMedia(instanceUrl, token, item))
+    }
+
+    const { body: posted } = await mastodonRequest(instanceUrl, token, '/api/v1/statuses', {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            // Makes a resent request return the first status instead of posting twice
+            'Idempotency-Key': crypto.randomUUID(),
+        },
+        body: JSON.stringify({ status, media_ids: mediaIds, visibility: 'public' }),
+    })
+
+    return { id: posted.id, url: posted.url }
+}
+
+const publishers: Record<string, Publisher> = {
+    youtube: publishToYouTube,
+    facebook: publishToFacebook,
+    instagram: publishToInstagram,
+    tiktok: publishToTikTok,
+    linkedin: publishToLinkedIn,
+    bluesky: publishToBluesky,
+    mastodon: publishToMastodon,
+}
+
+const PLATFORM_NAMES: Record<string, string> = {
+    youtube: 'YouTube',
+    facebook: 'Facebook',
+    instagram: 'Instagram',
+    tiktok: 'TikTok',
+    linkedin: 'LinkedIn',
+    bluesky: 'Bluesky',
+    mastodon: 'Mastodon',
+}
+
+const platformName = (platform: string) => PLATFORM_NAMES[platform] ?? platform
+
+// =============================================================================
+// RECURRENCE
+// Mirrors src/lib/recurrence.ts and src/lib/timeZone.ts; keep them in step
+// =============================================================================
+
+type Weekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU'
+
+interface RecurrenceRule {
+    freq: 'DAILY' | 'WEEKLY' | 'MONTHLY'
+    interval: number
+    byDay: Weekday[]
+    byMonthDay: number[]
+    until: Date | null
+    count: number | null
+}
+
+interface ZonedParts {
+    year: number
+    month: number
+    day: number
+    hour: number
+    minute: number
+    weekday: number
+}
+
+const WEEKDAYS: Weekday[] = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU']
+const WEEKDAY_INDEX: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 }
+const DAY_MS = 24 * 60 * 60 * 1000
+const MAX_PERIODS = 20000
+
+function parseRRule(value: string): RecurrenceRule {
+    const rule: RecurrenceRule = { freq: 'DAILY', interval: 1, byDay: [], byMonthDay: [], until: null, count: null }
+
+    for (const part of value.replace(/^RRULE:/i, '').split(';').filter(Boolean)) {
+        const [name, rawValue = ''] = part.split('=')
+        const fieldValue = rawValue.toUpperCase()
+
+        switch (name.toUpperCase()) {
+            case 'FREQ':
+                if (!['DAILY', 'WEEKLY', 'MONTHLY'].includes(fieldValue)) {
+                    throw new Error(`Unsupported recurrence frequency: ${rawValue}`)
+                }
+                rule.freq = fieldValue as RecurrenceRule['freq']
+                break
+            case 'INTERVAL':
+                rule.interval = Math.max(1, parseInt(fieldValue, 10) || 1)
+                break
+            case 'BYDAY':
+                rule.byDay = fieldValue.split(',').filter(day => WEEKDAYS.includes(day as Weekday)) as Weekday[]
+                break
+            case 'BYMONTHDAY':
+                rule.byMonthDay = fieldValue.split(',').map(day => parseInt(day, 10)).filter(Boolean)
+                break
+            case 'UNTIL': {
+                const match = fieldValue.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/)
+                if (!match) throw new Error(`Invalid UNTIL in recurrence rule: ${rawValue}`)
+                const [, year, month, day, hour = '23', minute = '59', second = '59'] = match
+                rule.until = new Date(Date.UTC(+year, +month - 1, +day, +hour, +minute, +second))
+                break
+            }
+            case 'COUNT':
+                rule.count = Math.max(1, parseInt(fieldValue, 10) || 1)
+                break
+        }
+    }
+
+    return rule
+}
+
+const zonedFormatters = new Map<string, Intl.DateTimeFormat>()
+
+function getZonedParts(date: Date, timeZone: string): ZonedParts & { second: number } {
+    let formatter = zonedFormatters.get(timeZone)
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat('en-US', {
+            timeZone,
+            hourCycle: 'h23',
+            weekday: 'short',
+            year: 'numeric',
+            month: 'numeric',
+            day: 'numeric',
+            hour: 'numeric',
+            minute: 'numeric',
+            second: 'numeric',
+        })
+        zonedFormatters.set(timeZone, formatter)
+    }
+
+    const parts = Object.fromEntries(formatter.formatToParts(date).map(({ type, value }) => [type, value]))
+    return {
+        year: Number(parts.year),
+        month: Number(parts.month),
+        day: Number(parts.day),
+        hour: Number(parts.hour),
+        minute: Number(parts.minute),
+        second: Number(parts.second),
+        weekday: WEEKDAY_INDEX[parts.weekday],
+    }
+}
+
+const getZoneOffset = (time: number, timeZone: string) => {
+    const parts = getZonedParts(new Date(time), timeZone)
+    return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second) - Math.floor(time / 1000) * 1000
+}
+
+/**
+ * A time the clocks skip keeps the offset from before the jump; one they show twice is the first
+ */
+function zonedTimeToUtc(parts: Omit<ZonedParts, 'weekday'>, timeZone: string): Date {
+    const wallTime = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute)
+    const offsetBefore = getZoneOffset(wallTime - DAY_MS, timeZone)
+    const offsetAfter = getZoneOffset(wallTime + DAY_MS, timeZone)
+
+    const valid = [wallTime - offsetBefore, wallTime - offsetAfter]
+        .filter(time => getZoneOffset(time, timeZone) === wallTime - time)
+        .sort((a, b) => a - b)
+
+    return new Date(valid[0] ?? wallTime - offsetBefore)
+}
+
+const toDayNumber = (year: number, month: number, day: number) => Date.UTC(year, month - 1, day) / DAY_MS
+
+function getPeriodDays(rule: RecurrenceRule, start: ZonedParts, period: number): number[] {
+    const startDay = toDayNumber(start.year, start.month, start.day)
+
+    if (rule.freq === 'DAILY') return [startDay + period * rule.interval]
+
+    if (rule.freq === 'WEEKLY') {
+        const mondayOffset = (start.weekday + 6) % 7
+        const weekStart = startDay - mondayOffset + period * rule.interval * 7
+        const weekdays = rule.byDay.length > 0 ? rule.byDay : [WEEKDAYS[mondayOffset]]
+        return WEEKDAYS
+            .map((day, index) => (weekdays.includes(day) ? weekStart + index : null))
+            .filter((day): day is number => day !== null)
+    }
+
+    const monthIndex = start.year * 12 + (start.month - 1) + period * rule.interval
+    const year = Math.floor(monthIndex / 12)
+    const month = (monthIndex % 12) + 1
+    const length = new Date(Date.UTC(year, month, 0)).getUTCDate()
+    const monthDays = rule.byMonthDay.length > 0 ? rule.byMonthDay : [start.day]
+
+    return [...new Set(monthDays.map(day => (day > 0 ? day : length + 1 + day)))]
+        .filter(day => day >= 1 && day <= length)
+        .sort((a, b) => a - b)
+        .map(day => toDayNumber(year, month, day))
+}
+
+/**
+ * The series' first occurrence after the given instant, or null once it's over
+ */
+function getNextOccurrence(rule: RecurrenceRule, start: Date, timeZone: string, after: Date): Date | null {
+    const startParts = getZonedParts(start, timeZone)
+    let count = 0
+
+    for (let period = 0; period < MAX_PERIODS; period++) {
+        for (const dayNumber of getPeriodDays(rule, startParts, period)) {
+            const date = new Date(dayNumber * DAY_MS)
+            const occurrence = zonedTimeToUtc({
+                year: date.getUTCFullYear(),
+                month: date.getUTCMonth() + 1,
+                day: date.getUTCDate(),
+                hour: startParts.hour,
+                minute: startParts.minute,
+            }, timeZone)
+
+            if (occurrence < start) continue
+
+            count++
+            if ((rule.count && count > rule.count) || (rule.until && occurrence > rule.until)) return null
+            if (occurrence > after) return occurrence
+        }
+    }
+
+    return null
+}
+
+// =============================================================================
+// WORKER
+// =============================================================================
+
+/**
+ * The connection with a token that won't expire mid-publish, refreshed through
+ * oauth-exchange when due, or regardless when the platform already rejected it
+ */
+async function withFreshToken(connection: Connection, force = false): Promise<Connection> {
+    const window = REFRESH_WINDOWS_MS[connection.platform] ?? DEFAULT_REFRESH_WINDOW_MS
+    const expiresAt = connection.expires_at ? new Date(connection.expires_at).getTime() : null
+    if (!force && (expiresAt === null || expiresAt - Date.now() > window)) return connection
+
+    const response = await fetch(`${env('SUPABASE_URL')}/functions/v1/oauth-exchange`, {
+        method: 'POST',
+        headers: {
+            Authorization: `Bearer ${env('SUPABASE_SERVICE_ROLE_KEY')}`,
+            'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ action: 'refresh', connectionId: connection.id, userId: connection.user_id }),
+    })
+    const body = await response.json().catch(() => ({}))
+
+    if (!response.ok) {
+        // A token that hasn't expired yet still works for this run, unless the platform said otherwise
+        if (!force && expiresAt !== null && expiresAt > Date.now() && response.status !== 401) {
+            console.error(`Token refresh for connection ${connection.id} failed, using the current token:`, body.error)
+            return connection
+        }
+
+        throw new PublishError(
+            response.status === 401
+                ? `Reconnect ${platformName(connection.platform)} to publish`
+                : body.error || 'Failed to refresh access token',
+            response.status,
+            response.status === 401 ? 'credentials' : undefined
+        )
+    }
+
+    return { ...connection, access_token: body.access_token }
+}
+
+/**
+ * The post's assets in order: its video followed by any extra media, or its images
+ */
+function getMediaItems(video: { file_url: string; mime_type: string | null; metadata: { media?: MediaItem[] } | null }): MediaItem[] {
+    const media: MediaItem[] = (video.metadata?.media ?? []).map(({ type, url }) => ({ type, url }))
+
+    if (video.mime_type?.startsWith('video/')) {
+        return [{ type: 'video', url: video.file_url }, ...media]
+    }
+
+    return media.length > 0 ? media : [{ type: 'image', url: video.file_url }]
+}
+
+const isTargetRow = (row: PlatformPost, target: PublishTarget) =>
+    row.platform === target.platform &&
+    row.connection_id === target.connectionId &&
+    (row.account_id ?? '') === (target.accountId ?? '')
+
+/**
+ * One platform_posts row per target, creating the ones the post doesn't have yet
+ */
+async function getTargetRows(db: SupabaseClient, post: ScheduledPost): Promise<PlatformPost[]> {
+    const { data: existing, error } = await db
+        .from('platform_posts')
+        .select('*')
+        .eq('scheduled_post_id', post.id)
+
+    if (error) throw error
+
+    const rows = (existing ?? []) as PlatformPost[]
+    const missing = post.targets.filter(target => !rows.some(row => isTargetRow(row, target)))
+
+    if (missing.length > 0) {
+        const { data: created, error: insertError } = await db
+            .from('platform_posts')
+            .insert(missing.map(target => ({
+                user_id: post.user_id,
+                video_id: post.video_id,
+                scheduled_post_id: post.id,
+                connection_id: target.connectionId,
+                platform: target.platform,
+                account_id: target.accountId || null,
+                status: 'pending',
+            })))
+            .select('*')
+
+        if (insertError) throw insertError
+        rows.push(...(created ?? []))
+    }
+
+    return post.targets
+        .map(target => rows.find(row => isTargetRow(row, target)))
+        .filter((row): row is PlatformPost => !!row)
+}
+
+async function publishTarget(
+    db: SupabaseClient,
+    post: ScheduledPost,
+    row: PlatformPost,
+    connection: Connection | undefined,
+    content: Omit<PostContent, 'options'>
+): Promise<PlatformPost> {
+    await db.from('platform_posts').update({ status: 'publishing', claimed_at: new Date().toISOString() }).eq('id', row.id)
+
+    let update: AttemptResult
+
+    try {
+        if (!connection) {
+            throw new PublishError(`This ${platformName(row.platform)} account is no longer connected`, 404, 'credentials')
+        }
+        if (connection.status === 'needs_reauth') {
+            throw new PublishError(`Reconnect ${platformName(row.platform)} to publish`, 401, 'credentials')
+        }
+
+        const publish = publishers[row.platform]
+        if (!publish) {
+            throw new PublishError(`Scheduled publishing to ${platformName(row.platform)} isn't supported yet`, 400)
+        }
+
+        // The last attempt's token was turned down, so get a new one even if it hasn't expired
+        const token = await withFreshToken(connection, row.error_type === 'expired_token')
+        const result = await publish(token, row.account_id ?? '', {
+            ...content,
+            options: post.publish_options?.[row.platform] ?? {},
+        }, db)
+
+        update = {
+            status: 'published',
+            remote_id: result.id,
+            url: result.url,
+            last_error: null,
+            error_type: null,
+            title: content.title,
+            published_at: new Date().toISOString(),
+        }
+    } catch (error) {
+        console.error(`Failed to publish scheduled post ${post.id} to ${row.platform}:`, error)
+        update = failedAttempt(row, error.message, classifyError(error), error instanceof PublishError ? error.retryAt : undefined)
+    }
+
+    return recordAttempt(db, row, update)
+}
+
+/**
+ * A failure that's retried later, after the backoff or at `retryAt`, while it
+ * may clear up and attempts remain, and final otherwise
+ */
+function failedAttempt(row: PlatformPost, message: string, type: ErrorType, retryAt?: Date): AttemptResult {
+    const attempts = row.attempts + 1
+    const retryable = type === 'transient' || type === 'expired_token'
+
+    if (retryable && attempts < MAX_ATTEMPTS) {
+        return {
+            status: 'pending',
+            last_error: message,
+            error_type: type,
+            next_attempt_at: (retryAt ?? new Date(Date.now() + retryDelay(attempts))).toISOString(),
+        }
+    }
+
+    return { status: 'failed', last_error: message, error_type: type, next_attempt_at: null }
+}
+
+/**
+ * Store the outcome of one attempt on a target's row
+ */
+async function recordAttempt(
+    db: SupabaseClient,
+    row: PlatformPost,
+    update: AttemptResult
+): Promise<PlatformPost> {
+    const attempted = { next_attempt_at: null, claimed_at: null, ...update, attempts: row.attempts + 1 }
+    const { error } = await db.from('platform_posts').update(attempted).eq('id', row.id)
+
+    if (error) {
+        console.error(`Failed to record the result of ${row.platform} post ${row.id}:`, error)
+    }
+
+    return { ...row, ...attempted }
+}
+
+/**
+ * A pending target whose retry, if it's waiting on one, is due
+ */
+const isDue = (row: PlatformPost) =>
+    row.status === 'pending' && (!row.next_attempt_at || new Date(row.next_attempt_at).getTime() <= Date.now())
+
+async function processPost(db: SupabaseClient, post: ScheduledPost): Promise<PlatformPost[]> {
+    const rows = await getTargetRows(db, post)
+    const pending = rows.filter(isDue)
+    if (pending.length === 0) return rows
+
+    const { data: video, error: videoError } = await db
+        .from('videos')
+        .select('*')
+        .eq('id', post.video_id)
+        .eq('user_id', post.user_id)
+        .maybeSingle()
+
+    if (videoError) throw videoError
+    if (!video) {
+        return Promise.all(rows.map(row => row.status === 'pending'
+            ? recordAttempt(db, row, failedAttempt(row, 'The scheduled video no longer exists', 'rejected'))
+            : row
+        ))
+    }
+
+    const { data: tracks, error: tracksError } = await db
+        .from('caption_tracks')
+        .select('language, name, cues')
+        .eq('video_id', video.id)
+
+    if (tracksError) throw tracksError
+
+    const { data: connections, error: connectionsError } = await db
+        .from('platform_connections')
+        .select('*')
+        .eq('user_id', post.user_id)
+        .in('id', pending.map(row => row.connection_id))
+
+    if (connectionsError) throw connectionsError
+
+    const content = {
+        title: video.title,
+        description: video.description ?? '',
+        media: getMediaItems(video),
+        thumbnailUrl: post.thumbnail_url,
+        captions: (tracks ?? [])
+            .filter(track => track.cues?.length > 0)
+            .map(track => ({ language: track.language, name: track.name, vtt: toVtt(track.cues) })),
+    }
+
+    // Targets are independent, so one failing doesn't hold up the others
+    return Promise.all(rows.map(row => isDue(row)
+        ? publishTarget(db, post, row, (connections ?? []).find(c => c.id === row.connection_id), content)
+        : row
+    ))
+}
+
+/**
+ * Create the posts for every due occurrence of active series; occurrences
+ * the user already moved or skipped have theirs
+ */
+async function expandDueSeries(db: SupabaseClient, now: string) {
+    const { data: series, error } = await db
+        .from('scheduled_posts')
+        .select('*')
+        .eq('status', 'scheduled')
+        .not('recurrence_rule', 'is', null)
+        .lte('next_occurrence_at', now)
+        .limit(SERIES_BATCH_SIZE)
+
+    if (error) throw error
+
+    for (const post of (series ?? []) as ScheduledPost[]) {
+        try {
+            const rule = parseRRule(post.recurrence_rule!)
+            const start = new Date(post.scheduled_date)
+            const timeZone = post.timezone || 'UTC'
+            const occurrences: Date[] = []
+
+            // Runs that were missed publish late rather than not at all
+            let next: Date | null = new Date(post.next_occurrence_at!)
+            while (next && next.toISOString() <= now) {
+                occurrences.push(next)
+                next = getNextOccurrence(rule, start, timeZone, next)
+            }
+
+            const { error: insertError } = await db
+                .from('scheduled_posts')
+                .upsert(occurrences.map(occurrence => ({
+                    user_id: post.user_id,
+                    video_id: post.video_id,
+                    platforms: post.platforms,
+                    targets: post.targets,
+                    thumbnail_url: post.thumbnail_url,
+                    notes: post.notes,
+                    publish_options: post.publish_options ?? {},
+                    timezone: post.timezone,
+                    series_id: post.id,
+                    occurrence_date: occurrence.toISOString(),
+                    scheduled_date: occurrence.toISOString(),
+                    status: 'scheduled',
+                })), { onConflict: 'series_id,occurrence_date', ignoreDuplicates: true })
+
+            if (insertError) throw insertError
+
+            await db
+                .from('scheduled_posts')
+                .update({ next_occurrence_at: next?.toISOString() ?? null })
+                .eq('id', post.id)
+
+            console.log(`Created ${occurrences.length} occurrences of series ${post.id}`)
+        } catch (error) {
+            console.error(`Error expanding recurring series ${post.id}:`, error)
+        }
+    }
+}
+
+/**
+ * Put back what a killed or timed-out run left claimed. An interrupted target
+ * may or may not have gone out; it counts as a failed attempt and is retried
+ * after the usual backoff. Its post returns to the queue as retrying.
+ */
+async function reclaimStaleClaims(db: SupabaseClient) {
+    const stale = `claimed_at.is.null,claimed_at.lt.${new Date(Date.now() - CLAIM_TIMEOUT_MS).toISOString()}`
+
+    const { data: targets, error } = await db
+        .from('platform_posts')
+        .select('*')
+        .eq('status', 'publishing')
+        .or(stale)
+
+    if (error) throw error
+
+    for (const row of (targets ?? []) as PlatformPost[]) {
+        console.error(`Reclaiming ${row.platform} post ${row.id}, which was left publishing`)
+        await recordAttempt(db, row, failedAttempt(row, 'Publishing was interrupted before it finished', 'transient'))
+    }
+
+    const { error: postsError } = await db
+        .from('scheduled_posts')
+        .update({ status: 'retrying', claimed_at: null, retry_at: null })
+        .eq('status', 'publishing')
+        .or(stale)
+
+    if (postsError) throw postsError
+}
+
+/**
+ * Retrying while any target waits on a retry; otherwise published when every
+ * target is, partially published when some are
+ */
+function overallStatus(rows: PlatformPost[]): 'retrying' | 'published' | 'partially_published' | 'failed' {
+    if (rows.some(row => row.status === 'pending')) return 'retrying'
+
+    const published = rows.filter(row => row.status === 'published').length
+    if (rows.length > 0 && published === rows.length) return 'published'
+    return published > 0 ? 'partially_published' : 'failed'
 }
 
 Deno.serve(async (req) => {
@@ -24,77 +1774,116 @@ Deno.serve(async (req) => {
         return new Response('ok', { headers: corsHeaders })
     }
 
-    try {
-        // Initialize Supabase client
-        const supabaseClient = createClient(
-            Deno.env.get('SUPABASE_URL') ?? '',
-            Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    // Runs publish for every user; signed-in users requeue by updating their rows instead
+    const serviceRoleKey = env('SUPABASE_SERVICE_ROLE_KEY')
+    if (!serviceRoleKey || req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+        return new Response(
+            JSON.stringify({ error: 'Only the service role can run the worker' }),
+            {
+                headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+                status: 401,
+            }
         )
+    }
 
-        // 1. Fetch due jobs
-        const now = new Date().toISOString()
-        const { data: jobs, error: fetchError } = await supabaseClient
-            .from('scheduled_jobs')
-            .select('*, videos(*)')
-            .eq('status', 'scheduled')
-            .lte('scheduled_for', now)
-            .limit(10)
+    try {
+        const supabaseClient = createClient(env('SUPABASE_URL'), serviceRoleKey)
 
-        if (fetchError) throw fetchError
+        const startedAt = Date.now()
+        const now = new Date(startedAt).toISOString()
+        await reclaimStaleClaims(supabaseClient)
+        await expandDueSeries(supabaseClient, now)
 
-        console.log(`Found ${jobs?.length || 0} due jobs`)
+        const { data: duePosts, error: fetchError } = await supabaseClient
+            .from('scheduled_posts')
+            .select('*')
+            .in('status', ['scheduled', 'retrying'])
+            .is('recurrence_rule', null)
+            .lte('scheduled_date', now)
+            .or(`retry_at.is.null,retry_at.lte.${now}`)
+            .order('scheduled_date')
+            .limit(BATCH_SIZE)
 
-        const results = []
+        if (fetchError) throw fetchError
 
-        // 2. Process each job
-        for (const job of jobs || []) {
-            try {
-                console.log(`Processing job ${job.id} for video ${job.video_id}`)
+        console.log(`Found ${duePosts?.length || 0} due scheduled posts`)
 
-                // Update status to processing
-                await supabaseClient
-                    .from('scheduled_jobs')
-                    .update({ status: 'processing' })
-                    .eq('id', job.id)
+        // How many posts ended up in each status; nothing about any one user's posts
+        const counts: Record<string, number> = {}
+        const count = (status: string) => {
+            counts[status] = (counts[status] ?? 0) + 1
+        }
 
-                // TODO: Implement actual platform publishing logic here
-                // This would involve:
-                // 1. Fetching platform credentials for the user
-                // 2. Refreshing tokens if needed
-                // 3. Calling the platform APIs (YouTube, Facebook, Instagram)
-                // 4. Updating the platform_posts table with results
+        for (const post of (duePosts ?? []) as ScheduledPost[]) {
+            if (Date.now() - startedAt > RUN_BUDGET_MS) break
 
-                // Simulate successful publishing
-                await new Promise(resolve => setTimeout(resolve, 1000))
+            // Claim the post so an overlapping run doesn't publish it twice
+            const { data: claimed, error: claimError } = await supabaseClient
+                .from('scheduled_posts')
+                .update({ status: 'publishing', claimed_at: new Date().toISOString() })
+                .eq('id', post.id)
+                .eq('status', post.status)
+                .select('id')
 
-                // Update status to completed
-                await supabaseClient
-                    .from('scheduled_jobs')
-                    .update({
-                        status: 'completed',
-                        executed_at: new Date().toISOString()
-                    })
-                    .eq('id', job.id)
+            if (claimError) throw claimError
+            if (!claimed?.length) continue
 
-                results.push({ id: job.id, status: 'success' })
-            } catch (jobError) {
-                console.error(`Error processing job ${job.id}:`, jobError)
+            let rows: PlatformPost[]
+
+            try {
+                rows = await processPost(supabaseClient, post)
+            } catch (error) {
+                // Nothing was sent yet; a database or network error is retried like a failed target
+                console.error(`Error processing scheduled post ${post.id}:`, error)
+                const attempts = (post.attempts ?? 0) + 1
+                const retrying = attempts < MAX_ATTEMPTS
 
-                // Update status to failed
                 await supabaseClient
-                    .from('scheduled_jobs')
+                    .from('scheduled_posts')
                     .update({
-                        status: 'failed',
-                        error_message: jobError.message
+                        status: retrying ? 'retrying' : 'failed',
+                        attempts,
+                        claimed_at: null,
+                        error_message: error.message,
+                        retry_at: retrying ? new Date(Date.now() + retryDelay(attempts)).toISOString() : null,
                     })
-                    .eq('id', job.id)
+                    .eq('id', post.id)
 
-                results.push({ id: job.id, status: 'failed', error: jobError.message })
+                count(retrying ? 'retrying' : 'failed')
+                continue
             }
+
+            const status = overallStatus(rows)
+            const retryTimes = rows
+                .filter(row => row.status === 'pending' && row.next_attempt_at)
+                .map(row => new Date(row.next_attempt_at!).getTime())
+            const failed = rows.filter(row => row.status !== 'published')
+            const errorMessage = (rows.length === 0 ? 'The post has no targets' : null) ??
+                (failed.length > 0
+                    ? failed.map(row => `${platformName(row.platform)}: ${row.last_error ?? 'Not published'}`).join('; ')
+                    : null)
+
+            await supabaseClient
+                .from('scheduled_posts')
+                .update({
+                    status,
+                    attempts: 0,
+                    claimed_at: null,
+                    error_message: errorMessage,
+                    retry_at: retryTimes.length > 0 ? new Date(Math.min(...retryTimes)).toISOString() : null,
+                    published_at: status === 'published' ? new Date().toISOString() : null,
+                })
+                .eq('id', post.id)
+
+            count(status)
         }
 
         return new Response(
-            JSON.stringify({ success: true, processed: results.length, results }),
+            JSON.stringify({
+                success: true,
+                processed: Object.values(counts).reduce((sum, n) => sum + n, 0),
+                statuses: counts,
+            }),
             {
                 headers: { ...corsHeaders, 'Content-Type': 'application/json' },
                 status: 200,
@@ -0,0 +1,11 @@
+-- Allow any registered platform adapter
+-- The platform list lives in src/lib/platforms, so the tables no longer
+-- restrict `platform` to a hard-coded set of networks.
+
+ALTER TABLE platform_connections DROP CONSTRAINT IF EXISTS platform_connections_platform_check;
+ALTER TABLE video_analytics DROP CONSTRAINT IF EXISTS video_analytics_platform_check;
+ALTER TABLE account_analytics DROP CONSTRAINT IF EXISTS account_analytics_platform_check;
+
+-- Platform identifiers are lowercase slugs such as 'youtube'
+ALTER TABLE platform_connections
+    ADD CONSTRAINT platform_connections_platform_slug CHECK (platform ~ '^[a-z0-9_-]+$');
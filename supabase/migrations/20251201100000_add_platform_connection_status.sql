@@ -0,0 +1,11 @@
+-- Track token health on platform connections
+-- `status` flips to 'needs_reauth' when a token can no longer be refreshed,
+-- so the UI can prompt the user to connect the platform again.
+
+ALTER TABLE platform_connections
+    ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'connected'
+        CHECK (status IN ('connected', 'needs_reauth')),
+    ADD COLUMN IF NOT EXISTS last_refresh_error TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_platform_connections_status
+ON platform_connections(status);
@@ -0,0 +1,53 @@
+-- Multiple accounts per platform
+-- A user can hold several grants for the same platform (e.g. two YouTube
+-- channels), and each grant can reach several publish targets (Facebook
+-- pages, Instagram business accounts). Grants stay in platform_connections;
+-- the targets they reach are cached in platform_accounts.
+
+-- One connection per platform account instead of one per platform
+UPDATE platform_connections SET account_id = '' WHERE account_id IS NULL;
+
+ALTER TABLE platform_connections
+    ALTER COLUMN account_id SET DEFAULT '',
+    ALTER COLUMN account_id SET NOT NULL,
+    DROP CONSTRAINT IF EXISTS platform_connections_user_id_platform_key,
+    ADD CONSTRAINT platform_connections_user_platform_account_key UNIQUE (user_id, platform, account_id);
+
+-- Publish targets reachable through each connection
+CREATE TABLE IF NOT EXISTS platform_accounts (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+    connection_id UUID NOT NULL REFERENCES platform_connections(id) ON DELETE CASCADE,
+    platform TEXT NOT NULL,
+    account_id TEXT NOT NULL,
+    name TEXT NOT NULL,
+    username TEXT,
+    avatar_url TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    UNIQUE(connection_id, account_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_platform_accounts_user_id ON platform_accounts(user_id);
+
+CREATE TRIGGER update_platform_accounts_updated_at
+  BEFORE UPDATE ON platform_accounts
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE platform_accounts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own platform accounts" ON platform_accounts FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can insert their own platform accounts" ON platform_accounts FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update their own platform accounts" ON platform_accounts FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own platform accounts" ON platform_accounts FOR DELETE USING (auth.uid() = user_id);
+
+-- Account metrics are recorded per target, not per platform
+ALTER TABLE account_analytics
+    ADD COLUMN IF NOT EXISTS account_id TEXT NOT NULL DEFAULT '',
+    ADD COLUMN IF NOT EXISTS account_name TEXT,
+    DROP CONSTRAINT IF EXISTS account_analytics_user_id_platform_date_recorded_key,
+    ADD CONSTRAINT account_analytics_user_platform_account_date_key UNIQUE (user_id, platform, account_id, date_recorded);
+
+-- Scheduled posts name the exact targets: [{ "platform", "connectionId", "accountId" }]
+ALTER TABLE scheduled_posts
+    ADD COLUMN IF NOT EXISTS targets JSONB NOT NULL DEFAULT '[]';
@@ -0,0 +1,20 @@
+-- Federated platforms (Mastodon, Bluesky)
+-- Accounts on these networks live on a user-chosen server, so connections
+-- remember which one. Mastodon needs an OAuth app registered on each
+-- instance; the oauth-exchange function registers it once and reuses it.
+
+ALTER TABLE platform_connections
+    ADD COLUMN IF NOT EXISTS instance_url TEXT;
+
+CREATE TABLE IF NOT EXISTS mastodon_apps (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    instance_url TEXT NOT NULL,
+    redirect_uri TEXT NOT NULL,
+    client_id TEXT NOT NULL,
+    client_secret TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    UNIQUE(instance_url, redirect_uri)
+);
+
+-- Client secrets: only the service role (edge functions) may read them
+ALTER TABLE mastodon_apps ENABLE ROW LEVEL SECURITY;
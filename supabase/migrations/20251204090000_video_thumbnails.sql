@@ -0,0 +1,16 @@
+-- Custom thumbnails
+-- Generated images, captured frames and uploads are kept in their own public
+-- bucket (platforms fetch them by URL), one folder per user. Scheduled posts
+-- remember the chosen thumbnail so the worker can set it when publishing.
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('thumbnails', 'thumbnails', true)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can upload their own thumbnails" ON storage.objects FOR INSERT
+    WITH CHECK (bucket_id = 'thumbnails' AND (storage.foldername(name))[1] = auth.uid()::text);
+CREATE POLICY "Users can delete their own thumbnails" ON storage.objects FOR DELETE
+    USING (bucket_id = 'thumbnails' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+ALTER TABLE scheduled_posts
+    ADD COLUMN IF NOT EXISTS thumbnail_url TEXT;
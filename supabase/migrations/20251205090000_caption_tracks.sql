@@ -0,0 +1,30 @@
+-- Caption tracks
+-- One subtitle track per video and language, imported from SRT/WebVTT or
+-- written in the editor. Cues are stored as [{start, end, text}] in seconds
+-- and converted to either format on export and when publishing.
+
+CREATE TABLE IF NOT EXISTS caption_tracks (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    video_id UUID NOT NULL, -- References videos
+    language TEXT NOT NULL,
+    name TEXT NOT NULL DEFAULT '',
+    cues JSONB NOT NULL DEFAULT '[]'::jsonb,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    UNIQUE(video_id, language)
+);
+
+CREATE INDEX IF NOT EXISTS idx_caption_tracks_video_id ON caption_tracks(video_id);
+
+ALTER TABLE caption_tracks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own caption tracks" ON caption_tracks FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can insert their own caption tracks" ON caption_tracks FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update their own caption tracks" ON caption_tracks FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own caption tracks" ON caption_tracks FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_caption_tracks_updated_at
+    BEFORE UPDATE ON caption_tracks
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
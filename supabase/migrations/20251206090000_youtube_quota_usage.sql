@@ -0,0 +1,35 @@
+-- YouTube Data API quota ledger
+-- Every YouTube Data API call is charged against the Cloud project's daily
+-- quota (10,000 units by default), whichever user makes it. Each call is
+-- recorded here with its unit cost so the app can tell how much is left before
+-- calling. Days follow Pacific time, when Google resets the quota.
+
+CREATE TABLE IF NOT EXISTS youtube_quota_usage (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    key_id TEXT NOT NULL, -- Hash of the API key, never the key itself
+    quota_day DATE NOT NULL,
+    endpoint TEXT NOT NULL, -- e.g. 'search.list', 'videos.insert'
+    units INTEGER NOT NULL,
+    priority TEXT NOT NULL DEFAULT 'high' CHECK (priority IN ('high', 'low')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_youtube_quota_usage_key_day ON youtube_quota_usage(key_id, quota_day);
+
+ALTER TABLE youtube_quota_usage ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own quota usage" ON youtube_quota_usage FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can insert their own quota usage" ON youtube_quota_usage FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+-- Units spent per endpoint across all users of a key; users can't read each
+-- other's rows, but the budget is shared
+CREATE OR REPLACE FUNCTION get_youtube_quota_usage(p_key_id TEXT, p_day DATE)
+RETURNS TABLE (endpoint TEXT, units BIGINT) AS $$
+    SELECT endpoint, SUM(units)::BIGINT
+    FROM youtube_quota_usage
+    WHERE key_id = p_key_id AND quota_day = p_day
+    GROUP BY endpoint;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_youtube_quota_usage(TEXT, DATE) TO authenticated;
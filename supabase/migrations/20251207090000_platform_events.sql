@@ -0,0 +1,40 @@
+-- Platform events
+-- Facebook Page and Instagram webhook deliveries (comments, mentions, feed
+-- changes, live video status), written by the platform-webhooks edge function.
+-- One row per event and user who manages the page or account, so each user
+-- sees their own copy through RLS and Realtime.
+
+CREATE TABLE IF NOT EXISTS platform_events (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    connection_id UUID REFERENCES platform_connections(id) ON DELETE SET NULL,
+    platform TEXT NOT NULL,
+    account_id TEXT NOT NULL, -- Page or Instagram account the event is about
+    event_type TEXT NOT NULL CHECK (event_type IN ('comment', 'mention', 'feed', 'live_video')),
+    field TEXT NOT NULL, -- Webhook field as delivered, e.g. 'feed' or 'comments'
+    verb TEXT, -- add, edited, remove; live status for live_video
+    object_id TEXT, -- Comment, post or live video id
+    parent_id TEXT, -- Post or media the comment belongs to
+    payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+    -- Meta retries deliveries it thinks failed; the key makes them idempotent
+    event_key TEXT NOT NULL,
+    occurred_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    read_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    UNIQUE(user_id, event_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_platform_events_user_occurred ON platform_events(user_id, occurred_at DESC);
+
+ALTER TABLE platform_events ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only written by the edge function's service role
+CREATE POLICY "Users can view their own platform events" ON platform_events FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can update their own platform events" ON platform_events FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own platform events" ON platform_events FOR DELETE USING (auth.uid() = user_id);
+
+-- Pages and accounts are looked up by their platform id for every delivery
+CREATE INDEX IF NOT EXISTS idx_platform_accounts_account_id ON platform_accounts(platform, account_id);
+
+-- Stream inserts to the app through Supabase Realtime
+ALTER PUBLICATION supabase_realtime ADD TABLE platform_events;
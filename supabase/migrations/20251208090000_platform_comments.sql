@@ -0,0 +1,64 @@
+-- Comment inbox
+-- Comments and replies on YouTube videos, Facebook page posts and Instagram
+-- media, synced from each platform and stored per post. Platform fields are
+-- overwritten on every sync; assignment is ours and kept across syncs.
+-- Teammates are names the user can assign comments to; they don't sign in.
+
+CREATE TABLE IF NOT EXISTS team_members (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    email TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_team_members_user_id ON team_members(user_id);
+
+ALTER TABLE team_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own team members" ON team_members FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can insert their own team members" ON team_members FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update their own team members" ON team_members FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own team members" ON team_members FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TABLE IF NOT EXISTS platform_comments (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    connection_id UUID NOT NULL REFERENCES platform_connections(id) ON DELETE CASCADE,
+    platform TEXT NOT NULL,
+    account_id TEXT NOT NULL, -- Channel, page or Instagram account the post belongs to
+    post_id TEXT NOT NULL,
+    post_title TEXT,
+    post_url TEXT,
+    comment_id TEXT NOT NULL,
+    parent_comment_id TEXT, -- Top-level comment, for replies
+    author_name TEXT NOT NULL DEFAULT '',
+    author_id TEXT,
+    author_avatar_url TEXT,
+    text TEXT NOT NULL DEFAULT '',
+    like_count INTEGER NOT NULL DEFAULT 0,
+    is_own BOOLEAN NOT NULL DEFAULT false, -- Written by the account, e.g. a reply from the inbox
+    liked BOOLEAN NOT NULL DEFAULT false,
+    hidden BOOLEAN NOT NULL DEFAULT false,
+    assigned_to UUID REFERENCES team_members(id) ON DELETE SET NULL,
+    published_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    synced_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    UNIQUE(user_id, platform, comment_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_platform_comments_user_published ON platform_comments(user_id, published_at DESC);
+CREATE INDEX IF NOT EXISTS idx_platform_comments_post ON platform_comments(user_id, platform, post_id);
+
+ALTER TABLE platform_comments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own platform comments" ON platform_comments FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can insert their own platform comments" ON platform_comments FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update their own platform comments" ON platform_comments FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own platform comments" ON platform_comments FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_platform_comments_updated_at
+    BEFORE UPDATE ON platform_comments
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
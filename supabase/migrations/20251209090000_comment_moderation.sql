@@ -0,0 +1,63 @@
+-- Comment moderation
+-- Rules the inbox applies to newly synced comments, the saved replies they can
+-- send, and a sentiment label on every comment. Each comment is checked once:
+-- moderated_at is set whether or not a rule matched, so later syncs skip it.
+
+CREATE TABLE IF NOT EXISTS reply_templates (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    body TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_reply_templates_user_id ON reply_templates(user_id);
+
+ALTER TABLE reply_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own reply templates" ON reply_templates FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can insert their own reply templates" ON reply_templates FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update their own reply templates" ON reply_templates FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own reply templates" ON reply_templates FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_reply_templates_updated_at
+    BEFORE UPDATE ON reply_templates
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TABLE IF NOT EXISTS comment_rules (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    match_type TEXT NOT NULL CHECK (match_type IN ('keyword', 'regex', 'link', 'emoji_spam', 'blocked_user')),
+    patterns TEXT[] NOT NULL DEFAULT '{}', -- Keywords, expressions, allowed link domains or blocked authors
+    action TEXT NOT NULL CHECK (action IN ('hide', 'delete', 'flag', 'reply')),
+    reply_template_id UUID REFERENCES reply_templates(id) ON DELETE SET NULL,
+    enabled BOOLEAN NOT NULL DEFAULT true,
+    position INTEGER NOT NULL DEFAULT 0, -- The first matching rule wins
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_comment_rules_user_id ON comment_rules(user_id, position);
+
+ALTER TABLE comment_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own comment rules" ON comment_rules FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can insert their own comment rules" ON comment_rules FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update their own comment rules" ON comment_rules FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own comment rules" ON comment_rules FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_comment_rules_updated_at
+    BEFORE UPDATE ON comment_rules
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE platform_comments
+    ADD COLUMN IF NOT EXISTS sentiment TEXT CHECK (sentiment IN ('positive', 'neutral', 'negative', 'question')),
+    ADD COLUMN IF NOT EXISTS flagged BOOLEAN NOT NULL DEFAULT false, -- Waiting for someone to review it
+    ADD COLUMN IF NOT EXISTS matched_rule_id UUID REFERENCES comment_rules(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS moderated_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_platform_comments_unmoderated ON platform_comments(user_id, published_at) WHERE moderated_at IS NULL;
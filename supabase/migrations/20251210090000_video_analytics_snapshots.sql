@@ -0,0 +1,58 @@
+-- Per-video analytics
+-- Every successful publish is recorded in platform_posts, linked to the
+-- library video it came from. The analytics sync reads each post's lifetime
+-- metrics from its platform and keeps one video_analytics snapshot per post
+-- per day; syncing again on the same day overwrites that day's snapshot.
+
+CREATE TABLE IF NOT EXISTS platform_posts (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    video_id UUID, -- References videos
+    connection_id UUID REFERENCES platform_connections(id) ON DELETE SET NULL,
+    platform TEXT NOT NULL,
+    account_id TEXT, -- Channel, page or account it was published to
+    remote_id TEXT NOT NULL, -- The platform's ID for the post
+    url TEXT,
+    title TEXT,
+    published_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+-- supabase/schema-automation.sql creates an older platform_posts (platform_post_id,
+-- platform_url and only three platforms). Where it has run the table above
+-- isn't created, so bring that one up to the same shape; its own columns are
+-- left in place. Publishes upsert on (user_id, platform, remote_id).
+ALTER TABLE platform_posts
+    ADD COLUMN IF NOT EXISTS connection_id UUID REFERENCES platform_connections(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS account_id TEXT,
+    ADD COLUMN IF NOT EXISTS remote_id TEXT,
+    ADD COLUMN IF NOT EXISTS url TEXT,
+    ADD COLUMN IF NOT EXISTS title TEXT,
+    ADD COLUMN IF NOT EXISTS published_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    ALTER COLUMN video_id DROP NOT NULL,
+    DROP CONSTRAINT IF EXISTS platform_posts_platform_check;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_platform_posts_remote_id ON platform_posts(user_id, platform, remote_id);
+
+CREATE INDEX IF NOT EXISTS idx_platform_posts_video_id ON platform_posts(user_id, video_id);
+
+ALTER TABLE platform_posts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own platform posts" ON platform_posts FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can insert their own platform posts" ON platform_posts FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update their own platform posts" ON platform_posts FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own platform posts" ON platform_posts FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_platform_posts_updated_at
+    BEFORE UPDATE ON platform_posts
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- video_analytics.video_id is the platform's ID; source_video_id is ours
+ALTER TABLE video_analytics
+    ADD COLUMN IF NOT EXISTS source_video_id UUID, -- References videos
+    ADD COLUMN IF NOT EXISTS platform_post_id UUID REFERENCES platform_posts(id) ON DELETE CASCADE,
+    ADD CONSTRAINT video_analytics_user_platform_video_date_key UNIQUE (user_id, platform, video_id, date_recorded);
+
+CREATE INDEX IF NOT EXISTS idx_video_analytics_source_video_id ON video_analytics(user_id, source_video_id, date_recorded);
@@ -0,0 +1,24 @@
+-- Scheduled publishing
+-- The process-scheduled-posts worker picks up due scheduled_posts, claims
+-- each one by moving it to 'publishing', publishes the library video to every
+-- target and keeps one result per target in execution_log. Successful posts
+-- are recorded in platform_posts like any other publish.
+
+ALTER TABLE scheduled_posts
+    ADD COLUMN IF NOT EXISTS video_id UUID, -- References videos
+    -- Per platform: { "postType", "videoSettings" } chosen when scheduling
+    ADD COLUMN IF NOT EXISTS publish_options JSONB NOT NULL DEFAULT '{}',
+    ADD COLUMN IF NOT EXISTS execution_log JSONB,
+    ADD COLUMN IF NOT EXISTS published_at TIMESTAMPTZ,
+    DROP CONSTRAINT IF EXISTS scheduled_posts_status_check,
+    ADD CONSTRAINT scheduled_posts_status_check
+        CHECK (status IN ('scheduled', 'publishing', 'published', 'failed', 'cancelled'));
+
+-- Scheduled posts are library videos now; content_id predates the videos table
+ALTER TABLE scheduled_posts
+    ALTER COLUMN content_id DROP NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_scheduled_posts_due ON scheduled_posts(scheduled_date) WHERE status = 'scheduled';
+
+ALTER TABLE platform_posts
+    ADD COLUMN IF NOT EXISTS scheduled_post_id UUID REFERENCES scheduled_posts(id) ON DELETE SET NULL;
@@ -0,0 +1,24 @@
+-- Per-target publish results
+-- Each target of a scheduled post gets its own platform_posts row as soon as
+-- the worker picks the post up, so a post can reach YouTube and fail on
+-- Instagram. Rows move pending -> publishing -> published/failed; a failed row
+-- set back to pending is retried on its own, without republishing the
+-- targets that already succeeded. Publishes from the app are recorded as
+-- published straight away.
+
+ALTER TABLE platform_posts
+    ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'published'
+        CHECK (status IN ('pending', 'publishing', 'published', 'failed')),
+    ADD COLUMN IF NOT EXISTS attempts INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS last_error TEXT,
+    -- Unknown until the target has been published
+    ALTER COLUMN remote_id DROP NOT NULL,
+    ALTER COLUMN published_at DROP DEFAULT;
+
+CREATE INDEX IF NOT EXISTS idx_platform_posts_scheduled_post_id ON platform_posts(scheduled_post_id);
+
+-- Some targets published and some failed
+ALTER TABLE scheduled_posts
+    DROP CONSTRAINT IF EXISTS scheduled_posts_status_check,
+    ADD CONSTRAINT scheduled_posts_status_check
+        CHECK (status IN ('scheduled', 'publishing', 'published', 'partially_published', 'failed', 'cancelled'));
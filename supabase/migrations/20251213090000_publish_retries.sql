@@ -0,0 +1,24 @@
+-- Publish retries
+-- A target that fails for a reason that may clear up on its own (a platform
+-- 5xx, rate limiting, an expired token) goes back to pending with the time of
+-- its next attempt, backing off exponentially until it runs out of attempts.
+-- error_type records why the last attempt failed so the app can tell the user
+-- what to fix once it stops retrying.
+--
+-- A post waiting on a retry is 'retrying' until retry_at, the earliest of its
+-- targets' next attempts. Posts left failed or partially published are the
+-- dead-letter list the scheduler lets users requeue from.
+
+ALTER TABLE platform_posts
+    ADD COLUMN IF NOT EXISTS error_type TEXT
+        CHECK (error_type IN ('transient', 'expired_token', 'credentials', 'rejected')),
+    ADD COLUMN IF NOT EXISTS next_attempt_at TIMESTAMPTZ;
+
+ALTER TABLE scheduled_posts
+    ADD COLUMN IF NOT EXISTS retry_at TIMESTAMPTZ,
+    DROP CONSTRAINT IF EXISTS scheduled_posts_status_check,
+    ADD CONSTRAINT scheduled_posts_status_check
+        CHECK (status IN ('scheduled', 'publishing', 'retrying', 'published', 'partially_published', 'failed', 'cancelled'));
+
+DROP INDEX IF EXISTS idx_scheduled_posts_due;
+CREATE INDEX IF NOT EXISTS idx_scheduled_posts_due ON scheduled_posts(scheduled_date) WHERE status IN ('scheduled', 'retrying');
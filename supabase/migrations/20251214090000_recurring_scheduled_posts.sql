@@ -0,0 +1,24 @@
+-- Recurring scheduled posts
+-- A series is a scheduled_posts row with an RRULE (daily, weekly on given
+-- weekdays or monthly on given days, ending on UNTIL or after COUNT).
+-- Its scheduled_date is the first occurrence. Occurrences fall on the same
+-- time of day in the series' time zone. The series itself is never published:
+-- when an occurrence is due the worker copies the series into an ordinary
+-- post for it (series_id + occurrence_date) and publishes that, so every
+-- occurrence has its own results and retries. next_occurrence_at is the next
+-- occurrence the worker hasn't created a post for yet; null once the series
+-- is over.
+--
+-- Moving or skipping a single occurrence creates its post ahead of time, with
+-- the new time or as cancelled; the worker leaves occurrences that already
+-- have a post alone.
+
+ALTER TABLE scheduled_posts
+    ADD COLUMN IF NOT EXISTS recurrence_rule TEXT,
+    ADD COLUMN IF NOT EXISTS timezone TEXT,
+    ADD COLUMN IF NOT EXISTS next_occurrence_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS series_id UUID REFERENCES scheduled_posts(id) ON DELETE CASCADE,
+    ADD COLUMN IF NOT EXISTS occurrence_date TIMESTAMPTZ,
+    ADD CONSTRAINT scheduled_posts_series_occurrence_key UNIQUE (series_id, occurrence_date);
+
+CREATE INDEX IF NOT EXISTS idx_scheduled_posts_series_due ON scheduled_posts(next_occurrence_at) WHERE recurrence_rule IS NOT NULL AND status = 'scheduled';
@@ -0,0 +1,18 @@
+-- Time zones for schedules and accounts
+-- Scheduled times are stored as instants; timezone is the IANA zone the time
+-- was picked in. Edits keep the time on that zone's clock, and recurring
+-- series keep their time of day on it across daylight-saving changes. Posts
+-- scheduled before zones were recorded were picked in an unknown zone and
+-- are treated as UTC.
+--
+-- Each publish target can name the zone its audience is in, so the app can
+-- show a post's time as the audience sees it next to the viewer's own.
+
+UPDATE scheduled_posts SET timezone = 'UTC' WHERE timezone IS NULL;
+
+ALTER TABLE scheduled_posts
+    ALTER COLUMN timezone SET DEFAULT 'UTC',
+    ALTER COLUMN timezone SET NOT NULL;
+
+ALTER TABLE platform_accounts
+    ADD COLUMN IF NOT EXISTS timezone TEXT;
@@ -0,0 +1,16 @@
+-- OAuth state nonces
+-- The oauth-exchange edge function stores the nonce of every signed state it
+-- issues and deletes it when the state is exchanged, so a captured state and
+-- code can't be replayed while the state is still unexpired. Only the edge
+-- function's service role reads or writes these rows.
+
+CREATE TABLE IF NOT EXISTS oauth_state_nonces (
+    nonce TEXT PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_oauth_state_nonces_user_expires ON oauth_state_nonces(user_id, expires_at);
+
+ALTER TABLE oauth_state_nonces ENABLE ROW LEVEL SECURITY;
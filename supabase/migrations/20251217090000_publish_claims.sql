@@ -0,0 +1,15 @@
+-- Publish claims
+-- The worker marks a post 'publishing' when it claims it and a target
+-- 'publishing' while it sends it. claimed_at records when, so a run that was
+-- killed or timed out part way doesn't leave them stuck: the next run puts
+-- claims older than PUBLISH_CLAIM_TIMEOUT_SECONDS back in the queue, counting
+-- the interrupted targets as failed attempts.
+
+ALTER TABLE scheduled_posts
+    ADD COLUMN IF NOT EXISTS claimed_at TIMESTAMPTZ;
+
+ALTER TABLE platform_posts
+    ADD COLUMN IF NOT EXISTS claimed_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_scheduled_posts_claimed ON scheduled_posts(claimed_at) WHERE status = 'publishing';
+CREATE INDEX IF NOT EXISTS idx_platform_posts_claimed ON platform_posts(claimed_at) WHERE status = 'publishing';
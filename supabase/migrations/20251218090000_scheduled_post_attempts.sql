@@ -0,0 +1,9 @@
+-- Scheduled post attempts
+-- Runs in a row that couldn't get a post as far as its targets (a database
+-- or network error loading the video or connections). The worker retries such
+-- a post with the same backoff as a failed target, and fails it once
+-- PUBLISH_MAX_ATTEMPTS runs in a row have. Reset when a run gets through or
+-- the user requeues the post.
+
+ALTER TABLE scheduled_posts
+    ADD COLUMN IF NOT EXISTS attempts INTEGER NOT NULL DEFAULT 0;
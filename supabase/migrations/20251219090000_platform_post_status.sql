@@ -0,0 +1,16 @@
+-- Platform post status
+-- On databases set up from schema-automation.sql, platform_posts already had
+-- a status column, with other values and a 'pending' default, so the publish
+-- results migration skipped adding ours along with its check. Rows that table
+-- left uploading or deleted count as failed; the column then gets the default,
+-- NOT NULL and check the publish results migration meant it to have.
+
+UPDATE platform_posts
+SET status = 'failed'
+WHERE status IS NULL OR status NOT IN ('pending', 'publishing', 'published', 'failed');
+
+ALTER TABLE platform_posts
+    ALTER COLUMN status SET DEFAULT 'published',
+    ALTER COLUMN status SET NOT NULL,
+    DROP CONSTRAINT IF EXISTS platform_posts_status_check,
+    ADD CONSTRAINT platform_posts_status_check CHECK (status IN ('pending', 'publishing', 'published', 'failed'));
@@ -0,0 +1,33 @@
+-- Scheduled post targets backfill
+-- Posts queued before targets were added only name their platforms, and the
+-- worker publishes to targets alone. Each such post that is still waiting to
+-- publish gets one target per platform it names: the user's first account
+-- cached for that platform, or the connection's own account where none is
+-- cached yet. Platforms the user has no connection for any more are left
+-- out; a post left with no targets fails like any other.
+
+WITH legacy_targets AS (
+    SELECT DISTINCT ON (post.id, platform.name)
+        post.id AS post_id,
+        platform.name AS platform,
+        connection.id AS connection_id,
+        COALESCE(account.account_id, connection.account_id, '') AS account_id
+    FROM scheduled_posts post
+    CROSS JOIN LATERAL unnest(post.platforms) AS platform(name)
+    JOIN platform_connections connection
+        ON connection.user_id = post.user_id AND connection.platform = platform.name
+    LEFT JOIN platform_accounts account ON account.connection_id = connection.id
+    WHERE post.targets = '[]'::jsonb
+        AND post.status IN ('scheduled', 'publishing', 'retrying')
+    ORDER BY post.id, platform.name, connection.created_at, account.created_at
+)
+UPDATE scheduled_posts
+SET targets = backfill.targets
+FROM (
+    SELECT
+        post_id,
+        jsonb_agg(jsonb_build_object('platform', platform, 'connectionId', connection_id, 'accountId', account_id)) AS targets
+    FROM legacy_targets
+    GROUP BY post_id
+) backfill
+WHERE scheduled_posts.id = backfill.post_id;
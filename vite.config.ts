@@ -1,22 +1,33 @@
-import { defineConfig } from "vite";
+import { defineConfig, loadEnv } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
 import { componentTagger } from "lovable-tagger";
+import { platformSandbox } from "./sandbox/platformSandbox";
 
 // https://vitejs.dev/config/
-export default defineConfig(({ mode }) => ({
-  server: {
-    host: "::",
-    port: 8080,
-  },
-  plugins: [
-    react(),
-    mode === 'development' &&
-    componentTagger(),
-  ].filter(Boolean),
-  resolve: {
-    alias: {
-      "@": path.resolve(__dirname, "./src"),
+export default defineConfig(({ mode }) => {
+  const env = loadEnv(mode, process.cwd(), "");
+
+  return {
+    server: {
+      host: "::",
+      port: 8080,
+    },
+    plugins: [
+      react(),
+      mode === 'development' &&
+      componentTagger(),
+      // Fake platform APIs for offline development; see README "Platform Sandbox"
+      env.VITE_PLATFORM_SANDBOX === 'true' &&
+      platformSandbox({
+        failures: env.PLATFORM_SANDBOX_FAILURES ? JSON.parse(env.PLATFORM_SANDBOX_FAILURES) : [],
+        latency: Number(env.PLATFORM_SANDBOX_LATENCY) || 0,
+      }),
+    ].filter(Boolean),
+    resolve: {
+      alias: {
+        "@": path.resolve(__dirname, "./src"),
+      },
     },
-  },
-}));
+  };
+});